@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useMemo } from "react";
 import {
   LayoutDashboard,
   Activity,
@@ -13,22 +13,32 @@ import {
   Server,
 } from "lucide-react";
 import { DashboardLayout, PageHeader, type NavSection } from "@/components/layout";
-import { Logo, LogoIcon, FadeIn, BracketCard } from "@/components/common";
+import { NetworkSelector } from "@/components/networks";
+import { Logo, LogoIcon, FadeIn, BracketCard, ExportMenu } from "@/components/common";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
-import { NETWORK_RPC_ENDPOINTS } from "@/contexts/NodesContext";
+import { useNetworks } from "@/contexts/NetworksContext";
 import {
   useNetworkHistory,
   useNetworkComparison,
   useHistoryStats,
+  useVersionLog,
   type HistoryPeriod,
 } from "@/lib/useHistoricalData";
+import { useLatencyDistribution } from "@/lib/useLatencyDistribution";
+import { networkSnapshotColumns } from "@/lib/export";
+import { useUrlState, enumParam, stringParam } from "@/lib/useUrlState";
 import {
   NetworkHealthChart,
   ResourceUsageChart,
   NetworkComparisonChart,
   StorageTrendChart,
+  LatencyDistributionChart,
+  LatencyByCountryTable,
+  VersionAdoptionChart,
+  RolloutTracker,
+  CapacityForecast,
 } from "@/components/analytics";
 
 // Navigation
@@ -58,12 +68,17 @@ const PERIOD_OPTIONS: { value: HistoryPeriod; label: string }[] = [
   { value: "30d", label: "30 Days" },
 ];
 
+// URL params for the view, so a network and period can be shared as a link
+const periodParam = enumParam(PERIOD_OPTIONS.map((option) => option.value));
+
 export default function AnalyticsPage() {
-  const [selectedNetwork, setSelectedNetwork] = useState("devnet1");
-  const [selectedPeriod, setSelectedPeriod] = useState<HistoryPeriod>("24h");
+  const [selectedNetwork, setSelectedNetwork] = useUrlState("network", "devnet1", stringParam);
+  const { networks: allNetworks, getNetwork } = useNetworks();
+  const [selectedPeriod, setSelectedPeriod] = useUrlState<HistoryPeriod>("period", "24h", periodParam);
 
   // Fetch network history for selected network
   const {
+    data: networkSnapshots,
     chartData,
     isLoading: networkLoading,
     refresh: refreshNetwork,
@@ -90,6 +105,21 @@ export default function AnalyticsPage() {
     period: selectedPeriod,
   });
 
+  // Latency percentiles from the dashboard's latest crawl of each network
+  const {
+    byNetwork: latencyByNetwork,
+    byCountry: latencyByCountry,
+    isLoading: latencyLoading,
+    refresh: refreshLatency,
+  } = useLatencyDistribution(allNetworks, selectedNetwork);
+
+  // Version changes per node, for rollout tracking
+  const {
+    log: versionLog,
+    isLoading: versionLogLoading,
+    refresh: refreshVersionLog,
+  } = useVersionLog({ network: selectedNetwork });
+
   const isLoading = networkLoading || comparisonLoading || statsLoading;
 
   // Calculate period stats from chartData (responds to period/network changes)
@@ -121,33 +151,10 @@ export default function AnalyticsPage() {
     refreshNetwork();
     refreshComparison();
     refreshStats();
+    refreshLatency();
+    refreshVersionLog();
   };
 
-  // Network selector
-  const NetworkSelector = () => (
-    <div className="flex flex-wrap items-center gap-2">
-      {NETWORK_RPC_ENDPOINTS.map((network) => (
-        <button
-          key={network.id}
-          onClick={() => setSelectedNetwork(network.id)}
-          className={cn(
-            "px-3 py-1.5 text-sm font-mono transition-all flex items-center gap-2 border",
-            selectedNetwork === network.id
-              ? "border-primary bg-primary/10 text-primary"
-              : "border-border bg-card text-muted-foreground hover:border-primary/50"
-          )}
-        >
-          <span
-            className={cn(
-              "w-2 h-2",
-              network.type === "mainnet" ? "bg-success" : "bg-[#F59E0B]"
-            )}
-          />
-          {network.name}
-        </button>
-      ))}
-    </div>
-  );
 
   // Period selector
   const PeriodSelector = () => (
@@ -174,7 +181,7 @@ export default function AnalyticsPage() {
 
   // Get current network label
   const currentNetworkLabel =
-    NETWORK_RPC_ENDPOINTS.find((n) => n.id === selectedNetwork)?.name ||
+    getNetwork(selectedNetwork)?.name ||
     selectedNetwork;
 
   return (
@@ -199,15 +206,22 @@ export default function AnalyticsPage() {
         <PageHeader
           title="Network Analytics"
           description="Historical data and performance trends"
-          actions={<NetworkSelector />}
+          actions={<NetworkSelector selectedNetwork={selectedNetwork} onSelect={setSelectedNetwork} />}
         />
       </FadeIn>
 
       {/* Period Selector */}
       <div className="flex justify-between items-center mb-6">
         <PeriodSelector />
-        <div className="text-xs text-muted-foreground font-mono">
-          Viewing: {currentNetworkLabel} / {selectedPeriod}
+        <div className="flex items-center gap-4">
+          <div className="text-xs text-muted-foreground font-mono">
+            Viewing: {currentNetworkLabel} / {selectedPeriod}
+          </div>
+          <ExportMenu
+            name={`${selectedNetwork}-history-${selectedPeriod}`}
+            rows={networkSnapshots}
+            columns={networkSnapshotColumns}
+          />
         </div>
       </div>
 
@@ -305,6 +319,18 @@ export default function AnalyticsPage() {
           >
             Network Comparison
           </TabsTrigger>
+          <TabsTrigger
+            value="latency"
+            className="data-[state=active]:bg-primary/10 data-[state=active]:text-primary font-mono text-xs"
+          >
+            Latency
+          </TabsTrigger>
+          <TabsTrigger
+            value="rollout"
+            className="data-[state=active]:bg-primary/10 data-[state=active]:text-primary font-mono text-xs"
+          >
+            Rollout
+          </TabsTrigger>
         </TabsList>
 
         {/* Network Health Tab */}
@@ -359,22 +385,40 @@ export default function AnalyticsPage() {
 
         {/* Storage Tab */}
         <TabsContent value="storage">
-          <BracketCard className="p-6 bg-card">
-            <div className="flex items-center justify-between mb-4">
-              <div>
+          <div className="space-y-6">
+            <BracketCard className="p-6 bg-card">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-light tracking-wide uppercase">
+                    Storage & Streams
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Total storage and active streams over time
+                  </p>
+                </div>
+              </div>
+              <StorageTrendChart
+                data={chartData?.storage || []}
+                isLoading={networkLoading || !chartData}
+              />
+            </BracketCard>
+
+            <BracketCard className="p-6 bg-card">
+              <div className="mb-4">
                 <h3 className="text-lg font-light tracking-wide uppercase">
-                  Storage & Streams
+                  Capacity Forecast
                 </h3>
                 <p className="text-sm text-muted-foreground">
-                  Total storage and active streams over time
+                  Projected storage and online nodes for {currentNetworkLabel}, with a 95% prediction band
                 </p>
               </div>
-            </div>
-            <StorageTrendChart
-              data={chartData?.storage || []}
-              isLoading={networkLoading || !chartData}
-            />
-          </BracketCard>
+              <CapacityForecast
+                data={networkSnapshots}
+                period={selectedPeriod}
+                isLoading={networkLoading}
+              />
+            </BracketCard>
+          </div>
         </TabsContent>
 
         {/* Comparison Tab */}
@@ -435,6 +479,79 @@ export default function AnalyticsPage() {
             </BracketCard>
           </div>
         </TabsContent>
+
+        {/* Latency Tab */}
+        <TabsContent value="latency">
+          <div className="space-y-6">
+            <BracketCard className="p-6 bg-card">
+              <div className="mb-4">
+                <h3 className="text-lg font-light tracking-wide uppercase">
+                  Latency by Network
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  P50 / P90 / P99 proxy-to-node round-trip time from the latest crawl of each network
+                </p>
+              </div>
+              <LatencyDistributionChart
+                data={latencyByNetwork.map((row) => ({
+                  ...row,
+                  label: getNetwork(row.network)?.name || row.network,
+                }))}
+                isLoading={latencyLoading}
+              />
+            </BracketCard>
+
+            <BracketCard className="p-6 bg-card">
+              <div className="mb-4">
+                <h3 className="text-lg font-light tracking-wide uppercase">
+                  Latency by Country
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Round-trip time percentiles per country for {currentNetworkLabel}
+                </p>
+              </div>
+              <LatencyByCountryTable
+                data={latencyByCountry}
+                isLoading={latencyLoading}
+              />
+            </BracketCard>
+          </div>
+        </TabsContent>
+
+        {/* Rollout Tab */}
+        <TabsContent value="rollout">
+          <div className="space-y-6">
+            <BracketCard className="p-6 bg-card">
+              <div className="mb-4">
+                <h3 className="text-lg font-light tracking-wide uppercase">
+                  Version Adoption
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Share of pods on each version over time for {currentNetworkLabel}
+                </p>
+              </div>
+              <VersionAdoptionChart
+                data={networkSnapshots}
+                isLoading={networkLoading}
+              />
+            </BracketCard>
+
+            <BracketCard className="p-6 bg-card">
+              <div className="mb-4">
+                <h3 className="text-lg font-light tracking-wide uppercase">
+                  Rollout Tracker
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  Time-to-upgrade per node and operator, and who is still on an older release
+                </p>
+              </div>
+              <RolloutTracker
+                log={versionLog}
+                isLoading={versionLogLoading && !versionLog}
+              />
+            </BracketCard>
+          </div>
+        </TabsContent>
       </Tabs>
 
       {/* Data Quality Notice */}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NETWORK_RPC_ENDPOINTS } from "@/lib/networks";
+import { readNetworkHistory } from "@/lib/historyStore";
+import {
+  COMPARISON_INTERVALS,
+  HISTORY_INTERVAL_MS,
+  HISTORY_PERIOD_MS,
+  bucketNetworkHistory,
+  isHistoryPeriod,
+  toComparisonData,
+} from "@/lib/historySamples";
+import type { ComparisonData } from "@/lib/useHistoricalData";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const periodParam = request.nextUrl.searchParams.get("period");
+  const period = isHistoryPeriod(periodParam) ? periodParam : "24h";
+  const interval = COMPARISON_INTERVALS[period];
+  const networks = NETWORK_RPC_ENDPOINTS.map(n => n.id);
+
+  try {
+    const since = Date.now() - HISTORY_PERIOD_MS[period];
+    const data: Record<string, ComparisonData[]> = {};
+    for (const network of networks) {
+      const snapshots = await readNetworkHistory(network, since);
+      data[network] = toComparisonData(bucketNetworkHistory(snapshots, HISTORY_INTERVAL_MS[interval]));
+    }
+    return NextResponse.json({ success: true, period, interval, networks, data });
+  } catch (error) {
+    console.error("[Charts] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
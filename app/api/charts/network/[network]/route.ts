@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isKnownNetwork } from "@/lib/networkCrawler";
+import { readNetworkHistory } from "@/lib/historyStore";
+import {
+  CHART_INTERVALS,
+  HISTORY_INTERVAL_MS,
+  HISTORY_PERIOD_MS,
+  bucketNetworkHistory,
+  isHistoryPeriod,
+  toNetworkChartData,
+} from "@/lib/historySamples";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ network: string }> }
+) {
+  const { network } = await params;
+  if (!isKnownNetwork(network)) {
+    return NextResponse.json({ error: `Invalid network: ${network}` }, { status: 400 });
+  }
+
+  const periodParam = request.nextUrl.searchParams.get("period");
+  const period = isHistoryPeriod(periodParam) ? periodParam : "24h";
+  const interval = CHART_INTERVALS[period];
+
+  try {
+    const snapshots = await readNetworkHistory(network, Date.now() - HISTORY_PERIOD_MS[period]);
+    const charts = toNetworkChartData(bucketNetworkHistory(snapshots, HISTORY_INTERVAL_MS[interval]));
+    return NextResponse.json({ success: true, network, period, interval, charts });
+  } catch (error) {
+    console.error("[Charts] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isKnownNetwork } from "@/lib/networkCrawler";
+import { readAvailabilityLog } from "@/lib/historyStore";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ network: string }> }
+) {
+  const { network } = await params;
+  if (!isKnownNetwork(network)) {
+    return NextResponse.json({ error: `Invalid network: ${network}` }, { status: 400 });
+  }
+
+  try {
+    const data = await readAvailabilityLog(network);
+    return NextResponse.json({ success: true, network, data });
+  } catch (error) {
+    console.error("[Availability] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
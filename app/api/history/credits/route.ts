@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readCreditSnapshots } from "@/lib/historyStore";
+import {
+  CREDIT_HISTORY_RETENTION_MS,
+  isCreditInterval,
+  podCreditSnapshots,
+  thinCreditSnapshots,
+} from "@/lib/podCredits";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const DEFAULT_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export async function GET(request: NextRequest) {
+  const sinceParam = Number(request.nextUrl.searchParams.get("since"));
+  const intervalParam = request.nextUrl.searchParams.get("interval");
+  const pubkey = request.nextUrl.searchParams.get("pubkey");
+  const since = Number.isFinite(sinceParam) && sinceParam > 0
+    ? Math.max(sinceParam, Date.now() - CREDIT_HISTORY_RETENTION_MS)
+    : Date.now() - DEFAULT_LOOKBACK_MS;
+  const interval = isCreditInterval(intervalParam) ? intervalParam : "1h";
+
+  try {
+    const snapshots = thinCreditSnapshots(await readCreditSnapshots(since), interval);
+    const data = pubkey ? podCreditSnapshots(snapshots, pubkey) : snapshots;
+    return NextResponse.json({ success: true, since, interval, count: data.length, data });
+  } catch (error) {
+    console.error("[Credits History] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
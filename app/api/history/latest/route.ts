@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NETWORK_RPC_ENDPOINTS } from "@/lib/networks";
+import { isKnownNetwork } from "@/lib/networkCrawler";
+import { readLatestSnapshot } from "@/lib/historyStore";
+import { toLatestNetworkData } from "@/lib/historySamples";
+import type { LatestNetworkData } from "@/lib/useHistoricalData";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const network = request.nextUrl.searchParams.get("network");
+  if (network && !isKnownNetwork(network)) {
+    return NextResponse.json({ error: `Invalid network: ${network}` }, { status: 400 });
+  }
+
+  try {
+    if (network) {
+      const snapshot = await readLatestSnapshot(network);
+      return NextResponse.json({ success: true, data: snapshot ? toLatestNetworkData(network, snapshot) : null });
+    }
+
+    const data: Record<string, LatestNetworkData> = {};
+    for (const { id } of NETWORK_RPC_ENDPOINTS) {
+      const snapshot = await readLatestSnapshot(id);
+      if (snapshot) data[id] = toLatestNetworkData(id, snapshot);
+    }
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("[History] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { readNodeHistory } from "@/lib/historyStore";
+import { HISTORY_PERIOD_MS, isHistoryPeriod } from "@/lib/historySamples";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const address = decodeURIComponent((await params).address);
+  const periodParam = request.nextUrl.searchParams.get("period");
+  const period = isHistoryPeriod(periodParam) ? periodParam : "24h";
+
+  try {
+    const data = await readNodeHistory(address, Date.now() - HISTORY_PERIOD_MS[period]);
+    return NextResponse.json({ success: true, address, period, count: data.length, data });
+  } catch (error) {
+    console.error("[History] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
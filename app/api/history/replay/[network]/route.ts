@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isKnownNetwork } from "@/lib/networkCrawler";
+import { readReplayFrames } from "@/lib/historyStore";
+import { HISTORY_PERIOD_MS } from "@/lib/historySamples";
+import { isReplayPeriod } from "@/lib/replay";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ network: string }> }
+) {
+  const { network } = await params;
+  if (!isKnownNetwork(network)) {
+    return NextResponse.json({ error: `Invalid network: ${network}` }, { status: 400 });
+  }
+
+  const periodParam = request.nextUrl.searchParams.get("period");
+  const period = isReplayPeriod(periodParam) ? periodParam : "24h";
+
+  try {
+    const data = await readReplayFrames(network, Date.now() - HISTORY_PERIOD_MS[period]);
+    return NextResponse.json({ success: true, network, period, count: data.length, data });
+  } catch (error) {
+    console.error("[Replay] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { NETWORK_RPC_ENDPOINTS } from "@/lib/networks";
+import { readNetworkHistory } from "@/lib/historyStore";
+import { HISTORY_PERIOD_MS, isHistoryPeriod, toLatestNetworkData } from "@/lib/historySamples";
+import type { AggregatedStats, LatestNetworkData } from "@/lib/useHistoricalData";
+
+// Reads the collector's files, so this route must run on the Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+export async function GET(request: NextRequest) {
+  const periodParam = request.nextUrl.searchParams.get("period");
+  const period = isHistoryPeriod(periodParam) ? periodParam : "24h";
+
+  try {
+    const since = Date.now() - HISTORY_PERIOD_MS[period];
+    const histories = await Promise.all(
+      NETWORK_RPC_ENDPOINTS.map(async network => ({
+        network: network.id,
+        snapshots: await readNetworkHistory(network.id, since),
+      }))
+    );
+    const recorded = histories.filter(h => h.snapshots.length > 0);
+
+    // Period averages per network, summed (counts, storage) or averaged (resources) across networks
+    const perNetwork = recorded.map(({ snapshots }) => ({
+      totalPods: average(snapshots.map(s => s.totalPods)),
+      online: average(snapshots.map(s => s.onlineNodes)),
+      offline: average(snapshots.map(s => s.offlineNodes)),
+      cpu: average(snapshots.map(s => s.avgCpu)),
+      ram: average(snapshots.map(s => s.avgRam)),
+      storage: average(snapshots.map(s => s.totalStorage)),
+    }));
+    const aggregated: AggregatedStats = {
+      totalPods: Math.round(perNetwork.reduce((acc, n) => acc + n.totalPods, 0)),
+      totalOnline: Math.round(perNetwork.reduce((acc, n) => acc + n.online, 0)),
+      totalOffline: Math.round(perNetwork.reduce((acc, n) => acc + n.offline, 0)),
+      avgCpuAllNetworks: Math.round(average(perNetwork.map(n => n.cpu)) * 100) / 100,
+      avgRamAllNetworks: Math.round(average(perNetwork.map(n => n.ram)) * 100) / 100,
+      totalStorageAllNetworks: Math.round(perNetwork.reduce((acc, n) => acc + n.storage, 0)),
+    };
+
+    const latest: LatestNetworkData[] = recorded.map(({ network, snapshots }) =>
+      toLatestNetworkData(network, snapshots[snapshots.length - 1])
+    );
+
+    return NextResponse.json({ success: true, period, aggregated, latest });
+  } catch (error) {
+    console.error("[History] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
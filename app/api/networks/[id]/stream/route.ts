@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isKnownNetwork, subscribeToNetwork, type NetworkStreamEvent } from "@/lib/networkCrawler";
+
+// The crawler keeps state in memory, so this route must run on a long-lived Node.js server
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Comment line sent periodically so proxies don't close an idle stream
+const KEEPALIVE_MS = 15000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  if (!isKnownNetwork(id)) {
+    return NextResponse.json({ error: `Unknown network: ${id}` }, { status: 404 });
+  }
+
+  const refresh = request.nextUrl.searchParams.get("refresh") === "1";
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: NetworkStreamEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      };
+
+      const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS);
+      const unsubscribe = subscribeToNetwork(id, send, { refresh });
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepalive);
+        unsubscribe?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,6 +1,5 @@
 import { NextResponse } from "next/server";
-
-const POD_CREDITS_API = "https://podcredits.xandeum.network/api/pods-credits";
+import { POD_CREDITS_API } from "@/lib/podCredits";
 
 export async function GET() {
   try {
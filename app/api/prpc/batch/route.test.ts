@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { BATCH_LIMITS, type PrpcBatchResult } from "@/lib/prpcBatch";
+
+const GOSSIP_IP = "173.212.203.145";
+const NODE = `http://${GOSSIP_IP}:6000/rpc`;
+
+// Calls in flight right now, and the most seen at once
+const inFlight = { now: 0, max: 0 };
+
+vi.mock("@/lib/prpcTransport", () => ({
+  loadRegistryPods: vi.fn(async () => [{ address: `${GOSSIP_IP}:9001` }]),
+  callJsonRpc: vi.fn(async (_url: string, method: string) => {
+    inFlight.now++;
+    inFlight.max = Math.max(inFlight.max, inFlight.now);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight.now--;
+    return { result: { method }, latencyMs: 5 };
+  }),
+}));
+
+import { POST } from "./route";
+import { callJsonRpc } from "@/lib/prpcTransport";
+
+function batchRequest(body: unknown, query = ""): NextRequest {
+  return new NextRequest(`http://localhost/api/prpc/batch${query}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const calls = (count: number, endpoint = NODE) =>
+  Array.from({ length: count }, (_, i) => ({ endpoint, method: "get-version", id: i }));
+
+async function readLines(response: Response): Promise<PrpcBatchResult[]> {
+  const text = await response.text();
+  return text.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+}
+
+describe("POST /api/prpc/batch", () => {
+  beforeEach(() => {
+    vi.mocked(callJsonRpc).mockClear();
+    inFlight.now = 0;
+    inFlight.max = 0;
+  });
+
+  it("streams one NDJSON line per call", async () => {
+    const response = await POST(batchRequest({ calls: calls(5) }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("application/x-ndjson");
+    const lines = await readLines(response);
+    expect(lines.map((line) => line.index).sort()).toEqual([0, 1, 2, 3, 4]);
+    expect(lines[0]).toMatchObject({ endpoint: NODE, method: "get-version", result: { method: "get-version" } });
+  });
+
+  it("keeps at most `concurrency` calls in flight", async () => {
+    await readLines(await POST(batchRequest({ calls: calls(12), concurrency: 3 })));
+    expect(inFlight.max).toBe(3);
+  });
+
+  it("clamps concurrency to the route's maximum", async () => {
+    await readLines(await POST(batchRequest({ calls: calls(BATCH_LIMITS.MAX_CONCURRENCY + 10), concurrency: 1000 })));
+    expect(inFlight.max).toBe(BATCH_LIMITS.MAX_CONCURRENCY);
+  });
+
+  it("clamps the per-call timeout", async () => {
+    await readLines(await POST(batchRequest({ calls: calls(1), timeoutMs: 10 })));
+    await readLines(await POST(batchRequest({ calls: calls(1) }, "?timeoutMs=999999")));
+    await readLines(await POST(batchRequest({ calls: calls(1) })));
+
+    const timeouts = vi.mocked(callJsonRpc).mock.calls.map(([, , options]) => options?.timeoutMs);
+    expect(timeouts).toEqual([500, BATCH_LIMITS.MAX_TIMEOUT_MS, BATCH_LIMITS.DEFAULT_TIMEOUT_MS]);
+  });
+
+  it("rejects batches over MAX_CALLS and malformed bodies with 400", async () => {
+    const tooMany = await POST(batchRequest({ calls: calls(BATCH_LIMITS.MAX_CALLS + 1) }));
+    expect(tooMany.status).toBe(400);
+    expect(await tooMany.json()).toEqual({ error: `Batch exceeds ${BATCH_LIMITS.MAX_CALLS} calls` });
+
+    expect((await POST(batchRequest({ calls: [] }))).status).toBe(400);
+    expect((await POST(batchRequest({ calls: [{ method: "get-version" }] }))).status).toBe(400);
+    expect((await POST(batchRequest({ endpoint: NODE }))).status).toBe(400);
+    expect(callJsonRpc).not.toHaveBeenCalled();
+  });
+
+  it("accepts a JSON-RPC 2.0 batch array", async () => {
+    const lines = await readLines(
+      await POST(
+        batchRequest([
+          { jsonrpc: "2.0", method: "get-version", id: "a", endpoint: NODE },
+          { jsonrpc: "2.0", method: "get-stats", id: "b", endpoint: NODE },
+        ])
+      )
+    );
+
+    expect(lines.map((line) => [line.id, line.method]).sort()).toEqual([
+      ["a", "get-version"],
+      ["b", "get-stats"],
+    ]);
+  });
+
+  it("denies disallowed endpoints inside a batch and runs the rest", async () => {
+    const lines = await readLines(
+      await POST(
+        batchRequest({
+          calls: [
+            { endpoint: "http://10.0.0.5:6000/rpc", method: "get-version" },
+            { endpoint: "http://8.8.8.8:6000/rpc", method: "get-version" },
+            { endpoint: NODE, method: "get-version" },
+          ],
+        })
+      )
+    );
+
+    const byIndex = new Map(lines.map((line) => [line.index, line]));
+    expect(byIndex.get(0)?.error).toMatchObject({ kind: "denied", code: "PRIVATE_ADDRESS" });
+    expect(byIndex.get(1)?.error).toMatchObject({ kind: "denied", code: "UNKNOWN_NODE" });
+    expect(byIndex.get(2)?.result).toEqual({ method: "get-version" });
+    expect(vi.mocked(callJsonRpc).mock.calls.map(([url]) => url)).toEqual([NODE]);
+  });
+
+  it("stops launching calls when the client cancels", async () => {
+    const response = await POST(batchRequest({ calls: calls(50), concurrency: 1 }));
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(vi.mocked(callJsonRpc).mock.calls.length).toBeLessThan(5);
+  });
+});
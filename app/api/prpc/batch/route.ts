@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkEndpoint } from "@/lib/prpcAllowlist";
+import { callJsonRpc, loadRegistryPods } from "@/lib/prpcTransport";
+import { BATCH_LIMITS, type PrpcCall, type PrpcBatchResult } from "@/lib/prpcBatch";
+
+interface NormalizedCall extends PrpcCall {
+  index: number;
+}
+
+interface JsonRpcBatchItem {
+  jsonrpc?: string;
+  method?: string;
+  params?: unknown;
+  id?: string | number;
+  endpoint?: string;
+}
+
+function clamp(value: unknown, fallback: number, min: number, max: number): number {
+  const n = typeof value === "string" ? parseInt(value, 10) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, Math.floor(n)));
+}
+
+// Accept either { calls, concurrency, timeoutMs } or a JSON-RPC 2.0 batch array
+// whose items carry an extra `endpoint` field
+function parseBody(
+  body: unknown,
+  searchParams: URLSearchParams
+): { calls: NormalizedCall[]; concurrency: number; timeoutMs: number } | { error: string } {
+  let rawCalls: Array<PrpcCall | JsonRpcBatchItem>;
+  let rawConcurrency: unknown = searchParams.get("concurrency");
+  let rawTimeout: unknown = searchParams.get("timeoutMs");
+
+  if (Array.isArray(body)) {
+    rawCalls = body;
+  } else if (body && typeof body === "object" && Array.isArray((body as { calls?: unknown }).calls)) {
+    const obj = body as { calls: PrpcCall[]; concurrency?: unknown; timeoutMs?: unknown };
+    rawCalls = obj.calls;
+    rawConcurrency = obj.concurrency ?? rawConcurrency;
+    rawTimeout = obj.timeoutMs ?? rawTimeout;
+  } else {
+    return { error: "Body must be { calls: [...] } or a JSON-RPC batch array" };
+  }
+
+  if (rawCalls.length === 0) {
+    return { error: "Batch is empty" };
+  }
+  if (rawCalls.length > BATCH_LIMITS.MAX_CALLS) {
+    return { error: `Batch exceeds ${BATCH_LIMITS.MAX_CALLS} calls` };
+  }
+
+  const calls: NormalizedCall[] = [];
+  for (let i = 0; i < rawCalls.length; i++) {
+    const call = rawCalls[i];
+    if (!call || typeof call.endpoint !== "string" || typeof call.method !== "string") {
+      return { error: `Call ${i} is missing endpoint or method` };
+    }
+    calls.push({ index: i, endpoint: call.endpoint, method: call.method, params: call.params, id: call.id });
+  }
+
+  return {
+    calls,
+    concurrency: clamp(rawConcurrency, BATCH_LIMITS.DEFAULT_CONCURRENCY, 1, BATCH_LIMITS.MAX_CONCURRENCY),
+    timeoutMs: clamp(rawTimeout, BATCH_LIMITS.DEFAULT_TIMEOUT_MS, 500, BATCH_LIMITS.MAX_TIMEOUT_MS),
+  };
+}
+
+async function runCall(call: NormalizedCall, timeoutMs: number): Promise<PrpcBatchResult> {
+  const base = { index: call.index, id: call.id ?? null, endpoint: call.endpoint, method: call.method };
+
+  const decision = await checkEndpoint(call.endpoint, loadRegistryPods);
+  if (!decision.allowed) {
+    return { ...base, error: { kind: "denied", code: decision.code, message: decision.reason } };
+  }
+
+  const { result, error, latencyMs } = await callJsonRpc(call.endpoint, call.method, {
+    params: call.params,
+    id: call.id ?? call.index,
+    timeoutMs,
+  });
+
+  return error ? { ...base, latencyMs, error } : { ...base, latencyMs, result };
+}
+
+export async function POST(request: NextRequest) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const parsed = parseBody(body, request.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const { calls, concurrency, timeoutMs } = parsed;
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let next = 0;
+
+      const emit = (line: PrpcBatchResult) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(line) + "\n"));
+        } catch {
+          closed = true;
+        }
+      };
+
+      // Close at most once; a cancelled stream is left to the runtime
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed or errored by the runtime
+        }
+      };
+
+      // Worker pool: each worker pulls the next call until the queue is drained
+      const worker = async () => {
+        while (next < calls.length && !closed && !request.signal.aborted) {
+          const call = calls[next++];
+          try {
+            emit(await runCall(call, timeoutMs));
+          } catch (error) {
+            emit({
+              index: call.index,
+              id: call.id ?? null,
+              endpoint: call.endpoint,
+              method: call.method,
+              error: { kind: "network", message: error instanceof Error ? error.message : "Call failed" },
+            });
+          }
+        }
+      };
+
+      const run = async () => {
+        try {
+          await Promise.all(Array.from({ length: Math.min(concurrency, calls.length) }, worker));
+        } finally {
+          close();
+        }
+      };
+
+      // Not awaited: results are enqueued as they finish
+      run().catch((error) => console.error("pRPC batch error:", error));
+    },
+    cancel() {
+      // Client went away - stop launching new calls
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+
+const GOSSIP_IP = "173.212.203.145";
+
+vi.mock("@/lib/prpcTransport", () => ({
+  loadRegistryPods: vi.fn(async () => [{ address: `${GOSSIP_IP}:9001` }]),
+  makeHttpRequest: vi.fn(async () => ({ data: { jsonrpc: "2.0", id: 1, result: { version: "0.8.0" } }, latencyMs: 12 })),
+}));
+
+import { POST } from "./route";
+import { makeHttpRequest } from "@/lib/prpcTransport";
+
+function prpcRequest(body: unknown): NextRequest {
+  return new NextRequest("http://localhost/api/prpc", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("POST /api/prpc", () => {
+  beforeEach(() => {
+    vi.mocked(makeHttpRequest).mockClear();
+  });
+
+  it("rejects a private endpoint with 403 and a structured error", async () => {
+    const response = await POST(prpcRequest({ endpoint: "http://127.0.0.1:6000/rpc", method: "get-version", id: 7 }));
+
+    expect(response.status).toBe(403);
+    const body = await response.json();
+    expect(body).toMatchObject({
+      jsonrpc: "2.0",
+      id: 7,
+      error: { kind: "denied", code: "PRIVATE_ADDRESS" },
+    });
+    expect(typeof body.error.message).toBe("string");
+    expect(makeHttpRequest).not.toHaveBeenCalled();
+  });
+
+  it("rejects a node that is not in gossip with 403", async () => {
+    const response = await POST(prpcRequest({ endpoint: "http://8.8.8.8:6000/rpc", method: "get-version" }));
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ id: null, error: { kind: "denied", code: "UNKNOWN_NODE" } });
+    expect(makeHttpRequest).not.toHaveBeenCalled();
+  });
+
+  it("rejects a malformed endpoint with 400", async () => {
+    const response = await POST(prpcRequest({ endpoint: "gopher://example.com", method: "get-version" }));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { kind: "denied", code: "INVALID_ENDPOINT" } });
+  });
+
+  it("forwards calls to a gossip node", async () => {
+    const response = await POST(prpcRequest({ endpoint: `http://${GOSSIP_IP}:6000/rpc`, method: "get-version" }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ result: { version: "0.8.0" } });
+    expect(makeHttpRequest).toHaveBeenCalledWith(
+      `http://${GOSSIP_IP}:6000/rpc`,
+      expect.objectContaining({ method: "get-version" })
+    );
+  });
+});
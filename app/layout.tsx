@@ -3,6 +3,8 @@ import { Geist } from "next/font/google";
 import localFont from "next/font/local";
 import { EmotionProvider } from "@/lib/emotion";
 import { NodesProvider } from "@/contexts/NodesContext";
+import { NetworksProvider } from "@/contexts/NetworksContext";
+import { AnnotationsProvider } from "@/contexts/AnnotationsContext";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -93,7 +95,11 @@ export default function RootLayout({
         className={`${geistSans.variable} ${shareTechMono.variable} antialiased`}
       >
         <EmotionProvider>
-          <NodesProvider>{children}</NodesProvider>
+          <NetworksProvider>
+            <AnnotationsProvider>
+              <NodesProvider>{children}</NodesProvider>
+            </AnnotationsProvider>
+          </NetworksProvider>
         </EmotionProvider>
       </body>
     </html>
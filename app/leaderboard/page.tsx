@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import {
   LayoutDashboard,
   Server,
@@ -11,7 +11,8 @@ import {
   BarChart3,
 } from "lucide-react";
 import { DashboardLayout, PageHeader, type NavSection } from "@/components/layout";
-import { Logo, LogoIcon, FadeIn, BracketCard } from "@/components/common";
+import { NetworkSelector } from "@/components/networks";
+import { Logo, LogoIcon, FadeIn, BracketCard, ExportMenu } from "@/components/common";
 import {
   LeaderboardTable,
   LeaderboardFilters,
@@ -20,18 +21,52 @@ import {
   type TimeRange,
 } from "@/components/leaderboard";
 import { NodeDetailPanel } from "@/components/dashboard";
+import { AddressBookDialog } from "@/components/annotations";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 import { getFavorites, toggleFavorite } from "@/lib/favorites";
-import { useNodes, NETWORK_RPC_ENDPOINTS, type NodeData } from "@/contexts/NodesContext";
+import { leaderboardExportColumns } from "@/lib/export";
+import { useAvailabilityLog, useCreditHistory, useRestartLog } from "@/lib/useHistoricalData";
+import { restartsByAddress } from "@/lib/restarts";
+import { availabilityByAddress, type AvailabilityWindow, type NodeAvailability } from "@/lib/availability";
+import {
+  CREDIT_PROJECTION_MS,
+  CREDIT_WINDOW_INTERVALS,
+  CREDIT_WINDOW_MS,
+  creditTrends,
+  rankCreditWindow,
+  type CreditTrend,
+} from "@/lib/podCredits";
+import { matchesAnnotation } from "@/lib/annotations";
+import { useUrlState, readUrlParam, setUrlParams, enumParam, stringParam, booleanParam, listParam } from "@/lib/useUrlState";
+import { useNodes, type NodeData } from "@/contexts/NodesContext";
+import { useNetworks } from "@/contexts/NetworksContext";
+import { useAnnotations } from "@/contexts/AnnotationsContext";
 
 interface LeaderboardEntry {
   node: NodeData;
   credits: number;
   rank: number;
+  // Versus the previous window; null when the node has no rank there
+  rankChange?: number | null;
+  trend?: CreditTrend;
+  availability?: NodeAvailability;
 }
 
+const TIME_RANGE_LABELS: Record<TimeRange, string> = {
+  "24h": "24H",
+  "7d": "7D",
+  "30d": "30D",
+  all: "All Time",
+};
+
+// URL params for the view, so a ranking or comparison can be shared as a link
+const timeRangeParam = enumParam<TimeRange>(["24h", "7d", "30d", "all"]);
+const NO_NODES: string[] = [];
+// Nodes that can be compared at once
+const MAX_COMPARE = 3;
+
 // Utility functions
 function formatBytes(bytes: number): string {
   if (bytes === 0) return "0 B";
@@ -82,21 +117,48 @@ export default function LeaderboardPage() {
     nodes,
     podCredits,
     isLoading,
+    lastUpdate,
     refreshData,
     refreshPodCredits,
   } = useNodes();
+  const { getNetwork } = useNetworks();
+
+  // Network named in the URL; without one the network shared with other pages is kept
+  const [networkParam, setNetworkParam] = useUrlState("network", "", stringParam);
+  const requestedNetworkRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // Read the location directly since networkParam is the default while hydrating
+    const network = readUrlParam("network");
+    if (!network || !getNetwork(network) || requestedNetworkRef.current === network) return;
+    requestedNetworkRef.current = network;
+    if (network !== selectedNetwork) setSelectedNetwork(network);
+  }, [networkParam, selectedNetwork, setSelectedNetwork, getNetwork]);
+
+  const handleNetworkChange = (networkId: string) => {
+    // Name the current network in this entry first, so going back returns to it
+    if (!readUrlParam("network")) setUrlParams({ network: selectedNetwork }, { replace: true });
+    setNetworkParam(networkId);
+  };
 
   // Favorites
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
 
   // Filters
-  const [timeRange, setTimeRange] = useState<TimeRange>("all");
+  const [timeRange, setTimeRange] = useUrlState("range", "all", timeRangeParam);
   const [searchQuery, setSearchQuery] = useState("");
-  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [showFavoritesOnly, setShowFavoritesOnly] = useUrlState("favorites", false, booleanParam);
+  const [tagFilter, setTagFilter] = useUrlState("tag", "all", stringParam);
+
+  // Private nicknames, tags and notes
+  const { getAnnotation, tags: annotationTags } = useAnnotations();
+  // Ordered by rank unless sorted by availability
+  const [availabilitySort, setAvailabilitySort] = useState<"asc" | "desc" | null>(null);
 
-  // Compare mode
-  const [compareMode, setCompareMode] = useState(false);
-  const [selectedForCompare, setSelectedForCompare] = useState<Set<string>>(new Set());
+  // Compare mode (selected pubkeys are kept in the URL)
+  const [compareMode, setCompareMode] = useUrlState("compare", false, booleanParam);
+  const [comparePubkeys, setComparePubkeys] = useUrlState("nodes", NO_NODES, listParam);
+  const selectedForCompare = useMemo(() => new Set(comparePubkeys.slice(0, MAX_COMPARE)), [comparePubkeys]);
 
   // Detail panel
   const [selectedNode, setSelectedNode] = useState<NodeData | null>(null);
@@ -127,37 +189,90 @@ export default function LeaderboardPage() {
 
   // Handle compare toggle
   const handleToggleCompare = (pubkey: string) => {
-    setSelectedForCompare(prev => {
-      const next = new Set(prev);
-      if (next.has(pubkey)) {
-        next.delete(pubkey);
-      } else if (next.size < 3) {
-        next.add(pubkey);
-      }
-      return next;
-    });
+    const next = new Set(selectedForCompare);
+    if (next.has(pubkey)) {
+      next.delete(pubkey);
+    } else if (next.size < MAX_COMPARE) {
+      next.add(pubkey);
+    }
+    setComparePubkeys(Array.from(next));
+  };
+
+  // Credit snapshots covering the selected window and the one before it
+  const creditWindow = timeRange === "all" ? null : timeRange;
+  const { snapshots: creditSnapshots, isLoading: creditHistoryLoading } = useCreditHistory({
+    lookbackMs: 2 * CREDIT_WINDOW_MS[creditWindow ?? "24h"],
+    interval: CREDIT_WINDOW_INTERVALS[creditWindow ?? "24h"],
+    enabled: creditWindow !== null,
+  });
+
+  const creditRanking = useMemo(() => {
+    if (!creditWindow) return null;
+    const pubkeys = nodes.flatMap(node => (node.pubkey ? [node.pubkey] : []));
+    return rankCreditWindow(creditSnapshots, podCredits, pubkeys, creditWindow);
+  }, [creditWindow, creditSnapshots, podCredits, nodes]);
+
+  // Earning rates and projected ranks, fit to the last 7 days
+  const { snapshots: trendSnapshots } = useCreditHistory({
+    lookbackMs: CREDIT_PROJECTION_MS,
+    interval: "6h",
+  });
+
+  const trends = useMemo(() => {
+    const pubkeys = nodes.flatMap(node => (node.pubkey ? [node.pubkey] : []));
+    return creditTrends(trendSnapshots, podCredits, pubkeys);
+  }, [trendSnapshots, podCredits, nodes]);
+
+  // Availability and restarts from the observed history, reloaded after every crawl
+  const { log: availabilityLog, refresh: refreshAvailability } = useAvailabilityLog({ network: selectedNetwork });
+  const { log: restartLog, refresh: refreshRestarts } = useRestartLog({ network: selectedNetwork });
+  useEffect(() => {
+    if (!lastUpdate) return;
+    refreshAvailability();
+    refreshRestarts();
+  }, [lastUpdate, refreshAvailability, refreshRestarts]);
+  const availability = useMemo(() => availabilityByAddress(availabilityLog), [availabilityLog]);
+  const restarts = useMemo(() => restartsByAddress(restartLog), [restartLog]);
+  const availabilityWindow: AvailabilityWindow = creditWindow ?? "30d";
+
+  // Best first, then worst first, then back to rank order
+  const handleSortAvailability = () => {
+    setAvailabilitySort(availabilitySort === null ? "desc" : availabilitySort === "desc" ? "asc" : null);
   };
 
   // Build leaderboard entries
   const leaderboardEntries = useMemo(() => {
-    // Filter and sort by credits
-    let filtered = nodes
+    // Filter and sort by credits (earned in the window, or in total)
+    let filtered: LeaderboardEntry[] = nodes
       .filter(node => node.pubkey) // Only nodes with pubkey
       .map(node => ({
         node,
-        credits: node.pubkey ? (podCredits.get(node.pubkey) || 0) : 0,
+        credits: node.pubkey
+          ? (creditRanking ? creditRanking.earned.get(node.pubkey) : podCredits.get(node.pubkey)) || 0
+          : 0,
         rank: 0,
+        trend: node.pubkey ? trends.get(node.pubkey) : undefined,
+        availability: availability.get(node.address),
       }))
       .sort((a, b) => b.credits - a.credits);
 
     // Assign ranks
-    filtered = filtered.map((entry, idx) => ({ ...entry, rank: idx + 1 }));
+    filtered = filtered.map((entry, idx) => {
+      const rank = idx + 1;
+      if (!creditRanking) return { ...entry, rank };
+      const previousRank = creditRanking.previousRanks.get(entry.node.pubkey!);
+      return { ...entry, rank, rankChange: previousRank !== undefined ? previousRank - rank : null };
+    });
 
     // Apply filters
     if (showFavoritesOnly) {
       filtered = filtered.filter(e => e.node.pubkey && favorites.has(e.node.pubkey));
     }
 
+    if (tagFilter !== "all") {
+      filtered = filtered.filter(e => getAnnotation(e.node)?.tags.includes(tagFilter));
+    }
+
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
       filtered = filtered.filter(e =>
@@ -165,12 +280,26 @@ export default function LeaderboardPage() {
         e.node.address.toLowerCase().includes(query) ||
         e.node.pubkey?.toLowerCase().includes(query) ||
         e.node.location?.city.toLowerCase().includes(query) ||
-        e.node.location?.country.toLowerCase().includes(query)
+        e.node.location?.country.toLowerCase().includes(query) ||
+        matchesAnnotation(getAnnotation(e.node), query)
       );
     }
 
+    if (availabilitySort) {
+      // Nodes without availability in the window always sort last
+      const direction = availabilitySort === "asc" ? 1 : -1;
+      filtered = [...filtered].sort((a, b) => {
+        const aPercent = a.availability?.percent[availabilityWindow] ?? null;
+        const bPercent = b.availability?.percent[availabilityWindow] ?? null;
+        if (aPercent === bPercent) return a.rank - b.rank;
+        if (aPercent === null) return 1;
+        if (bPercent === null) return -1;
+        return direction * (aPercent - bPercent);
+      });
+    }
+
     return filtered;
-  }, [nodes, podCredits, showFavoritesOnly, favorites, searchQuery]);
+  }, [nodes, podCredits, creditRanking, trends, availability, availabilityWindow, availabilitySort, showFavoritesOnly, favorites, tagFilter, getAnnotation, searchQuery]);
 
   // Get entries for comparison
   const comparisonEntries = useMemo(() => {
@@ -180,27 +309,8 @@ export default function LeaderboardPage() {
   // Stats
   const totalCredits = leaderboardEntries.reduce((sum, e) => sum + e.credits, 0);
   const topNode = leaderboardEntries[0];
+  const creditsLabel = creditWindow ? `Earned (${TIME_RANGE_LABELS[timeRange]})` : "Credits";
 
-  // Network selector
-  const NetworkSelector = () => (
-    <div className="flex flex-wrap items-center gap-2">
-      {NETWORK_RPC_ENDPOINTS.map((network) => (
-        <button
-          key={network.id}
-          onClick={() => setSelectedNetwork(network.id)}
-          className={cn(
-            "px-3 py-1.5 text-sm font-mono transition-all flex items-center gap-2 border",
-            selectedNetwork === network.id
-              ? "border-primary bg-primary/10 text-primary"
-              : "border-border bg-card text-muted-foreground hover:border-primary/50"
-          )}
-        >
-          <span className={cn("w-2 h-2", network.type === "mainnet" ? "bg-success" : "bg-[#F59E0B]")} />
-          {network.name}
-        </button>
-      ))}
-    </div>
-  );
 
   return (
     <DashboardLayout
@@ -223,8 +333,10 @@ export default function LeaderboardPage() {
       <FadeIn animateOnMount>
         <PageHeader
           title="Reputation Leaderboard"
-          description="Nodes ranked by their reputation credits"
-          actions={<NetworkSelector />}
+          description={creditWindow
+            ? `Nodes ranked by reputation credits earned in the last ${TIME_RANGE_LABELS[timeRange]}`
+            : "Nodes ranked by their reputation credits"}
+          actions={<NetworkSelector selectedNetwork={selectedNetwork} onSelect={handleNetworkChange} />}
         />
       </FadeIn>
 
@@ -242,7 +354,9 @@ export default function LeaderboardPage() {
               <RankBadge rank={1} size="md" />
               <div>
                 <p className="font-mono font-medium">{topNode.node.label}</p>
-                <p className="text-sm text-success font-mono">{topNode.credits.toLocaleString()} credits</p>
+                <p className="text-sm text-success font-mono">
+                  {topNode.credits.toLocaleString()} credits{creditWindow && ` in ${TIME_RANGE_LABELS[timeRange]}`}
+                </p>
               </div>
             </div>
           ) : (
@@ -265,7 +379,9 @@ export default function LeaderboardPage() {
         <BracketCard className="p-4 bg-card">
           <div className="flex items-center gap-2 mb-2">
             <Activity className="w-4 h-4 text-success" />
-            <span className="text-xs uppercase tracking-widest text-muted-foreground">Total Credits</span>
+            <span className="text-xs uppercase tracking-widest text-muted-foreground">
+              {creditWindow ? `Credits Earned (${TIME_RANGE_LABELS[timeRange]})` : "Total Credits"}
+            </span>
           </div>
           {isLoading ? (
             <Skeleton className="h-8 w-24" />
@@ -286,14 +402,35 @@ export default function LeaderboardPage() {
         compareMode={compareMode}
         setCompareMode={setCompareMode}
         selectedCount={selectedForCompare.size}
+        tagFilter={tagFilter}
+        setTagFilter={setTagFilter}
+        tags={annotationTags}
       />
 
       {/* Results count */}
-      <p className="text-sm text-muted-foreground mb-4 font-mono">
-        Showing {leaderboardEntries.length} nodes
-        {showFavoritesOnly && " (favorites only)"}
-        {searchQuery && ` matching "${searchQuery}"`}
-      </p>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <p className="text-sm text-muted-foreground font-mono">
+          Showing {leaderboardEntries.length} nodes
+          {showFavoritesOnly && " (favorites only)"}
+          {tagFilter !== "all" && ` tagged #${tagFilter}`}
+          {searchQuery && ` matching "${searchQuery}"`}
+          {creditRanking && !creditHistoryLoading && !creditRanking.complete && (
+            <span className="block text-xs">
+              {creditRanking.since
+                ? `Credit history starts ${new Date(creditRanking.since).toLocaleString()}, so this ranking covers less than ${TIME_RANGE_LABELS[timeRange]}.`
+                : "No credit history recorded yet, so nodes are ranked by total credits."}
+            </span>
+          )}
+        </p>
+        <div className="flex items-center gap-2">
+          <AddressBookDialog />
+          <ExportMenu
+            name={`${selectedNetwork}-leaderboard`}
+            rows={leaderboardEntries}
+            columns={leaderboardExportColumns(favorites, timeRange, getAnnotation)}
+          />
+        </div>
+      </div>
 
       {/* Leaderboard Table */}
       {isLoading ? (
@@ -322,6 +459,11 @@ export default function LeaderboardPage() {
           selectedForCompare={selectedForCompare}
           onToggleCompare={handleToggleCompare}
           formatUptime={formatUptime}
+          creditsLabel={creditsLabel}
+          availabilityWindow={availabilityWindow}
+          availabilitySort={availabilitySort}
+          onSortAvailability={handleSortAvailability}
+          getAnnotation={getAnnotation}
         />
       )}
 
@@ -334,6 +476,8 @@ export default function LeaderboardPage() {
           formatUptime={formatUptime}
           formatTimestamp={formatTimestamp}
           credits={selectedNode.pubkey ? podCredits.get(selectedNode.pubkey) : undefined}
+          availability={availability.get(selectedNode.address)}
+          restarts={restarts.get(selectedNode.address)}
         />
       )}
 
@@ -341,17 +485,8 @@ export default function LeaderboardPage() {
       {compareMode && comparisonEntries.length > 0 && (
         <ComparisonPanel
           entries={comparisonEntries}
-          onClose={() => {
-            setCompareMode(false);
-            setSelectedForCompare(new Set());
-          }}
-          onRemove={(pubkey) => {
-            setSelectedForCompare(prev => {
-              const next = new Set(prev);
-              next.delete(pubkey);
-              return next;
-            });
-          }}
+          onClose={() => setUrlParams({ compare: null, nodes: null })}
+          onRemove={(pubkey) => setComparePubkeys(comparePubkeys.filter(p => p !== pubkey))}
           formatBytes={formatBytes}
           formatUptime={formatUptime}
         />
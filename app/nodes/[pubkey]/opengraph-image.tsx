@@ -0,0 +1,111 @@
+import { ImageResponse } from "next/og";
+import { lookupNode } from "@/lib/nodeLookup";
+import { NETWORK_RPC_ENDPOINTS } from "@/lib/networks";
+import { HEALTH_COLORS, HEALTH_LABELS, nodeHealth } from "@/lib/nodeHealth";
+
+export const alt = "pNode status";
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B";
+  const k = 1024;
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+}
+
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+export default async function Image({ params }: { params: Promise<{ pubkey: string }> }) {
+  const key = decodeURIComponent((await params).pubkey);
+  const found = await lookupNode(key);
+  const node = found?.node;
+  const health = node ? nodeHealth(node) : null;
+  const networkName = found
+    ? NETWORK_RPC_ENDPOINTS.find((n) => n.id === found.networkId)?.name ?? found.networkId
+    : null;
+  const version = node?.version?.version || node?.registryVersion;
+
+  const stats: Array<[string, string]> = node?.stats
+    ? [
+        ["CPU", `${node.stats.cpu_percent.toFixed(1)}%`],
+        ["RAM", `${((node.stats.ram_used / (node.stats.ram_total || 1)) * 100).toFixed(1)}%`],
+        ["Storage", formatBytes(node.stats.file_size)],
+        ["Uptime", formatUptime(node.stats.uptime)],
+      ]
+    : [];
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 64,
+          background: "#0A0A0A",
+          color: "#FAFAFA",
+          fontFamily: "monospace",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", fontSize: 28, color: "#A1A1AA" }}>
+          <span>XNODE · pNode</span>
+          {networkName && <span>{networkName}</span>}
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 16 }}>
+          <div style={{ fontSize: 64, fontWeight: 700 }}>{node?.label ?? "Unknown node"}</div>
+          <div style={{ fontSize: 26, color: "#A1A1AA", wordBreak: "break-all" }}>
+            {node?.pubkey ?? node?.address ?? key}
+          </div>
+          <div style={{ display: "flex", alignItems: "center", gap: 24, fontSize: 36 }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+              <div
+                style={{
+                  width: 24,
+                  height: 24,
+                  borderRadius: 12,
+                  background: health ? HEALTH_COLORS[health] : "#6b7280",
+                }}
+              />
+              <span style={{ color: health ? HEALTH_COLORS[health] : "#A1A1AA" }}>
+                {health ? HEALTH_LABELS[health] : "Not crawled yet"}
+              </span>
+            </div>
+            {version && <span style={{ color: "#A1A1AA" }}>v{version}</span>}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 24 }}>
+          {stats.map(([label, value]) => (
+            <div
+              key={label}
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                flex: 1,
+                padding: 24,
+                border: "1px solid #27272A",
+                background: "#111111",
+              }}
+            >
+              <span style={{ fontSize: 22, color: "#A1A1AA" }}>{label}</span>
+              <span style={{ fontSize: 40 }}>{value}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
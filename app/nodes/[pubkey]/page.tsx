@@ -0,0 +1,59 @@
+import { cache } from "react";
+import type { Metadata } from "next";
+import { NodeProfile } from "@/components/nodes";
+import { lookupNode } from "@/lib/nodeLookup";
+import { NETWORK_RPC_ENDPOINTS } from "@/lib/networks";
+import { HEALTH_LABELS, nodeHealth } from "@/lib/nodeHealth";
+import { nodePath } from "@/lib/nodeLinks";
+
+interface NodePageProps {
+  params: Promise<{ pubkey: string }>;
+  searchParams: Promise<{ network?: string | string[] }>;
+}
+
+// Metadata and the page share one lookup per request
+const findNode = cache(lookupNode);
+
+// Pubkey, or address for nodes without one
+async function nodeKeyFrom(params: NodePageProps["params"]): Promise<string> {
+  const { pubkey } = await params;
+  return decodeURIComponent(pubkey);
+}
+
+export async function generateMetadata({ params }: NodePageProps): Promise<Metadata> {
+  const key = await nodeKeyFrom(params);
+  const found = await findNode(key);
+  if (!found) {
+    return {
+      title: `Node ${key} | Xnode`,
+      description: `Status, stats and history of Xandeum pNode ${key}.`,
+    };
+  }
+
+  const { node, networkId } = found;
+  const health = nodeHealth(node);
+  const networkName = NETWORK_RPC_ENDPOINTS.find((n) => n.id === networkId)?.name ?? networkId;
+  const title = `${node.label} (${health ? HEALTH_LABELS[health] : "Checking"}) | Xnode`;
+  const description = [
+    `pNode ${node.address} on ${networkName}`,
+    node.version?.version || node.registryVersion ? `v${node.version?.version || node.registryVersion}` : null,
+    node.stats ? `CPU ${node.stats.cpu_percent.toFixed(1)}%` : null,
+  ].filter(Boolean).join(" · ");
+
+  // The opengraph-image route next to this page supplies the preview image
+  return {
+    title,
+    description,
+    alternates: { canonical: nodePath(node, networkId) },
+    openGraph: { title, description, url: nodePath(node, networkId) },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+export default async function NodePage({ params, searchParams }: NodePageProps) {
+  const key = await nodeKeyFrom(params);
+  // The link names the network; custom networks are only known to the browser
+  const { network } = await searchParams;
+  if (typeof network === "string" && network) return <NodeProfile nodeKey={key} network={network} />;
+  return <NodeProfile nodeKey={key} network={(await findNode(key))?.networkId} />;
+}
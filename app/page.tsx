@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import {
   LayoutDashboard,
   Activity,
@@ -14,107 +14,30 @@ import {
   BarChart3,
 } from "lucide-react";
 import { DashboardLayout, PageHeader, ContentSection, type NavSection } from "@/components/layout";
-import { Logo, LogoIcon, DotDivider, BracketCard } from "@/components/common";
+import { NetworkSelector, RegistryEndpointStatus } from "@/components/networks";
+import { Logo, LogoIcon, DotDivider, BracketCard, ExportMenu } from "@/components/common";
 import { FadeIn, Stagger, StaggerItem, ScaleOnHover } from "@/components/common";
-import { NodeCard, NodeDetailPanel, NodeFilters, NetworkStats } from "@/components/dashboard";
+import { NodeCard, NodeDetailPanel, NodeFilters, NetworkStats, GossipDiscoveryPanel, CrawlProgressIndicator } from "@/components/dashboard";
+import { AnnotationTags, AddressBookDialog } from "@/components/annotations";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
-import { batchGeolocate } from "@/lib/geolocation";
-import { getFromDB, setToDB, getAllFromDB, STORES, CACHE_TTL, cacheKeys } from "@/lib/indexedDB";
-import { PROXY_URL, USE_PROXY, proxyEndpoints } from "@/lib/proxyConfig";
-import { useNodes as useNodesContext, NETWORK_RPC_ENDPOINTS as NETWORK_ENDPOINTS } from "@/contexts/NodesContext";
-
-// Types based on pRPC API documentation
-interface VersionResponse {
-  version: string;
-}
-
-interface StatsResponse {
-  active_streams: number;
-  cpu_percent: number;
-  current_index: number;
-  file_size: number;
-  last_updated: number;
-  packets_received: number;
-  packets_sent: number;
-  ram_total: number;
-  ram_used: number;
-  total_bytes: number;
-  total_pages: number;
-  uptime: number;
-}
-
-interface Pod {
-  address: string;
-  version: string;
-  last_seen?: string;
-  last_seen_timestamp: number;
-  pubkey?: string | null;
-}
-
-interface PodsResponse {
-  pods: Pod[];
-  total_count: number;
-}
-
-interface NodeData {
-  ip: string;
-  address: string;
-  label: string;
-  pubkey: string | null;
-  registryVersion: string;
-  status: "online" | "offline" | "loading";
-  version?: VersionResponse;
-  stats?: StatsResponse;
-  pods?: PodsResponse;
-  error?: string;
-  lastFetched?: number;
-  location?: {
-    city: string;
-    country: string;
-    countryCode?: string;
-  };
-}
-
-// Network RPC endpoints for fetching pods
-interface NetworkConfig {
-  id: string;
-  name: string;
-  rpcUrl: string;
-  type: "devnet" | "mainnet";
-}
-
-const NETWORK_RPC_ENDPOINTS: NetworkConfig[] = [
-  { id: "devnet1", name: "Devnet 1", rpcUrl: "https://rpc1.pchednode.com/rpc", type: "devnet" },
-  { id: "devnet2", name: "Devnet 2", rpcUrl: "https://rpc2.pchednode.com/rpc", type: "devnet" },
-  { id: "mainnet1", name: "Mainnet 1", rpcUrl: "https://rpc3.pchednode.com/rpc", type: "mainnet" },
-  { id: "mainnet2", name: "Mainnet 2", rpcUrl: "https://rpc4.pchednode.com/rpc", type: "mainnet" },
-];
-
-interface NetworkPod {
-  address: string;
-  last_seen_timestamp: number;
-  pubkey: string | null;
-  version: string;
-}
-
-interface NetworkPodsResponse {
-  pods: NetworkPod[];
-  total_count: number;
-}
-
-// Pod Credits API types
-interface PodCredit {
-  pod_id: string;
-  credits: number;
-}
-
-interface PodCreditsResponse {
-  pods_credits: PodCredit[];
-  status: string;
-}
+import { useVisibleNodes } from "@/lib/useVisibleNodes";
+import { describePrpcError } from "@/lib/prpcErrors";
+import { formatLatency } from "@/lib/latency";
+import { availabilityByAddress } from "@/lib/availability";
+import { restartsByAddress } from "@/lib/restarts";
+import { useAvailabilityLog, useRestartLog } from "@/lib/useHistoricalData";
+import { nodeExportColumns } from "@/lib/export";
+import { nodeHealth, matchesStatusFilter, countHealth, HEALTH_COLORS, type StatusFilter } from "@/lib/nodeHealth";
+import { registryEndpoints } from "@/lib/networks";
+import { nodeDisplayName, matchesAnnotation } from "@/lib/annotations";
+import { useUrlState, readUrlParam, enumParam, stringParam, booleanParam, type UrlParamCodec } from "@/lib/useUrlState";
+import { discoverFromGossip, peerSightings } from "@/lib/gossip";
+import { useNodes, type NodeData } from "@/contexts/NodesContext";
+import { useNetworks } from "@/contexts/NetworksContext";
+import { useAnnotations } from "@/contexts/AnnotationsContext";
 
 // Utility functions
 function formatBytes(bytes: number): string {
@@ -157,620 +80,120 @@ const navSections: NavSection[] = [
   },
 ];
 
-export default function Home() {
-  // Selected network
-  const [selectedNetwork, setSelectedNetwork] = useState<string>("devnet1");
-
-  // Pods list from registry
-  const [registryPods, setRegistryPods] = useState<NetworkPod[]>([]);
-  const [registryStatus, setRegistryStatus] = useState<"loading" | "success" | "error">("loading");
-  const [registryError, setRegistryError] = useState<string | null>(null);
-
-  // Nodes data (fetched from individual pods)
-  const [nodes, setNodes] = useState<NodeData[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [selectedNode, setSelectedNode] = useState<string | null>(null);
-  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
-  const [isCached, setIsCached] = useState(false);
-
-  // Pod Credits data
-  const [podCredits, setPodCredits] = useState<Map<string, number>>(new Map());
-  const [podCreditsLoading, setPodCreditsLoading] = useState(false);
-
-  // View and filter state
-  const [viewMode, setViewMode] = useState<"card" | "table">("card");
-  const [statusFilter, setStatusFilter] = useState<"all" | "online" | "offline">("all");
-  const [versionFilter, setVersionFilter] = useState<string>("all");
-  const [searchQuery, setSearchQuery] = useState("");
-
-  // Sort state
-  type SortColumn = "label" | "location" | "status" | "version" | "cpu" | "ram" | "storage" | "uptime" | "streams" | "credits";
-  const [sortColumn, setSortColumn] = useState<SortColumn | null>(null);
-  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
-
-  // Geolocation data
-  const [geolocations, setGeolocations] = useState<Map<string, { lat: number; lng: number; city: string; country: string; countryCode: string; region: string }>>(new Map());
-
-  // Track loaded nodes count to avoid recalculating in dependency
-  const loadedNodesCount = useMemo(() =>
-    nodes.filter(n => n.status !== 'loading').length
-  , [nodes]);
-
-  // Fetch geolocation data when loaded nodes change
-  const lastGeoFetchRef = useRef<number>(0);
-
-  useEffect(() => {
-    const loadedNodes = nodes.filter(n => n.status !== 'loading');
-    if (loadedNodes.length === 0) return;
-
-    // Debounce: only fetch if 2 seconds have passed since last fetch
-    const now = Date.now();
-    if (now - lastGeoFetchRef.current < 2000) return;
-    lastGeoFetchRef.current = now;
-
-    const ipAddresses = loadedNodes.map(n => n.address.split(':')[0]);
-
-    batchGeolocate(ipAddresses).then(results => {
-      setGeolocations(results);
-
-      // Update nodes with location data
-      setNodes(prev => prev.map(node => {
-        const ip = node.address.split(':')[0];
-        const geo = results.get(ip);
-
-        if (geo && !node.location) {
-          return {
-            ...node,
-            location: {
-              city: geo.city,
-              country: geo.country,
-              countryCode: geo.countryCode,
-            }
-          };
-        }
-        return node;
-      }));
-    });
-  }, [loadedNodesCount]); // Use memoized count instead of inline filter
-
-  // Get current network config
-  const currentNetwork = NETWORK_RPC_ENDPOINTS.find(n => n.id === selectedNetwork)!;
-
-  const callApi = async (
-    ip: string,
-    method: string
-  ): Promise<{ result?: unknown; error?: string }> => {
-    try {
-      const endpoint = `http://${ip}:6000/rpc`;
-
-      const response = await fetch("/api/prpc", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          endpoint,
-          method,
-        }),
-      });
-
-      if (!response.ok) {
-        return { error: `HTTP ${response.status}: ${response.statusText}` };
-      }
-
-      const data = await response.json();
-
-      if (data.error) return { error: data.error };
-      // JSON-RPC response has result in data.result
-      return { result: data.result };
-    } catch (e) {
-      return { error: e instanceof Error ? e.message : "Unknown error" };
-    }
-  };
-
-  // Call RPC endpoint - use external proxy if configured, otherwise try direct/fallback
-  const callRpcEndpoint = useCallback(async (
-    rpcUrl: string,
-    method: string
-  ): Promise<{ result?: unknown; error?: string }> => {
-    // If external proxy is configured, use it (bypasses Cloudflare)
-    if (USE_PROXY && PROXY_URL) {
-      try {
-        const response = await fetch(proxyEndpoints.rpc(), {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ endpoint: rpcUrl, method }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          if (data.result) {
-            return { result: data.result };
-          }
-          if (data.error) {
-            return { error: data.error };
-          }
-        }
-      } catch (e) {
-        // External proxy failed, continue to fallback
-      }
-    }
-
-    const payload = {
-      jsonrpc: "2.0",
-      method: method,
-      id: 1,
-    };
-
-    // Try direct fetch from browser (can bypass Cloudflare JS challenge)
-    try {
-      const response = await fetch(rpcUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.result) {
-          return { result: data.result };
-        }
-        if (data.error) {
-          return { error: data.error };
-        }
-      }
-    } catch {
-      // Direct fetch failed (CORS or network error), try local proxy
-    }
-
-    // Fallback to local server proxy
-    try {
-      const response = await fetch("/api/prpc", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          endpoint: rpcUrl,
-          method,
-        }),
-      });
-
-      if (!response.ok) {
-        return { error: `HTTP ${response.status}` };
-      }
-
-      const data = await response.json();
-
-      if (data.error) return { error: data.error };
-      return { result: data.result };
-    } catch (e) {
-      return { error: e instanceof Error ? e.message : "Unknown error" };
-    }
-  }, []);
-
-  // Fetch Pod Credits via local API proxy
-  const fetchPodCredits = useCallback(async () => {
-    setPodCreditsLoading(true);
-    try {
-      const response = await fetch("/api/pod-credits");
-      if (!response.ok) {
-        return;
-      }
-
-      const data: PodCreditsResponse = await response.json();
-      if (data.status === "success" && data.pods_credits) {
-        const creditsMap = new Map<string, number>();
-        data.pods_credits.forEach(pc => {
-          creditsMap.set(pc.pod_id, pc.credits);
-        });
-        setPodCredits(creditsMap);
-      }
-    } catch (e) {
-    } finally {
-      setPodCreditsLoading(false);
-    }
-  }, []);
-
-  // Load cached node data for a list of pods from IndexedDB
-  const loadCachedNodes = useCallback(async (pods: NetworkPod[]): Promise<NodeData[]> => {
-    // Get all cached nodes at once for better performance
-    const cachedNodes = await getAllFromDB<NodeData>(STORES.NODES);
-
-    return pods.map((pod, idx) => {
-      const cacheKey = cacheKeys.nodeData(pod.address);
-      const cached = cachedNodes.get(cacheKey);
-      if (cached && cached.status !== 'loading') {
-        return cached;
-      }
-      return {
-        ip: pod.address.split(":")[0],
-        address: pod.address,
-        label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${idx + 1}`,
-        pubkey: pod.pubkey,
-        registryVersion: pod.version,
-        status: "loading" as const,
-      };
-    });
-  }, []);
-
-  // Fetch pods from selected network registry
-  const fetchRegistryPods = useCallback(async (networkId: string, skipCache: boolean = false) => {
-    const network = NETWORK_RPC_ENDPOINTS.find(n => n.id === networkId);
-    if (!network) return;
-
-    setRegistryError(null);
-    setSelectedNode(null);
-
-    // Try loading from IndexedDB cache first for instant display
-    if (!skipCache) {
-      try {
-        const cachedPods = await getFromDB<NetworkPod[]>(STORES.REGISTRY, cacheKeys.registryPods(networkId));
-        if (cachedPods && cachedPods.length > 0) {
-          setRegistryPods(cachedPods);
-          setRegistryStatus("success");
-          setIsCached(true);
-          // Load cached node data from IndexedDB
-          try {
-            const cachedNodes = await loadCachedNodes(cachedPods);
-            setNodes(cachedNodes);
-
-            // Count how many are already loaded
-            const loadedCount = cachedNodes.filter(n => n.status !== 'loading').length;
-
-            // If all nodes are cached, set lastUpdate and skip fetching
-            if (loadedCount === cachedNodes.length) {
-              setLastUpdate(new Date());
-            }
-          } catch (err) {
-          }
-        }
-      } catch (err) {
-        // Continue to fetch from API
-      }
-    }
-
-    // Fetch fresh data
-    const res = await callRpcEndpoint(network.rpcUrl, "get-pods");
-
-    if (res.error) {
-      // Only show error if we don't have cached data
-      if (skipCache || registryPods.length === 0) {
-        setRegistryStatus("error");
-        setRegistryError(res.error);
-        setRegistryPods([]);
-      }
-      return;
-    }
-
-    const data = res.result as NetworkPodsResponse;
-
-    if (!data.pods || data.pods.length === 0) {
-      if (skipCache || registryPods.length === 0) {
-        setRegistryStatus("error");
-        setRegistryError("No pods found in registry");
-        setRegistryPods([]);
-      }
-      return;
-    }
-
-    // Sort by last_seen_timestamp (most recent first)
-    const sortedPods = data.pods.sort((a, b) => b.last_seen_timestamp - a.last_seen_timestamp);
-
-    // Set state FIRST to ensure UI updates
-    setRegistryPods(sortedPods);
-    setRegistryStatus("success");
-    setIsCached(false);
-
-    // Cache the registry pods to IndexedDB (don't await, do in background)
-    setToDB(STORES.REGISTRY, cacheKeys.registryPods(networkId), sortedPods, CACHE_TTL.REGISTRY_PODS)
+const DEFAULT_NETWORK = "devnet1";
 
-    // Initialize nodes with cached data if available
-    try {
-      const initialNodes = await loadCachedNodes(sortedPods);
-      setNodes(initialNodes);
-    } catch (err) {
-      // Fallback: create loading nodes
-      const loadingNodes = sortedPods.map((pod, idx) => ({
-        ip: pod.address.split(":")[0],
-        address: pod.address,
-        label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${idx + 1}`,
-        pubkey: pod.pubkey,
-        registryVersion: pod.version,
-        status: "loading" as const,
-      }));
-      setNodes(loadingNodes);
-    }
-  }, [loadCachedNodes, registryPods.length]);
-
-  // Fetch detailed data for a single node with progressive loading
-  const fetchNodeDataAndUpdate = useCallback(async (pod: NetworkPod, index: number) => {
-    const ip = pod.address.split(":")[0];
-    const baseData: NodeData = {
-      ip,
-      address: pod.address,
-      label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${index + 1}`,
-      pubkey: pod.pubkey,
-      registryVersion: pod.version,
-      status: "loading",
-    };
-
-    // Phase 1: Fetch version and stats first (fastest, most important)
-    const [versionRes, statsRes] = await Promise.all([
-      callApi(ip, "get-version"),
-      callApi(ip, "get-stats"),
-    ]);
-
-    // If both failed, mark as offline immediately
-    if (versionRes.error && statsRes.error) {
-      const offlineResult: NodeData = {
-        ...baseData,
-        status: "offline",
-        error: versionRes.error || statsRes.error,
-        lastFetched: Date.now(),
-      };
-      // Cache offline result to IndexedDB
-      setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), offlineResult, CACHE_TTL.NODE_DATA);
-      setNodes(prev => prev.map(n => n.address === pod.address ? offlineResult : n));
-      return offlineResult;
-    }
-
-    // Update with partial data immediately (online with stats)
-    const partialResult: NodeData = {
-      ...baseData,
-      status: "online",
-      version: versionRes.result as VersionResponse | undefined,
-      stats: statsRes.result as StatsResponse | undefined,
-      lastFetched: Date.now(),
-    };
-    setNodes(prev => prev.map(n => n.address === pod.address ? partialResult : n));
-
-    // Phase 2: Fetch pods data (slower, less critical)
-    const podsRes = await callApi(ip, "get-pods");
-
-    // Only set pods if we got a valid response
-    let podsData: PodsResponse | undefined;
-    if (podsRes.result && !podsRes.error) {
-      podsData = podsRes.result as PodsResponse;
-    } else {
-    }
-
-    const fullResult: NodeData = {
-      ...partialResult,
-      pods: podsData,
-    };
-
-    // Cache the full result to IndexedDB
-    setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), fullResult, CACHE_TTL.NODE_DATA);
-    setNodes(prev => prev.map(n => n.address === pod.address ? fullResult : n));
-    return fullResult;
-  }, []);
-
-  // Fetch all nodes with concurrency limit for better performance
-  const fetchAllNodesData = useCallback(async (forceRefresh: boolean = false) => {
-    if (registryPods.length === 0) {
-      return;
-    }
-
-    // Get cached nodes from IndexedDB to determine which need fetching
-    const cachedNodes = await getAllFromDB<NodeData>(STORES.NODES);
-
-    // Filter to only fetch nodes that need updating
-    const podsToFetch = forceRefresh
-      ? registryPods
-      : registryPods.filter((pod) => {
-          const cacheKey = cacheKeys.nodeData(pod.address);
-          const cached = cachedNodes.get(cacheKey);
-          return !cached || cached.status === 'loading';
-        });
-
-    if (podsToFetch.length === 0) {
-      setLastUpdate(new Date());
-      return;
-    }
-
-    setIsLoading(true);
-
-    // Process in batches with concurrency limit (increased for faster loading)
-    const BATCH_SIZE = 10;
-    const batches = [];
-
-    for (let i = 0; i < podsToFetch.length; i += BATCH_SIZE) {
-      batches.push(podsToFetch.slice(i, i + BATCH_SIZE));
-    }
-
-    for (const batch of batches) {
-      await Promise.all(
-        batch.map((pod) => {
-          const globalIdx = registryPods.indexOf(pod);
-          return fetchNodeDataAndUpdate(pod, globalIdx);
-        })
-      );
-    }
+type SortColumn = "label" | "location" | "status" | "version" | "latency" | "cpu" | "ram" | "storage" | "uptime" | "streams" | "credits";
+type SortState = { column: SortColumn; direction: "asc" | "desc" } | null;
 
-    setLastUpdate(new Date());
-    setIsLoading(false);
-    setIsCached(false);
-  }, [registryPods, fetchNodeDataAndUpdate]);
+const SORT_COLUMNS: SortColumn[] = ["label", "location", "status", "version", "latency", "cpu", "ram", "storage", "uptime", "streams", "credits"];
 
-  // Handle network change - show cached data immediately, fetch fresh in background
-  const handleNetworkChange = useCallback(async (networkId: string) => {
-    setSelectedNode(null);
-
-    // Reset to loading state first
-    setRegistryStatus("loading");
-
-    let hasLoadingNodes = false;
-
-    // Try to load from cache immediately (instant switch)
-    try {
-      const cachedPods = await getFromDB<NetworkPod[]>(STORES.REGISTRY, cacheKeys.registryPods(networkId));
-      if (cachedPods && cachedPods.length > 0) {
-
-        const cachedNodes = await getAllFromDB<NodeData>(STORES.NODES);
-        const initialNodes = cachedPods.map((pod, idx) => {
-          const cacheKey = cacheKeys.nodeData(pod.address);
-          const cached = cachedNodes.get(cacheKey);
-          if (cached && cached.status !== 'loading') {
-            return cached;
-          }
-          hasLoadingNodes = true;
-          return {
-            ip: pod.address.split(":")[0],
-            address: pod.address,
-            label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${idx + 1}`,
-            pubkey: pod.pubkey,
-            registryVersion: pod.version,
-            status: "loading" as const,
-          };
-        });
-
-        const loadedCount = initialNodes.filter(n => n.status !== 'loading').length;
-
-        // Set all state together BEFORE changing selectedNetwork
-        // This ensures useEffect sees the correct nodes state
-        setRegistryPods(cachedPods);
-        setNodes(initialNodes);
-        setIsCached(true);
-        setRegistryStatus("success");
-        // Set selectedNetwork LAST to trigger useEffect with correct state
-        setSelectedNetwork(networkId);
-      } else {
-        // No cache, show loading
-        setNodes([]);
-        setRegistryPods([]);
-        setIsCached(false);
-        // Set selectedNetwork LAST
-        setSelectedNetwork(networkId);
-        setRegistryStatus("loading");
-        hasLoadingNodes = true;
-      }
-    } catch (err) {
-      setNodes([]);
-      setRegistryPods([]);
-      setIsCached(false);
-      setSelectedNetwork(networkId);
-      setRegistryStatus("loading");
-      hasLoadingNodes = true;
-    }
-
-    // Fetch fresh data in background
-    fetchRegistryPods(networkId, false);
-  }, [fetchRegistryPods]);
-
-  // Initial fetch on mount
-  useEffect(() => {
-    fetchRegistryPods(selectedNetwork);
-    fetchPodCredits(); // Fetch pod credits
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
-
-  // Fetch nodes data when registry pods change or network switches
-  // Using a ref to track network changes since React batches state updates
-  const lastFetchedNetworkRef = useRef<string | null>(null);
-
-  useEffect(() => {
-
-    if (registryStatus === "success" && registryPods.length > 0) {
-      // Always fetch if network changed or if this is a new network we haven't fetched for
-      const networkChanged = lastFetchedNetworkRef.current !== selectedNetwork;
-
-      if (networkChanged) {
-        lastFetchedNetworkRef.current = selectedNetwork;
-        fetchAllNodesData();
-      } else {
-        // Same network - only fetch if there are loading nodes
-        const hasLoadingNodes = nodes.some(n => n.status === 'loading');
-        if (hasLoadingNodes) {
-          fetchAllNodesData();
-        } else {
-        }
-      }
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [registryStatus, registryPods.length, selectedNetwork]);
+// URL params for the view, so a filtered and sorted view can be shared as a link
+const viewModeParam = enumParam(["card", "table"] as const);
+const statusFilterParam = enumParam<StatusFilter>(["all", "online", "offline", "healthy", "degraded", "flapping", "unreachable"]);
+const sortColumnParam = enumParam(SORT_COLUMNS);
+// "cpu" sorts ascending, "-cpu" descending
+const sortParam: UrlParamCodec<SortState> = {
+  parse: (raw) => {
+    const column = sortColumnParam.parse(raw.replace(/^-/, ""));
+    return column ? { column, direction: raw.startsWith("-") ? "desc" : "asc" } : null;
+  },
+  serialize: (sort) => (sort ? `${sort.direction === "desc" ? "-" : ""}${sort.column}` : ""),
+};
+
+// Sort icon for a table header
+function SortIcon({ column, sort }: { column: SortColumn; sort: SortState }) {
+  if (sort?.column !== column) {
+    return <ArrowUpDown className="w-3 h-3 opacity-30" />;
+  }
+  return sort.direction === "asc" ? (
+    <ArrowUp className="w-3 h-3" />
+  ) : (
+    <ArrowDown className="w-3 h-3" />
+  );
+}
 
-  // Background preload other networks after initial load completes
-  useEffect(() => {
-    if (registryStatus !== "success" || isLoading) return;
+// Table status badge, colored by health like the node cards, globe and filters
+function NodeStatusBadge({ node }: { node: NodeData }) {
+  const health = nodeHealth(node);
+  return (
+    <Badge
+      variant="outline"
+      title={node.health?.reasons.join(", ") || (node.status === "offline" ? describePrpcError(node.error) : undefined)}
+      className={cn("font-mono", !health && "border-primary text-primary")}
+      style={health ? { borderColor: HEALTH_COLORS[health], color: HEALTH_COLORS[health] } : undefined}
+    >
+      <span
+        className={cn("w-1.5 h-1.5 mr-1.5", !health && "bg-[#F59E0B]")}
+        style={health ? { backgroundColor: HEALTH_COLORS[health] } : undefined}
+      />
+      {health && health !== "healthy" && health !== "offline" ? health : node.status}
+    </Badge>
+  );
+}
 
-    const preloadOtherNetworks = async () => {
-      const otherNetworks = NETWORK_RPC_ENDPOINTS.filter(n => n.id !== selectedNetwork);
+export default function Home() {
+  // The URL names the network to show; the shared NodesProvider crawls it
+  const [networkParam, setNetworkParam] = useUrlState("network", DEFAULT_NETWORK, stringParam);
+  const { networks, getNetwork, isLoaded: networksLoaded } = useNetworks();
+  const {
+    selectedNetwork,
+    setSelectedNetwork,
+    currentNetwork,
+    nodes,
+    registryPods,
+    podCredits,
+    isLoading,
+    registryStatus,
+    registryError,
+    registryEndpoint,
+    isCached,
+    lastUpdate,
+    crawlProgress,
+    refreshData,
+  } = useNodes();
 
-      for (const network of otherNetworks) {
-        // Check if already cached
-        const cached = await getFromDB<NetworkPod[]>(STORES.REGISTRY, cacheKeys.registryPods(network.id));
-        if (cached && cached.length > 0) {
-          continue;
-        }
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const observeNode = useVisibleNodes();
 
-        // Fetch and cache in background - use callRpcEndpoint which tries direct first
-        try {
-          const res = await callRpcEndpoint(network.rpcUrl, "get-pods");
+  // View and filter state (kept in the URL)
+  const [viewMode, setViewMode] = useUrlState("view", "card", viewModeParam);
+  const [statusFilter, setStatusFilter] = useUrlState<StatusFilter>("status", "all", statusFilterParam);
+  const [versionFilter, setVersionFilter] = useUrlState("version", "all", stringParam);
+  // Typing replaces the history entry instead of pushing one per keystroke
+  const [searchQuery, setSearchQuery] = useUrlState("q", "", stringParam, { replace: true });
+  const [frequentRestartsOnly, setFrequentRestartsOnly] = useUrlState("restarts", false, booleanParam);
+  const [tagFilter, setTagFilter] = useUrlState("tag", "all", stringParam);
 
-          if (res.result) {
-            const data = res.result as NetworkPodsResponse;
-            if (data.pods && data.pods.length > 0) {
-              const sortedPods = data.pods.sort((a: NetworkPod, b: NetworkPod) =>
-                b.last_seen_timestamp - a.last_seen_timestamp
-              );
-              await setToDB(STORES.REGISTRY, cacheKeys.registryPods(network.id), sortedPods, CACHE_TTL.REGISTRY_PODS);
-            }
-          }
-        } catch (err) {
-        }
+  // Private nicknames, tags and notes
+  const { getAnnotation, tags: annotationTags } = useAnnotations();
 
-        // Small delay between preloads to not overwhelm
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    };
+  // Sort state (kept in the URL)
+  const [sort, setSort] = useUrlState<SortState>("sort", null, sortParam);
+  const sortColumn = sort?.column ?? null;
+  const sortDirection = sort?.direction ?? "asc";
 
-    // Delay preload to not interfere with initial load
-    const timer = setTimeout(preloadOtherNetworks, 3000);
-    return () => clearTimeout(timer);
-  }, [registryStatus, isLoading, selectedNetwork]);
+  // Select the network named in the URL: on mount, on selection and on back/forward.
+  // Reads the location directly since networkParam is the default while hydrating.
+  const requestedNetworkRef = useRef<string | null>(null);
 
-  // Periodic background refresh (every 5 minutes)
   useEffect(() => {
-    const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
-
-    const backgroundRefresh = async () => {
-      if (isLoading) return;
-
-      // Silently fetch fresh data without showing loading state
-      const network = NETWORK_RPC_ENDPOINTS.find(n => n.id === selectedNetwork);
-      if (!network) return;
-
-      try {
-        // Use callRpcEndpoint which tries direct browser fetch first
-        const res = await callRpcEndpoint(network.rpcUrl, "get-pods");
-
-        if (res.result) {
-          const data = res.result as NetworkPodsResponse;
-          if (data.pods && data.pods.length > 0) {
-            const sortedPods = data.pods.sort((a: NetworkPod, b: NetworkPod) =>
-              b.last_seen_timestamp - a.last_seen_timestamp
-            );
-
-            // Update cache
-            await setToDB(STORES.REGISTRY, cacheKeys.registryPods(selectedNetwork), sortedPods, CACHE_TTL.REGISTRY_PODS);
-
-            // Update state if data changed
-            if (sortedPods.length !== registryPods.length) {
-              setRegistryPods(sortedPods);
-              const cachedNodes = await loadCachedNodes(sortedPods);
-              setNodes(cachedNodes);
-            }
-
-            setLastUpdate(new Date());
-          }
-        }
-      } catch (err) {
-      }
-    };
-
-    const interval = setInterval(backgroundRefresh, REFRESH_INTERVAL);
-    return () => clearInterval(interval);
-  }, [selectedNetwork, isLoading, registryPods.length, loadCachedNodes, callRpcEndpoint]);
+    const param = readUrlParam("network") ?? DEFAULT_NETWORK;
+    // Custom networks are only known once loaded; unknown ones fall back to the default
+    if (!getNetwork(param) && !networksLoaded) return;
+    const network = getNetwork(param) ? param : DEFAULT_NETWORK;
+    if (requestedNetworkRef.current === network) return;
+    requestedNetworkRef.current = network;
+    if (network !== selectedNetwork) setSelectedNetwork(network);
+  }, [networkParam, selectedNetwork, setSelectedNetwork, getNetwork, networksLoaded]);
+
+  const handleNetworkSelect = (networkId: string) => {
+    setSelectedNode(null);
+    setNetworkParam(networkId);
+  };
 
   // Calculate network stats
   const onlineNodes = nodes.filter((n) => n.status === "online");
+  const healthCounts = countHealth(nodes);
   const totalStorage = onlineNodes.reduce(
     (acc, n) => acc + (n.stats?.file_size || 0),
     0
@@ -815,6 +238,24 @@ export default function Home() {
     ? nodes.find((n) => n.address === selectedNode)
     : null;
 
+  // Merge every online node's peer list with the registry view
+  const gossipDiscovery = useMemo(
+    () => discoverFromGossip(registryPods, nodes),
+    [registryPods, nodes]
+  );
+
+  // Availability and restarts from the observed history, reloaded after every crawl
+  const { log: availabilityLog, refresh: refreshAvailability } = useAvailabilityLog({ network: selectedNetwork });
+  const { log: restartLog, refresh: refreshRestarts } = useRestartLog({ network: selectedNetwork });
+  useEffect(() => {
+    if (!lastUpdate) return;
+    refreshAvailability();
+    refreshRestarts();
+  }, [lastUpdate, refreshAvailability, refreshRestarts]);
+  const availability = useMemo(() => availabilityByAddress(availabilityLog), [availabilityLog]);
+  const restarts = useMemo(() => restartsByAddress(restartLog), [restartLog]);
+  const frequentRestartCount = nodes.filter(n => restarts.get(n.address)?.frequent).length;
+
   // Get unique versions for filter
   const uniqueVersions = Array.from(new Set(
     nodes.map(n => n.version?.version || n.registryVersion).filter(Boolean)
@@ -824,31 +265,20 @@ export default function Home() {
   const handleSort = (column: SortColumn) => {
     if (sortColumn === column) {
       // Toggle direction
-      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+      setSort({ column, direction: sortDirection === "asc" ? "desc" : "asc" });
     } else {
       // New column, default to ascending
-      setSortColumn(column);
-      setSortDirection("asc");
+      setSort({ column, direction: "asc" });
     }
   };
 
-  // Sort icon component
-  const SortIcon = ({ column }: { column: SortColumn }) => {
-    if (sortColumn !== column) {
-      return <ArrowUpDown className="w-3 h-3 opacity-30" />;
-    }
-    return sortDirection === "asc" ? (
-      <ArrowUp className="w-3 h-3" />
-    ) : (
-      <ArrowDown className="w-3 h-3" />
-    );
-  };
-
   // Filter and sort nodes
   const filteredAndSortedNodes = nodes
     .filter(node => {
       // Status filter
-      if (statusFilter !== "all" && node.status !== statusFilter) return false;
+      if (!matchesStatusFilter(node.status, nodeHealth(node), statusFilter)) return false;
+
+      if (frequentRestartsOnly && !restarts.get(node.address)?.frequent) return false;
 
       // Version filter
       if (versionFilter !== "all") {
@@ -856,13 +286,17 @@ export default function Home() {
         if (nodeVersion !== versionFilter) return false;
       }
 
-      // Search filter (search in label, address, pubkey)
+      // Tag filter
+      if (tagFilter !== "all" && !getAnnotation(node)?.tags.includes(tagFilter)) return false;
+
+      // Search filter (search in label, address, pubkey and annotations)
       if (searchQuery) {
         const query = searchQuery.toLowerCase();
         const matchLabel = node.label.toLowerCase().includes(query);
         const matchAddress = node.address.toLowerCase().includes(query);
         const matchPubkey = node.pubkey?.toLowerCase().includes(query);
-        if (!matchLabel && !matchAddress && !matchPubkey) return false;
+        const matchNote = matchesAnnotation(getAnnotation(node), query);
+        if (!matchLabel && !matchAddress && !matchPubkey && !matchNote) return false;
       }
 
       return true;
@@ -874,7 +308,7 @@ export default function Home() {
 
       switch (sortColumn) {
         case "label":
-          return direction * a.label.localeCompare(b.label);
+          return direction * nodeDisplayName(a, getAnnotation(a)).localeCompare(nodeDisplayName(b, getAnnotation(b)));
         case "location":
           const aLoc = a.location?.city || "";
           const bLoc = b.location?.city || "";
@@ -885,6 +319,14 @@ export default function Home() {
           const aVer = a.version?.version || a.registryVersion || "";
           const bVer = b.version?.version || b.registryVersion || "";
           return direction * aVer.localeCompare(bVer);
+        case "latency":
+          // Nodes without a sample always sort last
+          const aLat = a.latency?.medianMs ?? Infinity;
+          const bLat = b.latency?.medianMs ?? Infinity;
+          if (aLat === bLat) return 0;
+          if (aLat === Infinity) return 1;
+          if (bLat === Infinity) return -1;
+          return direction * (aLat - bLat);
         case "cpu":
           return direction * ((a.stats?.cpu_percent || 0) - (b.stats?.cpu_percent || 0));
         case "ram":
@@ -906,31 +348,6 @@ export default function Home() {
       }
     });
 
-  // Network selector component
-  const NetworkSelector = () => (
-    <div className="flex flex-wrap items-center gap-2">
-      {NETWORK_RPC_ENDPOINTS.map((network) => (
-        <button
-          key={network.id}
-          onClick={() => handleNetworkChange(network.id)}
-          className={cn(
-            "px-3 py-1.5 text-sm font-mono transition-all flex items-center gap-2 border",
-            selectedNetwork === network.id
-              ? "border-primary bg-primary/10 text-primary"
-              : "border-border bg-card text-muted-foreground hover:border-primary/50"
-          )}
-        >
-          <span
-            className={cn(
-              "w-2 h-2",
-              network.type === "mainnet" ? "bg-success" : "bg-[#F59E0B]"
-            )}
-          />
-          {network.name}
-        </button>
-      ))}
-    </div>
-  );
 
   return (
     <DashboardLayout
@@ -942,7 +359,7 @@ export default function Home() {
         <Button
           variant="outline"
           size="sm"
-          onClick={() => fetchRegistryPods(selectedNetwork, true)}
+          onClick={() => refreshData(true)}
           disabled={isLoading || registryStatus === "loading"}
         >
           <RefreshCw className={cn("w-4 h-4 mr-2", isLoading && "animate-spin")} />
@@ -967,9 +384,14 @@ export default function Home() {
                   Updated: {lastUpdate.toLocaleTimeString()}
                 </span>
               )}
+              <RegistryEndpointStatus
+                endpoints={registryEndpoints(currentNetwork, networks)}
+                servedBy={isCached ? null : registryEndpoint}
+              />
+              <CrawlProgressIndicator progress={crawlProgress} />
             </span>
           }
-          actions={<NetworkSelector />}
+          actions={<NetworkSelector selectedNetwork={selectedNetwork} onSelect={handleNetworkSelect} />}
         />
       </FadeIn>
 
@@ -983,7 +405,7 @@ export default function Home() {
               variant="destructive"
               size="sm"
               className="mt-4"
-              onClick={() => fetchRegistryPods(selectedNetwork, true)}
+              onClick={() => refreshData(true)}
             >
               Retry
             </Button>
@@ -1080,6 +502,19 @@ export default function Home() {
               registryPods={registryPods}
               formatBytes={formatBytes}
               totalCredits={totalCredits}
+              healthCounts={healthCounts}
+            />
+          </ContentSection>
+
+          {/* Registry vs gossip differences */}
+          <ContentSection
+            title="Registry vs Gossip"
+            description="Registry get-pods list merged with the peer lists reported by online nodes"
+          >
+            <GossipDiscoveryPanel
+              discovery={gossipDiscovery}
+              registryCount={registryPods.length}
+              formatTimestamp={formatTimestamp}
             />
           </ContentSection>
 
@@ -1096,17 +531,33 @@ export default function Home() {
             uniqueVersions={uniqueVersions}
             viewMode={viewMode}
             setViewMode={setViewMode}
+            frequentRestartsOnly={frequentRestartsOnly}
+            setFrequentRestartsOnly={setFrequentRestartsOnly}
+            frequentRestartCount={frequentRestartCount}
+            tagFilter={tagFilter}
+            setTagFilter={setTagFilter}
+            tags={annotationTags}
           />
 
           {/* Results Count */}
-          <p className="text-sm text-muted-foreground mb-4 font-mono">
-            Showing {filteredAndSortedNodes.length} of {nodes.length} nodes
-            {sortColumn && (
-              <span className="ml-2 text-primary">
-                (sorted by {sortColumn} {sortDirection === "asc" ? "↑" : "↓"})
-              </span>
-            )}
-          </p>
+          <div className="flex items-center justify-between gap-4 mb-4">
+            <p className="text-sm text-muted-foreground font-mono">
+              Showing {filteredAndSortedNodes.length} of {nodes.length} nodes
+              {sortColumn && (
+                <span className="ml-2 text-primary">
+                  (sorted by {sortColumn} {sortDirection === "asc" ? "↑" : "↓"})
+                </span>
+              )}
+            </p>
+            <div className="flex items-center gap-2">
+              <AddressBookDialog />
+              <ExportMenu
+                name={`${selectedNetwork}-nodes`}
+                rows={filteredAndSortedNodes}
+                columns={nodeExportColumns(podCredits, getAnnotation)}
+              />
+            </div>
+          </div>
 
           {/* Card View */}
           {viewMode === "card" && (
@@ -1114,6 +565,8 @@ export default function Home() {
               {filteredAndSortedNodes.map((node) => (
                 <div
                   key={node.address}
+                  ref={observeNode}
+                  data-node-address={node.address}
                   className="transition-opacity duration-300"
                 >
                   <ScaleOnHover scale={1.01}>
@@ -1124,6 +577,8 @@ export default function Home() {
                       formatBytes={formatBytes}
                       formatUptime={formatUptime}
                       credits={node.pubkey ? podCredits.get(node.pubkey) : undefined}
+                      seenBy={peerSightings(gossipDiscovery, node.address)}
+                      annotation={getAnnotation(node)}
                     />
                   </ScaleOnHover>
                 </div>
@@ -1144,7 +599,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Node
-                        <SortIcon column="label" />
+                        <SortIcon column="label" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1153,7 +608,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Location
-                        <SortIcon column="location" />
+                        <SortIcon column="location" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1162,7 +617,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Status
-                        <SortIcon column="status" />
+                        <SortIcon column="status" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1171,7 +626,16 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Version
-                        <SortIcon column="version" />
+                        <SortIcon column="version" sort={sort} />
+                      </div>
+                    </th>
+                    <th
+                      className="text-left p-3 font-medium text-muted-foreground cursor-pointer hover:text-foreground transition-colors select-none"
+                      onClick={() => handleSort("latency")}
+                    >
+                      <div className="flex items-center gap-1">
+                        Latency
+                        <SortIcon column="latency" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1180,7 +644,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         CPU
-                        <SortIcon column="cpu" />
+                        <SortIcon column="cpu" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1189,7 +653,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         RAM
-                        <SortIcon column="ram" />
+                        <SortIcon column="ram" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1198,7 +662,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Storage
-                        <SortIcon column="storage" />
+                        <SortIcon column="storage" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1207,7 +671,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Uptime
-                        <SortIcon column="uptime" />
+                        <SortIcon column="uptime" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1216,7 +680,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Streams
-                        <SortIcon column="streams" />
+                        <SortIcon column="streams" sort={sort} />
                       </div>
                     </th>
                     <th
@@ -1225,7 +689,7 @@ export default function Home() {
                     >
                       <div className="flex items-center gap-1">
                         Credits
-                        <SortIcon column="credits" />
+                        <SortIcon column="credits" sort={sort} />
                       </div>
                     </th>
                   </tr>
@@ -1234,6 +698,8 @@ export default function Home() {
                   {filteredAndSortedNodes.map((node, idx) => (
                     <tr
                       key={node.address}
+                      ref={observeNode}
+                      data-node-address={node.address}
                       className={cn(
                         "hover:bg-muted/30 cursor-pointer transition-colors",
                         selectedNode === node.address && "bg-primary/10"
@@ -1244,8 +710,9 @@ export default function Home() {
                     >
                       <td className="p-3 text-muted-foreground font-mono">{idx + 1}</td>
                       <td className="p-3">
-                        <div className="font-medium font-mono">{node.label}</div>
+                        <div className="font-medium font-mono">{nodeDisplayName(node, getAnnotation(node))}</div>
                         <div className="text-xs text-muted-foreground font-mono">{node.address}</div>
+                        <AnnotationTags tags={getAnnotation(node)?.tags ?? []} max={3} className="mt-1" />
                       </td>
                       <td className="p-3">
                         {node.location ? (
@@ -1264,31 +731,15 @@ export default function Home() {
                         )}
                       </td>
                       <td className="p-3">
-                        <Badge
-                          variant="outline"
-                          className={cn(
-                            "font-mono",
-                            node.status === "online"
-                              ? "border-success text-success"
-                              : node.status === "offline"
-                              ? "border-destructive text-destructive"
-                              : "border-primary text-primary"
-                          )}
-                        >
-                          <span
-                            className={cn(
-                              "w-1.5 h-1.5 mr-1.5",
-                              node.status === "online"
-                                ? "bg-success"
-                                : node.status === "offline"
-                                ? "bg-destructive"
-                                : "bg-[#F59E0B]"
-                            )}
-                          />
-                          {node.status}
-                        </Badge>
+                        <NodeStatusBadge node={node} />
                       </td>
                       <td className="p-3 font-mono">{node.version?.version || node.registryVersion || "-"}</td>
+                      <td
+                        className="p-3 font-mono"
+                        title={node.latency ? `last ${formatLatency(node.latency.lastMs)}, median of ${node.latency.samples.length} samples` : undefined}
+                      >
+                        {formatLatency(node.latency?.medianMs)}
+                      </td>
                       <td className="p-3 font-mono">{node.stats?.cpu_percent.toFixed(2) || "-"}%</td>
                       <td className="p-3 font-mono">
                         {node.stats
@@ -1322,6 +773,9 @@ export default function Home() {
             formatUptime={formatUptime}
             formatTimestamp={formatTimestamp}
             credits={selectedNodeData?.pubkey ? podCredits.get(selectedNodeData.pubkey) : undefined}
+            seenBy={selectedNodeData ? peerSightings(gossipDiscovery, selectedNodeData.address) : undefined}
+            availability={selectedNodeData ? availability.get(selectedNodeData.address) : undefined}
+            restarts={selectedNodeData ? restarts.get(selectedNodeData.address) : undefined}
           />
         </>
       )}
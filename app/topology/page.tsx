@@ -9,8 +9,12 @@ import {
   Network,
   Trophy,
   BarChart3,
+  History,
+  Box,
 } from "lucide-react";
 import { DashboardLayout, PageHeader, type NavSection } from "@/components/layout";
+import { NetworkSelector, RegistryEndpointStatus } from "@/components/networks";
+import { CrawlProgressIndicator } from "@/components/dashboard";
 import { Logo, LogoIcon } from "@/components/common";
 import { FadeIn } from "@/components/common";
 import { Button } from "@/components/ui/button";
@@ -20,7 +24,20 @@ import dynamic from "next/dynamic";
 import { batchGeolocate } from "@/lib/geolocation";
 import { findLatestVersion, getVersionColor } from "@/lib/version";
 import type { GlobeNode, GlobeConnection } from "@/components/globe";
-import { useNodes, NETWORK_RPC_ENDPOINTS, type NodeData as ContextNodeData } from "@/contexts/NodesContext";
+import { useNodes } from "@/contexts/NodesContext";
+import { useNetworks } from "@/contexts/NetworksContext";
+import { useAnnotations } from "@/contexts/AnnotationsContext";
+import { registryEndpoints } from "@/lib/networks";
+import { nodeHealth, HEALTH_COLORS } from "@/lib/nodeHealth";
+import { useReplayFrames } from "@/lib/useHistoricalData";
+import {
+  PEER_ACTIVE_SECONDS,
+  detectReplayEvents,
+  replayNodes,
+  resolveReplayFrames,
+  type ReplayPeriod,
+} from "@/lib/replay";
+import { ReplayTimeline } from "@/components/visualization";
 
 // Dynamic import to avoid SSR issues
 const GlobeVisualization = dynamic(
@@ -35,53 +52,19 @@ const GlobeVisualization = dynamic(
   }
 );
 
-// Types
-interface VersionResponse {
-  version: string;
-}
-
-interface StatsResponse {
-  active_streams: number;
-  cpu_percent: number;
-  current_index: number;
-  file_size: number;
-  last_updated: number;
-  packets_received: number;
-  packets_sent: number;
-  ram_total: number;
-  ram_used: number;
-  total_bytes: number;
-  total_pages: number;
-  uptime: number;
-}
-
-interface Pod {
-  address: string;
-  version: string;
-  last_seen: string;
-  last_seen_timestamp: number;
-  pubkey?: string | null;
-}
-
-interface PodsResponse {
-  pods: Pod[];
-  total_count: number;
-}
-
-interface NodeData {
-  ip: string;
-  address: string;
-  label: string;
-  pubkey: string | null;
-  registryVersion: string;
-  status: "online" | "offline" | "loading";
-  version?: VersionResponse;
-  stats?: StatsResponse;
-  pods?: PodsResponse;
-  error?: string;
-  lastFetched?: number;
-}
+const NetworkTopology3D = dynamic(
+  () => import("@/components/visualization").then(mod => ({ default: mod.NetworkTopology3D })),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="w-full h-[600px] flex items-center justify-center bg-card border border-border">
+        <div className="text-muted-foreground font-mono">Loading 3D Graph...</div>
+      </div>
+    ),
+  }
+);
 
+type ViewMode = "globe" | "graph";
 
 const navSections: NavSection[] = [
   {
@@ -107,18 +90,19 @@ export default function TopologyPage() {
     selectedNetwork,
     setSelectedNetwork,
     currentNetwork,
-    nodes: contextNodes,
+    nodes,
     registryPods,
     isLoading,
     registryStatus,
     registryError,
     lastUpdate,
     isCached,
+    registryEndpoint,
+    crawlProgress,
     refreshData,
   } = useNodes();
-
-  // Map context nodes to local NodeData type (they're compatible)
-  const nodes = contextNodes as NodeData[];
+  const { networks } = useNetworks();
+  const { getAnnotation } = useAnnotations();
 
   const [isDark, setIsDark] = useState(false);
 
@@ -138,6 +122,36 @@ export default function TopologyPage() {
     return () => observer.disconnect();
   }, []);
 
+  const [viewMode, setViewMode] = useState<ViewMode>("globe");
+
+  // Time-travel replay; a null frame index follows the newest frame
+  const [replaying, setReplaying] = useState(false);
+  const [replayPeriod, setReplayPeriod] = useState<ReplayPeriod>("24h");
+  const [frameIndex, setFrameIndex] = useState<number | null>(null);
+  const { frames, isLoading: framesLoading } = useReplayFrames({
+    network: selectedNetwork,
+    period: replayPeriod,
+    enabled: replaying,
+  });
+  const resolvedFrames = useMemo(() => resolveReplayFrames(frames), [frames]);
+  const replayEvents = useMemo(() => detectReplayEvents(frames), [frames]);
+  const shownFrameIndex = Math.min(frameIndex ?? Infinity, resolvedFrames.length - 1);
+  const replayFrame = replaying ? resolvedFrames[shownFrameIndex] : undefined;
+
+  // Nodes on screen: the live crawl, or the state at the replay position
+  const shownNodes = useMemo(() => (replayFrame ? replayNodes(replayFrame) : nodes), [replayFrame, nodes]);
+  const shownAt = replayFrame ? Date.parse(replayFrame.timestamp) / 1000 : undefined;
+
+  const changeReplayPeriod = useCallback((period: ReplayPeriod) => {
+    setReplayPeriod(period);
+    setFrameIndex(null);
+  }, []);
+
+  const exitReplay = useCallback(() => {
+    setReplaying(false);
+    setFrameIndex(null);
+  }, []);
+
   // Store geolocation data (specific to topology for globe)
   const [geolocations, setGeolocations] = useState<Map<string, { lat: number; lng: number; city: string; country: string; region: string }>>(new Map());
   const [geoLoading, setGeoLoading] = useState(false);
@@ -164,16 +178,27 @@ export default function TopologyPage() {
     setGeoLoading(true);
 
     batchGeolocate(ipAddresses).then(results => {
-      setGeolocations(results);
+      setGeolocations(prev => new Map([...prev, ...results]));
       setGeoLoading(false);
     }).catch(() => {
       setGeoLoading(false);
     });
   }, [loadedNodesCount]); // Use memoized count instead of nodes array
 
+  // Replayed frames can include nodes that have since left the registry
+  useEffect(() => {
+    if (frames.length === 0) return;
+    const ipAddresses = new Set<string>();
+    frames.forEach(frame => frame.nodes.forEach(node => ipAddresses.add(node.address.split(':')[0])));
+
+    batchGeolocate(Array.from(ipAddresses)).then(results => {
+      setGeolocations(prev => new Map([...prev, ...results]));
+    }).catch(() => {});
+  }, [frames]);
+
   // Convert nodes to globe format with geolocation
   const { globeNodes, globeConnections } = useMemo(() => {
-    const loadedNodes = nodes.filter(n => n.status !== 'loading');
+    const loadedNodes = shownNodes.filter(n => n.status !== 'loading');
 
     // Wait for geolocation data
     if (geolocations.size === 0) {
@@ -195,16 +220,22 @@ export default function TopologyPage() {
         if (!geo) return null;
 
         const isOnline = node.status === 'online';
+        const health = nodeHealth(node);
+        const annotation = getAnnotation(node);
 
         return {
           id: node.address,
           lat: geo.lat,
           lng: geo.lng,
-          label: node.pubkey ? `${node.pubkey.slice(0, 8)}...` : ip,
+          label: annotation?.nickname || (node.pubkey ? `${node.pubkey.slice(0, 8)}...` : ip),
+          tags: annotation?.tags,
           status: node.status,
+          health,
           size: Math.max(1, Math.min(2, (node.pods?.total_count || 0) / 10 + 1)),
-          // Use dynamic version color detection
-          color: getVersionColor(node.version?.version, latestVersion, isOnline),
+          // Unhealthy states override the version color
+          color: health && health !== 'healthy'
+            ? HEALTH_COLORS[health]
+            : getVersionColor(node.version?.version, latestVersion, isOnline),
           // Additional data for detail panel
           version: node.version?.version,
           cpu: node.stats?.cpu_percent,
@@ -264,7 +295,7 @@ export default function TopologyPage() {
 
         connectionSet.add(connectionId);
 
-        const isActive = Date.now() / 1000 - pod.last_seen_timestamp < 300;
+        const isActive = (shownAt ?? Date.now() / 1000) - pod.last_seen_timestamp < PEER_ACTIVE_SECONDS;
         // O(1) bidirectional check using pre-built lookup
         const targetPeers = peerConnections.get(targetIp);
         const isBidirectional = targetPeers?.has(sourceIp) ?? false;
@@ -282,32 +313,8 @@ export default function TopologyPage() {
     });
 
     return { globeNodes, globeConnections };
-  }, [nodes, geolocations]);
-
-  const NetworkSelector = () => (
-    <div className="flex flex-wrap items-center gap-2">
-      {NETWORK_RPC_ENDPOINTS.map((network) => (
-        <button
-          key={network.id}
-          onClick={() => setSelectedNetwork(network.id)}
-          className={cn(
-            "px-3 py-1.5 text-sm font-mono transition-all flex items-center gap-2 border",
-            selectedNetwork === network.id
-              ? "border-primary bg-primary/10 text-primary"
-              : "border-border bg-card text-muted-foreground hover:border-primary/50"
-          )}
-        >
-          <span
-            className={cn(
-              "w-2 h-2",
-              network.type === "mainnet" ? "bg-success" : "bg-[#F59E0B]"
-            )}
-          />
-          {network.name}
-        </button>
-      ))}
-    </div>
-  );
+  }, [shownNodes, shownAt, geolocations, getAnnotation]);
+
 
   return (
     <DashboardLayout
@@ -344,9 +351,14 @@ export default function TopologyPage() {
                   Updated: {lastUpdate.toLocaleTimeString()}
                 </span>
               )}
+              <RegistryEndpointStatus
+                endpoints={registryEndpoints(currentNetwork, networks)}
+                servedBy={isCached ? null : registryEndpoint}
+              />
+              <CrawlProgressIndicator progress={crawlProgress} />
             </span>
           }
-          actions={<NetworkSelector />}
+          actions={<NetworkSelector selectedNetwork={selectedNetwork} onSelect={setSelectedNetwork} />}
         />
       </FadeIn>
 
@@ -378,6 +390,44 @@ export default function TopologyPage() {
 
       {registryStatus === "success" && (
         <FadeIn animateOnMount>
+          <div className="mb-4 flex flex-wrap gap-2">
+            <Button
+              variant={viewMode === "globe" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setViewMode("globe")}
+            >
+              <Globe className="w-4 h-4 mr-2" />
+              Globe
+            </Button>
+            <Button
+              variant={viewMode === "graph" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setViewMode("graph")}
+            >
+              <Box className="w-4 h-4 mr-2" />
+              3D Graph
+            </Button>
+            {!replaying && (
+              <Button variant="outline" size="sm" onClick={() => setReplaying(true)}>
+                <History className="w-4 h-4 mr-2" />
+                Replay
+              </Button>
+            )}
+          </div>
+          {replaying && (
+            <div className="mb-4">
+              <ReplayTimeline
+                frames={resolvedFrames}
+                events={replayEvents}
+                index={Math.max(0, shownFrameIndex)}
+                onIndexChange={setFrameIndex}
+                period={replayPeriod}
+                onPeriodChange={changeReplayPeriod}
+                onExit={exitReplay}
+                isLoading={framesLoading}
+              />
+            </div>
+          )}
           <div className="border border-border bg-card overflow-hidden relative" style={{ height: 'calc(100vh - 200px)', minHeight: '700px' }}>
             {geoLoading && (
               <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-primary/90 backdrop-blur text-primary-foreground px-4 py-2 rounded-lg text-xs font-mono flex items-center gap-2">
@@ -385,11 +435,15 @@ export default function TopologyPage() {
                 Fetching real geolocation data...
               </div>
             )}
-            <GlobeVisualization
-              nodes={globeNodes}
-              connections={globeConnections}
-              isDark={isDark}
-            />
+            {viewMode === "globe" ? (
+              <GlobeVisualization
+                nodes={globeNodes}
+                connections={globeConnections}
+                isDark={isDark}
+              />
+            ) : (
+              <NetworkTopology3D nodes={shownNodes} at={shownAt} />
+            )}
           </div>
         </FadeIn>
       )}
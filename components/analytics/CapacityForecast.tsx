@@ -0,0 +1,131 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import { forecastSeries } from '@/lib/forecast'
+import { HISTORY_PERIOD_MS } from '@/lib/historySamples'
+import type { HistoryPeriod, NetworkSnapshot } from '@/lib/useHistoricalData'
+import { ForecastChart } from './ForecastChart'
+import { ForecastSummary } from './ForecastSummary'
+
+interface CapacityForecastProps {
+  data: NetworkSnapshot[]
+  // History shown; the forecast looks as far ahead
+  period: HistoryPeriod
+  isLoading?: boolean
+}
+
+type ForecastMetric = 'storage' | 'online'
+
+const STORAGE_UNITS = { GB: 1024 ** 3, TB: 1024 ** 4, PB: 1024 ** 5 }
+type StorageUnit = keyof typeof STORAGE_UNITS
+
+function formatStorage(bytes: number): string {
+  if (bytes < 1) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB', 'PB']
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1)
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
+
+function formatNodes(count: number): string {
+  return count.toFixed(count >= 100 ? 0 : 1)
+}
+
+export function CapacityForecast({ data, period, isLoading }: CapacityForecastProps) {
+  const [metric, setMetric] = useState<ForecastMetric>('storage')
+  const [storageTarget, setStorageTarget] = useState('1')
+  const [storageUnit, setStorageUnit] = useState<StorageUnit>('PB')
+  const [nodesTarget, setNodesTarget] = useState('')
+
+  const history = useMemo(() => data.map(snapshot => ({
+    time: Date.parse(snapshot.timestamp),
+    value: metric === 'storage' ? snapshot.totalStorage : snapshot.onlineNodes,
+  })), [data, metric])
+
+  const forecast = useMemo(() => forecastSeries(history, HISTORY_PERIOD_MS[period]), [history, period])
+
+  const targetInput = metric === 'storage' ? storageTarget : nodesTarget
+  const parsedTarget = parseFloat(targetInput)
+  const target = Number.isFinite(parsedTarget) && parsedTarget > 0
+    ? (metric === 'storage' ? parsedTarget * STORAGE_UNITS[storageUnit] : parsedTarget)
+    : null
+  const formatValue = metric === 'storage' ? formatStorage : formatNodes
+
+  if (isLoading) {
+    return (
+      <div className="h-[300px] flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading history...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex gap-1">
+          {([['storage', 'Storage'], ['online', 'Online Nodes']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setMetric(value)}
+              className={cn(
+                'px-3 py-1.5 text-xs font-mono transition-colors border',
+                metric === value
+                  ? 'border-primary text-primary bg-primary/10'
+                  : 'border-border text-muted-foreground hover:text-foreground'
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs font-mono">
+          <span className="text-muted-foreground">Target</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={targetInput}
+            placeholder={metric === 'storage' ? '1' : 'nodes'}
+            onChange={(e) => (metric === 'storage' ? setStorageTarget : setNodesTarget)(e.target.value)}
+            className="px-2 py-1 text-xs font-mono border border-border bg-card w-24"
+          />
+          {metric === 'storage' ? (
+            <select
+              value={storageUnit}
+              onChange={(e) => setStorageUnit(e.target.value as StorageUnit)}
+              className="px-2 py-1 text-xs font-mono border border-border bg-card"
+            >
+              {Object.keys(STORAGE_UNITS).map(unit => (
+                <option key={unit} value={unit}>{unit}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-muted-foreground">online</span>
+          )}
+        </label>
+      </div>
+
+      {history.length === 0 ? (
+        <div className="h-[250px] flex items-center justify-center">
+          <div className="text-muted-foreground">No historical data available yet</div>
+        </div>
+      ) : (
+        <ForecastChart
+          history={history}
+          forecast={forecast}
+          formatValue={formatValue}
+          color={metric === 'storage' ? '#10b981' : '#06b6d4'}
+          target={target}
+        />
+      )}
+
+      <ForecastSummary
+        forecast={forecast}
+        formatValue={formatValue}
+        target={target}
+        targetLabel={metric === 'storage' ? `${targetInput} ${storageUnit}` : `${targetInput} online nodes`}
+      />
+    </div>
+  )
+}
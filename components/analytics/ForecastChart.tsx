@@ -0,0 +1,143 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts'
+import type { Forecast, ForecastSample } from '@/lib/forecast'
+
+interface ForecastChartProps {
+  history: ForecastSample[]
+  forecast: Forecast | null
+  formatValue: (value: number) => string
+  color?: string
+  // Drawn as a horizontal line, e.g. a capacity to plan for
+  target?: number | null
+  height?: number
+}
+
+// Projections are thinned to about this many points for drawing
+const MAX_FORECAST_POINTS = 200
+
+interface ForecastRow {
+  time: number
+  actual?: number
+  projected?: number
+  band?: [number, number]
+}
+
+export function ForecastChart({
+  history,
+  forecast,
+  formatValue,
+  color = '#10b981',
+  target,
+  height = 250,
+}: ForecastChartProps) {
+  const rows = useMemo(() => {
+    const actual: ForecastRow[] = history.map(s => ({ time: s.time, actual: s.value }))
+    if (!forecast || forecast.points.length === 0 || actual.length === 0) return actual
+
+    const every = Math.ceil(forecast.points.length / MAX_FORECAST_POINTS)
+    const projected: ForecastRow[] = forecast.points
+      .filter((_, i) => i % every === every - 1 || i === forecast.points.length - 1)
+      .map(p => ({ time: p.time, projected: p.value, band: [Math.max(0, p.lower), p.upper] }))
+
+    // Start the projection from the latest sample so the lines join up
+    const last = actual[actual.length - 1]
+    return [
+      ...actual.slice(0, -1),
+      { ...last, projected: last.actual, band: [last.actual!, last.actual!] as [number, number] },
+      ...projected,
+    ]
+  }, [history, forecast])
+
+  const spanMs = rows.length > 1 ? rows[rows.length - 1].time - rows[0].time : 0
+  const formatTime = (time: number) => spanMs > 2 * 24 * 60 * 60 * 1000
+    ? new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' })
+    : new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+  return (
+    <div className="w-full" style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={rows} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tick={{ fill: '#9ca3af', fontSize: 10 }}
+            tickLine={false}
+            axisLine={{ stroke: '#374151' }}
+            tickFormatter={formatTime}
+          />
+          <YAxis
+            tick={{ fill: '#9ca3af', fontSize: 10 }}
+            tickLine={false}
+            axisLine={{ stroke: '#374151' }}
+            width={70}
+            tickFormatter={formatValue}
+          />
+          <Tooltip
+            content={({ active, payload }) => {
+              if (!active || !payload || payload.length === 0) return null
+              const row = payload[0].payload as ForecastRow
+              return (
+                <div className="bg-card/95 backdrop-blur border border-border rounded-lg p-3 shadow-xl">
+                  <p className="text-xs text-muted-foreground mb-2">{new Date(row.time).toLocaleString()}</p>
+                  {row.actual !== undefined ? (
+                    <div className="font-mono text-sm" style={{ color }}>{formatValue(row.actual)}</div>
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="font-mono text-sm" style={{ color }}>~{formatValue(row.projected!)}</div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        95%: {formatValue(row.band![0])} - {formatValue(row.band![1])}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )
+            }}
+          />
+          {target != null && (
+            <ReferenceLine y={target} stroke="#ef4444" strokeDasharray="5 5" strokeOpacity={0.6} />
+          )}
+          <Area
+            type="monotone"
+            dataKey="band"
+            stroke="none"
+            fill={color}
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="actual"
+            stroke={color}
+            strokeWidth={2}
+            dot={false}
+            isAnimationActive={false}
+          />
+          <Line
+            type="monotone"
+            dataKey="projected"
+            stroke={color}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            dot={false}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import { fitQuality, timeUntil, type Forecast } from '@/lib/forecast'
+
+interface ForecastSummaryProps {
+  forecast: Forecast | null
+  formatValue: (value: number) => string
+  target?: number | null
+  // What reaching the target means, e.g. "1 PB" or "disk full"
+  targetLabel?: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MODEL_LABELS: Record<Forecast['model'], string> = {
+  linear: 'Linear regression',
+  'holt-winters': 'Holt-Winters (daily season)',
+}
+
+const QUALITY_COLORS = {
+  good: 'text-success',
+  fair: 'text-[#F59E0B]',
+  poor: 'text-red-400',
+}
+
+function formatDays(ms: number | null): string {
+  if (ms === null) return 'not on the current trend'
+  if (ms === 0) return 'already reached'
+  const days = ms / DAY_MS
+  if (days < 1) return 'in less than a day'
+  if (days > 3650) return 'in over 10 years'
+  return `in ${Math.round(days).toLocaleString()} days`
+}
+
+export function ForecastSummary({ forecast, formatValue, target, targetLabel }: ForecastSummaryProps) {
+  if (!forecast) {
+    return (
+      <div className="text-xs text-muted-foreground">
+        Not enough history to forecast yet
+      </div>
+    )
+  }
+
+  const quality = fitQuality(forecast.fit)
+
+  return (
+    <div className="flex gap-x-6 gap-y-2 text-xs flex-wrap">
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">Model:</span>
+        <span className="font-mono">{MODEL_LABELS[forecast.model]}</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">Fit:</span>
+        <span
+          className={cn('font-mono', QUALITY_COLORS[quality])}
+          title={forecast.fit.mape !== null ? `MAPE ${forecast.fit.mape.toFixed(2)}%` : undefined}
+        >
+          {quality} (R² {forecast.fit.r2.toFixed(2)}, RMSE {formatValue(forecast.fit.rmse)})
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">Trend:</span>
+        <span className="font-mono">
+          {forecast.slopePerDay >= 0 ? '+' : '-'}{formatValue(Math.abs(forecast.slopePerDay))}/day
+        </span>
+      </div>
+      {target != null && (
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Reaches {targetLabel ?? formatValue(target)}:</span>
+          <span className="font-mono text-primary">{formatDays(timeUntil(forecast, target))}</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { formatLatency } from '@/lib/latency'
+import type { CountryLatencyRow } from '@/lib/useLatencyDistribution'
+
+interface LatencyByCountryTableProps {
+  data: CountryLatencyRow[]
+  isLoading?: boolean
+}
+
+export function LatencyByCountryTable({ data, isLoading }: LatencyByCountryTableProps) {
+  if (isLoading) {
+    return (
+      <div className="h-[200px] flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading latency data...</div>
+      </div>
+    )
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-[200px] flex items-center justify-center">
+        <div className="text-muted-foreground">No latency samples yet</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border">
+            <th className="text-left p-3 font-medium text-muted-foreground">Country</th>
+            <th className="text-right p-3 font-medium text-muted-foreground">Nodes</th>
+            <th className="text-right p-3 font-medium text-muted-foreground">P50</th>
+            <th className="text-right p-3 font-medium text-muted-foreground">P90</th>
+            <th className="text-right p-3 font-medium text-muted-foreground">P99</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {data.map((row) => (
+            <tr key={row.country} className="hover:bg-muted/30 transition-colors">
+              <td className="p-3">
+                {row.country}
+                {row.countryCode && (
+                  <span className="ml-2 text-xs text-muted-foreground font-mono">{row.countryCode}</span>
+                )}
+              </td>
+              <td className="p-3 text-right font-mono">{row.count}</td>
+              <td className="p-3 text-right font-mono text-success">{formatLatency(row.p50)}</td>
+              <td className="p-3 text-right font-mono text-[#F59E0B]">{formatLatency(row.p90)}</td>
+              <td className="p-3 text-right font-mono text-destructive">{formatLatency(row.p99)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { formatLatency, type LatencyPercentiles } from '@/lib/latency'
+
+export interface LatencyDistributionRow extends LatencyPercentiles {
+  label: string
+}
+
+interface LatencyDistributionChartProps {
+  data: LatencyDistributionRow[]
+  isLoading?: boolean
+}
+
+const PERCENTILE_COLORS = {
+  p50: '#22c55e', // green
+  p90: '#f59e0b', // amber
+  p99: '#ef4444', // red
+}
+
+interface TooltipEntry {
+  dataKey?: string | number
+  value?: number
+  color?: string
+  payload: LatencyDistributionRow
+}
+
+function LatencyTooltip({ active, payload }: { active?: boolean; payload?: TooltipEntry[] }) {
+  if (active && payload && payload.length) {
+    const row = payload[0].payload
+    return (
+      <div className="bg-card/95 backdrop-blur border border-border rounded-lg p-3 shadow-xl">
+        <p className="text-xs text-muted-foreground mb-2">
+          {row.label} ({row.count} nodes)
+        </p>
+        <div className="space-y-1">
+          {payload.map((entry, index) => (
+            <div key={index} className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-2 h-2 rounded-full"
+                  style={{ backgroundColor: entry.color }}
+                />
+                <span className="text-sm text-muted-foreground uppercase">{entry.dataKey}</span>
+              </div>
+              <span className="font-mono text-sm" style={{ color: entry.color }}>
+                {formatLatency(entry.value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+  return null
+}
+
+export function LatencyDistributionChart({ data, isLoading }: LatencyDistributionChartProps) {
+  const chartData = useMemo(() => {
+    return data.map(d => ({
+      ...d,
+      p50: Math.round(d.p50),
+      p90: Math.round(d.p90),
+      p99: Math.round(d.p99),
+    }))
+  }, [data])
+
+  if (isLoading) {
+    return (
+      <div className="h-[300px] flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading latency data...</div>
+      </div>
+    )
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="h-[300px] flex items-center justify-center">
+        <div className="text-muted-foreground">No latency samples yet - open the dashboard to crawl a network</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          data={chartData}
+          margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+          <XAxis
+            dataKey="label"
+            tick={{ fill: '#9ca3af', fontSize: 10 }}
+            tickLine={false}
+            axisLine={{ stroke: '#374151' }}
+          />
+          <YAxis
+            tick={{ fill: '#9ca3af', fontSize: 10 }}
+            tickLine={false}
+            axisLine={{ stroke: '#374151' }}
+            width={50}
+            tickFormatter={(v) => `${v}ms`}
+          />
+          <Tooltip content={<LatencyTooltip />} cursor={{ fill: '#374151', opacity: 0.2 }} />
+          <Legend
+            wrapperStyle={{ paddingTop: '10px' }}
+            content={({ payload }) => (
+              <div className="flex justify-center gap-6 pt-2">
+                {payload?.map((entry, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-sm"
+                      style={{ backgroundColor: entry.color }}
+                    />
+                    <span className="text-xs text-muted-foreground uppercase">
+                      {entry.value}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          />
+          {(Object.keys(PERCENTILE_COLORS) as Array<keyof typeof PERCENTILE_COLORS>).map(key => (
+            <Bar
+              key={key}
+              dataKey={key}
+              fill={PERCENTILE_COLORS[key]}
+              fillOpacity={0.8}
+              animationDuration={1000}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
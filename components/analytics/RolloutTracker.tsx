@@ -0,0 +1,202 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import {
+  latestRolloutVersion,
+  loggedVersions,
+  rolloutLaggards,
+  trackRollout,
+  type VersionLog,
+} from '@/lib/rollout'
+
+interface RolloutTrackerProps {
+  log: VersionLog | null
+  isLoading?: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '-'
+  const hours = Math.round(ms / (60 * 60 * 1000))
+  if (hours >= 48) return `${(ms / DAY_MS).toFixed(1)}d`
+  return `${hours}h`
+}
+
+function formatPubkey(pubkey: string | null): string {
+  if (!pubkey) return '-'
+  return pubkey.length > 20 ? `${pubkey.slice(0, 8)}...${pubkey.slice(-4)}` : pubkey
+}
+
+export function RolloutTracker({ log, isLoading }: RolloutTrackerProps) {
+  const [selectedVersion, setSelectedVersion] = useState<string | null>(null)
+  const [days, setDays] = useState(7)
+
+  const versions = useMemo(() => loggedVersions(log), [log])
+  const defaultVersion = useMemo(() => latestRolloutVersion(log), [log])
+  const version = selectedVersion && versions.includes(selectedVersion) ? selectedVersion : defaultVersion
+  const rollout = useMemo(() => (version ? trackRollout(log, version) : null), [log, version])
+  const laggards = useMemo(() => (rollout ? rolloutLaggards(rollout, days) : []), [rollout, days])
+
+  const hosts = useMemo(() => {
+    if (!rollout) return []
+    return [...rollout.hosts].sort((a, b) => a.upgraded / a.nodes - b.upgraded / b.nodes || b.nodes - a.nodes)
+  }, [rollout])
+
+  if (isLoading) {
+    return (
+      <div className="h-[200px] flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading version history...</div>
+      </div>
+    )
+  }
+
+  if (!rollout) {
+    return (
+      <div className="h-[200px] flex items-center justify-center">
+        <div className="text-muted-foreground text-center">
+          <p>No version history recorded yet</p>
+          <p className="text-xs mt-1 opacity-60">Node versions are recorded after every crawl</p>
+        </div>
+      </div>
+    )
+  }
+
+  const upgraded = rollout.nodes.filter(n => n.upgradedAt !== null).length
+  const share = rollout.nodes.length > 0 ? (upgraded / rollout.nodes.length) * 100 : 0
+  const stillBehind = laggards.filter(n => n.upgradedAt === null).length
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-4 text-sm font-mono">
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Release</span>
+          <select
+            value={rollout.version}
+            onChange={(e) => setSelectedVersion(e.target.value)}
+            className="px-3 py-1.5 text-sm font-mono border border-border bg-card"
+          >
+            {versions.map(v => (
+              <option key={v} value={v}>v{v}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-muted-foreground">Behind after</span>
+          <input
+            type="number"
+            min={0}
+            value={days}
+            onChange={(e) => setDays(Math.max(0, Number(e.target.value) || 0))}
+            className="px-3 py-1.5 text-sm font-mono border border-border bg-card w-20"
+          />
+          <span className="text-muted-foreground">days</span>
+        </label>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-px bg-border border border-border">
+        <div className="bg-card p-4">
+          <div className="text-xs text-muted-foreground uppercase tracking-wider">First Seen</div>
+          <div className="text-lg font-mono mt-1">{new Date(rollout.releasedAt).toLocaleDateString()}</div>
+          {!rollout.releaseObserved && (
+            <div className="text-xs text-muted-foreground">or earlier, when tracking started</div>
+          )}
+        </div>
+        <div className="bg-card p-4">
+          <div className="text-xs text-muted-foreground uppercase tracking-wider">Upgraded</div>
+          <div className="text-lg font-mono mt-1 text-success">{share.toFixed(1)}%</div>
+          <div className="text-xs text-muted-foreground">{upgraded} of {rollout.nodes.length} nodes</div>
+        </div>
+        <div className="bg-card p-4">
+          <div className="text-xs text-muted-foreground uppercase tracking-wider">Median Time-to-Upgrade</div>
+          <div className="text-lg font-mono mt-1">{formatDuration(rollout.medianTimeToUpgradeMs)}</div>
+        </div>
+        <div className="bg-card p-4">
+          <div className="text-xs text-muted-foreground uppercase tracking-wider">Behind After {days}d</div>
+          <div className={cn('text-lg font-mono mt-1', laggards.length > 0 ? 'text-[#F59E0B]' : 'text-success')}>
+            {laggards.length}
+          </div>
+          <div className="text-xs text-muted-foreground">{stillBehind} still behind</div>
+        </div>
+      </div>
+
+      {/* Laggards */}
+      <div>
+        <h4 className="text-sm font-medium text-muted-foreground mb-2">
+          Not on v{rollout.version} or newer {days} {days === 1 ? 'day' : 'days'} after it was first seen
+        </h4>
+        {laggards.length === 0 ? (
+          <div className="text-sm text-muted-foreground bg-muted/50 p-4 text-center border border-border">
+            Every node had upgraded by then
+          </div>
+        ) : (
+          <div className="overflow-x-auto max-h-80 overflow-y-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left p-3 font-medium text-muted-foreground">Node</th>
+                  <th className="text-left p-3 font-medium text-muted-foreground">Pubkey</th>
+                  <th className="text-left p-3 font-medium text-muted-foreground">Version</th>
+                  <th className="text-right p-3 font-medium text-muted-foreground">Upgraded</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {laggards.map(node => (
+                  <tr key={node.address} className="hover:bg-muted/30 transition-colors">
+                    <td className="p-3 font-mono text-xs">{node.address}</td>
+                    <td className="p-3 font-mono text-xs" title={node.pubkey ?? undefined}>{formatPubkey(node.pubkey)}</td>
+                    <td className="p-3 font-mono text-xs">v{node.version}</td>
+                    <td className="p-3 text-right font-mono text-xs">
+                      {node.upgradedAt === null ? (
+                        <span className="text-[#F59E0B]">not yet</span>
+                      ) : (
+                        <span title={new Date(node.upgradedAt).toLocaleString()}>
+                          after {formatDuration(node.timeToUpgradeMs)}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Hosts */}
+      <div>
+        <h4 className="text-sm font-medium text-muted-foreground mb-2">By host</h4>
+        <div className="overflow-x-auto max-h-80 overflow-y-auto custom-scrollbar">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left p-3 font-medium text-muted-foreground">IP Address</th>
+                <th className="text-right p-3 font-medium text-muted-foreground">Nodes</th>
+                <th className="text-right p-3 font-medium text-muted-foreground">Upgraded</th>
+                <th className="text-right p-3 font-medium text-muted-foreground">Median Time-to-Upgrade</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {hosts.map(host => (
+                <tr key={host.ip} className="hover:bg-muted/30 transition-colors">
+                  <td className="p-3 font-mono text-xs">{host.ip}</td>
+                  <td className="p-3 text-right font-mono">{host.nodes}</td>
+                  <td className={cn(
+                    'p-3 text-right font-mono',
+                    host.upgraded === host.nodes ? 'text-success' : 'text-[#F59E0B]'
+                  )}>
+                    {host.upgraded}/{host.nodes}
+                  </td>
+                  <td className="p-3 text-right font-mono">{formatDuration(host.medianTimeToUpgradeMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import type { NetworkSnapshot } from '@/lib/useHistoricalData'
+import { OTHER_VERSIONS, versionAdoption } from '@/lib/rollout'
+
+interface VersionAdoptionChartProps {
+  data: NetworkSnapshot[]
+  isLoading?: boolean
+}
+
+// Newest version first
+const VERSION_COLORS = ['#22c55e', '#06b6d4', '#a855f7', '#eab308', '#f97316']
+const OTHER_COLOR = '#6b7280'
+
+export function VersionAdoptionChart({ data, isLoading }: VersionAdoptionChartProps) {
+  const { versions, points } = useMemo(() => versionAdoption(data), [data])
+
+  const chartData = useMemo(() => {
+    return points.map(p => ({
+      ...p,
+      label: new Date(p.time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+    }))
+  }, [points])
+
+  const colorOf = (version: string) =>
+    version === OTHER_VERSIONS ? OTHER_COLOR : VERSION_COLORS[versions.indexOf(version) % VERSION_COLORS.length]
+
+  if (isLoading) {
+    return (
+      <div className="h-[300px] flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading chart data...</div>
+      </div>
+    )
+  }
+
+  if (chartData.length === 0 || versions.length === 0) {
+    return (
+      <div className="h-[300px] flex items-center justify-center">
+        <div className="text-muted-foreground">No historical data available yet</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+          <XAxis
+            dataKey="label"
+            tick={{ fill: '#9ca3af', fontSize: 10 }}
+            tickLine={false}
+            axisLine={{ stroke: '#374151' }}
+            interval="preserveStartEnd"
+          />
+          <YAxis
+            domain={[0, 100]}
+            tick={{ fill: '#9ca3af', fontSize: 10 }}
+            tickLine={false}
+            axisLine={{ stroke: '#374151' }}
+            width={40}
+            tickFormatter={(v: number) => `${v}%`}
+          />
+          <Tooltip
+            content={({ active, payload }) => active && payload && payload.length ? (
+              <div className="bg-card/95 backdrop-blur border border-border rounded-lg p-3 shadow-xl">
+                <p className="text-xs text-muted-foreground mb-2">{new Date(payload[0].payload.time).toLocaleString()}</p>
+                <div className="space-y-1">
+                  {versions.map(version => (
+                    <div key={version} className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-2">
+                        <div className="w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(version) }} />
+                        <span className="text-sm text-muted-foreground">{version === OTHER_VERSIONS ? 'Other' : `v${version}`}</span>
+                      </div>
+                      <span className="font-mono text-sm">{(payload[0].payload[version] as number).toFixed(1)}%</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : null}
+          />
+          <Legend
+            wrapperStyle={{ paddingTop: '10px' }}
+            content={({ payload }) => (
+              <div className="flex flex-wrap justify-center gap-6 pt-2">
+                {payload?.map((entry, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: entry.color }} />
+                    <span className="text-xs text-muted-foreground font-mono">{entry.value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          />
+          {/* Oldest at the bottom, so the newest release grows from the top */}
+          {[...versions].reverse().map(version => (
+            <Area
+              key={version}
+              type="monotone"
+              dataKey={version}
+              name={version === OTHER_VERSIONS ? 'Other' : `v${version}`}
+              stackId="1"
+              stroke={colorOf(version)}
+              fill={colorOf(version)}
+              fillOpacity={0.3}
+              strokeWidth={1.5}
+              animationDuration={1000}
+            />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}
@@ -2,3 +2,10 @@ export { NetworkHealthChart } from './NetworkHealthChart'
 export { ResourceUsageChart } from './ResourceUsageChart'
 export { NetworkComparisonChart } from './NetworkComparisonChart'
 export { StorageTrendChart } from './StorageTrendChart'
+export { LatencyDistributionChart } from './LatencyDistributionChart'
+export { LatencyByCountryTable } from './LatencyByCountryTable'
+export { VersionAdoptionChart } from './VersionAdoptionChart'
+export { RolloutTracker } from './RolloutTracker'
+export { ForecastChart } from './ForecastChart'
+export { ForecastSummary } from './ForecastSummary'
+export { CapacityForecast } from './CapacityForecast'
@@ -0,0 +1,135 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { BookUser, Trash2, Upload, Download } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { nodeKeyPath } from "@/lib/nodeLinks";
+import { downloadBlob } from "@/lib/export";
+import { useAnnotations } from "@/contexts/AnnotationsContext";
+import { AnnotationTags } from "./AnnotationTags";
+
+/**
+ * Button opening the list of annotated nodes, with JSON import and export
+ */
+export function AddressBookDialog() {
+  const { annotations, removeAnnotation, importAnnotations, exportAnnotations } = useAnnotations();
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const entries = Array.from(annotations.values()).sort((a, b) =>
+    (a.nickname || a.key).localeCompare(b.nickname || b.key)
+  );
+
+  const handleRemove = async (key: string, name: string) => {
+    if (!window.confirm(`Remove the annotation for "${name}"?`)) return;
+    await removeAnnotation(key);
+    setMessage({ text: `Removed ${name}`, isError: false });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const { imported, errors } = await importAnnotations(await file.text());
+    const summary = `Imported ${imported} annotation${imported === 1 ? "" : "s"}`;
+    setMessage({
+      text: errors.length > 0 ? `${summary}. Skipped: ${errors.join("; ")}` : summary,
+      isError: errors.length > 0,
+    });
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportAnnotations()], { type: "application/json" }), "xnode-address-book.json");
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="font-mono">
+          <BookUser className="w-4 h-4" /> Address Book
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] bg-card border-border max-h-[85vh] overflow-y-auto custom-scrollbar">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-light tracking-wide">Address Book</DialogTitle>
+          <DialogDescription>
+            Nicknames, tags and notes for nodes, added from a node&apos;s detail panel or page. They are
+            saved in this browser and can be shared with your team as a JSON file. Importing replaces the
+            annotations of nodes in the file.
+          </DialogDescription>
+        </DialogHeader>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No annotated nodes yet</p>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((annotation) => {
+              const name = annotation.nickname || `${annotation.key.slice(0, 8)}...`;
+              return (
+                <div
+                  key={annotation.key}
+                  className="flex items-center justify-between gap-3 border border-border bg-muted/30 p-3"
+                >
+                  <div className="min-w-0 space-y-1">
+                    <Link
+                      href={nodeKeyPath(annotation.key)}
+                      className="block text-sm font-mono hover:text-primary truncate"
+                    >
+                      {name}
+                    </Link>
+                    <div className="text-xs font-mono text-muted-foreground truncate" title={annotation.key}>
+                      {annotation.key}
+                    </div>
+                    <AnnotationTags tags={annotation.tags} />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => handleRemove(annotation.key, name)}
+                    title="Remove"
+                    className="shrink-0"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4" /> Import JSON
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={entries.length === 0}>
+            <Download className="w-4 h-4" /> Export JSON
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+
+        {message && (
+          <p className={cn("text-xs font-mono", message.isError ? "text-destructive" : "text-success")}>
+            {message.text}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
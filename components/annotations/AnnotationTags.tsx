@@ -0,0 +1,37 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+
+interface AnnotationTagsProps {
+  tags: string[];
+  // Tags shown before collapsing the rest into "+N"
+  max?: number;
+  className?: string;
+}
+
+export function AnnotationTags({ tags, max, className }: AnnotationTagsProps) {
+  if (tags.length === 0) return null;
+  const shown = max !== undefined ? tags.slice(0, max) : tags;
+  const hidden = tags.length - shown.length;
+
+  return (
+    <div className={cn("flex flex-wrap gap-1", className)}>
+      {shown.map((tag) => (
+        <span
+          key={tag}
+          className="px-1.5 py-0.5 text-[10px] font-mono leading-none border border-primary/30 bg-primary/10 text-primary"
+        >
+          #{tag}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span
+          className="px-1.5 py-0.5 text-[10px] font-mono leading-none border border-border text-muted-foreground"
+          title={tags.slice(shown.length).map((tag) => `#${tag}`).join(" ")}
+        >
+          +{hidden}
+        </span>
+      )}
+    </div>
+  );
+}
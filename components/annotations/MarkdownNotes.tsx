@@ -0,0 +1,133 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+// Renders the small markdown subset notes need: headings, lists, code blocks,
+// paragraphs and inline code, bold, italic and http(s) links. Output is built as
+// React elements, so imported notes can't inject HTML.
+
+type Block =
+  | { type: "heading"; level: number; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "code"; text: string }
+  | { type: "paragraph"; text: string };
+
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*]+\*|_[^_]+_|\[[^\]]+\]\([^)\s]+\))/g;
+
+function parseBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim().startsWith("```")) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith("```")) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, text: heading[2] });
+      i++;
+      continue;
+    }
+
+    const listItem = /^\s*([-*]|\d+\.)\s+/;
+    if (listItem.test(line)) {
+      const ordered = /^\s*\d+\./.test(line);
+      const items: string[] = [];
+      while (i < lines.length && listItem.test(lines[i])) items.push(lines[i++].replace(listItem, ""));
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !lines[i].trim().startsWith("```") &&
+      !/^#{1,3}\s/.test(lines[i]) &&
+      !listItem.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: "paragraph", text: paragraph.join("\n") });
+  }
+
+  return blocks;
+}
+
+function renderInline(text: string): ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, i) => {
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 2) {
+      return <code key={i} className="px-1 bg-muted font-mono text-[0.9em]">{part.slice(1, -1)}</code>;
+    }
+    if (part.startsWith("**") && part.endsWith("**") && part.length > 4) {
+      return <strong key={i}>{part.slice(2, -2)}</strong>;
+    }
+    if (((part.startsWith("*") && part.endsWith("*")) || (part.startsWith("_") && part.endsWith("_"))) && part.length > 2) {
+      return <em key={i}>{part.slice(1, -1)}</em>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link && /^https?:\/\//.test(link[2])) {
+      return (
+        <a key={i} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+          {link[1]}
+        </a>
+      );
+    }
+    return part;
+  });
+}
+
+interface MarkdownNotesProps {
+  markdown: string;
+  className?: string;
+}
+
+export function MarkdownNotes({ markdown, className }: MarkdownNotesProps) {
+  const blocks = parseBlocks(markdown);
+
+  return (
+    <div className={cn("space-y-2 text-sm break-words", className)}>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case "heading":
+            return (
+              <p key={i} className={cn("font-medium", block.level === 1 ? "text-base" : "text-sm")}>
+                {renderInline(block.text)}
+              </p>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={i} className={cn("pl-5 space-y-0.5", block.ordered ? "list-decimal" : "list-disc")}>
+                {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+              </List>
+            );
+          }
+          case "code":
+            return (
+              <pre key={i} className="p-2 bg-muted font-mono text-xs overflow-x-auto custom-scrollbar">
+                {block.text}
+              </pre>
+            );
+          default:
+            return <p key={i} className="whitespace-pre-line">{renderInline(block.text)}</p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { Pencil, Trash2, StickyNote } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAnnotations } from "@/contexts/AnnotationsContext";
+import { nodeKey } from "@/lib/nodeLinks";
+import { ANNOTATION_LIMITS, validateAnnotation } from "@/lib/annotations";
+import { AnnotationTags } from "./AnnotationTags";
+import { MarkdownNotes } from "./MarkdownNotes";
+
+interface NodeAnnotationEditorProps {
+  node: { pubkey: string | null; address: string };
+}
+
+export function NodeAnnotationEditor({ node }: NodeAnnotationEditorProps) {
+  const { getAnnotation, saveAnnotation, removeAnnotation } = useAnnotations();
+  const annotation = getAnnotation(node);
+  const key = nodeKey(node);
+
+  // Form fields while editing, null otherwise
+  const [draft, setDraft] = useState<{ nickname: string; tags: string; notes: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const startEditing = () => {
+    setDraft({
+      nickname: annotation?.nickname ?? "",
+      tags: annotation?.tags.join(", ") ?? "",
+      notes: annotation?.notes ?? "",
+    });
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const result = validateAnnotation({ key, ...draft, tags: draft.tags.split(",") });
+    if (!result.ok) {
+      setError(result.error.replace(/^annotation\./, ""));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveAnnotation(result.annotation);
+      setDraft(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save annotation");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!window.confirm("Remove the nickname, tags and notes for this node?")) return;
+    await removeAnnotation(key);
+    setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <label className="block space-y-1">
+          <span className="text-xs uppercase tracking-widest text-muted-foreground">Nickname</span>
+          <Input
+            value={draft.nickname}
+            maxLength={ANNOTATION_LIMITS.NICKNAME}
+            placeholder="e.g. fra-01"
+            onChange={(e) => setDraft({ ...draft, nickname: e.target.value })}
+            className="font-mono h-9"
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs uppercase tracking-widest text-muted-foreground">Tags (comma separated)</span>
+          <Input
+            value={draft.tags}
+            placeholder="ours, hetzner, watch"
+            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            className="font-mono h-9"
+          />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-xs uppercase tracking-widest text-muted-foreground">Notes (markdown)</span>
+          <textarea
+            value={draft.notes}
+            maxLength={ANNOTATION_LIMITS.NOTES}
+            rows={5}
+            placeholder="Operator contact, maintenance windows, ..."
+            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+            className="w-full px-3 py-2 text-sm font-mono border border-input bg-transparent resize-y focus-visible:outline-none focus-visible:border-ring"
+          />
+        </label>
+
+        {error && <p className="text-xs font-mono text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button type="submit" size="sm" disabled={saving}>
+            Save
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  if (!annotation) {
+    return (
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-muted-foreground">
+          Add a nickname, tags or notes. They are private to this browser.
+        </p>
+        <Button variant="outline" size="sm" onClick={startEditing}>
+          <StickyNote className="w-4 h-4" /> Annotate
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0 space-y-1.5">
+          {annotation.nickname && <p className="font-mono text-sm">{annotation.nickname}</p>}
+          <AnnotationTags tags={annotation.tags} />
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <Button variant="ghost" size="icon-sm" onClick={startEditing} title="Edit">
+            <Pencil className="w-3.5 h-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={handleRemove} title="Remove">
+            <Trash2 className="w-3.5 h-3.5 text-destructive" />
+          </Button>
+        </div>
+      </div>
+      {annotation.notes && <MarkdownNotes markdown={annotation.notes} className="text-muted-foreground" />}
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { AnnotationTags } from "./AnnotationTags";
+export { MarkdownNotes } from "./MarkdownNotes";
+export { NodeAnnotationEditor } from "./NodeAnnotationEditor";
+export { AddressBookDialog } from "./AddressBookDialog";
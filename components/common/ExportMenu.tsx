@@ -0,0 +1,53 @@
+'use client'
+
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { EXPORT_FORMATS, downloadRows, type ExportColumn } from '@/lib/export'
+
+interface ExportMenuProps<T> {
+  /** File name prefix, e.g. "devnet1-nodes" (a timestamp and extension are appended) */
+  name: string
+  rows: T[]
+  columns: ExportColumn<T>[]
+  className?: string
+}
+
+export function ExportMenu<T>({ name, rows, columns, className }: ExportMenuProps<T>) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <span className={cn('relative inline-flex', className)}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        disabled={rows.length === 0}
+        title={`Export ${rows.length} rows`}
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 z-50 min-w-36 border border-border bg-card shadow-lg">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.value}
+              type="button"
+              className="flex w-full items-center justify-between gap-4 px-3 py-2 text-xs font-mono hover:bg-muted"
+              onClick={() => {
+                downloadRows(name, rows, columns, format.value)
+                setOpen(false)
+              }}
+            >
+              {format.label}
+              <span className="text-muted-foreground">{rows.length} rows</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </span>
+  )
+}
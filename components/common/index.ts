@@ -37,3 +37,4 @@ export {
   Spin,
 } from './AnimatedComponents'
 export { Logo, LogoIcon } from './Logo'
+export { ExportMenu } from './ExportMenu'
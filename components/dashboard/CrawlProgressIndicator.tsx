@@ -0,0 +1,34 @@
+'use client'
+
+import { Loader2 } from "lucide-react"
+import type { CrawlProgress } from "@/lib/crawlScheduler"
+
+function formatEta(ms: number) {
+  const seconds = Math.ceil(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+interface CrawlProgressIndicatorProps {
+  progress: CrawlProgress | null
+}
+
+export function CrawlProgressIndicator({ progress }: CrawlProgressIndicatorProps) {
+  if (!progress || progress.remaining === 0) return null
+  const percent = progress.total > 0 ? (progress.done / progress.total) * 100 : 0
+
+  return (
+    <span
+      className="inline-flex items-center gap-2 text-xs font-mono text-muted-foreground ml-2"
+      title={`${progress.concurrency} parallel requests${progress.deferred > 0 ? `, ${progress.deferred} failing nodes backing off` : ""}`}
+    >
+      <Loader2 className="w-3 h-3 animate-spin" />
+      <span className="w-16 h-1 bg-muted overflow-hidden">
+        <span className="block h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+      </span>
+      {progress.done}/{progress.total}
+      {progress.etaMs !== null && <span>· ~{formatEta(progress.etaMs)} left</span>}
+      {progress.deferred > 0 && <span>· {progress.deferred} backing off</span>}
+    </span>
+  )
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { Radar, Network, EyeOff } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { BracketCard } from "@/components/common"
+import { cn } from "@/lib/utils"
+import type { DiscoveredPod, GossipDiscovery } from "@/lib/gossip"
+
+interface GossipDiscoveryPanelProps {
+  discovery: GossipDiscovery
+  registryCount: number
+  formatTimestamp: (timestamp: number) => string
+}
+
+function formatPeers(count: number) {
+  return `Seen by ${count} ${count === 1 ? "peer" : "peers"}`
+}
+
+function PodRow({ pod, formatTimestamp }: { pod: DiscoveredPod; formatTimestamp: (timestamp: number) => string }) {
+  return (
+    <div className="flex justify-between items-center gap-3 bg-muted/50 p-3 border border-border">
+      <div className="min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-sm truncate">{pod.address}</span>
+          {pod.source === "gossip" && (
+            <Badge variant="outline" className="text-[10px] border-primary/50 text-primary shrink-0">
+              Discovered via gossip
+            </Badge>
+          )}
+        </div>
+        <div className="text-xs text-muted-foreground font-mono truncate">
+          v{pod.version}
+          {pod.pubkey && <span title={pod.pubkey}> · {pod.pubkey.slice(0, 8)}...</span>}
+        </div>
+      </div>
+      <div className="text-right shrink-0">
+        <div className={cn("text-xs font-mono", pod.seenBy === 0 ? "text-destructive" : "text-muted-foreground")}>
+          {formatPeers(pod.seenBy)}
+        </div>
+        <div className="text-xs font-mono text-muted-foreground/70">
+          {formatTimestamp(pod.last_seen_timestamp)}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function GossipDiscoveryPanel({ discovery, registryCount, formatTimestamp }: GossipDiscoveryPanelProps) {
+  if (discovery.peerLists === 0) {
+    return (
+      <BracketCard className="p-4 bg-card">
+        <div className="text-sm text-muted-foreground text-center py-4">
+          Waiting for peer lists from online nodes...
+        </div>
+      </BracketCard>
+    )
+  }
+
+  const summary = [
+    { label: "Registry", value: registryCount, hint: "Pods in get-pods" },
+    { label: "Gossip Union", value: discovery.pods.length, hint: `From ${discovery.peerLists} peer lists` },
+    { label: "Only in Gossip", value: discovery.gossipOnly.length, hint: "Missing from registry" },
+    { label: "Unseen by Peers", value: discovery.unseen.length, hint: "Registry only" },
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {summary.map(item => (
+          <BracketCard key={item.label} className="p-4 bg-card">
+            <div className="text-xs uppercase tracking-widest text-muted-foreground mb-2">{item.label}</div>
+            <p className="text-2xl font-light font-mono">{item.value}</p>
+            <div className="text-xs text-muted-foreground mt-1">{item.hint}</div>
+          </BracketCard>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <BracketCard className="p-4 bg-card">
+          <h3 className="text-sm font-medium text-muted-foreground mb-3 flex items-center gap-2">
+            <Radar className="w-4 h-4 text-primary" />
+            Only in gossip ({discovery.gossipOnly.length})
+          </h3>
+          {discovery.gossipOnly.length > 0 ? (
+            <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+              {discovery.gossipOnly.map(pod => (
+                <PodRow key={pod.address} pod={pod} formatTimestamp={formatTimestamp} />
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground bg-muted/50 p-4 text-center border border-border flex items-center justify-center gap-2">
+              <Network className="w-4 h-4" />
+              Every peer reported in gossip is in the registry
+            </div>
+          )}
+        </BracketCard>
+
+        <BracketCard className="p-4 bg-card">
+          <h3 className="text-sm font-medium text-muted-foreground mb-3 flex items-center gap-2">
+            <EyeOff className="w-4 h-4 text-destructive" />
+            In registry, not seen by any peer ({discovery.unseen.length})
+          </h3>
+          {discovery.unseen.length > 0 ? (
+            <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+              {discovery.unseen.map(pod => (
+                <PodRow key={pod.address} pod={pod} formatTimestamp={formatTimestamp} />
+              ))}
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground bg-muted/50 p-4 text-center border border-border flex items-center justify-center gap-2">
+              <Network className="w-4 h-4" />
+              Every registry pod appears in at least one peer list
+            </div>
+          )}
+        </BracketCard>
+      </div>
+    </div>
+  )
+}
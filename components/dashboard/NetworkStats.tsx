@@ -6,13 +6,8 @@ import { BracketCard, DotProgress } from "@/components/common"
 import { Stagger, StaggerItem, ScaleOnHover } from "@/components/common"
 import { getVersionDistribution, findLatestVersion, compareVersions } from "@/lib/version"
 import { VersionDistributionChart } from "./VersionDistributionChart"
-
-interface NetworkPod {
-  address: string
-  last_seen_timestamp: number
-  pubkey: string | null
-  version: string
-}
+import type { NetworkPod } from "@/lib/prpc"
+import { HEALTH_LABELS, type NodeHealth } from "@/lib/nodeHealth"
 
 interface NetworkStatsProps {
   onlineCount: number
@@ -23,6 +18,14 @@ interface NetworkStatsProps {
   registryPods: NetworkPod[]
   formatBytes: (bytes: number) => string
   totalCredits?: number
+  // Nodes per health state; degraded, flapping and unreachable are listed under the online count
+  healthCounts?: Record<NodeHealth, number>
+}
+
+const HEALTH_COUNTER_CLASSES: Partial<Record<NodeHealth, string>> = {
+  degraded: "text-orange-500",
+  flapping: "text-purple-500",
+  unreachable: "text-destructive",
 }
 
 export function NetworkStats({
@@ -34,6 +37,7 @@ export function NetworkStats({
   registryPods,
   formatBytes,
   totalCredits = 0,
+  healthCounts,
 }: NetworkStatsProps) {
   // State for version chart modal
   const [showVersionChart, setShowVersionChart] = useState(false)
@@ -80,6 +84,18 @@ export function NetworkStats({
                 percent={totalCount > 0 ? (onlineCount / totalCount) * 100 : 0}
                 className="mt-2"
               />
+              {healthCounts && (
+                <div className="flex flex-wrap gap-x-2 text-xs font-mono mt-2">
+                  {(Object.keys(HEALTH_COUNTER_CLASSES) as NodeHealth[]).map(state => (
+                    <span
+                      key={state}
+                      className={healthCounts[state] > 0 ? HEALTH_COUNTER_CLASSES[state] : "text-muted-foreground/50"}
+                    >
+                      {healthCounts[state]} {HEALTH_LABELS[state].toLowerCase()}
+                    </span>
+                  ))}
+                </div>
+              )}
             </BracketCard>
           </ScaleOnHover>
         </StaggerItem>
@@ -0,0 +1,92 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+import {
+  AVAILABILITY_WINDOWS,
+  formatAvailability,
+  type AvailabilityWindow,
+  type NodeAvailability,
+} from '@/lib/availability'
+
+interface NodeAvailabilitySummaryProps {
+  // Undefined until the node has been observed
+  availability?: NodeAvailability
+}
+
+const WINDOW_LABELS: Record<AvailabilityWindow, string> = {
+  '24h': '24H',
+  '7d': '7D',
+  '30d': '30D',
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${minutes}m`
+}
+
+function availabilityColor(percent: number | null): string {
+  if (percent === null) return 'text-muted-foreground'
+  if (percent >= 99) return 'text-success'
+  if (percent >= 95) return 'text-[#F59E0B]'
+  return 'text-destructive'
+}
+
+export function NodeAvailabilitySummary({ availability }: NodeAvailabilitySummaryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-muted-foreground uppercase tracking-wider">Availability</div>
+
+      {!availability ? (
+        <div className="text-sm text-muted-foreground bg-muted/50 p-4 text-center border border-border">
+          <p>No availability history recorded yet</p>
+          <p className="text-xs mt-1 opacity-60">Computed from the node&apos;s status at every crawl</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-px bg-border border border-border">
+            {AVAILABILITY_WINDOWS.map(window => (
+              <div key={window} className="bg-card p-3">
+                <div className="text-xs text-muted-foreground uppercase tracking-wider">{WINDOW_LABELS[window]}</div>
+                <div className={cn('text-xl font-mono mt-1', availabilityColor(availability.percent[window]))}>
+                  {formatAvailability(availability.percent[window])}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDuration(availability.observedMs[window])} observed
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="text-xs text-muted-foreground mb-2">
+              Downtime (30D): {availability.downtimes.length === 0 ? 'none observed' : `${availability.downtimes.length} ${availability.downtimes.length === 1 ? 'interval' : 'intervals'}`}
+            </div>
+            {availability.downtimes.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                {availability.downtimes.map(downtime => (
+                  <div
+                    key={downtime.start}
+                    className="flex justify-between items-center bg-muted/50 px-3 py-2 border border-border text-xs font-mono"
+                  >
+                    <span>
+                      {new Date(downtime.start).toLocaleString()}
+                      {' → '}
+                      {downtime.ongoing ? 'now' : new Date(downtime.end).toLocaleString()}
+                    </span>
+                    <span className={cn(downtime.ongoing ? 'text-destructive' : 'text-muted-foreground')}>
+                      {downtime.ongoing ? 'ongoing, ' : ''}{formatDuration(downtime.end - downtime.start)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
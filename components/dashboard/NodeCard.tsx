@@ -5,6 +5,28 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DotProgress } from "@/components/common";
 import { cn } from "@/lib/utils";
+import { describePrpcError } from "@/lib/prpcErrors";
+import { nodeHealth, HEALTH_LABELS, type NodeHealth } from "@/lib/nodeHealth";
+import { nodeDisplayName, type NodeAnnotation } from "@/lib/annotations";
+import { AnnotationTags } from "@/components/annotations";
+import type { NodeData } from "@/lib/prpc";
+
+// Status dot and status line colors for each health state
+const HEALTH_DOT_CLASSES: Record<NodeHealth, string> = {
+  healthy: "bg-success",
+  degraded: "bg-orange-500",
+  flapping: "bg-purple-500",
+  offline: "bg-destructive",
+  unreachable: "bg-red-900",
+};
+
+const HEALTH_TEXT_CLASSES: Record<NodeHealth, string> = {
+  healthy: "text-success",
+  degraded: "text-orange-500",
+  flapping: "text-purple-500",
+  offline: "text-destructive",
+  unreachable: "text-destructive",
+};
 
 // Utility function to truncate version string
 const truncateVersion = (version: string, maxLength: number = 15) => {
@@ -12,43 +34,6 @@ const truncateVersion = (version: string, maxLength: number = 15) => {
   return version.slice(0, maxLength) + "...";
 };
 
-interface StatsResponse {
-  active_streams: number;
-  cpu_percent: number;
-  current_index: number;
-  file_size: number;
-  last_updated: number;
-  packets_received: number;
-  packets_sent: number;
-  ram_total: number;
-  ram_used: number;
-  total_bytes: number;
-  total_pages: number;
-  uptime: number;
-}
-
-interface VersionResponse {
-  version: string;
-}
-
-interface NodeData {
-  ip: string;
-  address: string;
-  label: string;
-  pubkey: string | null;
-  registryVersion: string;
-  status: "online" | "offline" | "loading";
-  version?: VersionResponse;
-  stats?: StatsResponse;
-  error?: string;
-  lastFetched?: number;
-  location?: {
-    city: string;
-    country: string;
-    countryCode?: string;
-  };
-}
-
 interface NodeCardProps {
   node: NodeData;
   isSelected: boolean;
@@ -56,6 +41,9 @@ interface NodeCardProps {
   formatBytes: (bytes: number) => string;
   formatUptime: (seconds: number) => string;
   credits?: number;
+  // Number of peers whose gossip list includes this node
+  seenBy?: number;
+  annotation?: NodeAnnotation;
 }
 
 export function NodeCard({
@@ -65,7 +53,12 @@ export function NodeCard({
   formatBytes,
   formatUptime,
   credits,
+  seenBy,
+  annotation,
 }: NodeCardProps) {
+  const health = nodeHealth(node);
+  const healthReasons = node.health?.reasons.join(", ");
+
   return (
     <div
       onClick={onClick}
@@ -79,7 +72,7 @@ export function NodeCard({
       {/* Node Header */}
       <div className="flex justify-between items-start mb-3">
         <div>
-          <h3 className="font-medium font-mono">{node.label}</h3>
+          <h3 className="font-medium font-mono">{nodeDisplayName(node, annotation)}</h3>
           <p className="text-xs font-mono text-muted-foreground">
             {node.address}
           </p>
@@ -111,6 +104,7 @@ export function NodeCard({
               <span title={node.pubkey}>{node.pubkey}</span>
             ) : null}
           </div>
+          {annotation && <AnnotationTags tags={annotation.tags} max={4} className="mt-1" />}
         </div>
         <div className="flex items-center gap-2 shrink-0">
           {node.status === "loading" ? (
@@ -127,12 +121,9 @@ export function NodeCard({
           <span
             className={cn(
               "w-3 h-3 flex-shrink-0",
-              node.status === "online"
-                ? "bg-success"
-                : node.status === "offline"
-                ? "bg-destructive"
-                : "bg-[#F59E0B] animate-pulse"
+              health ? HEALTH_DOT_CLASSES[health] : "bg-[#F59E0B] animate-pulse"
             )}
+            title={health ? HEALTH_LABELS[health] : undefined}
           />
         </div>
       </div>
@@ -141,8 +132,19 @@ export function NodeCard({
       {node.status === "online" && node.stats ? (
         <div className="space-y-2">
           {/* Status Line - for consistent height */}
-          <div className="text-xs font-mono text-success h-4 flex items-center">
-            Connected
+          <div className="text-xs font-mono h-4 flex items-center justify-between">
+            {health && health !== "healthy" ? (
+              <span className={cn("truncate", HEALTH_TEXT_CLASSES[health])} title={healthReasons}>
+                {HEALTH_LABELS[health]}
+              </span>
+            ) : (
+              <span className="text-success">Connected</span>
+            )}
+            {seenBy !== undefined && (
+              <span className={seenBy === 0 ? "text-destructive" : "text-muted-foreground"}>
+                Seen by {seenBy} {seenBy === 1 ? "peer" : "peers"}
+              </span>
+            )}
           </div>
 
           {/* CPU */}
@@ -233,12 +235,22 @@ export function NodeCard({
             </div>
           </div>
         </div>
-      ) : node.status === "offline" ? (
+      ) : health ? (
         <div className="space-y-2">
-          {/* Status Line - Error Message */}
-          <div className="text-xs text-destructive font-mono h-4 flex items-center">
-            {node.error || "Node offline"}
-          </div>
+          {/* Status Line - Error Message, or why an online node has no stats */}
+          {node.status === "offline" ? (
+            <div
+              className={cn("text-xs font-mono h-4 flex items-center truncate", HEALTH_TEXT_CLASSES[health])}
+              title={healthReasons ?? node.error?.message}
+            >
+              {health !== "offline" && `${HEALTH_LABELS[health]}: `}
+              {describePrpcError(node.error)}
+            </div>
+          ) : (
+            <div className={cn("text-xs font-mono h-4 flex items-center truncate", HEALTH_TEXT_CLASSES[health])}>
+              {HEALTH_LABELS[health]}: {healthReasons || "no stats"}
+            </div>
+          )}
 
           {/* CPU - Disabled */}
           <div>
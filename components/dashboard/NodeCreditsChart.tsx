@@ -0,0 +1,172 @@
+'use client'
+
+import { useMemo } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { cn } from '@/lib/utils'
+import { creditRate, creditsStalled, type CreditPoint, type CreditWindow } from '@/lib/podCredits'
+
+interface NodeCreditsChartProps {
+  // Oldest first, ending with the current credits
+  points: CreditPoint[]
+  // Only online nodes are flagged when their credits stall
+  online: boolean
+  isLoading?: boolean
+  error?: string | null
+  onPeriodChange?: (period: CreditWindow) => void
+  currentPeriod?: CreditWindow
+}
+
+const PERIODS: { value: CreditWindow; label: string }[] = [
+  { value: '24h', label: '24H' },
+  { value: '7d', label: '7D' },
+  { value: '30d', label: '30D' },
+]
+
+export function NodeCreditsChart({
+  points,
+  online,
+  isLoading,
+  error,
+  onPeriodChange,
+  currentPeriod = '7d',
+}: NodeCreditsChartProps) {
+  const chartData = useMemo(() => {
+    return points.map(p => ({
+      ...p,
+      label: new Date(p.time).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+    }))
+  }, [points])
+
+  const rate = useMemo(() => creditRate(points), [points])
+  const stalled = online && creditsStalled(points)
+  const earned = points.length > 1 ? points[points.length - 1].credits - points[0].credits : null
+
+  const periodButtons = onPeriodChange && (
+    <div className="flex gap-1">
+      {PERIODS.map((p) => (
+        <button
+          key={p.value}
+          onClick={() => onPeriodChange(p.value)}
+          className={cn(
+            "px-2 py-1 text-xs font-mono rounded transition-colors",
+            currentPeriod === p.value
+              ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/30"
+              : "bg-muted/50 text-muted-foreground hover:bg-muted"
+          )}
+        >
+          {p.label}
+        </button>
+      ))}
+    </div>
+  )
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <div className="text-xs text-muted-foreground uppercase tracking-wider">Credits History</div>
+        <div className="h-[200px] flex items-center justify-center bg-muted/20 rounded-lg border border-border">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="space-y-4">
+        <div className="text-xs text-muted-foreground uppercase tracking-wider">Credits History</div>
+        <div className="h-[200px] flex items-center justify-center bg-muted/20 rounded-lg border border-border">
+          <div className="text-muted-foreground text-sm text-center p-4">
+            <p>Unable to load credits history</p>
+            <p className="text-xs mt-1 text-red-400/60">{error}</p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="text-xs text-muted-foreground uppercase tracking-wider">Credits History</div>
+        {periodButtons}
+      </div>
+
+      {stalled && (
+        <div className="flex items-center gap-2 p-3 text-xs border border-[#F59E0B]/40 bg-[#F59E0B]/10 text-[#F59E0B]">
+          <AlertTriangle className="w-4 h-4" />
+          Credits have not grown for at least 6 hours although the node is online
+        </div>
+      )}
+
+      <div className="flex gap-4 text-xs flex-wrap">
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Earning Rate:</span>
+          <span className="font-mono text-success">{rate !== null ? `${rate.toFixed(2)} credits/h` : '-'}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">Earned:</span>
+          <span className="font-mono text-success">{earned !== null ? earned.toLocaleString() : '-'}</span>
+        </div>
+      </div>
+
+      {points.length < 2 ? (
+        <div className="h-[200px] flex items-center justify-center bg-muted/20 rounded-lg border border-border">
+          <div className="text-muted-foreground text-sm text-center p-4">
+            <p>No credits history available yet</p>
+            <p className="text-xs mt-1 opacity-60">Data will appear as it&apos;s collected</p>
+          </div>
+        </div>
+      ) : (
+        <div className="h-[200px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 5, right: 5, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" opacity={0.3} />
+              <XAxis
+                dataKey="label"
+                tick={{ fill: '#9ca3af', fontSize: 10 }}
+                tickLine={false}
+                axisLine={{ stroke: '#374151' }}
+                interval="preserveStartEnd"
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tick={{ fill: '#9ca3af', fontSize: 10 }}
+                tickLine={false}
+                axisLine={{ stroke: '#374151' }}
+                width={50}
+                tickFormatter={(v: number) => v.toLocaleString()}
+              />
+              <Tooltip
+                content={({ active, payload }) => active && payload && payload.length ? (
+                  <div className="bg-card/95 backdrop-blur border border-border rounded-lg p-3 shadow-xl">
+                    <p className="text-xs text-muted-foreground mb-2">{new Date(payload[0].payload.time).toLocaleString()}</p>
+                    <span className="font-mono text-sm text-success">{payload[0].payload.credits.toLocaleString()} credits</span>
+                  </div>
+                ) : null}
+              />
+              <Line
+                type="monotone"
+                dataKey="credits"
+                name="Credits"
+                stroke="#22c55e"
+                strokeWidth={2}
+                dot={false}
+                activeDot={{ r: 3, fill: '#22c55e' }}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,59 +1,28 @@
 'use client'
 
-import { useState } from "react"
-import { X, Coins, History, Info } from "lucide-react"
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import { X, Coins, History, Info, ExternalLink } from "lucide-react"
 import { motion, AnimatePresence } from "framer-motion"
 import { Button } from "@/components/ui/button"
 import { BracketCard } from "@/components/common"
 import { NodeHistoryChart } from "./NodeHistoryChart"
-import { useNodeHistory, HistoryPeriod } from "@/lib/useHistoricalData"
+import { NodeCreditsChart } from "./NodeCreditsChart"
+import { NodeAvailabilitySummary } from "./NodeAvailabilitySummary"
+import { NodeRestartHistory } from "./NodeRestartHistory"
+import { NodeStatsGrid } from "./NodeStatsGrid"
+import { NodePeerList } from "./NodePeerList"
+import { useNodeHistory, useCreditHistory, HistoryPeriod } from "@/lib/useHistoricalData"
+import { CREDIT_WINDOW_INTERVALS, CREDIT_WINDOW_MS, creditSeries, type CreditWindow } from "@/lib/podCredits"
 import { cn } from "@/lib/utils"
-
-interface StatsResponse {
-  active_streams: number
-  cpu_percent: number
-  current_index: number
-  file_size: number
-  last_updated: number
-  packets_received: number
-  packets_sent: number
-  ram_total: number
-  ram_used: number
-  total_bytes: number
-  total_pages: number
-  uptime: number
-}
-
-interface VersionResponse {
-  version: string
-}
-
-interface Pod {
-  address: string
-  version: string
-  last_seen?: string
-  last_seen_timestamp: number
-  pubkey?: string | null
-}
-
-interface PodsResponse {
-  pods: Pod[]
-  total_count: number
-}
-
-interface NodeData {
-  ip: string
-  address: string
-  label: string
-  pubkey: string | null
-  registryVersion: string
-  status: "online" | "offline" | "loading"
-  version?: VersionResponse
-  stats?: StatsResponse
-  pods?: PodsResponse
-  error?: string
-  lastFetched?: number
-}
+import { nodePath } from "@/lib/nodeLinks"
+import { nodeDisplayName } from "@/lib/annotations"
+import { useAnnotations } from "@/contexts/AnnotationsContext"
+import { useNodes } from "@/contexts/NodesContext"
+import { NodeAnnotationEditor } from "@/components/annotations"
+import type { NodeData } from "@/lib/prpc"
+import type { NodeAvailability } from "@/lib/availability"
+import type { NodeRestarts } from "@/lib/restarts"
 
 interface NodeDetailPanelProps {
   node: NodeData | null
@@ -62,9 +31,15 @@ interface NodeDetailPanelProps {
   formatUptime: (seconds: number) => string
   formatTimestamp: (timestamp: number) => string
   credits?: number
+  // Number of peers whose gossip list includes this node
+  seenBy?: number
+  // Availability observed from status history
+  availability?: NodeAvailability
+  // Restarts detected from uptime counter resets
+  restarts?: NodeRestarts
 }
 
-type PanelTab = 'details' | 'history'
+type PanelTab = 'details' | 'history' | 'credits'
 
 export function NodeDetailPanel({
   node,
@@ -72,10 +47,15 @@ export function NodeDetailPanel({
   formatBytes,
   formatUptime,
   formatTimestamp,
-  credits
+  credits,
+  seenBy,
+  availability,
+  restarts
 }: NodeDetailPanelProps) {
   const [activeTab, setActiveTab] = useState<PanelTab>('details')
   const [historyPeriod, setHistoryPeriod] = useState<HistoryPeriod>('24h')
+  const { getAnnotation } = useAnnotations()
+  const { selectedNetwork } = useNodes()
 
   // Fetch historical data for the node
   const { data: historyData, isLoading: historyLoading, error: historyError } = useNodeHistory({
@@ -84,6 +64,20 @@ export function NodeDetailPanel({
     enabled: !!node && node.status === 'online',
   })
 
+  // Credits over time, loaded when the Credits tab is open
+  const pubkey = node?.pubkey ?? undefined
+  const [creditsPeriod, setCreditsPeriod] = useState<CreditWindow>('7d')
+  const { snapshots: creditSnapshots, isLoading: creditsLoading, error: creditsError } = useCreditHistory({
+    lookbackMs: CREDIT_WINDOW_MS[creditsPeriod],
+    interval: CREDIT_WINDOW_INTERVALS[creditsPeriod],
+    pubkey,
+    enabled: !!pubkey && activeTab === 'credits',
+  })
+  const creditPoints = useMemo(
+    () => (pubkey ? creditSeries(creditSnapshots, pubkey, credits) : []),
+    [creditSnapshots, pubkey, credits]
+  )
+
   if (!node || node.status !== "online") return null
 
   return (
@@ -111,11 +105,18 @@ export function NodeDetailPanel({
             <div className="p-4 flex items-center justify-between">
               <div>
                 <h2 className="text-lg font-mono uppercase tracking-widest">Node Details</h2>
-                <p className="text-sm text-muted-foreground font-mono">{node.label}</p>
+                <p className="text-sm text-muted-foreground font-mono">{nodeDisplayName(node, getAnnotation(node))}</p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon-sm" asChild>
+                  <Link href={nodePath(node, selectedNetwork)} title="Open node page">
+                    <ExternalLink className="w-4 h-4" />
+                  </Link>
+                </Button>
+                <Button variant="ghost" size="icon-sm" onClick={onClose}>
+                  <X className="w-5 h-5" />
+                </Button>
               </div>
-              <Button variant="ghost" size="icon-sm" onClick={onClose}>
-                <X className="w-5 h-5" />
-              </Button>
             </div>
 
             {/* Tab Navigation */}
@@ -144,6 +145,20 @@ export function NodeDetailPanel({
                 <History className="w-4 h-4" />
                 History
               </button>
+              {node.pubkey && (
+                <button
+                  onClick={() => setActiveTab('credits')}
+                  className={cn(
+                    "flex items-center gap-2 px-4 py-2 text-sm font-mono rounded-t transition-colors border-b-2",
+                    activeTab === 'credits'
+                      ? "border-primary text-foreground bg-muted/50"
+                      : "border-transparent text-muted-foreground hover:text-foreground hover:bg-muted/30"
+                  )}
+                >
+                  <Coins className="w-4 h-4" />
+                  Credits
+                </button>
+              )}
             </div>
           </div>
 
@@ -153,68 +168,18 @@ export function NodeDetailPanel({
               /* Details Tab */
               <BracketCard className="bg-card overflow-hidden">
                 {/* Stats Grid */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-px bg-border">
-                  {node.stats && (
-                    <>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">CPU Usage</div>
-                        <div className="text-2xl font-mono mt-1">{node.stats.cpu_percent.toFixed(2)}%</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">RAM Used</div>
-                        <div className="text-2xl font-mono mt-1">{formatBytes(node.stats.ram_used)}</div>
-                        <div className="text-xs text-muted-foreground">of {formatBytes(node.stats.ram_total)}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Uptime</div>
-                        <div className="text-2xl font-mono mt-1">{formatUptime(node.stats.uptime)}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Storage Size</div>
-                        <div className="text-2xl font-mono mt-1">{formatBytes(node.stats.file_size)}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Active Streams</div>
-                        <div className="text-2xl font-mono mt-1">{node.stats.active_streams}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Packets Received</div>
-                        <div className="text-2xl font-mono mt-1">{node.stats.packets_received}/s</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Packets Sent</div>
-                        <div className="text-2xl font-mono mt-1">{node.stats.packets_sent}/s</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Total Bytes</div>
-                        <div className="text-2xl font-mono mt-1">{formatBytes(node.stats.total_bytes)}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Total Pages</div>
-                        <div className="text-2xl font-mono mt-1">{node.stats.total_pages}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Current Index</div>
-                        <div className="text-2xl font-mono mt-1">{node.stats.current_index}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Last Updated</div>
-                        <div className="text-lg font-mono mt-1">{formatTimestamp(node.stats.last_updated)}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider">Version</div>
-                        <div className="text-2xl font-mono mt-1">{node.version?.version || "N/A"}</div>
-                      </div>
-                      <div className="bg-card p-4">
-                        <div className="text-xs text-muted-foreground uppercase tracking-wider flex items-center gap-1">
-                          <Coins className="w-3 h-3" /> Reputation Credits
-                        </div>
-                        <div className="text-2xl font-mono mt-1 text-success">
-                          {credits !== undefined && credits > 0 ? credits.toLocaleString() : "0"}
-                        </div>
-                      </div>
-                    </>
-                  )}
+                <NodeStatsGrid
+                  node={node}
+                  credits={credits}
+                  formatBytes={formatBytes}
+                  formatUptime={formatUptime}
+                  formatTimestamp={formatTimestamp}
+                />
+
+                {/* Nickname, tags and notes */}
+                <div className="p-4 border-t border-border">
+                  <div className="text-xs text-muted-foreground uppercase tracking-wider mb-2">Notes</div>
+                  <NodeAnnotationEditor node={node} />
                 </div>
 
                 {/* Pubkey */}
@@ -225,37 +190,37 @@ export function NodeDetailPanel({
                   </div>
                 )}
 
+                {/* Availability */}
+                <div className="p-4 border-t border-border">
+                  <NodeAvailabilitySummary availability={availability} />
+                </div>
+
+                {/* Restarts */}
+                <div className="p-4 border-t border-border">
+                  <NodeRestartHistory restarts={restarts} formatUptime={formatUptime} />
+                </div>
+
                 {/* Peers Section */}
                 {node.pods && (
                   <div className="p-4 border-t border-border">
-                    <h3 className="text-sm font-medium text-muted-foreground mb-3">
-                      Known Peers ({node.pods.total_count})
-                    </h3>
-                    {node.pods.pods.length > 0 ? (
-                      <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
-                        {node.pods.pods.map((pod, idx) => (
-                          <div key={idx} className="flex justify-between items-center bg-muted/50 p-3 border border-border">
-                            <div>
-                              <div className="font-mono text-sm">{pod.address}</div>
-                              <div className="text-xs text-muted-foreground">v{pod.version}</div>
-                            </div>
-                            <div className="text-right">
-                              <div className="text-xs text-muted-foreground">Last seen</div>
-                              <div className="text-xs font-mono">
-                                {pod.last_seen || formatTimestamp(pod.last_seen_timestamp)}
-                              </div>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    ) : (
-                      <div className="text-sm text-muted-foreground bg-muted/50 p-4 text-center border border-border">
-                        No peers discovered yet
-                      </div>
-                    )}
+                    <NodePeerList pods={node.pods} seenBy={seenBy} formatTimestamp={formatTimestamp} />
                   </div>
                 )}
               </BracketCard>
+            ) : activeTab === 'credits' ? (
+              /* Credits Tab */
+              <BracketCard className="bg-card overflow-hidden">
+                <div className="p-4">
+                  <NodeCreditsChart
+                    points={creditPoints}
+                    online={node.status === 'online'}
+                    isLoading={creditsLoading}
+                    error={creditsError}
+                    currentPeriod={creditsPeriod}
+                    onPeriodChange={setCreditsPeriod}
+                  />
+                </div>
+              </BracketCard>
             ) : (
               /* History Tab */
               <BracketCard className="bg-card overflow-hidden">
@@ -266,6 +231,7 @@ export function NodeDetailPanel({
                     error={historyError}
                     currentPeriod={historyPeriod}
                     onPeriodChange={setHistoryPeriod}
+                    exportName={node.address}
                   />
                 </div>
               </BracketCard>
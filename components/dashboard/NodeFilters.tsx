@@ -1,12 +1,14 @@
 'use client'
 
-import { Filter, LayoutGrid, List } from "lucide-react"
+import { Filter, LayoutGrid, List, RotateCcw, Tag } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
+import type { StatusFilter } from "@/lib/nodeHealth"
+import { FREQUENT_RESTART_COUNT } from "@/lib/restarts"
 
 interface NodeFiltersProps {
-  statusFilter: "all" | "online" | "offline"
-  setStatusFilter: (value: "all" | "online" | "offline") => void
+  statusFilter: StatusFilter
+  setStatusFilter: (value: StatusFilter) => void
   versionFilter: string
   setVersionFilter: (value: string) => void
   searchQuery: string
@@ -14,6 +16,14 @@ interface NodeFiltersProps {
   uniqueVersions: string[]
   viewMode: "card" | "table"
   setViewMode: (mode: "card" | "table") => void
+  // Only show nodes that restart often
+  frequentRestartsOnly?: boolean
+  setFrequentRestartsOnly?: (value: boolean) => void
+  frequentRestartCount?: number
+  // Annotation tag to show ("all" for any), and the tags in use
+  tagFilter?: string
+  setTagFilter?: (value: string) => void
+  tags?: string[]
 }
 
 export function NodeFilters({
@@ -26,8 +36,14 @@ export function NodeFilters({
   uniqueVersions,
   viewMode,
   setViewMode,
+  frequentRestartsOnly = false,
+  setFrequentRestartsOnly,
+  frequentRestartCount = 0,
+  tagFilter = "all",
+  setTagFilter,
+  tags = [],
 }: NodeFiltersProps) {
-  const hasActiveFilters = statusFilter !== "all" || versionFilter !== "all" || searchQuery
+  const hasActiveFilters = statusFilter !== "all" || versionFilter !== "all" || searchQuery || frequentRestartsOnly || tagFilter !== "all"
 
   return (
     <div className="mb-6 flex flex-col md:flex-row gap-4 justify-between items-start md:items-center">
@@ -37,12 +53,18 @@ export function NodeFilters({
           <Filter className="w-4 h-4 text-muted-foreground" />
           <select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as "all" | "online" | "offline")}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
             className="px-3 py-1.5 text-sm font-mono border border-border bg-card"
           >
             <option value="all">All Status</option>
             <option value="online">Online</option>
             <option value="offline">Offline</option>
+            <optgroup label="Health">
+              <option value="healthy">Healthy</option>
+              <option value="degraded">Degraded</option>
+              <option value="flapping">Flapping</option>
+              <option value="unreachable">Unreachable</option>
+            </optgroup>
           </select>
         </div>
 
@@ -60,10 +82,52 @@ export function NodeFilters({
           ))}
         </select>
 
+        {/* Tag Filter */}
+        {setTagFilter && (tags.length > 0 || tagFilter !== "all") && (
+          <div className="flex items-center gap-2">
+            <Tag className="w-4 h-4 text-muted-foreground" />
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className="px-3 py-1.5 text-sm font-mono border border-border bg-card"
+            >
+              <option value="all">All Tags</option>
+              {tagFilter !== "all" && !tags.includes(tagFilter) && (
+                <option value={tagFilter}>#{tagFilter}</option>
+              )}
+              {tags.map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Frequent Restarts */}
+        {setFrequentRestartsOnly && (
+          <button
+            onClick={() => setFrequentRestartsOnly(!frequentRestartsOnly)}
+            disabled={frequentRestartCount === 0 && !frequentRestartsOnly}
+            title={`Nodes that restarted ${FREQUENT_RESTART_COUNT} or more times in the last 7 days`}
+            className={cn(
+              "px-3 py-1.5 text-sm font-mono border flex items-center gap-2 transition-colors disabled:opacity-50",
+              frequentRestartsOnly
+                ? "border-[#F59E0B] bg-[#F59E0B]/20 text-[#F59E0B]"
+                : frequentRestartCount > 0
+                  ? "border-[#F59E0B]/40 bg-card text-[#F59E0B] hover:bg-[#F59E0B]/10"
+                  : "border-border bg-card text-muted-foreground"
+            )}
+          >
+            <RotateCcw className="w-4 h-4" />
+            Frequent Restarts ({frequentRestartCount})
+          </button>
+        )}
+
         {/* Search Input */}
         <input
           type="text"
-          placeholder="Search nodes..."
+          placeholder="Search nodes, tags..."
           value={searchQuery}
           onChange={(e) => setSearchQuery(e.target.value)}
           className="px-3 py-1.5 text-sm font-mono border border-border bg-card w-48"
@@ -78,6 +142,8 @@ export function NodeFilters({
               setStatusFilter("all")
               setVersionFilter("all")
               setSearchQuery("")
+              setFrequentRestartsOnly?.(false)
+              setTagFilter?.("all")
             }}
           >
             Clear
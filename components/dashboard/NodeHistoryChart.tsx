@@ -14,6 +14,11 @@ import {
 } from 'recharts'
 import { NodeHistoryEntry, HistoryPeriod } from '@/lib/useHistoricalData'
 import { cn } from '@/lib/utils'
+import { nodeHistoryColumns } from '@/lib/export'
+import { forecastSeries } from '@/lib/forecast'
+import { HISTORY_PERIOD_MS } from '@/lib/historySamples'
+import { ExportMenu } from '@/components/common'
+import { ForecastChart, ForecastSummary } from '@/components/analytics'
 
 interface NodeHistoryChartProps {
   data: NodeHistoryEntry[]
@@ -21,6 +26,8 @@ interface NodeHistoryChartProps {
   error?: string | null
   onPeriodChange?: (period: HistoryPeriod) => void
   currentPeriod?: HistoryPeriod
+  // File name prefix for exports, usually the node address
+  exportName?: string
 }
 
 const PERIODS: { value: HistoryPeriod; label: string }[] = [
@@ -33,14 +40,23 @@ const PERIODS: { value: HistoryPeriod; label: string }[] = [
 
 type ChartTab = 'resources' | 'storage' | 'activity'
 
+const GB = 1024 * 1024 * 1024
+
+function formatGB(bytes: number): string {
+  return `${(bytes / GB).toFixed(2)} GB`
+}
+
 export function NodeHistoryChart({
   data,
   isLoading,
   error,
   onPeriodChange,
   currentPeriod = '24h',
+  exportName = 'node',
 }: NodeHistoryChartProps) {
   const [activeTab, setActiveTab] = useState<ChartTab>('resources')
+  // get-stats doesn't report disk size, so "full" is the size the operator enters
+  const [diskSize, setDiskSize] = useState('')
 
   const chartData = useMemo(() => {
     return data.map(d => ({
@@ -75,6 +91,17 @@ export function NodeHistoryChart({
     return { avgCpu, avgRam, maxCpu, maxRam, avgStorage, maxStorage, avgUptime, avgStreams, avgPeers }
   }, [data])
 
+  // Storage projected as far ahead as the period looks back; offline samples have no stats
+  const storageHistory = useMemo(() => data
+    .filter(d => d.status === 'online')
+    .map(d => ({ time: Date.parse(d.timestamp), value: d.storage })), [data])
+  const storageForecast = useMemo(
+    () => (activeTab === 'storage' ? forecastSeries(storageHistory, HISTORY_PERIOD_MS[currentPeriod]) : null),
+    [activeTab, storageHistory, currentPeriod]
+  )
+  const parsedDiskSize = parseFloat(diskSize)
+  const diskBytes = Number.isFinite(parsedDiskSize) && parsedDiskSize > 0 ? parsedDiskSize * GB : null
+
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
       const d = payload[0].payload
@@ -263,24 +290,27 @@ export function NodeHistoryChart({
           </button>
         </div>
 
-        {onPeriodChange && (
-          <div className="flex gap-1">
-            {PERIODS.map((p) => (
-              <button
-                key={p.value}
-                onClick={() => onPeriodChange(p.value)}
-                className={cn(
-                  "px-2 py-1 text-xs font-mono rounded transition-colors",
-                  currentPeriod === p.value
-                    ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/30"
-                    : "bg-muted/50 text-muted-foreground hover:bg-muted"
-                )}
-              >
-                {p.label}
-              </button>
-            ))}
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          {onPeriodChange && (
+            <div className="flex gap-1">
+              {PERIODS.map((p) => (
+                <button
+                  key={p.value}
+                  onClick={() => onPeriodChange(p.value)}
+                  className={cn(
+                    "px-2 py-1 text-xs font-mono rounded transition-colors",
+                    currentPeriod === p.value
+                      ? "bg-cyan-500/20 text-cyan-400 border border-cyan-500/30"
+                      : "bg-muted/50 text-muted-foreground hover:bg-muted"
+                  )}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          )}
+          <ExportMenu name={`${exportName}-history-${currentPeriod}`} rows={data} columns={nodeHistoryColumns} />
+        </div>
       </div>
 
       {/* Mini stats */}
@@ -529,6 +559,42 @@ export function NodeHistoryChart({
           )}
         </ResponsiveContainer>
       </div>
+
+      {/* Storage forecast */}
+      {activeTab === 'storage' && storageHistory.length > 0 && (
+        <div className="space-y-3 pt-4 border-t border-border">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <span className="text-xs text-muted-foreground uppercase tracking-wider">Storage Forecast</span>
+            <label className="flex items-center gap-2 text-xs font-mono">
+              <span className="text-muted-foreground">Disk size</span>
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={diskSize}
+                placeholder="GB"
+                onChange={(e) => setDiskSize(e.target.value)}
+                className="px-2 py-1 text-xs font-mono border border-border bg-card w-24"
+              />
+              <span className="text-muted-foreground">GB</span>
+            </label>
+          </div>
+          <ForecastChart
+            history={storageHistory}
+            forecast={storageForecast}
+            formatValue={formatGB}
+            color="#3b82f6"
+            target={diskBytes}
+            height={180}
+          />
+          <ForecastSummary
+            forecast={storageForecast}
+            formatValue={formatGB}
+            target={diskBytes}
+            targetLabel="disk full"
+          />
+        </div>
+      )}
     </div>
   )
 }
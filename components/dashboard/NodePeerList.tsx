@@ -0,0 +1,47 @@
+'use client'
+
+import type { PodsResponse } from "@/lib/prpc"
+
+interface NodePeerListProps {
+  pods: PodsResponse
+  // Number of peers whose gossip list includes this node
+  seenBy?: number
+  formatTimestamp: (timestamp: number) => string
+}
+
+export function NodePeerList({ pods, seenBy, formatTimestamp }: NodePeerListProps) {
+  return (
+    <>
+      <h3 className="text-sm font-medium text-muted-foreground mb-3 flex justify-between">
+        <span>Known Peers ({pods.total_count})</span>
+        {seenBy !== undefined && (
+          <span className="font-mono text-xs">
+            Seen by {seenBy} {seenBy === 1 ? "peer" : "peers"}
+          </span>
+        )}
+      </h3>
+      {pods.pods.length > 0 ? (
+        <div className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+          {pods.pods.map((pod, idx) => (
+            <div key={idx} className="flex justify-between items-center bg-muted/50 p-3 border border-border">
+              <div>
+                <div className="font-mono text-sm">{pod.address}</div>
+                <div className="text-xs text-muted-foreground">v{pod.version}</div>
+              </div>
+              <div className="text-right">
+                <div className="text-xs text-muted-foreground">Last seen</div>
+                <div className="text-xs font-mono">
+                  {pod.last_seen || formatTimestamp(pod.last_seen_timestamp)}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-sm text-muted-foreground bg-muted/50 p-4 text-center border border-border">
+          No peers discovered yet
+        </div>
+      )}
+    </>
+  )
+}
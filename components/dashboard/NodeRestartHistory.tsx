@@ -0,0 +1,78 @@
+'use client'
+
+import { RotateCcw } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { FREQUENT_RESTART_COUNT, type NodeRestarts } from '@/lib/restarts'
+
+interface NodeRestartHistoryProps {
+  // Undefined until the node's uptime has been sampled
+  restarts?: NodeRestarts
+  formatUptime: (seconds: number) => string
+}
+
+export function NodeRestartHistory({ restarts, formatUptime }: NodeRestartHistoryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-muted-foreground uppercase tracking-wider">Restarts</div>
+
+      {!restarts ? (
+        <div className="text-sm text-muted-foreground bg-muted/50 p-4 text-center border border-border">
+          <p>No restart history recorded yet</p>
+          <p className="text-xs mt-1 opacity-60">Restarts are detected when the uptime counter resets</p>
+        </div>
+      ) : (
+        <>
+          {restarts.frequent && (
+            <div className="flex items-center gap-2 p-3 text-xs border border-[#F59E0B]/40 bg-[#F59E0B]/10 text-[#F59E0B]">
+              <RotateCcw className="w-4 h-4" />
+              Restarted {restarts.last7d} times in the last 7 days ({FREQUENT_RESTART_COUNT} or more is frequent)
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-px bg-border border border-border">
+            <div className="bg-card p-3">
+              <div className="text-xs text-muted-foreground uppercase tracking-wider">24H</div>
+              <div className="text-xl font-mono mt-1">{restarts.last24h}</div>
+            </div>
+            <div className="bg-card p-3">
+              <div className="text-xs text-muted-foreground uppercase tracking-wider">7D</div>
+              <div className="text-xl font-mono mt-1">{restarts.last7d}</div>
+            </div>
+            <div className="bg-card p-3">
+              <div className="text-xs text-muted-foreground uppercase tracking-wider">Per Day</div>
+              <div className="text-xl font-mono mt-1">{restarts.perDay !== null ? restarts.perDay.toFixed(2) : '-'}</div>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-muted-foreground mb-2">
+              Restart log (30D): {restarts.restarts.length === 0 ? 'none detected' : restarts.restarts.length}
+            </div>
+            {restarts.restarts.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                {restarts.restarts.map(restart => (
+                  <div
+                    key={restart.at}
+                    className="flex justify-between items-center bg-muted/50 px-3 py-2 border border-border text-xs font-mono"
+                  >
+                    <span>
+                      {restart.inferred && '~'}{new Date(restart.at).toLocaleString()}
+                    </span>
+                    <span
+                      className={cn('text-muted-foreground', restart.inferred && 'italic')}
+                      title={restart.inferred
+                        ? 'Happened between polls; inferred from the uptime being shorter than the time elapsed'
+                        : 'The uptime counter dropped between two polls'}
+                    >
+                      {restart.inferred ? 'inferred' : 'observed'}, after {formatUptime(restart.previousUptime)} up
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
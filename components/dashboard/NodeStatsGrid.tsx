@@ -0,0 +1,81 @@
+'use client'
+
+import { Coins } from "lucide-react"
+import type { NodeData } from "@/lib/prpc"
+
+interface NodeStatsGridProps {
+  node: NodeData
+  credits?: number
+  formatBytes: (bytes: number) => string
+  formatUptime: (seconds: number) => string
+  formatTimestamp: (timestamp: number) => string
+}
+
+// Live get-stats values of a node, empty until the node has answered
+export function NodeStatsGrid({ node, credits, formatBytes, formatUptime, formatTimestamp }: NodeStatsGridProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-px bg-border">
+      {node.stats && (
+        <>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">CPU Usage</div>
+            <div className="text-2xl font-mono mt-1">{node.stats.cpu_percent.toFixed(2)}%</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">RAM Used</div>
+            <div className="text-2xl font-mono mt-1">{formatBytes(node.stats.ram_used)}</div>
+            <div className="text-xs text-muted-foreground">of {formatBytes(node.stats.ram_total)}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Uptime</div>
+            <div className="text-2xl font-mono mt-1">{formatUptime(node.stats.uptime)}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Storage Size</div>
+            <div className="text-2xl font-mono mt-1">{formatBytes(node.stats.file_size)}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Active Streams</div>
+            <div className="text-2xl font-mono mt-1">{node.stats.active_streams}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Packets Received</div>
+            <div className="text-2xl font-mono mt-1">{node.stats.packets_received}/s</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Packets Sent</div>
+            <div className="text-2xl font-mono mt-1">{node.stats.packets_sent}/s</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Total Bytes</div>
+            <div className="text-2xl font-mono mt-1">{formatBytes(node.stats.total_bytes)}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Total Pages</div>
+            <div className="text-2xl font-mono mt-1">{node.stats.total_pages}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Current Index</div>
+            <div className="text-2xl font-mono mt-1">{node.stats.current_index}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Last Updated</div>
+            <div className="text-lg font-mono mt-1">{formatTimestamp(node.stats.last_updated)}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Version</div>
+            <div className="text-2xl font-mono mt-1">{node.version?.version || "N/A"}</div>
+          </div>
+          <div className="bg-card p-4">
+            <div className="text-xs text-muted-foreground uppercase tracking-wider flex items-center gap-1">
+              <Coins className="w-3 h-3" /> Reputation Credits
+            </div>
+            <div className="text-2xl font-mono mt-1 text-success">
+              {credits !== undefined && credits > 0 ? credits.toLocaleString() : "0"}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
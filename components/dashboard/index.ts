@@ -2,3 +2,11 @@ export { NodeCard } from './NodeCard'
 export { NodeDetailPanel } from './NodeDetailPanel'
 export { NodeFilters } from './NodeFilters'
 export { NetworkStats } from './NetworkStats'
+export { GossipDiscoveryPanel } from './GossipDiscoveryPanel'
+export { CrawlProgressIndicator } from './CrawlProgressIndicator'
+export { NodeStatsGrid } from './NodeStatsGrid'
+export { NodePeerList } from './NodePeerList'
+export { NodeHistoryChart } from './NodeHistoryChart'
+export { NodeCreditsChart } from './NodeCreditsChart'
+export { NodeAvailabilitySummary } from './NodeAvailabilitySummary'
+export { NodeRestartHistory } from './NodeRestartHistory'
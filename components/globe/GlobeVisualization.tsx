@@ -2,17 +2,33 @@
 
 import { useEffect, useRef, useState, useMemo, useCallback } from "react";
 import dynamic from "next/dynamic";
-import { Maximize, Minimize, HelpCircle, Filter } from "lucide-react";
+import Link from "next/link";
+import { Maximize, Minimize, HelpCircle, Filter, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import * as THREE from "three";
+import {
+  matchesStatusFilter,
+  HEALTH_LABELS,
+  HEALTH_COLORS,
+  type NodeHealth,
+  type StatusFilter,
+} from "@/lib/nodeHealth";
+import { nodePath } from "@/lib/nodeLinks";
+import { AnnotationTags } from "@/components/annotations";
+import { useNodes } from "@/contexts/NodesContext";
+
+// Health states with their own filter button and legend entry
+const UNHEALTHY_STATES: NodeHealth[] = ["degraded", "flapping", "unreachable"];
 
 // Types for our nodes and connections
 export interface GlobeNode {
+  // Node address (ip:port)
   id: string;
   lat: number;
   lng: number;
   label: string;
   status: "online" | "offline" | "loading";
+  health?: NodeHealth | null;
   size: number;
   color: string;
   // Additional data for details panel
@@ -23,6 +39,8 @@ export interface GlobeNode {
   uptime?: number;
   peers?: number;
   pubkey?: string | null;
+  // Private annotation tags
+  tags?: string[];
 }
 
 export interface GlobeConnection {
@@ -39,6 +57,11 @@ interface GlobeVisualizationProps {
   isDark: boolean;
 }
 
+// Tooltips are HTML strings, and labels may be user-entered nicknames
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
 // Dynamically import Globe to avoid SSR issues
 const Globe = dynamic(
   () => import("react-globe.gl").then((mod) => mod.default),
@@ -56,9 +79,8 @@ export function GlobeVisualization({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
-  const [statusFilter, setStatusFilter] = useState<
-    "all" | "online" | "offline"
-  >("all");
+  const { selectedNetwork } = useNodes();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [showConnections, setShowConnections] = useState(true);
   const [selectedNode, setSelectedNode] = useState<GlobeNode | null>(null);
 
@@ -104,7 +126,7 @@ export function GlobeVisualization({
   // Apply filters - memoized
   const filteredNodes = useMemo(() => {
     if (statusFilter === "all") return nodes;
-    return nodes.filter((node) => node.status === statusFilter);
+    return nodes.filter((node) => matchesStatusFilter(node.status, node.health ?? null, statusFilter));
   }, [nodes, statusFilter]);
 
   // Filter and modify connections based on selection - memoized
@@ -311,6 +333,22 @@ export function GlobeVisualization({
                 Offline
               </button>
             </div>
+            <div className="flex gap-2 mt-2">
+              {UNHEALTHY_STATES.map((state) => (
+                <button
+                  key={state}
+                  onClick={() => setStatusFilter(state)}
+                  className={`px-2 py-1 rounded text-xs transition-colors ${
+                    statusFilter === state
+                      ? "text-white"
+                      : "bg-muted text-muted-foreground hover:bg-muted/80"
+                  }`}
+                  style={statusFilter === state ? { backgroundColor: HEALTH_COLORS[state] } : undefined}
+                >
+                  {HEALTH_LABELS[state]}
+                </button>
+              ))}
+            </div>
           </div>
 
           {/* Toggle Connections */}
@@ -390,6 +428,14 @@ export function GlobeVisualization({
             <span className="text-muted-foreground">Offline</span>
           </div>
         </div>
+        <div className="flex items-center gap-4 mt-2">
+          {UNHEALTHY_STATES.map((state) => (
+            <div key={state} className="flex items-center gap-2">
+              <span className="w-2 h-2" style={{ backgroundColor: HEALTH_COLORS[state] }} />
+              <span className="text-muted-foreground">{HEALTH_LABELS[state]}</span>
+            </div>
+          ))}
+        </div>
         <div className="mt-2 pt-2 border-t border-border text-muted-foreground">
           {filteredNodes.length} nodes • {filteredConnections.length}{" "}
           connections
@@ -413,6 +459,7 @@ export function GlobeVisualization({
               ✕
             </button>
           </div>
+          {selectedNode.tags && <AnnotationTags tags={selectedNode.tags} className="-mt-1 mb-3" />}
 
           <div className="space-y-2">
             <div className="flex justify-between">
@@ -421,7 +468,7 @@ export function GlobeVisualization({
                 style={{ color: selectedNode.color }}
                 className="font-medium"
               >
-                {selectedNode.status}
+                {selectedNode.health ? HEALTH_LABELS[selectedNode.health] : selectedNode.status}
               </span>
             </div>
 
@@ -499,6 +546,14 @@ export function GlobeVisualization({
             )}
           </div>
 
+          <Link
+            href={nodePath({ pubkey: selectedNode.pubkey ?? null, address: selectedNode.id }, selectedNetwork)}
+            className="mt-3 pt-3 border-t border-border flex items-center gap-1 text-primary hover:underline"
+          >
+            <ExternalLink className="w-3 h-3" />
+            Open node page
+          </Link>
+
           {peerNodeIds.size > 0 && (
             <div className="mt-3 pt-3 border-t border-border text-muted-foreground text-[10px] italic">
               Highlighted: {peerNodeIds.size} peer node
@@ -542,10 +597,13 @@ export function GlobeVisualization({
           ">
             <div style="font-weight: bold; font-size: 14px; margin-bottom: 6px; color: ${
               d.color
-            };">${d.label}</div>
+            };">${escapeHtml(d.label)}</div>
             <div style="opacity: 0.9;">Status: <span style="color: ${
               d.color
             };">${d.status}</span></div>
+            ${d.tags?.length ? `<div style="opacity: 0.8; font-size: 11px; margin-top: 4px;">${d.tags
+              .map((tag: string) => `#${escapeHtml(tag)}`)
+              .join(" ")}</div>` : ""}
             <div style="opacity: 0.7; font-size: 11px; margin-top: 4px;">Coords: ${d.lat.toFixed(
               2
             )}, ${d.lng.toFixed(2)}</div>
@@ -5,6 +5,7 @@ import { motion } from "framer-motion";
 import { Menu, X, Moon, Sun, PanelLeftClose, PanelLeft } from "lucide-react";
 import { Sidebar, CollapsibleSidebar, NavSection } from "./Sidebar";
 import { Button } from "@/components/ui/button";
+import { NotificationCenter } from "@/components/notifications";
 import { cn } from "@/lib/utils";
 
 interface DashboardLayoutProps {
@@ -271,6 +272,8 @@ export function DashboardLayout({
             <div className="flex items-center gap-2">
               {headerRight}
 
+              <NotificationCenter />
+
               {showThemeToggle && mounted && (
                 <Button variant="ghost" size="icon-sm" onClick={toggleDarkMode}>
                   {isDark ? (
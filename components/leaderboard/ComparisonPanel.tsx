@@ -1,37 +1,18 @@
 'use client'
 
-import { X, Coins, Cpu, HardDrive, Clock, Activity } from 'lucide-react'
+import { X, Coins, Cpu, HardDrive, Clock, Activity, ShieldCheck } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { RankBadge } from './RankBadge'
 import { DotProgress } from '@/components/common'
 import { cn } from '@/lib/utils'
-
-interface NodeData {
-  ip: string
-  address: string
-  label: string
-  pubkey: string | null
-  registryVersion: string
-  status: 'online' | 'offline' | 'loading'
-  version?: { version: string }
-  stats?: {
-    cpu_percent: number
-    ram_used: number
-    ram_total: number
-    file_size: number
-    uptime: number
-  }
-  location?: {
-    city: string
-    country: string
-    countryCode?: string
-  }
-}
+import { AVAILABILITY_WINDOWS, formatAvailability, type NodeAvailability } from '@/lib/availability'
+import type { NodeData } from '@/lib/prpc'
 
 interface ComparisonEntry {
   node: NodeData
   credits: number
   rank: number
+  availability?: NodeAvailability
 }
 
 interface ComparisonPanelProps {
@@ -175,6 +156,20 @@ export function ComparisonPanel({
             maxValue={maxUptime}
             colorClass="bg-muted-foreground"
           />
+
+          {/* Availability */}
+          {AVAILABILITY_WINDOWS.map(window => (
+            <ComparisonRow
+              key={window}
+              icon={<ShieldCheck className="w-4 h-4 text-success" />}
+              label={`Availability (${window.toUpperCase()})`}
+              entries={entries}
+              getValue={(e) => e.availability?.percent[window] ?? null}
+              formatValue={(v) => formatAvailability(v)}
+              maxValue={100}
+              colorClass="bg-success"
+            />
+          ))}
         </div>
       </div>
     </div>
@@ -185,7 +180,8 @@ interface ComparisonRowProps {
   icon: React.ReactNode
   label: string
   entries: ComparisonEntry[]
-  getValue: (entry: ComparisonEntry) => number
+  // Null when the entry has no value, shown as '-'
+  getValue: (entry: ComparisonEntry) => number | null
   formatValue: (value: number) => string
   maxValue: number
   colorClass: string
@@ -214,7 +210,7 @@ function ComparisonRow({
       )}>
         {entries.map((entry) => {
           const value = getValue(entry)
-          const percent = maxValue > 0 ? (value / maxValue) * 100 : 0
+          const percent = value !== null && maxValue > 0 ? (value / maxValue) * 100 : 0
 
           return (
             <div key={entry.node.address} className="space-y-1">
@@ -225,7 +221,7 @@ function ComparisonRow({
                 />
               </div>
               <div className="text-sm font-mono font-medium">
-                {formatValue(value)}
+                {value !== null ? formatValue(value) : '-'}
               </div>
             </div>
           )
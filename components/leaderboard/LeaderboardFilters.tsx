@@ -1,6 +1,6 @@
 'use client'
 
-import { Search, Star, GitCompare } from 'lucide-react'
+import { Search, Star, GitCompare, Tag } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { cn } from '@/lib/utils'
 
@@ -16,6 +16,10 @@ interface LeaderboardFiltersProps {
   compareMode: boolean
   setCompareMode: (mode: boolean) => void
   selectedCount: number
+  // Annotation tag to show ("all" for any), and the tags in use
+  tagFilter?: string
+  setTagFilter?: (tag: string) => void
+  tags?: string[]
 }
 
 const TIME_RANGES: { value: TimeRange; label: string }[] = [
@@ -35,6 +39,9 @@ export function LeaderboardFilters({
   compareMode,
   setCompareMode,
   selectedCount,
+  tagFilter = 'all',
+  setTagFilter,
+  tags = [],
 }: LeaderboardFiltersProps) {
   return (
     <div className="flex flex-col sm:flex-row gap-4 mb-6">
@@ -68,6 +75,28 @@ export function LeaderboardFilters({
         />
       </div>
 
+      {/* Tag Filter */}
+      {setTagFilter && (tags.length > 0 || tagFilter !== 'all') && (
+        <div className="flex items-center gap-2">
+          <Tag className="w-4 h-4 text-muted-foreground" />
+          <select
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            className="px-3 py-1.5 text-sm font-mono border border-border bg-muted/50 rounded-lg"
+          >
+            <option value="all">All Tags</option>
+            {tagFilter !== 'all' && !tags.includes(tagFilter) && (
+              <option value={tagFilter}>#{tagFilter}</option>
+            )}
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Favorites Toggle */}
       <Button
         variant={showFavoritesOnly ? 'default' : 'outline'}
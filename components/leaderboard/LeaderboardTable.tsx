@@ -1,15 +1,24 @@
 'use client'
 
-import { Star, CheckSquare, Square } from 'lucide-react'
+import { Star, CheckSquare, Square, ArrowUp, ArrowDown, ArrowUpDown, Minus, AlertTriangle } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { RankBadge } from './RankBadge'
 import { cn } from '@/lib/utils'
+import { useVisibleNodes } from '@/lib/useVisibleNodes'
 import { type NodeData } from '@/contexts/NodesContext'
+import type { CreditTrend } from '@/lib/podCredits'
+import { formatAvailability, type AvailabilityWindow, type NodeAvailability } from '@/lib/availability'
+import { nodeDisplayName, type NodeAnnotation } from '@/lib/annotations'
+import { AnnotationTags } from '@/components/annotations'
 
 interface LeaderboardEntry {
   node: NodeData
   credits: number
   rank: number
+  // Versus the previous time window; null when unranked there, undefined for all-time
+  rankChange?: number | null
+  trend?: CreditTrend
+  availability?: NodeAvailability
 }
 
 interface LeaderboardTableProps {
@@ -21,6 +30,39 @@ interface LeaderboardTableProps {
   selectedForCompare: Set<string>
   onToggleCompare: (pubkey: string) => void
   formatUptime: (seconds: number) => string
+  creditsLabel?: string
+  availabilityWindow?: AvailabilityWindow
+  availabilitySort?: 'asc' | 'desc' | null
+  onSortAvailability?: () => void
+  // Private nickname and tags shown with each node
+  getAnnotation?: (node: NodeData) => NodeAnnotation | undefined
+}
+
+const AVAILABILITY_LABELS: Record<AvailabilityWindow, string> = {
+  '24h': '24H',
+  '7d': '7D',
+  '30d': '30D',
+}
+
+function RankChange({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="text-xs font-mono text-primary">New</span>
+  }
+  if (change === 0) {
+    return <Minus className="w-3 h-3 text-muted-foreground" />
+  }
+  return (
+    <span
+      className={cn(
+        'flex items-center gap-0.5 text-xs font-mono',
+        change > 0 ? 'text-success' : 'text-destructive'
+      )}
+      title={change > 0 ? `Up ${change} from the previous period` : `Down ${-change} from the previous period`}
+    >
+      {change > 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+      {Math.abs(change)}
+    </span>
+  )
 }
 
 export function LeaderboardTable({
@@ -32,7 +74,15 @@ export function LeaderboardTable({
   selectedForCompare,
   onToggleCompare,
   formatUptime,
+  creditsLabel = 'Credits',
+  availabilityWindow = '30d',
+  availabilitySort = null,
+  onSortAvailability,
+  getAnnotation,
 }: LeaderboardTableProps) {
+  // Rows on screen are crawled first
+  const observeNode = useVisibleNodes()
+
   if (entries.length === 0) {
     return (
       <div className="text-center py-12 text-muted-foreground">
@@ -46,7 +96,7 @@ export function LeaderboardTable({
       <table className="w-full text-sm">
         <thead className="bg-muted/50">
           <tr>
-            <th className="text-left p-3 font-medium text-muted-foreground w-16">Rank</th>
+            <th className="text-left p-3 font-medium text-muted-foreground w-24">Rank</th>
             {compareMode && (
               <th className="text-center p-3 font-medium text-muted-foreground w-12">Select</th>
             )}
@@ -55,21 +105,47 @@ export function LeaderboardTable({
             </th>
             <th className="text-left p-3 font-medium text-muted-foreground">Node</th>
             <th className="text-left p-3 font-medium text-muted-foreground">Location</th>
-            <th className="text-right p-3 font-medium text-muted-foreground">Credits</th>
+            <th className="text-right p-3 font-medium text-muted-foreground">{creditsLabel}</th>
+            <th className="text-right p-3 font-medium text-muted-foreground" title="Credits per hour over the last 7 days and the rank they lead to in 7 days">
+              Trend (7D)
+            </th>
             <th className="text-center p-3 font-medium text-muted-foreground">Status</th>
+            <th
+              className={cn(
+                'text-right p-3 font-medium text-muted-foreground',
+                onSortAvailability && 'cursor-pointer hover:text-foreground transition-colors select-none'
+              )}
+              onClick={onSortAvailability}
+              title="Share of the observed time the node was online"
+            >
+              <div className="flex items-center justify-end gap-1">
+                Availability ({AVAILABILITY_LABELS[availabilityWindow]})
+                {onSortAvailability && (
+                  availabilitySort === 'asc' ? (
+                    <ArrowUp className="w-3 h-3" />
+                  ) : availabilitySort === 'desc' ? (
+                    <ArrowDown className="w-3 h-3" />
+                  ) : (
+                    <ArrowUpDown className="w-3 h-3 opacity-30" />
+                  )
+                )}
+              </div>
+            </th>
             <th className="text-left p-3 font-medium text-muted-foreground">Version</th>
             <th className="text-right p-3 font-medium text-muted-foreground">CPU</th>
             <th className="text-right p-3 font-medium text-muted-foreground">Uptime</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-border">
-          {entries.map(({ node, credits, rank }) => {
+          {entries.map(({ node, credits, rank, rankChange, trend, availability }) => {
             const isFavorited = node.pubkey ? favorites.has(node.pubkey) : false
             const isSelectedForCompare = node.pubkey ? selectedForCompare.has(node.pubkey) : false
 
             return (
               <tr
                 key={node.address}
+                ref={observeNode}
+                data-node-address={node.address}
                 onClick={() => onSelectNode(node)}
                 className={cn(
                   'hover:bg-muted/30 cursor-pointer transition-colors',
@@ -78,7 +154,10 @@ export function LeaderboardTable({
               >
                 {/* Rank */}
                 <td className="p-3">
-                  <RankBadge rank={rank} size="sm" />
+                  <div className="flex items-center gap-2">
+                    <RankBadge rank={rank} size="sm" />
+                    {rankChange !== undefined && <RankChange change={rankChange} />}
+                  </div>
                 </td>
 
                 {/* Compare checkbox */}
@@ -124,8 +203,9 @@ export function LeaderboardTable({
 
                 {/* Node info */}
                 <td className="p-3">
-                  <div className="font-medium font-mono">{node.label}</div>
+                  <div className="font-medium font-mono">{nodeDisplayName(node, getAnnotation?.(node))}</div>
                   <div className="text-xs text-muted-foreground font-mono">{node.address}</div>
+                  <AnnotationTags tags={getAnnotation?.(node)?.tags ?? []} max={3} className="mt-1" />
                 </td>
 
                 {/* Location */}
@@ -154,6 +234,29 @@ export function LeaderboardTable({
                   )}>
                     {credits > 0 ? credits.toLocaleString() : '-'}
                   </span>
+                  {node.status === 'online' && trend?.stalled && (
+                    <div
+                      className="flex items-center justify-end gap-1 text-xs text-[#F59E0B]"
+                      title="Credits have not grown for 6 hours while the node is online"
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      Stalled
+                    </div>
+                  )}
+                </td>
+
+                {/* Trend */}
+                <td className="p-3 text-right font-mono text-xs">
+                  {trend && trend.rate !== null ? (
+                    <>
+                      <div className={cn(trend.rate > 0 ? 'text-success' : 'text-muted-foreground')}>
+                        {trend.rate > 0 ? '+' : ''}{trend.rate.toFixed(1)}/h
+                      </div>
+                      <div className="text-muted-foreground">#{trend.projectedRank} in 7d</div>
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">-</span>
+                  )}
                 </td>
 
                 {/* Status */}
@@ -183,6 +286,11 @@ export function LeaderboardTable({
                   </Badge>
                 </td>
 
+                {/* Availability */}
+                <td className="p-3 text-right font-mono text-xs">
+                  {formatAvailability(availability?.percent[availabilityWindow])}
+                </td>
+
                 {/* Version */}
                 <td className="p-3 font-mono text-xs">
                   {node.version?.version || node.registryVersion || '-'}
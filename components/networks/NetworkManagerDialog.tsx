@@ -0,0 +1,277 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Plus, Pencil, Trash2, Upload, Download, Lock } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { useNetworks } from "@/contexts/NetworksContext";
+import { DEFAULT_NETWORK_ID, PRPC_PORT, type NetworkConfig, type NetworkType } from "@/lib/networks";
+import { validateNetwork } from "@/lib/customNetworks";
+import { downloadBlob } from "@/lib/export";
+import { NETWORK_TYPE_COLORS } from "./constants";
+
+const NETWORK_TYPES: NetworkType[] = ["devnet", "mainnet", "custom"];
+
+const EMPTY_NETWORK: NetworkConfig = {
+  id: "",
+  name: "",
+  rpcUrl: "",
+  type: "custom",
+  prpcPort: PRPC_PORT,
+};
+
+interface NetworkFormProps {
+  initial: NetworkConfig;
+  isNew: boolean;
+  takenIds: string[];
+  onSave: (network: NetworkConfig) => Promise<void>;
+  onCancel: () => void;
+}
+
+function NetworkForm({ initial, isNew, takenIds, onSave, onCancel }: NetworkFormProps) {
+  const [draft, setDraft] = useState({
+    ...initial,
+    prpcPort: String(initial.prpcPort),
+    fallbackRpcUrls: (initial.fallbackRpcUrls ?? []).join(", "),
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = validateNetwork({
+      ...draft,
+      prpcPort: Number(draft.prpcPort),
+      fallbackRpcUrls: draft.fallbackRpcUrls.split(/[\s,]+/).filter(Boolean),
+    });
+    if (!result.ok) {
+      setError(result.error.replace(/^network\./, ""));
+      return;
+    }
+    if (takenIds.includes(result.network.id)) {
+      setError(`id: "${result.network.id}" is already used by another network`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(result.network);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save network");
+      setSaving(false);
+    }
+  };
+
+  const field = (key: "id" | "name" | "rpcUrl" | "fallbackRpcUrls" | "prpcPort", label: string, placeholder: string) => (
+    <label className="block space-y-1">
+      <span className="text-xs uppercase tracking-widest text-muted-foreground">{label}</span>
+      <Input
+        value={draft[key]}
+        placeholder={placeholder}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        className="font-mono h-9"
+      />
+    </label>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 border border-border bg-muted/30 p-4">
+      <div className="grid grid-cols-2 gap-3">
+        {field("id", "Id", "my-cluster")}
+        {field("name", "Name", "My Cluster")}
+      </div>
+      {field("rpcUrl", "Registry RPC URL", "https://rpc.example.com/rpc")}
+      {field("fallbackRpcUrls", "Fallback Registries (optional, comma separated)", "https://rpc2.example.com/rpc")}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <span className="text-xs uppercase tracking-widest text-muted-foreground">Type</span>
+          <div className="flex border border-border overflow-hidden h-9">
+            {NETWORK_TYPES.map((type) => (
+              <button
+                key={type}
+                type="button"
+                onClick={() => setDraft({ ...draft, type })}
+                className={cn(
+                  "flex-1 text-xs font-mono border-r border-border last:border-r-0 transition-all",
+                  draft.type === type
+                    ? "bg-primary/10 text-primary"
+                    : "bg-card text-muted-foreground hover:bg-muted"
+                )}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        </div>
+        {field("prpcPort", "pRPC Port", String(PRPC_PORT))}
+      </div>
+
+      {error && <p className="text-xs font-mono text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={saving}>
+          {isNew ? "Add Network" : "Save Changes"}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface NetworkManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  selectedNetwork: string;
+  onSelect: (networkId: string) => void;
+}
+
+export function NetworkManagerDialog({
+  open,
+  onOpenChange,
+  selectedNetwork,
+  onSelect,
+}: NetworkManagerDialogProps) {
+  const { networks, customNetworks, saveNetwork, removeNetwork, importNetworks, exportNetworks } = useNetworks();
+  // Id of the network being edited, "" for a new one, null when the form is closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const editingNetwork = editing ? customNetworks.find((n) => n.id === editing) : undefined;
+
+  const handleSave = async (network: NetworkConfig) => {
+    await saveNetwork(network, editing || undefined);
+    if (editing && editing === selectedNetwork && network.id !== editing) {
+      onSelect(network.id);
+    }
+    setEditing(null);
+    setMessage({ text: `Saved ${network.name}`, isError: false });
+  };
+
+  const handleRemove = async (network: NetworkConfig) => {
+    if (!window.confirm(`Remove network "${network.name}"?`)) return;
+    if (network.id === selectedNetwork) {
+      onSelect(DEFAULT_NETWORK_ID);
+    }
+    await removeNetwork(network.id);
+    if (editing === network.id) setEditing(null);
+    setMessage({ text: `Removed ${network.name}`, isError: false });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const { imported, errors } = await importNetworks(await file.text());
+    const summary = `Imported ${imported} network${imported === 1 ? "" : "s"}`;
+    setMessage({
+      text: errors.length > 0 ? `${summary}. Skipped: ${errors.join("; ")}` : summary,
+      isError: errors.length > 0,
+    });
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportNetworks()], { type: "application/json" }), "xnode-networks.json");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] bg-card border-border max-h-[85vh] overflow-y-auto custom-scrollbar">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-light tracking-wide">Networks</DialogTitle>
+          <DialogDescription>
+            Add your own pNode networks by registry RPC URL. Custom networks are saved in this
+            browser and can be shared as a JSON file. The server proxy only reaches registries listed
+            in <code className="font-mono text-xs">PRPC_EXTRA_REGISTRIES</code>.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {networks.map((network) => {
+            const isCustom = customNetworks.some((n) => n.id === network.id);
+            return (
+              <div
+                key={network.id}
+                className={cn(
+                  "flex items-center justify-between gap-3 border p-3",
+                  network.id === selectedNetwork ? "border-primary/50 bg-primary/5" : "border-border bg-muted/30"
+                )}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-mono">
+                    <span className={cn("w-2 h-2 shrink-0", NETWORK_TYPE_COLORS[network.type])} />
+                    {network.name}
+                    <span className="text-xs text-muted-foreground">({network.id})</span>
+                  </div>
+                  <div className="text-xs font-mono text-muted-foreground truncate" title={network.rpcUrl}>
+                    {network.rpcUrl}
+                    {network.fallbackRpcUrls && ` (+${network.fallbackRpcUrls.length} fallback)`} · port {network.prpcPort}
+                  </div>
+                </div>
+                {isCustom ? (
+                  <div className="flex gap-1 shrink-0">
+                    <Button variant="ghost" size="icon-sm" onClick={() => setEditing(network.id)} title="Edit">
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon-sm" onClick={() => handleRemove(network)} title="Remove">
+                      <Trash2 className="w-3.5 h-3.5 text-destructive" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Lock className="w-3.5 h-3.5 text-muted-foreground/50 shrink-0" aria-label="Built-in network" />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {editing !== null ? (
+          <NetworkForm
+            key={editing || "new"}
+            initial={editingNetwork ?? EMPTY_NETWORK}
+            isNew={!editingNetwork}
+            takenIds={customNetworks.map((n) => n.id).filter((id) => id !== editing)}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => setEditing("")}>
+              <Plus className="w-4 h-4" /> Add Network
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="w-4 h-4" /> Import JSON
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={customNetworks.length === 0}>
+              <Download className="w-4 h-4" /> Export JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+        )}
+
+        {message && (
+          <p className={cn("text-xs font-mono", message.isError ? "text-destructive" : "text-success")}>
+            {message.text}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { Settings2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useNetworks } from "@/contexts/NetworksContext";
+import { NetworkManagerDialog } from "./NetworkManagerDialog";
+import { NETWORK_TYPE_COLORS } from "./constants";
+
+interface NetworkSelectorProps {
+  selectedNetwork: string;
+  onSelect: (networkId: string) => void;
+}
+
+export function NetworkSelector({ selectedNetwork, onSelect }: NetworkSelectorProps) {
+  const { networks } = useNetworks();
+  const [showManager, setShowManager] = useState(false);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {networks.map((network) => (
+        <button
+          key={network.id}
+          onClick={() => onSelect(network.id)}
+          className={cn(
+            "px-3 py-1.5 text-sm font-mono transition-all flex items-center gap-2 border",
+            selectedNetwork === network.id
+              ? "border-primary bg-primary/10 text-primary"
+              : "border-border bg-card text-muted-foreground hover:border-primary/50"
+          )}
+        >
+          <span className={cn("w-2 h-2", NETWORK_TYPE_COLORS[network.type])} />
+          {network.name}
+        </button>
+      ))}
+      <button
+        onClick={() => setShowManager(true)}
+        title="Manage networks"
+        className="px-2 py-1.5 text-sm border border-border bg-card text-muted-foreground hover:border-primary/50 hover:text-foreground transition-all"
+      >
+        <Settings2 className="w-4 h-4" />
+        <span className="sr-only">Manage networks</span>
+      </button>
+
+      <NetworkManagerDialog
+        open={showManager}
+        onOpenChange={setShowManager}
+        selectedNetwork={selectedNetwork}
+        onSelect={onSelect}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState, useSyncExternalStore } from "react";
+import { Server } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { describePrpcError } from "@/lib/prpcErrors";
+import {
+  getEndpointHealth,
+  getRegistryHealthVersion,
+  subscribeRegistryHealth,
+  type CircuitState,
+} from "@/lib/registryHealth";
+
+const CIRCUIT_STYLES: Record<CircuitState, { label: string; color: string }> = {
+  closed: { label: "healthy", color: "bg-success" },
+  "half-open": { label: "retrying", color: "bg-[#F59E0B]" },
+  open: { label: "circuit open", color: "bg-destructive" },
+};
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+interface RegistryEndpointStatusProps {
+  // Ordered registry endpoints for the selected network (see registryEndpoints())
+  endpoints: string[];
+  // Endpoint that served the current data, null while showing cached data
+  servedBy: string | null;
+}
+
+export function RegistryEndpointStatus({ endpoints, servedBy }: RegistryEndpointStatusProps) {
+  const [open, setOpen] = useState(false);
+  // Re-render whenever a registry call is recorded
+  useSyncExternalStore(subscribeRegistryHealth, getRegistryHealthVersion, () => 0);
+
+  if (!servedBy) return null;
+  const isFailover = servedBy !== endpoints[0];
+
+  return (
+    <span className="relative inline-flex">
+      <button type="button" onClick={() => setOpen(!open)} title="Registry endpoints">
+        <Badge
+          variant="outline"
+          className={cn("text-xs font-mono gap-1", isFailover && "border-[#F59E0B] text-[#F59E0B]")}
+        >
+          <Server className="w-3 h-3" />
+          {isFailover ? "Failover: " : "via "}
+          {hostOf(servedBy)}
+        </Badge>
+      </button>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 z-50 w-80 border border-border bg-card p-3 shadow-lg space-y-2">
+          <div className="text-xs uppercase tracking-widest text-muted-foreground">Registry endpoints</div>
+          {endpoints.map((url, i) => {
+            const health = getEndpointHealth(url);
+            const style = CIRCUIT_STYLES[health.state];
+            return (
+              <div key={url} className="text-xs font-mono space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className={cn("w-2 h-2 shrink-0", style.color)} />
+                  <span className={cn("truncate", url === servedBy && "text-primary")} title={url}>
+                    {i + 1}. {hostOf(url)}
+                  </span>
+                  <span className="ml-auto text-muted-foreground shrink-0">{style.label}</span>
+                </div>
+                <div className="pl-4 text-muted-foreground">
+                  {health.calls === 0
+                    ? "not tried yet"
+                    : `${Math.round((health.successRate ?? 0) * 100)}% of ${health.calls} calls` +
+                      (health.medianLatencyMs !== null ? ` · p50 ${health.medianLatencyMs}ms` : "")}
+                </div>
+                {health.lastError && (
+                  <div className="pl-4 text-destructive truncate" title={describePrpcError(health.lastError)}>
+                    {describePrpcError(health.lastError)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </span>
+  );
+}
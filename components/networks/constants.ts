@@ -0,0 +1,8 @@
+import type { NetworkType } from "@/lib/networks";
+
+// Indicator dot color for each network type
+export const NETWORK_TYPE_COLORS: Record<NetworkType, string> = {
+  mainnet: "bg-success",
+  devnet: "bg-[#F59E0B]",
+  custom: "bg-primary",
+};
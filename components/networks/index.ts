@@ -0,0 +1,3 @@
+export { NetworkSelector } from "./NetworkSelector";
+export { NetworkManagerDialog } from "./NetworkManagerDialog";
+export { RegistryEndpointStatus } from "./RegistryEndpointStatus";
@@ -0,0 +1,373 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import {
+  LayoutDashboard,
+  Activity,
+  RefreshCw,
+  Trophy,
+  Network,
+  BarChart3,
+  Link2,
+  Check,
+  MapPin,
+  Radio,
+  Package,
+  HeartPulse,
+  StickyNote,
+} from "lucide-react"
+import { DashboardLayout, PageHeader, type NavSection } from "@/components/layout"
+import { Logo, LogoIcon, FadeIn, BracketCard } from "@/components/common"
+import {
+  NodeStatsGrid,
+  NodePeerList,
+  NodeHistoryChart,
+  NodeCreditsChart,
+  NodeAvailabilitySummary,
+  NodeRestartHistory,
+} from "@/components/dashboard"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { cn } from "@/lib/utils"
+import { useNodes } from "@/contexts/NodesContext"
+import { useNetworks } from "@/contexts/NetworksContext"
+import {
+  useNodeHistory,
+  useCreditHistory,
+  useAvailabilityLog,
+  useRestartLog,
+  type HistoryPeriod,
+} from "@/lib/useHistoricalData"
+import { CREDIT_WINDOW_INTERVALS, CREDIT_WINDOW_MS, creditSeries, type CreditWindow } from "@/lib/podCredits"
+import { availabilityByAddress } from "@/lib/availability"
+import { restartsByAddress } from "@/lib/restarts"
+import { discoverFromGossip, peerSightings } from "@/lib/gossip"
+import { findLatestVersion, getVersionStatus, type VersionStatus } from "@/lib/version"
+import { HEALTH_COLORS, HEALTH_LABELS, nodeHealth } from "@/lib/nodeHealth"
+import { matchesNodeKey } from "@/lib/nodeLinks"
+import { nodeDisplayName } from "@/lib/annotations"
+import { useAnnotations } from "@/contexts/AnnotationsContext"
+import { NodeAnnotationEditor } from "@/components/annotations"
+
+interface NodeProfileProps {
+  // Pubkey or address from the URL
+  nodeKey: string
+  // Network from the link, else the one the server found the node in
+  network?: string
+}
+
+// Navigation
+const navSections: NavSection[] = [
+  {
+    title: "Overview",
+    items: [
+      { label: "Dashboard", href: "/", icon: LayoutDashboard },
+      { label: "Leaderboard", href: "/leaderboard", icon: Trophy },
+      { label: "Analytics", href: "/analytics", icon: BarChart3 },
+      { label: "Activity", href: "/activity", icon: Activity },
+    ],
+  },
+  {
+    title: "Network",
+    items: [
+      { label: "Topology", href: "/topology", icon: Network },
+    ],
+  },
+]
+
+const VERSION_STATUS_LABELS: Record<VersionStatus, string> = {
+  latest: "Up to date",
+  outdated: "Outdated",
+  unknown: "Unknown",
+}
+
+const VERSION_STATUS_COLORS: Record<VersionStatus, string> = {
+  latest: "text-success",
+  outdated: "text-[#F59E0B]",
+  unknown: "text-muted-foreground",
+}
+
+// Utility functions
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return "0 B"
+  const k = 1024
+  const sizes = ["B", "KB", "MB", "GB", "TB"]
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+}
+
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
+
+function formatTimestamp(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString()
+}
+
+export function NodeProfile({ nodeKey, network }: NodeProfileProps) {
+  const {
+    selectedNetwork,
+    setSelectedNetwork,
+    currentNetwork,
+    nodes,
+    registryPods,
+    podCredits,
+    isLoading,
+    registryStatus,
+    lastUpdate,
+    refreshData,
+    refreshPodCredits,
+  } = useNodes()
+  const { getNetwork, isLoaded: networksLoaded } = useNetworks()
+  const { getAnnotation } = useAnnotations()
+
+  // Select the node's network before looking the node up. Custom networks are only
+  // known once loaded; an unknown one leaves the current network selected.
+  const requestedNetworkRef = useRef<string | null>(null)
+  const knownNetwork = !!network && !!getNetwork(network)
+  useEffect(() => {
+    if (!network || !knownNetwork || requestedNetworkRef.current === network) return
+    requestedNetworkRef.current = network
+    if (network !== selectedNetwork) setSelectedNetwork(network)
+  }, [network, knownNetwork, selectedNetwork, setSelectedNetwork])
+  const switchingNetwork = !!network && network !== selectedNetwork && (knownNetwork || !networksLoaded)
+
+  const node = useMemo(() => nodes.find(n => matchesNodeKey(n, nodeKey)) ?? null, [nodes, nodeKey])
+  const address = node?.address
+  const pubkey = node?.pubkey ?? undefined
+  const credits = pubkey ? podCredits.get(pubkey) : undefined
+
+  const latestVersion = useMemo(() => findLatestVersion(
+    nodes.map(n => n.version?.version).filter((v): v is string => !!v)
+  ), [nodes])
+  const version = node?.version?.version || node?.registryVersion
+  const versionStatus = getVersionStatus(version, latestVersion)
+
+  const gossipDiscovery = useMemo(() => discoverFromGossip(registryPods, nodes), [registryPods, nodes])
+  const seenBy = address ? peerSightings(gossipDiscovery, address) : undefined
+  const onlineCount = nodes.filter(n => n.status === "online").length
+
+  // Availability and restarts from the observed history, reloaded after every crawl
+  const { log: availabilityLog, refresh: refreshAvailability } = useAvailabilityLog({ network: selectedNetwork })
+  const { log: restartLog, refresh: refreshRestarts } = useRestartLog({ network: selectedNetwork })
+  useEffect(() => {
+    if (!lastUpdate) return
+    refreshAvailability()
+    refreshRestarts()
+  }, [lastUpdate, refreshAvailability, refreshRestarts])
+  const availability = useMemo(() => availabilityByAddress(availabilityLog), [availabilityLog])
+  const restarts = useMemo(() => restartsByAddress(restartLog), [restartLog])
+
+  const [historyPeriod, setHistoryPeriod] = useState<HistoryPeriod>("24h")
+  const { data: historyData, isLoading: historyLoading, error: historyError } = useNodeHistory({
+    address: address || "",
+    period: historyPeriod,
+    enabled: !!address,
+  })
+
+  const [creditsPeriod, setCreditsPeriod] = useState<CreditWindow>("7d")
+  const { snapshots: creditSnapshots, isLoading: creditsLoading, error: creditsError } = useCreditHistory({
+    lookbackMs: CREDIT_WINDOW_MS[creditsPeriod],
+    interval: CREDIT_WINDOW_INTERVALS[creditsPeriod],
+    pubkey,
+    enabled: !!pubkey,
+  })
+  const creditPoints = useMemo(
+    () => (pubkey ? creditSeries(creditSnapshots, pubkey, credits) : []),
+    [creditSnapshots, pubkey, credits]
+  )
+
+  const [copied, setCopied] = useState(false)
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    })
+  }
+
+  const health = node ? nodeHealth(node) : null
+
+  return (
+    <DashboardLayout
+      sections={navSections}
+      logo={<Logo height={36} />}
+      logoCollapsed={<LogoIcon size={36} />}
+      loading={isLoading}
+      headerRight={
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => { refreshData(true); refreshPodCredits() }}
+          disabled={isLoading}
+        >
+          <RefreshCw className={cn("w-4 h-4 mr-2", isLoading && "animate-spin")} />
+          Refresh
+        </Button>
+      }
+    >
+      <FadeIn animateOnMount>
+        <PageHeader
+          title={node ? nodeDisplayName(node, getAnnotation(node)) : "Node"}
+          description={node ? `${node.address} on ${currentNetwork.name}` : nodeKey}
+          actions={
+            <Button variant="outline" size="sm" onClick={handleCopyLink}>
+              {copied ? <Check className="w-4 h-4 mr-2" /> : <Link2 className="w-4 h-4 mr-2" />}
+              {copied ? "Copied" : "Copy Link"}
+            </Button>
+          }
+        />
+      </FadeIn>
+
+      {!node ? (
+        isLoading || switchingNetwork || registryStatus === "loading" ? (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {[...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+        ) : (
+          <BracketCard className="p-8 bg-card text-center">
+            <p className="text-muted-foreground">
+              No node with pubkey or address <span className="font-mono break-all">{nodeKey}</span> on {currentNetwork.name}
+            </p>
+            <Link href="/" className="text-sm text-primary hover:underline mt-2 inline-block">
+              Back to the dashboard
+            </Link>
+          </BracketCard>
+        )
+      ) : (
+        <div className="space-y-6">
+          {/* Overview */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <BracketCard className="p-4 bg-card">
+              <div className="flex items-center gap-2 mb-2">
+                <HeartPulse className="w-4 h-4 text-primary" />
+                <span className="text-xs uppercase tracking-widest text-muted-foreground">Status</span>
+              </div>
+              <p className="text-2xl font-light font-mono" style={health ? { color: HEALTH_COLORS[health] } : undefined}>
+                {health ? HEALTH_LABELS[health] : "Loading"}
+              </p>
+              {node.lastFetched && (
+                <p className="text-xs text-muted-foreground">
+                  Checked {new Date(node.lastFetched).toLocaleTimeString()}
+                </p>
+              )}
+            </BracketCard>
+
+            <BracketCard className="p-4 bg-card">
+              <div className="flex items-center gap-2 mb-2">
+                <Package className="w-4 h-4 text-primary" />
+                <span className="text-xs uppercase tracking-widest text-muted-foreground">Version</span>
+              </div>
+              <p className="text-2xl font-light font-mono">{version ? `v${version}` : "N/A"}</p>
+              <p className={cn("text-xs", VERSION_STATUS_COLORS[versionStatus])}>
+                {VERSION_STATUS_LABELS[versionStatus]}
+                {versionStatus === "outdated" && latestVersion && ` (latest v${latestVersion})`}
+              </p>
+            </BracketCard>
+
+            <BracketCard className="p-4 bg-card">
+              <div className="flex items-center gap-2 mb-2">
+                <MapPin className="w-4 h-4 text-primary" />
+                <span className="text-xs uppercase tracking-widest text-muted-foreground">Location</span>
+              </div>
+              <p className="text-2xl font-light font-mono">{node.location?.city ?? "Unknown"}</p>
+              <p className="text-xs text-muted-foreground">{node.location?.country ?? node.ip}</p>
+            </BracketCard>
+
+            <BracketCard className="p-4 bg-card">
+              <div className="flex items-center gap-2 mb-2">
+                <Radio className="w-4 h-4 text-primary" />
+                <span className="text-xs uppercase tracking-widest text-muted-foreground">Gossip Visibility</span>
+              </div>
+              <p className="text-2xl font-light font-mono">{seenBy ?? 0}</p>
+              <p className="text-xs text-muted-foreground">
+                {seenBy === 1 ? "peer lists" : "peers list"} this node, of {onlineCount} online
+              </p>
+            </BracketCard>
+          </div>
+
+          {/* Live stats */}
+          <BracketCard className="bg-card overflow-hidden">
+            <NodeStatsGrid
+              node={node}
+              credits={credits}
+              formatBytes={formatBytes}
+              formatUptime={formatUptime}
+              formatTimestamp={formatTimestamp}
+            />
+            {!node.stats && (
+              <div className="p-4 text-sm text-muted-foreground text-center">
+                {node.status === "loading" ? "Waiting for the node to be crawled" : "The node did not return stats in the latest crawl"}
+              </div>
+            )}
+            {node.pubkey && (
+              <div className="p-4 border-t border-border">
+                <div className="text-xs text-muted-foreground uppercase tracking-wider mb-1">Public Key</div>
+                <div className="font-mono text-sm break-all">{node.pubkey}</div>
+              </div>
+            )}
+          </BracketCard>
+
+          {/* Nickname, tags and notes */}
+          <BracketCard className="p-4 bg-card">
+            <div className="flex items-center gap-2 mb-3">
+              <StickyNote className="w-4 h-4 text-primary" />
+              <span className="text-xs uppercase tracking-widest text-muted-foreground">Notes</span>
+            </div>
+            <NodeAnnotationEditor node={node} />
+          </BracketCard>
+
+          {/* Availability and restarts */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <BracketCard className="p-4 bg-card">
+              <NodeAvailabilitySummary availability={availability.get(node.address)} />
+            </BracketCard>
+            <BracketCard className="p-4 bg-card">
+              <NodeRestartHistory restarts={restarts.get(node.address)} formatUptime={formatUptime} />
+            </BracketCard>
+          </div>
+
+          {/* History */}
+          <BracketCard className="p-4 bg-card">
+            <NodeHistoryChart
+              data={historyData}
+              isLoading={historyLoading}
+              error={historyError}
+              currentPeriod={historyPeriod}
+              onPeriodChange={setHistoryPeriod}
+              exportName={node.address}
+            />
+          </BracketCard>
+
+          {/* Credits */}
+          {node.pubkey && (
+            <BracketCard className="p-4 bg-card">
+              <NodeCreditsChart
+                points={creditPoints}
+                online={node.status === "online"}
+                isLoading={creditsLoading}
+                error={creditsError}
+                currentPeriod={creditsPeriod}
+                onPeriodChange={setCreditsPeriod}
+              />
+            </BracketCard>
+          )}
+
+          {/* Peers */}
+          {node.pods && (
+            <BracketCard className="p-4 bg-card">
+              <NodePeerList pods={node.pods} seenBy={seenBy} formatTimestamp={formatTimestamp} />
+            </BracketCard>
+          )}
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
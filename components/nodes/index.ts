@@ -0,0 +1 @@
+export { NodeProfile } from './NodeProfile'
@@ -0,0 +1,224 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Bell, CheckCheck, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { nodeKeyPath } from "@/lib/nodeLinks";
+import { useNotifications } from "@/lib/useNotifications";
+import {
+  WATCH_EVENTS,
+  browserNotificationsSupported,
+  requestBrowserNotifications,
+  type WatchEvent,
+  type WatchSettings,
+} from "@/lib/notifications";
+
+const EVENT_LABELS = Object.fromEntries(WATCH_EVENTS.map(({ event, label }) => [event, label])) as Record<
+  WatchEvent,
+  string
+>;
+
+/**
+ * Bell button with the unread count, opening the history of watched-node events
+ * and the watch settings
+ */
+export function NotificationCenter() {
+  const { notifications, unread, settings, updateSettings, markRead, clear } = useNotifications();
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const update = (changes: Partial<WatchSettings>) => updateSettings({ ...settings, ...changes });
+
+  const handleBrowserToggle = async (enabled: boolean) => {
+    setPermissionError(null);
+    if (enabled && !(await requestBrowserNotifications())) {
+      setPermissionError("Notifications are blocked for this site. Allow them in the browser settings.");
+      return;
+    }
+    await update({ browser: enabled });
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Clear the notification history?")) return;
+    await clear();
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon-sm" className="relative" title="Notifications">
+          <Bell className="w-4 h-4" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 text-[10px] font-mono leading-4 text-center bg-destructive text-white">
+              {unread > 99 ? "99+" : unread}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] bg-card border-border max-h-[85vh] overflow-y-auto custom-scrollbar">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-light tracking-wide">Notifications</DialogTitle>
+          <DialogDescription>
+            Favorited nodes are watched after every crawl. Events are kept in this browser for 30 days.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="history">
+          <TabsList>
+            <TabsTrigger value="history">History{unread > 0 ? ` (${unread})` : ""}</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="history" className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => markRead()} disabled={unread === 0}>
+                <CheckCheck className="w-4 h-4" /> Mark all read
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleClear} disabled={notifications.length === 0}>
+                <Trash2 className="w-4 h-4" /> Clear
+              </Button>
+            </div>
+
+            {notifications.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No notifications yet. Favorite a node to watch it.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {notifications.map((notification) => (
+                  <div
+                    key={notification.id}
+                    className={cn(
+                      "flex items-start justify-between gap-3 border p-3",
+                      notification.read ? "border-border bg-muted/30" : "border-primary/40 bg-primary/5"
+                    )}
+                  >
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 text-[10px] font-mono uppercase tracking-widest text-muted-foreground">
+                        <span>{EVENT_LABELS[notification.event]}</span>
+                        <span>·</span>
+                        <span>{notification.network}</span>
+                        <span>·</span>
+                        <span>{new Date(notification.at).toLocaleString()}</span>
+                      </div>
+                      <p className="text-sm">
+                        <Link
+                          href={nodeKeyPath(notification.nodeKey, notification.network)}
+                          className="font-mono hover:text-primary"
+                          onClick={() => markRead([notification.id])}
+                        >
+                          {notification.label}
+                        </Link>{" "}
+                        {notification.message}
+                      </p>
+                    </div>
+                    {!notification.read && (
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        onClick={() => markRead([notification.id])}
+                        title="Mark read"
+                        className="shrink-0"
+                      >
+                        <CheckCheck className="w-3.5 h-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings" className="space-y-4 text-sm">
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => update({ enabled: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                <span>Watch favorited nodes</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.browser}
+                  disabled={!browserNotificationsSupported()}
+                  onChange={(e) => handleBrowserToggle(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                <span>Show browser notifications</span>
+              </label>
+              {permissionError && <p className="text-xs font-mono text-destructive">{permissionError}</p>}
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-xs uppercase tracking-widest text-muted-foreground">Events</div>
+              {WATCH_EVENTS.map(({ event, label, description }) => (
+                <label key={event} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.events[event]}
+                    onChange={(e) => update({ events: { ...settings.events, [event]: e.target.checked } })}
+                    className="w-4 h-4"
+                  />
+                  <span>{label}</span>
+                  <span className="text-xs text-muted-foreground">{description}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-2">
+                <span className="text-muted-foreground">CPU above</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.cpuThreshold}
+                  onChange={(e) => update({ cpuThreshold: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="px-3 py-1.5 text-sm font-mono border border-border bg-card w-20"
+                />
+                <span className="text-muted-foreground">%</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-muted-foreground">RAM above</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={settings.ramThreshold}
+                  onChange={(e) => update({ ramThreshold: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })}
+                  className="px-3 py-1.5 text-sm font-mono border border-border bg-card w-20"
+                />
+                <span className="text-muted-foreground">%</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-muted-foreground">Repeat after</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={settings.debounceMinutes}
+                  onChange={(e) => update({ debounceMinutes: Math.max(0, Number(e.target.value) || 0) })}
+                  className="px-3 py-1.5 text-sm font-mono border border-border bg-card w-20"
+                />
+                <span className="text-muted-foreground">min</span>
+              </label>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
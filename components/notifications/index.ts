@@ -0,0 +1 @@
+export { NotificationCenter } from "./NotificationCenter";
@@ -3,6 +3,9 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from "react";
 import dynamic from "next/dynamic";
 import * as THREE from "three";
+import type { NodeData as SharedNodeData } from "@/lib/prpc";
+import { PEER_ACTIVE_SECONDS } from "@/lib/replay";
+import { findLatestVersion } from "@/lib/version";
 
 // Dynamic import to avoid SSR issues with Three.js
 const ForceGraph3D = dynamic(() => import("react-force-graph-3d"), {
@@ -46,31 +49,7 @@ const getCachedMaterial = (color: number, opacity: number = 1): THREE.MeshBasicM
 };
 
 // Types
-interface PodInfo {
-  address: string;
-  pubkey?: string | null;
-  version: string;
-  last_seen_timestamp: number;
-}
-
-interface NodeData {
-  address: string;
-  pubkey: string | null;
-  status: "online" | "offline" | "loading";
-  version?: { version: string };
-  stats?: {
-    cpu_percent: number;
-    ram_used: number;
-    ram_total: number;
-    uptime: number;
-    active_streams: number;
-    current_index: number;
-  };
-  pods?: {
-    pods: PodInfo[];
-    total_count: number;
-  };
-}
+type NodeData = Pick<SharedNodeData, "address" | "pubkey" | "status" | "version" | "stats" | "pods">;
 
 interface GraphNode {
   id: string;
@@ -109,9 +88,11 @@ interface GraphData {
 interface NetworkTopology3DProps {
   nodes: NodeData[];
   onNodeClick?: (node: NodeData) => void;
+  // Time the nodes describe (unix seconds), for replayed state; defaults to now
+  at?: number;
 }
 
-export function NetworkTopology3D({ nodes, onNodeClick }: NetworkTopology3DProps) {
+export function NetworkTopology3D({ nodes, onNodeClick, at }: NetworkTopology3DProps) {
   const fgRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [graphData, setGraphData] = useState<GraphData>({ nodes: [], links: [] });
@@ -153,6 +134,10 @@ export function NetworkTopology3D({ nodes, onNodeClick }: NetworkTopology3DProps
 
     // Filter: only show nodes that have finished loading (online or offline)
     const loadedNodes = nodesList.filter(n => n.status !== "loading");
+    const latestVersion = findLatestVersion(
+      loadedNodes.map(n => n.version?.version).filter((v): v is string => !!v)
+    );
+    const now = at ?? Date.now() / 1000;
 
     // Create nodes - preserve positions for existing nodes
     loadedNodes.forEach((node) => {
@@ -173,7 +158,7 @@ export function NetworkTopology3D({ nodes, onNodeClick }: NetworkTopology3DProps
         syncIndex: node.stats?.current_index,
         val: Math.max(10, Math.min(30, peerCount * 2 + 10)), // Size based on peers
         color: isOnline
-          ? (node.version?.version === "0.6.0" ? "#22c55e" : "#eab308")
+          ? (node.version?.version === latestVersion ? "#22c55e" : "#eab308")
           : "#ef4444",
       };
 
@@ -216,7 +201,7 @@ export function NetworkTopology3D({ nodes, onNodeClick }: NetworkTopology3DProps
               ) || false;
 
               // Check if connection is active (last seen < 5 minutes)
-              const isActive = Date.now() / 1000 - pod.last_seen_timestamp < 300;
+              const isActive = now - pod.last_seen_timestamp < PEER_ACTIVE_SECONDS;
 
               graphLinks.push({
                 source: node.address,
@@ -234,7 +219,7 @@ export function NetworkTopology3D({ nodes, onNodeClick }: NetworkTopology3DProps
     });
 
     return { nodes: graphNodes, links: graphLinks };
-  }, []);
+  }, [at]);
 
   // Save current node positions before updating
   const saveNodePositions = useCallback(() => {
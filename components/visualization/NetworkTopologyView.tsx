@@ -7,30 +7,9 @@ import { cn } from '@/lib/utils'
 import { NetworkTopology3D } from './NetworkTopology3D'
 import { GlobeVisualization, type GlobeNode, type GlobeConnection } from '../globe'
 import { batchGeolocate, type GeoLocation } from '@/lib/geolocation'
+import type { NodeData as SharedNodeData } from '@/lib/prpc'
 
-interface NodeData {
-  address: string
-  pubkey: string | null
-  status: 'online' | 'offline' | 'loading'
-  version?: { version: string }
-  stats?: {
-    cpu_percent: number
-    ram_used: number
-    ram_total: number
-    uptime: number
-    active_streams: number
-    current_index: number
-  }
-  pods?: {
-    pods: Array<{
-      address: string
-      pubkey?: string | null
-      version: string
-      last_seen_timestamp: number
-    }>
-    total_count: number
-  }
-}
+type NodeData = Pick<SharedNodeData, 'address' | 'pubkey' | 'status' | 'version' | 'stats' | 'pods'>
 
 interface NetworkTopologyViewProps {
   nodes: NodeData[]
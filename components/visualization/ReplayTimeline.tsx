@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Pause, Play, SkipBack, SkipForward, Radio } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { REPLAY_PERIODS, type ReplayEvent, type ReplayFrame, type ReplayPeriod } from "@/lib/replay";
+
+const SPEEDS = [1, 2, 4, 8];
+
+// Playback at 1x shows one frame per second
+const FRAME_INTERVAL_MS = 1000;
+
+const EVENT_COLORS: Record<ReplayEvent["kind"], string> = {
+  "offline-drop": "bg-red-500",
+  recovery: "bg-green-500",
+  "new-version": "bg-sky-500",
+};
+
+interface ReplayTimelineProps {
+  frames: ReplayFrame[];
+  events: ReplayEvent[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  period: ReplayPeriod;
+  onPeriodChange: (period: ReplayPeriod) => void;
+  // Back to the live network state
+  onExit: () => void;
+  isLoading?: boolean;
+}
+
+export function ReplayTimeline({
+  frames,
+  events,
+  index,
+  onIndexChange,
+  period,
+  onPeriodChange,
+  onExit,
+  isLoading = false,
+}: ReplayTimelineProps) {
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const last = frames.length - 1;
+  const frame = frames[index];
+
+  // Advance one frame per tick; stop at the newest frame
+  useEffect(() => {
+    if (!playing) return;
+    const timer = setTimeout(() => {
+      if (index >= last) {
+        setPlaying(false);
+      } else {
+        onIndexChange(index + 1);
+      }
+    }, FRAME_INTERVAL_MS / speed);
+    return () => clearTimeout(timer);
+  }, [playing, speed, index, last, onIndexChange]);
+
+  const previousEvent = [...events].reverse().find(e => e.frame < index);
+  const nextEvent = events.find(e => e.frame > index);
+  const currentEvents = events.filter(e => e.frame === index);
+
+  const togglePlaying = () => {
+    // Restart from the oldest frame when playing from the end
+    if (!playing && index >= last) onIndexChange(0);
+    setPlaying(!playing);
+  };
+
+  return (
+    <div className="border border-border bg-card/95 backdrop-blur p-3 space-y-2 font-mono text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={togglePlaying} disabled={frames.length < 2}>
+          {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => previousEvent && onIndexChange(previousEvent.frame)}
+          disabled={!previousEvent}
+          title={previousEvent?.label ?? "No earlier event"}
+        >
+          <SkipBack className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => nextEvent && onIndexChange(nextEvent.frame)}
+          disabled={!nextEvent}
+          title={nextEvent?.label ?? "No later event"}
+        >
+          <SkipForward className="w-4 h-4" />
+        </Button>
+
+        <div className="flex items-center gap-1">
+          {SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => setSpeed(s)}
+              className={cn(
+                "px-2 py-1 border border-border",
+                speed === s ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+              )}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1">
+          {REPLAY_PERIODS.map(p => (
+            <button
+              key={p}
+              onClick={() => onPeriodChange(p)}
+              className={cn(
+                "px-2 py-1 border border-border",
+                period === p ? "bg-primary text-primary-foreground" : "hover:bg-muted"
+              )}
+            >
+              {p}
+            </button>
+          ))}
+        </div>
+
+        <span className="ml-auto text-muted-foreground">
+          {isLoading
+            ? "Loading history..."
+            : frame
+              ? `${new Date(frame.timestamp).toLocaleString()} · ${index + 1}/${frames.length}`
+              : "No recorded frames"}
+        </span>
+        <Button variant="outline" size="sm" onClick={onExit}>
+          <Radio className="w-4 h-4 mr-2" />
+          Live
+        </Button>
+      </div>
+
+      <div className="relative">
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, last)}
+          value={Math.min(index, Math.max(0, last))}
+          onChange={e => onIndexChange(Number(e.target.value))}
+          disabled={frames.length < 2}
+          className="w-full accent-primary"
+          aria-label="Replay position"
+        />
+        {last > 0 && events.map(event => (
+          <button
+            key={`${event.kind}-${event.frame}-${event.label}`}
+            onClick={() => onIndexChange(event.frame)}
+            title={`${new Date(event.timestamp).toLocaleString()}: ${event.label}`}
+            className={cn("absolute -top-1 w-1.5 h-2 -translate-x-1/2", EVENT_COLORS[event.kind])}
+            style={{ left: `${(event.frame / last) * 100}%` }}
+          />
+        ))}
+      </div>
+
+      {currentEvents.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {currentEvents.map(event => (
+            <span key={`${event.kind}-${event.label}`} className="flex items-center gap-1">
+              <span className={cn("inline-block w-2 h-2", EVENT_COLORS[event.kind])} />
+              {event.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1 +1,2 @@
 export { NetworkTopology3D } from "./NetworkTopology3D";
+export { ReplayTimeline } from "./ReplayTimeline";
@@ -0,0 +1,101 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react'
+import {
+  getAnnotations,
+  saveAnnotation as storeAnnotation,
+  removeAnnotation as deleteAnnotation,
+  parseAnnotationsConfig,
+  exportAnnotationsConfig,
+  annotationTags,
+  findAnnotation,
+  type NodeAnnotation,
+} from '@/lib/annotations'
+
+interface AnnotationsContextValue {
+  // Keyed by node key (pubkey, or address)
+  annotations: Map<string, NodeAnnotation>
+  // Every tag in use, sorted
+  tags: string[]
+  isLoaded: boolean
+  getAnnotation: (node: { pubkey: string | null; address: string }) => NodeAnnotation | undefined
+
+  // Actions
+  saveAnnotation: (annotation: Omit<NodeAnnotation, 'updatedAt'>) => Promise<void>
+  removeAnnotation: (key: string) => Promise<void>
+  importAnnotations: (text: string) => Promise<{ imported: number; errors: string[] }>
+  exportAnnotations: () => string
+}
+
+const AnnotationsContext = createContext<AnnotationsContextValue | null>(null)
+
+export function useAnnotations() {
+  const context = useContext(AnnotationsContext)
+  if (!context) {
+    throw new Error('useAnnotations must be used within AnnotationsProvider')
+  }
+  return context
+}
+
+export function AnnotationsProvider({ children }: { children: ReactNode }) {
+  const [annotations, setAnnotations] = useState<Map<string, NodeAnnotation>>(new Map())
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  const reload = useCallback(async () => {
+    setAnnotations(await getAnnotations())
+    setIsLoaded(true)
+  }, [])
+
+  // Load annotations on mount
+  useEffect(() => {
+    getAnnotations().then(stored => {
+      setAnnotations(stored)
+      setIsLoaded(true)
+    })
+  }, [])
+
+  const tags = useMemo(() => annotationTags(annotations.values()), [annotations])
+
+  const getAnnotation = useCallback(
+    (node: { pubkey: string | null; address: string }) => findAnnotation(annotations, node),
+    [annotations]
+  )
+
+  const saveAnnotation = useCallback(async (annotation: Omit<NodeAnnotation, 'updatedAt'>) => {
+    await storeAnnotation({ ...annotation, updatedAt: Date.now() })
+    await reload()
+  }, [reload])
+
+  const removeAnnotation = useCallback(async (key: string) => {
+    await deleteAnnotation(key)
+    await reload()
+  }, [reload])
+
+  // Imported annotations replace existing ones for the same node
+  const importAnnotations = useCallback(async (text: string) => {
+    const { annotations: imported, errors } = parseAnnotationsConfig(text)
+    for (const annotation of imported) {
+      await storeAnnotation({ ...annotation, updatedAt: annotation.updatedAt || Date.now() })
+    }
+    await reload()
+    return { imported: imported.length, errors }
+  }, [reload])
+
+  const exportAnnotations = useCallback(
+    () => exportAnnotationsConfig(Array.from(annotations.values())),
+    [annotations]
+  )
+
+  const value: AnnotationsContextValue = {
+    annotations,
+    tags,
+    isLoaded,
+    getAnnotation,
+    saveAnnotation,
+    removeAnnotation,
+    importAnnotations,
+    exportAnnotations,
+  }
+
+  return <AnnotationsContext.Provider value={value}>{children}</AnnotationsContext.Provider>
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react'
+import type { NetworkConfig } from '@/lib/networks'
+import {
+  getCustomNetworks,
+  saveCustomNetwork,
+  removeCustomNetwork,
+  parseNetworksConfig,
+  exportNetworksConfig,
+  mergeNetworks,
+} from '@/lib/customNetworks'
+
+interface NetworksContextValue {
+  // Built-in networks followed by user-defined ones
+  networks: NetworkConfig[]
+  customNetworks: NetworkConfig[]
+  isLoaded: boolean
+  getNetwork: (id: string) => NetworkConfig | undefined
+
+  // Actions
+  saveNetwork: (network: NetworkConfig, previousId?: string) => Promise<void>
+  removeNetwork: (id: string) => Promise<void>
+  importNetworks: (text: string) => Promise<{ imported: number; errors: string[] }>
+  exportNetworks: () => string
+}
+
+const NetworksContext = createContext<NetworksContextValue | null>(null)
+
+export function useNetworks() {
+  const context = useContext(NetworksContext)
+  if (!context) {
+    throw new Error('useNetworks must be used within NetworksProvider')
+  }
+  return context
+}
+
+export function NetworksProvider({ children }: { children: ReactNode }) {
+  const [customNetworks, setCustomNetworks] = useState<NetworkConfig[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  const reload = useCallback(async () => {
+    setCustomNetworks(await getCustomNetworks())
+    setIsLoaded(true)
+  }, [])
+
+  // Load user-defined networks on mount
+  useEffect(() => {
+    getCustomNetworks().then(custom => {
+      setCustomNetworks(custom)
+      setIsLoaded(true)
+    })
+  }, [])
+
+  const networks = useMemo(() => mergeNetworks(customNetworks), [customNetworks])
+
+  const getNetwork = useCallback((id: string) => networks.find(n => n.id === id), [networks])
+
+  const saveNetwork = useCallback(async (network: NetworkConfig, previousId?: string) => {
+    await saveCustomNetwork(network, previousId)
+    await reload()
+  }, [reload])
+
+  const removeNetwork = useCallback(async (id: string) => {
+    await removeCustomNetwork(id)
+    await reload()
+  }, [reload])
+
+  // Imported networks replace existing user-defined networks with the same id
+  const importNetworks = useCallback(async (text: string) => {
+    const { networks: imported, errors } = parseNetworksConfig(text)
+    for (const network of imported) {
+      await saveCustomNetwork(network)
+    }
+    await reload()
+    return { imported: imported.length, errors }
+  }, [reload])
+
+  const exportNetworks = useCallback(() => exportNetworksConfig(customNetworks), [customNetworks])
+
+  const value: NetworksContextValue = {
+    networks,
+    customNetworks,
+    isLoaded,
+    getNetwork,
+    saveNetwork,
+    removeNetwork,
+    importNetworks,
+    exportNetworks,
+  }
+
+  return <NetworksContext.Provider value={value}>{children}</NetworksContext.Provider>
+}
@@ -3,81 +3,34 @@
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode, useRef } from 'react'
 import { batchGeolocate } from '@/lib/geolocation'
 import { getFromDB, setToDB, getAllFromDB, STORES, CACHE_TTL, cacheKeys } from '@/lib/indexedDB'
-import { PROXY_URL, USE_PROXY, proxyEndpoints } from '@/lib/proxyConfig'
+import { NETWORK_RPC_ENDPOINTS, registryEndpoints, type NetworkConfig } from '@/lib/networks'
+import { useNetworks } from '@/contexts/NetworksContext'
+import { BATCH_LIMITS, type NodeCallResults } from '@/lib/prpcBatch'
+import { scheduleCrawl, viewerPriority, estimateEta, type CrawlProgress } from '@/lib/crawlScheduler'
+import { getFavorites } from '@/lib/favorites'
+import { normalizePrpcError, describePrpcError } from '@/lib/prpcErrors'
+import {
+  getRegistryPodsWithFailover,
+  buildNodeData,
+  placeholderNode,
+  type NodeData,
+  type NetworkPod,
+} from '@/lib/prpc'
+import { latencySampleFrom, withLatency, saveLatencySnapshot } from '@/lib/latency'
+import { recordCrawlHistory, recordReplayFrame, recordCreditSnapshot, recordAvailability, recordRestarts, recordVersions } from '@/lib/localHistory'
+import { podCreditsMap } from '@/lib/podCredits'
+import { checkWatchedNodes } from '@/lib/notifications'
+import { withHealth } from '@/lib/nodeHealth'
+import type { NetworkSnapshot } from '@/lib/networkCrawler'
 
 // Types
-interface VersionResponse {
-  version: string
-}
-
-interface StatsResponse {
-  active_streams: number
-  cpu_percent: number
-  current_index: number
-  file_size: number
-  last_updated: number
-  packets_received: number
-  packets_sent: number
-  ram_total: number
-  ram_used: number
-  total_bytes: number
-  total_pages: number
-  uptime: number
-}
-
-export interface NodeData {
-  ip: string
-  address: string
-  label: string
-  pubkey: string | null
-  registryVersion: string
-  status: 'online' | 'offline' | 'loading'
-  version?: VersionResponse
-  stats?: StatsResponse
-  error?: string
-  lastFetched?: number
-  location?: {
-    city: string
-    country: string
-    countryCode?: string
-  }
-}
+export type { NodeData }
 
-interface NetworkPod {
-  address: string
-  last_seen_timestamp: number
-  pubkey: string | null
-  version: string
-}
-
-interface NetworkPodsResponse {
-  pods: NetworkPod[]
-  total_count: number
-}
+export { NETWORK_RPC_ENDPOINTS }
 
-interface PodCredit {
-  pod_id: string
-  credits: number
-}
-
-interface PodCreditsResponse {
-  pods_credits: PodCredit[]
-  status: string
-}
-
-interface NetworkConfig {
-  id: string
-  name: string
-  rpcUrl: string
-  type: 'devnet' | 'mainnet'
-}
-
-export const NETWORK_RPC_ENDPOINTS: NetworkConfig[] = [
-  { id: 'devnet1', name: 'Devnet 1', rpcUrl: 'https://rpc1.pchednode.com/rpc', type: 'devnet' },
-  { id: 'devnet2', name: 'Devnet 2', rpcUrl: 'https://rpc2.pchednode.com/rpc', type: 'devnet' },
-  { id: 'mainnet1', name: 'Mainnet 1', rpcUrl: 'https://rpc3.pchednode.com/rpc', type: 'mainnet' },
-  { id: 'mainnet2', name: 'Mainnet 2', rpcUrl: 'https://rpc4.pchednode.com/rpc', type: 'mainnet' },
-]
+// 'live' while node updates come from the server-side crawler stream,
+// 'unavailable' when the browser crawls the network itself
+export type StreamStatus = 'connecting' | 'live' | 'unavailable'
 
 interface NodesContextValue {
   // Network state
@@ -94,14 +47,30 @@ interface NodesContextValue {
   isLoading: boolean
   registryStatus: 'loading' | 'success' | 'error'
   registryError: string | null
+  // Registry endpoint that served the current pods (null while showing cached data)
+  registryEndpoint: string | null
   isCached: boolean
   lastUpdate: Date | null
+  streamStatus: StreamStatus
+  // Progress of the running crawl (browser or server-side), null when idle
+  crawlProgress: CrawlProgress | null
 
   // Actions
   refreshData: (forceRefresh?: boolean) => Promise<void>
   refreshPodCredits: () => Promise<void>
 }
 
+// Everything kept per finished crawl, whether it came from the stream or the browser
+function recordCrawl(networkId: string, nodes: NodeData[]) {
+  saveLatencySnapshot(networkId, nodes)
+  recordCrawlHistory(networkId, nodes)
+  recordReplayFrame(networkId, nodes)
+  recordAvailability(networkId, nodes)
+  recordRestarts(networkId, nodes)
+  recordVersions(networkId, nodes)
+  checkWatchedNodes(networkId, nodes)
+}
+
 const NodesContext = createContext<NodesContextValue | null>(null)
 
 export function useNodes() {
@@ -122,83 +91,33 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
   const [registryPods, setRegistryPods] = useState<NetworkPod[]>([])
   const [registryStatus, setRegistryStatus] = useState<'loading' | 'success' | 'error'>('loading')
   const [registryError, setRegistryError] = useState<string | null>(null)
+  const [registryEndpoint, setRegistryEndpoint] = useState<string | null>(null)
   const [nodes, setNodes] = useState<NodeData[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
   const [isCached, setIsCached] = useState(false)
   const [podCredits, setPodCredits] = useState<Map<string, number>>(new Map())
 
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('connecting')
+  const [streamRefresh, setStreamRefresh] = useState(0)
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null)
+
   const lastFetchedNetworkRef = useRef<string | null>(null)
+  const streamLiveRef = useRef(false)
   const lastGeoFetchRef = useRef<number>(0)
 
-  const currentNetwork = NETWORK_RPC_ENDPOINTS.find(n => n.id === selectedNetwork)!
-
-  // Call RPC endpoint - prioritize external proxy to avoid CORS errors
-  const callRpcEndpoint = useCallback(async (
-    rpcUrl: string,
-    method: string
-  ): Promise<{ result?: unknown; error?: string }> => {
-    // Try external proxy first if configured
-    if (USE_PROXY && PROXY_URL) {
-      try {
-        const response = await fetch(proxyEndpoints.rpc(), {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ endpoint: rpcUrl, method }),
-        })
-        if (response.ok) {
-          const data = await response.json()
-          if (data.result) return { result: data.result }
-          if (data.error) return { error: data.error }
-        }
-      } catch {
-        // Continue to local proxy
-      }
-    }
-
-    // Use local proxy (avoids CORS errors in console)
-    try {
-      const response = await fetch('/api/prpc', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ endpoint: rpcUrl, method }),
-      })
-      if (!response.ok) return { error: `HTTP ${response.status}` }
-      const data = await response.json()
-      if (data.error) return { error: data.error }
-      return { result: data.result }
-    } catch (e) {
-      return { error: e instanceof Error ? e.message : 'Unknown error' }
-    }
-  }, [])
-
-  // Call individual node API
-  const callApi = useCallback(async (ip: string, method: string): Promise<{ result?: unknown; error?: string }> => {
-    try {
-      const response = await fetch('/api/prpc', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ endpoint: `http://${ip}:6000/rpc`, method }),
-      })
-      if (!response.ok) return { error: `HTTP ${response.status}` }
-      const data = await response.json()
-      if (data.error) return { error: data.error }
-      return { result: data.result }
-    } catch (e) {
-      return { error: e instanceof Error ? e.message : 'Unknown error' }
-    }
-  }, [])
+  const { networks, getNetwork } = useNetworks()
+  const currentNetwork = getNetwork(selectedNetwork) ?? NETWORK_RPC_ENDPOINTS[0]
 
   // Fetch pod credits
   const fetchPodCredits = useCallback(async () => {
     try {
       const response = await fetch('/api/pod-credits')
       if (!response.ok) return
-      const data: PodCreditsResponse = await response.json()
-      if (data.status === 'success' && data.pods_credits) {
-        const creditsMap = new Map<string, number>()
-        data.pods_credits.forEach(pc => creditsMap.set(pc.pod_id, pc.credits))
+      const creditsMap = podCreditsMap(await response.json())
+      if (creditsMap) {
         setPodCredits(creditsMap)
+        recordCreditSnapshot(creditsMap)
       }
     } catch {
       // Ignore
@@ -212,60 +131,29 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
       const cacheKey = cacheKeys.nodeData(pod.address)
       const cached = cachedNodes.get(cacheKey)
       if (cached && cached.status !== 'loading') {
-        return cached
-      }
-      return {
-        ip: pod.address.split(':')[0],
-        address: pod.address,
-        label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${idx + 1}`,
-        pubkey: pod.pubkey,
-        registryVersion: pod.version,
-        status: 'loading' as const,
+        // Entries cached before structured errors stored a plain string
+        return cached.error ? { ...cached, error: normalizePrpcError(cached.error) } : cached
       }
+      return placeholderNode(pod, idx)
     })
   }, [])
 
-  // Fetch node data and update
-  const fetchNodeDataAndUpdate = useCallback(async (pod: NetworkPod, index: number) => {
-    const ip = pod.address.split(':')[0]
-    const baseData: NodeData = {
-      ip,
-      address: pod.address,
-      label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${index + 1}`,
-      pubkey: pod.pubkey,
-      registryVersion: pod.version,
-      status: 'loading',
-    }
-
-    const [versionRes, statsRes] = await Promise.all([
-      callApi(ip, 'get-version'),
-      callApi(ip, 'get-stats'),
-    ])
-
-    if (versionRes.error && statsRes.error) {
-      const offlineResult: NodeData = {
-        ...baseData,
-        status: 'offline',
-        error: versionRes.error || statsRes.error,
-        lastFetched: Date.now(),
-      }
-      setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), offlineResult, CACHE_TTL.NODE_DATA)
-      setNodes(prev => prev.map(n => n.address === pod.address ? offlineResult : n))
-      return offlineResult
-    }
-
-    const fullResult: NodeData = {
-      ...baseData,
-      status: 'online',
-      version: versionRes.result as VersionResponse | undefined,
-      stats: statsRes.result as StatsResponse | undefined,
-      lastFetched: Date.now(),
-    }
-
-    setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), fullResult, CACHE_TTL.NODE_DATA)
-    setNodes(prev => prev.map(n => n.address === pod.address ? fullResult : n))
-    return fullResult
-  }, [callApi])
+  // Build one node from its batch results and cache it
+  const nodeFromResults = useCallback((pod: NetworkPod, index: number, calls: NodeCallResults, previous?: NodeData) => {
+    const versionRes = calls['get-version'] ?? {}
+    const statsRes = calls['get-stats'] ?? {}
+
+    const result = withHealth(
+      withLatency(
+        buildNodeData(pod, index, versionRes, statsRes, calls['get-pods']),
+        latencySampleFrom(versionRes, statsRes),
+        previous?.latency
+      ),
+      previous?.health
+    )
+    setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), result, CACHE_TTL.NODE_DATA)
+    return result
+  }, [])
 
   // Fetch all nodes data
   const fetchAllNodesData = useCallback(async (forceRefresh: boolean = false) => {
@@ -286,30 +174,53 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
     }
 
     setIsLoading(true)
-
-    const BATCH_SIZE = 10
-    const batches = []
-    for (let i = 0; i < podsToFetch.length; i += BATCH_SIZE) {
-      batches.push(podsToFetch.slice(i, i + BATCH_SIZE))
+    const port = getNetwork(selectedNetwork)?.prpcPort
+    const favorites = await getFavorites()
+    const pending = new Map<string, NodeData>()
+
+    // Coalesce results into periodic state updates
+    const flush = () => {
+      if (pending.size === 0) return
+      const updates = new Map(pending)
+      pending.clear()
+      setNodes(prev => prev.map(n => updates.get(n.address) ?? n))
     }
+    const flushTimer = setInterval(flush, 250)
+
+    const { results, deferred } = await scheduleCrawl(
+      podsToFetch,
+      (pod, calls) => nodeFromResults(pod, registryPods.indexOf(pod), calls, cachedNodes.get(cacheKeys.nodeData(pod.address))),
+      {
+        port,
+        priority: viewerPriority(favorites),
+        onNode: node => pending.set(node.address, node),
+        onProgress: setCrawlProgress,
+      }
+    )
 
-    for (const batch of batches) {
-      await Promise.all(
-        batch.map((pod) => {
-          const globalIdx = registryPods.indexOf(pod)
-          return fetchNodeDataAndUpdate(pod, globalIdx)
-        })
-      )
-    }
+    // Nodes backing off keep their last result
+    deferred.forEach(pod => {
+      const last = results.get(pod.address)
+      if (last) pending.set(pod.address, last)
+    })
+    clearInterval(flushTimer)
+    flush()
+
+    // Latest result for every pod, including ones still served from cache
+    const latestNodes = registryPods
+      .map(pod => results.get(pod.address) ?? cachedNodes.get(cacheKeys.nodeData(pod.address)))
+      .filter((node): node is NodeData => !!node)
+    recordCrawl(selectedNetwork, latestNodes)
 
     setLastUpdate(new Date())
     setIsLoading(false)
     setIsCached(false)
-  }, [registryPods, fetchNodeDataAndUpdate])
+    setCrawlProgress(null)
+  }, [registryPods, selectedNetwork, getNetwork, nodeFromResults])
 
   // Fetch registry pods
   const fetchRegistryPods = useCallback(async (networkId: string, skipCache: boolean = false) => {
-    const network = NETWORK_RPC_ENDPOINTS.find(n => n.id === networkId)
+    const network = getNetwork(networkId)
     if (!network) return
 
     setRegistryError(null)
@@ -318,6 +229,7 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
     if (!skipCache) {
       try {
         const cachedPods = await getFromDB<NetworkPod[]>(STORES.REGISTRY, cacheKeys.registryPods(networkId))
+        if (streamLiveRef.current) return
         if (cachedPods && cachedPods.length > 0) {
           setRegistryPods(cachedPods)
           setRegistryStatus('success')
@@ -334,21 +246,23 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
       }
     }
 
-    // Fetch fresh data
-    const res = await callRpcEndpoint(network.rpcUrl, 'get-pods')
+    // Fetch fresh data (the stream delivers the registry itself once it is live)
+    if (streamLiveRef.current) return
+    const res = await getRegistryPodsWithFailover(registryEndpoints(network, networks))
+    if (streamLiveRef.current) return
 
     if (res.error) {
       if (skipCache || registryPods.length === 0) {
         setRegistryStatus('error')
-        setRegistryError(res.error)
+        setRegistryError(describePrpcError(res.error))
         setRegistryPods([])
       }
       return
     }
 
-    const data = res.result as NetworkPodsResponse
+    const data = res.result
 
-    if (!data.pods || data.pods.length === 0) {
+    if (!data || data.pods.length === 0) {
       if (skipCache || registryPods.length === 0) {
         setRegistryStatus('error')
         setRegistryError('No pods found in registry')
@@ -360,17 +274,24 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
     const sortedPods = data.pods.sort((a, b) => b.last_seen_timestamp - a.last_seen_timestamp)
     setRegistryPods(sortedPods)
     setRegistryStatus('success')
+    setRegistryEndpoint(res.endpoint ?? null)
     setIsCached(false)
 
     setToDB(STORES.REGISTRY, cacheKeys.registryPods(networkId), sortedPods, CACHE_TTL.REGISTRY_PODS)
 
     const initialNodes = await loadCachedNodes(sortedPods)
+    if (streamLiveRef.current) return
     setNodes(initialNodes)
-  }, [loadCachedNodes, registryPods.length, callRpcEndpoint])
+  }, [loadCachedNodes, registryPods.length, getNetwork, networks])
 
   // Handle network change with instant cache display
   const handleNetworkChange = useCallback(async (networkId: string) => {
     setRegistryStatus('loading')
+    setRegistryEndpoint(null)
+    setCrawlProgress(null)
+    // Show the new network's cache until its stream delivers a snapshot
+    streamLiveRef.current = false
+    setStreamStatus('connecting')
 
     try {
       const cachedPods = await getFromDB<NetworkPod[]>(STORES.REGISTRY, cacheKeys.registryPods(networkId))
@@ -382,14 +303,7 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
           if (cached && cached.status !== 'loading') {
             return cached
           }
-          return {
-            ip: pod.address.split(':')[0],
-            address: pod.address,
-            label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${idx + 1}`,
-            pubkey: pod.pubkey,
-            registryVersion: pod.version,
-            status: 'loading' as const,
-          }
+          return placeholderNode(pod, idx)
         })
 
         setRegistryPods(cachedPods)
@@ -444,8 +358,9 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
     })
   }, [nodes.filter(n => n.status !== 'loading').length])
 
-  // Fetch nodes data when registry changes
+  // Fetch nodes data when registry changes (only when the server stream is unavailable)
   useEffect(() => {
+    if (streamStatus !== 'unavailable') return
     if (registryStatus === 'success' && registryPods.length > 0) {
       const networkChanged = lastFetchedNetworkRef.current !== selectedNetwork
       if (networkChanged) {
@@ -458,7 +373,144 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
         }
       }
     }
-  }, [registryStatus, registryPods.length, selectedNetwork, fetchAllNodesData])
+  }, [registryStatus, registryPods.length, selectedNetwork, fetchAllNodesData, streamStatus])
+
+  // Subscribe to the server-side crawler; fall back to crawling from the browser
+  // when the stream can't be opened
+  useEffect(() => {
+    const query = streamRefresh > 0 ? '?refresh=1' : ''
+    const source = new EventSource(`/api/networks/${selectedNetwork}/stream${query}`)
+    const streamNodes = new Map<string, NodeData>()
+    const pending = new Map<string, NodeData>()
+    let opened = false
+    // Server crawl in progress, for the progress indicator
+    let serverCrawl: { startedAt: number; total: number; done: Set<string> } | null = null
+
+    const reportServerCrawl = () => {
+      if (!serverCrawl) return
+      const done = serverCrawl.done.size
+      const remaining = Math.max(serverCrawl.total - done, 0)
+      setCrawlProgress({
+        total: serverCrawl.total,
+        done,
+        remaining,
+        deferred: 0,
+        concurrency: BATCH_LIMITS.DEFAULT_CONCURRENCY,
+        startedAt: serverCrawl.startedAt,
+        etaMs: estimateEta(serverCrawl.startedAt, done, remaining),
+      })
+    }
+
+    // Keep the location resolved in the browser when a node is replaced
+    const mergeNode = (node: NodeData, prev?: NodeData): NodeData =>
+      prev?.location && !node.location ? { ...node, location: prev.location } : node
+
+    // From here on the stream owns the node list; cached and browser-fetched data must not overwrite it
+    const applyPods = (pods: NetworkPod[]) => {
+      streamLiveRef.current = true
+      setRegistryPods(pods)
+      setRegistryStatus('success')
+      setRegistryError(null)
+      setIsCached(false)
+      setNodes(prev => {
+        const previous = new Map(prev.map(n => [n.address, n]))
+        return pods.map((pod, idx) => {
+          const old = previous.get(pod.address)
+          const node = streamNodes.get(pod.address) ?? (old && old.status !== 'loading' ? old : placeholderNode(pod, idx))
+          return mergeNode(node, old)
+        })
+      })
+    }
+
+    // Coalesce streamed node updates into periodic state updates
+    const flush = () => {
+      if (pending.size === 0) return
+      const updates = new Map(pending)
+      pending.clear()
+      setNodes(prev => prev.map(n => {
+        const update = updates.get(n.address)
+        return update ? mergeNode(update, n) : n
+      }))
+      reportServerCrawl()
+    }
+    const flushTimer = setInterval(flush, 250)
+
+    const parse = <T,>(event: Event): T => JSON.parse((event as MessageEvent<string>).data)
+
+    source.addEventListener('open', () => {
+      opened = true
+      setStreamStatus('live')
+    })
+
+    source.addEventListener('snapshot', (event) => {
+      const snapshot = parse<NetworkSnapshot>(event)
+      snapshot.nodes.forEach(node => {
+        if (node.status !== 'loading') streamNodes.set(node.address, node)
+      })
+      if (snapshot.pods.length > 0) {
+        applyPods(snapshot.pods)
+        setRegistryEndpoint(snapshot.registryUrl)
+      } else if (snapshot.registryError) {
+        setRegistryStatus('error')
+        setRegistryError(snapshot.registryError)
+      }
+      setIsLoading(snapshot.crawling)
+      if (snapshot.crawledAt) setLastUpdate(new Date(snapshot.crawledAt))
+    })
+
+    source.addEventListener('registry', (event) => {
+      const { pods, registryUrl } = parse<{ pods: NetworkPod[]; registryUrl: string }>(event)
+      applyPods(pods)
+      setRegistryEndpoint(registryUrl)
+    })
+
+    source.addEventListener('registry-error', (event) => {
+      if (streamNodes.size > 0) return
+      setRegistryStatus('error')
+      setRegistryError(parse<{ message: string }>(event).message)
+    })
+
+    source.addEventListener('node', (event) => {
+      const node = parse<NodeData>(event)
+      streamNodes.set(node.address, node)
+      pending.set(node.address, node)
+      serverCrawl?.done.add(node.address)
+      setToDB(STORES.NODES, cacheKeys.nodeData(node.address), node, CACHE_TTL.NODE_DATA)
+    })
+
+    source.addEventListener('crawl-start', (event) => {
+      const { startedAt, total } = parse<{ startedAt: number; total: number }>(event)
+      serverCrawl = { startedAt, total, done: new Set() }
+      reportServerCrawl()
+      setIsLoading(true)
+    })
+
+    source.addEventListener('crawl-end', (event) => {
+      flush()
+      const crawledNodes = Array.from(streamNodes.values())
+      recordCrawl(selectedNetwork, crawledNodes)
+      setLastUpdate(new Date(parse<{ crawledAt: number }>(event).crawledAt))
+      serverCrawl = null
+      setCrawlProgress(null)
+      setIsLoading(false)
+    })
+
+    source.addEventListener('error', () => {
+      // EventSource reconnects on its own after a dropped connection; give up only
+      // when the stream never opened or the server refused to reconnect
+      if (opened && source.readyState !== EventSource.CLOSED) return
+      source.close()
+      streamLiveRef.current = false
+      setStreamStatus('unavailable')
+      setCrawlProgress(null)
+      setIsLoading(false)
+    })
+
+    return () => {
+      clearInterval(flushTimer)
+      source.close()
+    }
+  }, [selectedNetwork, streamRefresh])
 
   // Initial fetch on mount
   useEffect(() => {
@@ -468,6 +520,11 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
 
   // Public refresh function
   const refreshData = useCallback(async (forceRefresh: boolean = false) => {
+    if (streamLiveRef.current) {
+      // The server pushes updates as it crawls; a forced refresh reconnects and asks for a new crawl
+      if (forceRefresh) setStreamRefresh(n => n + 1)
+      return
+    }
     await fetchRegistryPods(selectedNetwork, forceRefresh)
   }, [selectedNetwork, fetchRegistryPods])
 
@@ -481,8 +538,11 @@ export function NodesProvider({ children, initialNetwork = 'devnet1' }: NodesPro
     isLoading,
     registryStatus,
     registryError,
+    registryEndpoint,
     isCached,
     lastUpdate,
+    streamStatus,
+    crawlProgress,
     refreshData,
     refreshPodCredits: fetchPodCredits,
   }
@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (process.env.NEXT_PUBLIC_HISTORY_COLLECTOR !== "true") return;
+
+  const { startHistoryCollector } = await import("./lib/historyCollector");
+  startHistoryCollector();
+}
@@ -0,0 +1,211 @@
+// Private node annotations stored in IndexedDB: a nickname, free-form tags and
+// markdown notes per node. Like custom networks they stay in this browser and can
+// be shared as a JSON file, so a team can keep a common address book.
+
+import { STORES, cacheKeys, setToDB, deleteFromDB, getAllFromDB } from './indexedDB'
+import { nodeKey } from './nodeLinks'
+import { object, string, number, array, withDefault, isRecord, SchemaError } from './prpc/schema'
+
+// Very long TTL (effectively permanent - 10 years), same as favorites
+const ANNOTATIONS_TTL = 10 * 365 * 24 * 60 * 60 * 1000
+
+// Bumped if the shared file format ever changes
+export const ANNOTATIONS_CONFIG_VERSION = 1
+
+export const ANNOTATION_LIMITS = {
+  NICKNAME: 64,
+  TAG: 32,
+  TAGS: 20,
+  NOTES: 10_000,
+} as const
+
+export interface NodeAnnotation {
+  // Node key (lib/nodeLinks): pubkey, or address for nodes without one
+  key: string
+  nickname: string
+  // Lowercase, unique
+  tags: string[]
+  // Markdown
+  notes: string
+  updatedAt: number
+}
+
+export interface AnnotationsConfigFile {
+  version: number
+  annotations: NodeAnnotation[]
+}
+
+const annotationSchema = object({
+  key: string,
+  nickname: withDefault(string, ''),
+  tags: withDefault(array(string), []),
+  notes: withDefault(string, ''),
+  updatedAt: withDefault(number, 0),
+})
+
+export type AnnotationValidation =
+  | { ok: true; annotation: NodeAnnotation }
+  | { ok: false; error: string }
+
+/**
+ * Trim, lowercase and dedupe tags. Accepts a list or comma-separated text.
+ */
+export function normalizeTags(tags: string[] | string): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : tags
+  const normalized = list
+    .map(tag => tag.trim().replace(/^#/, '').replace(/\s+/g, '-').toLowerCase())
+    .filter(Boolean)
+  return Array.from(new Set(normalized))
+}
+
+/**
+ * Check an annotation from the editor or an imported file
+ */
+export function validateAnnotation(value: unknown, path: string = 'annotation'): AnnotationValidation {
+  let raw
+  try {
+    raw = annotationSchema(value, path)
+  } catch (e) {
+    if (e instanceof SchemaError) return { ok: false, error: `${e.path}: ${e.message}` }
+    throw e
+  }
+
+  const key = raw.key.trim()
+  const nickname = raw.nickname.trim()
+  const tags = normalizeTags(raw.tags)
+
+  if (!key) {
+    return { ok: false, error: `${path}.key: node pubkey or address is required` }
+  }
+  if (nickname.length > ANNOTATION_LIMITS.NICKNAME) {
+    return { ok: false, error: `${path}.nickname: use at most ${ANNOTATION_LIMITS.NICKNAME} characters` }
+  }
+  if (tags.length > ANNOTATION_LIMITS.TAGS) {
+    return { ok: false, error: `${path}.tags: use at most ${ANNOTATION_LIMITS.TAGS} tags` }
+  }
+  const longTag = tags.find(tag => tag.length > ANNOTATION_LIMITS.TAG)
+  if (longTag) {
+    return { ok: false, error: `${path}.tags: "${longTag}" is longer than ${ANNOTATION_LIMITS.TAG} characters` }
+  }
+  if (raw.notes.length > ANNOTATION_LIMITS.NOTES) {
+    return { ok: false, error: `${path}.notes: use at most ${ANNOTATION_LIMITS.NOTES} characters` }
+  }
+
+  return { ok: true, annotation: { key, nickname, tags, notes: raw.notes.trim(), updatedAt: raw.updatedAt } }
+}
+
+export function isEmptyAnnotation(annotation: Pick<NodeAnnotation, 'nickname' | 'tags' | 'notes'>): boolean {
+  return !annotation.nickname && annotation.tags.length === 0 && !annotation.notes
+}
+
+/**
+ * All annotations, keyed by node key
+ */
+export async function getAnnotations(): Promise<Map<string, NodeAnnotation>> {
+  try {
+    const all = await getAllFromDB<NodeAnnotation>(STORES.ANNOTATIONS)
+    return new Map(Array.from(all.values()).map(annotation => [annotation.key, annotation]))
+  } catch {
+    return new Map()
+  }
+}
+
+/**
+ * Save an annotation; one with no nickname, tags or notes is removed instead
+ */
+export async function saveAnnotation(annotation: NodeAnnotation): Promise<void> {
+  if (isEmptyAnnotation(annotation)) {
+    await removeAnnotation(annotation.key)
+    return
+  }
+  await setToDB(STORES.ANNOTATIONS, cacheKeys.annotation(annotation.key), annotation, ANNOTATIONS_TTL)
+}
+
+export async function removeAnnotation(key: string): Promise<void> {
+  await deleteFromDB(STORES.ANNOTATIONS, cacheKeys.annotation(key))
+}
+
+/**
+ * Serialize annotations as a shareable address book file
+ */
+export function exportAnnotationsConfig(annotations: NodeAnnotation[]): string {
+  const file: AnnotationsConfigFile = {
+    version: ANNOTATIONS_CONFIG_VERSION,
+    annotations: [...annotations].sort((a, b) => a.key.localeCompare(b.key)),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Parse a shared address book file (or a bare array of annotations).
+ * Valid entries are returned even if others fail validation.
+ */
+export function parseAnnotationsConfig(text: string): { annotations: NodeAnnotation[]; errors: string[] } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { annotations: [], errors: ['File is not valid JSON'] }
+  }
+
+  const entries: unknown[] | null = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.annotations) ? data.annotations : null
+  if (!entries) {
+    return { annotations: [], errors: ['Expected { "annotations": [...] } or an array of annotations'] }
+  }
+  if (isRecord(data) && typeof data.version === 'number' && data.version > ANNOTATIONS_CONFIG_VERSION) {
+    return { annotations: [], errors: [`File version ${data.version} is newer than this app supports`] }
+  }
+
+  const annotations: NodeAnnotation[] = []
+  const errors: string[] = []
+  entries.forEach((entry, i) => {
+    const result = validateAnnotation(entry, `annotations[${i}]`)
+    if (!result.ok) {
+      errors.push(result.error)
+    } else if (isEmptyAnnotation(result.annotation)) {
+      errors.push(`annotations[${i}]: no nickname, tags or notes`)
+    } else if (annotations.some(a => a.key === result.annotation.key)) {
+      errors.push(`annotations[${i}].key: duplicate node "${result.annotation.key}"`)
+    } else {
+      annotations.push(result.annotation)
+    }
+  })
+  return { annotations, errors }
+}
+
+/**
+ * Every tag in use, sorted
+ */
+export function annotationTags(annotations: Iterable<NodeAnnotation>): string[] {
+  const tags = new Set<string>()
+  for (const annotation of annotations) annotation.tags.forEach(tag => tags.add(tag))
+  return Array.from(tags).sort()
+}
+
+export function findAnnotation(
+  annotations: Map<string, NodeAnnotation>,
+  node: { pubkey: string | null; address: string }
+): NodeAnnotation | undefined {
+  return annotations.get(nodeKey(node))
+}
+
+/**
+ * Nickname if the node has one, otherwise its label
+ */
+export function nodeDisplayName(node: { label: string }, annotation?: NodeAnnotation): string {
+  return annotation?.nickname || node.label
+}
+
+/**
+ * Whether the nickname, a tag or the notes contain `query` (already lowercased)
+ */
+export function matchesAnnotation(annotation: NodeAnnotation | undefined, query: string): boolean {
+  if (!annotation) return false
+  return (
+    annotation.nickname.toLowerCase().includes(query) ||
+    annotation.tags.some(tag => tag.includes(query)) ||
+    annotation.notes.toLowerCase().includes(query)
+  )
+}
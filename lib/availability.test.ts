@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import {
+  nextAvailabilityLog,
+  nodeAvailability,
+  formatAvailability,
+  AVAILABILITY_MAX_GAP_MS,
+  type AvailabilityLog,
+} from './availability'
+import type { NodeData } from './prpc'
+
+const MINUTE = 60 * 1000
+const START = Date.parse('2026-01-01T00:00:00Z')
+const ADDRESS = '173.212.203.145:9001'
+
+const node = (status: NodeData['status']): NodeData => ({
+  ip: '173.212.203.145',
+  address: ADDRESS,
+  label: 'node',
+  pubkey: 'key',
+  registryVersion: '0.8.0',
+  status,
+})
+
+// Folds one crawl per [minutes after START, status] into a log
+function crawl(statuses: Array<[number, NodeData['status']]>): AvailabilityLog {
+  return statuses.reduce<AvailabilityLog | null>(
+    (log, [minutes, status]) => nextAvailabilityLog(log, [node(status)], START + minutes * MINUTE),
+    null
+  )!
+}
+
+describe('nextAvailabilityLog', () => {
+  it('counts an offline crawl until the next crawl', () => {
+    const log = crawl([[0, 'online'], [5, 'offline'], [10, 'online'], [15, 'online']])
+    const entry = log.nodes[ADDRESS]
+
+    expect(entry.observed).toEqual([[START, START + 15 * MINUTE]])
+    expect(entry.downtimes).toEqual([[START + 5 * MINUTE, START + 10 * MINUTE]])
+    expect(nodeAvailability(entry, START + 15 * MINUTE).percent['24h']).toBeCloseTo(100 * (10 / 15))
+  })
+
+  it('leaves crawl gaps longer than AVAILABILITY_MAX_GAP_MS out of the observed time', () => {
+    const gapMinutes = AVAILABILITY_MAX_GAP_MS / MINUTE + 1
+    const log = crawl([[0, 'offline'], [10, 'online'], [10 + gapMinutes, 'online'], [20 + gapMinutes, 'online']])
+    const entry = log.nodes[ADDRESS]
+
+    expect(entry.observed).toEqual([
+      [START, START + 10 * MINUTE],
+      [START + (10 + gapMinutes) * MINUTE, START + (20 + gapMinutes) * MINUTE],
+    ])
+    const availability = nodeAvailability(entry, START + (20 + gapMinutes) * MINUTE)
+    expect(availability.observedMs['24h']).toBe(20 * MINUTE)
+    expect(availability.percent['24h']).toBe(50)
+  })
+
+  it('does not count an offline node through a gap', () => {
+    const gapMinutes = AVAILABILITY_MAX_GAP_MS / MINUTE + 1
+    const log = crawl([[0, 'online'], [5, 'offline'], [5 + gapMinutes, 'online'], [10 + gapMinutes, 'online']])
+
+    expect(log.nodes[ADDRESS].downtimes).toEqual([[START + 5 * MINUTE, START + 5 * MINUTE]])
+    expect(nodeAvailability(log.nodes[ADDRESS], START + (10 + gapMinutes) * MINUTE).percent['24h']).toBe(100)
+  })
+
+  it('marks the last downtime as ongoing while the node stays offline', () => {
+    const log = crawl([[0, 'online'], [5, 'offline'], [10, 'offline']])
+    const { downtimes } = nodeAvailability(log.nodes[ADDRESS], START + 10 * MINUTE)
+
+    expect(downtimes).toEqual([{ start: START + 5 * MINUTE, end: START + 10 * MINUTE, ongoing: true }])
+  })
+
+  it('ignores crawls that are not newer than the log', () => {
+    const log = crawl([[0, 'online'], [5, 'online']])
+    expect(nextAvailabilityLog(log, [node('offline')], START + 5 * MINUTE)).toBe(log)
+  })
+})
+
+describe('formatAvailability', () => {
+  it('never rounds a node with downtime up to 100%', () => {
+    expect(formatAvailability(99.999)).toBe('99.99%')
+    expect(formatAvailability(99.995)).toBe('99.99%')
+    expect(formatAvailability(100)).toBe('100.00%')
+    expect(formatAvailability(99.5)).toBe('99.50%')
+  })
+
+  it('shows a dash for nodes that were not observed', () => {
+    expect(formatAvailability(null)).toBe('-')
+    expect(formatAvailability(undefined)).toBe('-')
+  })
+})
@@ -0,0 +1,151 @@
+// Per-node availability over the last 24 hours, 7 days and 30 days
+// The uptime counter in get-stats resets on every restart, so availability comes from
+// the statuses observed by the crawler instead. A log per network keeps, per node, the
+// spans of time it was observed (crawls no more than AVAILABILITY_MAX_GAP_MS apart) and
+// the parts of them it was offline. A status holds from the crawl that saw it until the
+// next crawl; time nobody was watching counts neither way.
+
+import type { HistoryPeriod } from './proxyConfig'
+import type { NodeData } from './prpc'
+
+// Crawls further apart than this leave a gap in the observed time
+export const AVAILABILITY_MAX_GAP_MS = 15 * 60 * 1000
+export const AVAILABILITY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+export type AvailabilityWindow = Extract<HistoryPeriod, '24h' | '7d' | '30d'>
+export const AVAILABILITY_WINDOWS: AvailabilityWindow[] = ['24h', '7d', '30d']
+
+export const AVAILABILITY_WINDOW_MS: Record<AvailabilityWindow, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+}
+
+// Start and end time (ms)
+export type TimeSpan = [start: number, end: number]
+
+export interface NodeAvailabilityLog {
+  // Oldest first
+  observed: TimeSpan[]
+  // Offline parts of the observed spans, oldest first
+  downtimes: TimeSpan[]
+  // Whether the latest crawl saw the node offline; the last downtime is then still open
+  offline: boolean
+}
+
+export interface AvailabilityLog {
+  // Latest crawl folded into the log
+  timestamp: string
+  // Per node address
+  nodes: Record<string, NodeAvailabilityLog>
+}
+
+const lastOf = (spans: TimeSpan[]) => spans[spans.length - 1]
+
+function extend(spans: TimeSpan[], end: number): TimeSpan[] {
+  const last = lastOf(spans)
+  return [...spans.slice(0, -1), [last[0], end]]
+}
+
+function recordNode(previous: NodeAvailabilityLog | undefined, offline: boolean, at: number): NodeAvailabilityLog {
+  const lastObserved = previous ? lastOf(previous.observed)?.[1] : undefined
+  const continuous = lastObserved !== undefined && at - lastObserved <= AVAILABILITY_MAX_GAP_MS
+
+  let observed = previous?.observed ?? []
+  let downtimes = previous?.downtimes ?? []
+  if (continuous) {
+    observed = extend(observed, at)
+    if (previous?.offline) downtimes = extend(downtimes, at)
+  } else {
+    observed = [...observed, [at, at]]
+  }
+  if (offline && !(continuous && previous?.offline)) downtimes = [...downtimes, [at, at]]
+
+  return { observed, downtimes, offline }
+}
+
+/**
+ * Fold the latest crawl into `log` (null to start one). Nodes missing from the crawl
+ * keep their history; spans that ended before the retention period are dropped.
+ * A crawl not newer than the log's latest one is ignored.
+ */
+export function nextAvailabilityLog(log: AvailabilityLog | null, nodes: NodeData[], at: number = Date.now()): AvailabilityLog | null {
+  const crawled = nodes.filter(n => n.status !== 'loading')
+  if (crawled.length === 0 || (log && Date.parse(log.timestamp) >= at)) return log
+
+  const next: Record<string, NodeAvailabilityLog> = { ...log?.nodes }
+  crawled.forEach(node => {
+    next[node.address] = recordNode(next[node.address], node.status === 'offline', at)
+  })
+
+  const cutoff = at - AVAILABILITY_RETENTION_MS
+  const kept = (spans: TimeSpan[]) => spans.filter(([, end]) => end >= cutoff)
+  const pruned: Record<string, NodeAvailabilityLog> = {}
+  Object.entries(next).forEach(([address, entry]) => {
+    const observed = kept(entry.observed)
+    if (observed.length > 0) pruned[address] = { ...entry, observed, downtimes: kept(entry.downtimes) }
+  })
+
+  return { timestamp: new Date(at).toISOString(), nodes: pruned }
+}
+
+// ============================================
+// Availability
+// ============================================
+
+export interface Downtime {
+  start: number
+  end: number
+  // The node was still offline at the latest crawl
+  ongoing: boolean
+}
+
+export interface NodeAvailability {
+  // Share of the observed time in each window the node was online (0-100); null when
+  // the node was not observed in the window
+  percent: Record<AvailabilityWindow, number | null>
+  // Observed time in each window (ms)
+  observedMs: Record<AvailabilityWindow, number>
+  // Downtimes in the longest window, newest first
+  downtimes: Downtime[]
+}
+
+function overlap(spans: TimeSpan[], from: number, to: number): number {
+  return spans.reduce((sum, [start, end]) => sum + Math.max(0, Math.min(end, to) - Math.max(start, from)), 0)
+}
+
+export function nodeAvailability(entry: NodeAvailabilityLog, now: number = Date.now()): NodeAvailability {
+  const percent = {} as Record<AvailabilityWindow, number | null>
+  const observedMs = {} as Record<AvailabilityWindow, number>
+  AVAILABILITY_WINDOWS.forEach(window => {
+    const from = now - AVAILABILITY_WINDOW_MS[window]
+    const observed = overlap(entry.observed, from, now)
+    observedMs[window] = observed
+    percent[window] = observed > 0 ? 100 * (1 - overlap(entry.downtimes, from, now) / observed) : null
+  })
+
+  const from = now - AVAILABILITY_WINDOW_MS['30d']
+  const lastDowntime = lastOf(entry.downtimes)
+  const downtimes = entry.downtimes
+    .filter(([, end]) => end >= from)
+    .map(span => ({ start: span[0], end: span[1], ongoing: entry.offline && span === lastDowntime }))
+    .reverse()
+
+  return { percent, observedMs, downtimes }
+}
+
+/**
+ * Availability of every node in the log, by address
+ */
+export function availabilityByAddress(log: AvailabilityLog | null, now: number = Date.now()): Map<string, NodeAvailability> {
+  const availability = new Map<string, NodeAvailability>()
+  if (!log) return availability
+  Object.entries(log.nodes).forEach(([address, entry]) => availability.set(address, nodeAvailability(entry, now)))
+  return availability
+}
+
+export function formatAvailability(percent: number | null | undefined): string {
+  if (percent === null || percent === undefined) return '-'
+  // Never round a node with any downtime up to 100%
+  return percent < 100 && percent >= 99.995 ? '99.99%' : `${percent.toFixed(2)}%`
+}
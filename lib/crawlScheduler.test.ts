@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { NodeCallResults } from './prpcBatch'
+import type { NetworkPod, NodeData } from './prpc'
+
+vi.mock('./prpcBatch', () => ({ crawlNodes: vi.fn() }))
+
+import { crawlNodes } from './prpcBatch'
+import { scheduleCrawl, NODE_METHODS } from './crawlScheduler'
+
+const pod = (i: number): NetworkPod => ({ address: `10.1.0.${i}:9001`, last_seen_timestamp: 0, pubkey: `key${i}`, version: '0.8.0' })
+
+const toNode = (p: NetworkPod, calls: NodeCallResults): NodeData => ({
+  ip: p.address.split(':')[0],
+  address: p.address,
+  label: p.pubkey!,
+  pubkey: p.pubkey,
+  registryVersion: p.version,
+  status: calls['get-version']?.error ? 'offline' : 'online',
+})
+
+// Answers every call; IPs in `offline` time out
+function answer(offline: Set<string> = new Set()) {
+  vi.mocked(crawlNodes).mockImplementation(async (ips, methods, onUpdate) => {
+    ips.forEach(ip => {
+      const calls: NodeCallResults = {}
+      methods.forEach(method => {
+        calls[method] = offline.has(ip) ? { error: { kind: 'timeout', message: 'Timed out' } } : { result: {}, latencyMs: 20 }
+        onUpdate(ip, { ...calls })
+      })
+    })
+  })
+}
+
+describe('scheduleCrawl', () => {
+  beforeEach(() => {
+    vi.mocked(crawlNodes).mockReset()
+  })
+
+  it('sends due nodes together through the batch route', async () => {
+    answer()
+    const pods = Array.from({ length: 6 }, (_, i) => pod(i + 1))
+    const { results } = await scheduleCrawl(pods, toNode, { port: 6000 })
+
+    expect(results.size).toBe(6)
+    expect(crawlNodes).toHaveBeenCalledTimes(1)
+    const [ips, methods, , options] = vi.mocked(crawlNodes).mock.calls[0]
+    expect(ips).toHaveLength(6)
+    expect(methods).toEqual(NODE_METHODS)
+    expect(options).toMatchObject({ port: 6000 })
+  })
+
+  it('only settles a node once all of its methods have answered', async () => {
+    answer()
+    const settled: string[] = []
+    const toNodeSpy = vi.fn((p: NetworkPod, calls: NodeCallResults) => {
+      expect(Object.keys(calls).sort()).toEqual([...NODE_METHODS].sort())
+      settled.push(p.address)
+      return toNode(p, calls)
+    })
+    await scheduleCrawl([pod(20), pod(21)], toNodeSpy)
+    expect(settled.sort()).toEqual([pod(20).address, pod(21).address])
+  })
+
+  it('backs off nodes that come back offline and keeps their last result', async () => {
+    answer(new Set(['10.1.0.30']))
+    await scheduleCrawl([pod(30), pod(31)], toNode)
+
+    vi.mocked(crawlNodes).mockClear()
+    answer()
+    const { results, deferred } = await scheduleCrawl([pod(30), pod(31)], toNode)
+    expect(deferred.map(p => p.address)).toEqual([pod(30).address])
+    expect(results.get(pod(30).address)?.status).toBe('offline')
+    expect(vi.mocked(crawlNodes).mock.calls[0][0]).toEqual(['10.1.0.31'])
+  })
+
+  it('counts nodes whose results never arrive as failed', async () => {
+    vi.mocked(crawlNodes).mockRejectedValue(new Error('Batch request failed: HTTP 500'))
+    const { results } = await scheduleCrawl([pod(40)], toNode)
+    expect(results.size).toBe(0)
+
+    answer()
+    const retry = await scheduleCrawl([pod(40)], toNode)
+    expect(retry.deferred.map(p => p.address)).toEqual([pod(40).address])
+  })
+})
@@ -0,0 +1,254 @@
+// Adaptive browser-side crawl scheduler
+// Keeps a number of nodes in flight that follows observed latency, skips nodes that
+// keep failing (exponential backoff) and picks the highest-priority nodes next, so
+// favorites and rows on screen load first. Due nodes are sent together through the
+// /api/prpc/batch NDJSON route rather than one request per node and method.
+// Reports progress with an ETA.
+
+import { isNodeVisible } from './useVisibleNodes'
+import { crawlNodes, type NodeCallResults } from './prpcBatch'
+import type { NetworkPod, NodeData } from './prpc'
+
+export const CRAWL_SCHEDULER = {
+  INITIAL_CONCURRENCY: 8,
+  MIN_CONCURRENCY: 2,
+  MAX_CONCURRENCY: 24,
+  // A new batch request is sent once this many nodes can be started (or the queue is shorter)
+  MIN_BATCH_SIZE: 4,
+  // Median latency of recent online nodes the pool aims to stay under
+  TARGET_LATENCY_MS: 1500,
+  // Number of recent online latencies the median is taken over
+  LATENCY_WINDOW: 10,
+  // Offline nodes are skipped for BASE * 2^(failures - 1), capped at MAX
+  BASE_BACKOFF_MS: 2 * 60 * 1000,
+  MAX_BACKOFF_MS: 60 * 60 * 1000,
+  PROGRESS_INTERVAL_MS: 250,
+} as const
+
+// Called for every node. get-pods is sent alongside and only kept for nodes that answer.
+export const NODE_METHODS = ['get-version', 'get-stats', 'get-pods']
+
+export interface CrawlProgress {
+  total: number
+  done: number
+  remaining: number
+  // Nodes skipped because they are backing off after repeated failures
+  deferred: number
+  concurrency: number
+  startedAt: number
+  // Estimated time to finish, null until the first node completes
+  etaMs: number | null
+}
+
+interface BackoffState {
+  failures: number
+  retryAt: number
+  // Last (offline) result, reused while the node is skipped
+  node?: NodeData
+}
+
+// Shared by every crawl in this tab, keyed by node address
+const backoff = new Map<string, BackoffState>()
+
+function recordOutcome(address: string, node?: NodeData) {
+  if (node?.status === 'online') {
+    backoff.delete(address)
+    return
+  }
+  const failures = (backoff.get(address)?.failures ?? 0) + 1
+  const delay = Math.min(
+    CRAWL_SCHEDULER.BASE_BACKOFF_MS * 2 ** (failures - 1),
+    CRAWL_SCHEDULER.MAX_BACKOFF_MS
+  )
+  backoff.set(address, { failures, retryAt: Date.now() + delay, node: node ?? backoff.get(address)?.node })
+}
+
+/**
+ * Estimate time left from the throughput so far
+ */
+export function estimateEta(startedAt: number, done: number, remaining: number, now: number = Date.now()): number | null {
+  if (done === 0) return null
+  if (remaining === 0) return 0
+  const perNode = (now - startedAt) / done
+  return Math.round(perNode * remaining)
+}
+
+/**
+ * Default ordering: favorites first, then nodes currently on screen, then registry order
+ */
+export function viewerPriority(favorites: Set<string>): (pod: NetworkPod) => number {
+  return pod => {
+    if (pod.pubkey && favorites.has(pod.pubkey)) return 0
+    if (isNodeVisible(pod.address)) return 1
+    return 2
+  }
+}
+
+interface ScheduleOptions {
+  // Lower runs sooner; evaluated each time the scheduler picks its next nodes
+  priority?: (pod: NetworkPod) => number
+  onNode?: (node: NodeData) => void
+  onProgress?: (progress: CrawlProgress) => void
+  // Retry nodes even if they are backing off
+  ignoreBackoff?: boolean
+  // pRPC port of the network's pNodes
+  port?: number
+  signal?: AbortSignal
+}
+
+export interface ScheduleResult {
+  // Fetched nodes, plus the last known result of deferred nodes
+  results: Map<string, NodeData>
+  // Pods skipped because of backoff
+  deferred: NetworkPod[]
+}
+
+/**
+ * Crawl `pods`, calling NODE_METHODS on each and turning the results into node data
+ * with `toNode`. A node counts as failed when it comes back offline or its results
+ * never arrive.
+ */
+export async function scheduleCrawl(
+  pods: NetworkPod[],
+  toNode: (pod: NetworkPod, results: NodeCallResults) => NodeData,
+  { priority, onNode, onProgress, ignoreBackoff = false, port, signal }: ScheduleOptions = {}
+): Promise<ScheduleResult> {
+  const now = Date.now()
+  const deferred = ignoreBackoff ? [] : pods.filter(pod => (backoff.get(pod.address)?.retryAt ?? 0) > now)
+  const deferredSet = new Set(deferred)
+  const queue = pods.filter(pod => !deferredSet.has(pod))
+
+  const results = new Map<string, NodeData>()
+  deferred.forEach(pod => {
+    const last = backoff.get(pod.address)?.node
+    if (last) results.set(pod.address, last)
+  })
+  let done = 0
+  const latencies: number[] = []
+  const startedAt = Date.now()
+  let concurrency: number = CRAWL_SCHEDULER.INITIAL_CONCURRENCY
+  let active = 0
+  let lastProgressAt = 0
+
+  const report = (force: boolean = false) => {
+    if (!onProgress) return
+    const at = Date.now()
+    if (!force && at - lastProgressAt < CRAWL_SCHEDULER.PROGRESS_INTERVAL_MS) return
+    lastProgressAt = at
+    const remaining = queue.length + active
+    onProgress({
+      total: pods.length - deferred.length,
+      done,
+      remaining,
+      deferred: deferred.length,
+      concurrency,
+      startedAt,
+      etaMs: estimateEta(startedAt, done, remaining, at),
+    })
+  }
+
+  // Additive increase while latency is under target, back off quickly when it is not
+  const adapt = (latencyMs: number) => {
+    latencies.push(latencyMs)
+    if (latencies.length > CRAWL_SCHEDULER.LATENCY_WINDOW) latencies.shift()
+    const sorted = [...latencies].sort((a, b) => a - b)
+    const median = sorted[Math.floor(sorted.length / 2)]
+
+    if (median > CRAWL_SCHEDULER.TARGET_LATENCY_MS * 2) {
+      concurrency = Math.max(CRAWL_SCHEDULER.MIN_CONCURRENCY, Math.floor(concurrency / 2))
+    } else if (median > CRAWL_SCHEDULER.TARGET_LATENCY_MS) {
+      concurrency = Math.max(CRAWL_SCHEDULER.MIN_CONCURRENCY, concurrency - 1)
+    } else {
+      concurrency = Math.min(CRAWL_SCHEDULER.MAX_CONCURRENCY, concurrency + 1)
+    }
+  }
+
+  const takeNext = (): NetworkPod | undefined => {
+    if (!priority || queue.length === 0) return queue.shift()
+    let best = 0
+    let bestPriority = priority(queue[0])
+    for (let i = 1; i < queue.length && bestPriority > 0; i++) {
+      const p = priority(queue[i])
+      if (p < bestPriority) {
+        best = i
+        bestPriority = p
+      }
+    }
+    return queue.splice(best, 1)[0]
+  }
+
+  report(true)
+
+  await new Promise<void>(resolve => {
+    // Send one batch request for `batch` and settle each node as its last result arrives
+    const runBatch = (batch: NetworkPod[]) => {
+      const byIp = new Map<string, NetworkPod[]>()
+      batch.forEach(pod => {
+        const ip = pod.address.split(':')[0]
+        byIp.set(ip, [...(byIp.get(ip) ?? []), pod])
+      })
+      const pending = new Set(batch)
+      const batchStartedAt = performance.now()
+
+      const settle = (pod: NetworkPod, node?: NodeData) => {
+        if (!pending.delete(pod)) return
+        // An aborted crawl says nothing about the node
+        if (node || !signal?.aborted) recordOutcome(pod.address, node)
+        if (node) {
+          if (node.status === 'online') adapt(performance.now() - batchStartedAt)
+          results.set(pod.address, node)
+          onNode?.(node)
+        }
+        active--
+        done++
+        report()
+        pump()
+      }
+
+      crawlNodes(
+        Array.from(byIp.keys()),
+        NODE_METHODS,
+        (ip, calls) => {
+          if (NODE_METHODS.some(method => !calls[method])) return
+          byIp.get(ip)?.forEach(pod => {
+            let node: NodeData | undefined
+            try {
+              node = toNode(pod, calls)
+            } catch {
+              // Counted as a failure below
+            }
+            settle(pod, node)
+          })
+        },
+        { port, signal, concurrency: batch.length * NODE_METHODS.length }
+      )
+        .catch(() => {
+          // The batch request failed; its remaining nodes count as failures
+        })
+        .finally(() => {
+          // Nodes whose results never arrived (stream cut off, aborted)
+          Array.from(pending).forEach(pod => settle(pod))
+        })
+    }
+
+    const pump = () => {
+      if (signal?.aborted) queue.length = 0
+      const room = concurrency - active
+      if (queue.length > 0 && room > 0 && room >= Math.min(CRAWL_SCHEDULER.MIN_BATCH_SIZE, queue.length, concurrency)) {
+        const batch: NetworkPod[] = []
+        while (batch.length < room && queue.length > 0) {
+          const pod = takeNext()
+          if (!pod) break
+          batch.push(pod)
+        }
+        active += batch.length
+        runBatch(batch)
+      }
+      if (active === 0 && queue.length === 0) resolve()
+    }
+    pump()
+  })
+
+  report(true)
+  return { results, deferred }
+}
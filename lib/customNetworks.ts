@@ -0,0 +1,180 @@
+// User-defined networks stored in IndexedDB
+// Built-in networks ship with the app; custom ones can be added, edited, removed
+// and shared as a JSON config file
+
+import { STORES, cacheKeys, getFromDB, setToDB, deleteFromDB, getAllFromDB } from './indexedDB'
+import { NETWORK_RPC_ENDPOINTS, PRPC_PORT, isBuiltInNetwork, type NetworkConfig, type NetworkType } from './networks'
+import { object, string, number, array, withDefault, isRecord, SchemaError } from './prpc/schema'
+
+// Very long TTL (effectively permanent - 10 years), same as favorites
+const NETWORKS_TTL = 10 * 365 * 24 * 60 * 60 * 1000
+
+// Bumped if the shared config format ever changes
+export const NETWORKS_CONFIG_VERSION = 1
+
+export interface NetworksConfigFile {
+  version: number
+  networks: NetworkConfig[]
+}
+
+const NETWORK_TYPES: NetworkType[] = ['devnet', 'mainnet', 'custom']
+const NETWORK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/
+
+const networkSchema = object({
+  id: string,
+  name: string,
+  rpcUrl: string,
+  fallbackRpcUrls: withDefault(array(string), []),
+  type: withDefault(string, 'custom'),
+  prpcPort: withDefault(number, PRPC_PORT),
+})
+
+export type NetworkValidation =
+  | { ok: true; network: NetworkConfig }
+  | { ok: false; error: string }
+
+/**
+ * Check a network definition from a form or an imported file
+ */
+export function validateNetwork(value: unknown, path: string = 'network'): NetworkValidation {
+  let raw
+  try {
+    raw = networkSchema(value, path)
+  } catch (e) {
+    if (e instanceof SchemaError) return { ok: false, error: `${e.path}: ${e.message}` }
+    throw e
+  }
+
+  const id = raw.id.trim()
+  const name = raw.name.trim()
+  const rpcUrl = raw.rpcUrl.trim()
+
+  if (!NETWORK_ID_PATTERN.test(id)) {
+    return { ok: false, error: `${path}.id: use 1-32 lowercase letters, digits, "-" or "_"` }
+  }
+  if (isBuiltInNetwork(id)) {
+    return { ok: false, error: `${path}.id: "${id}" is a built-in network` }
+  }
+  if (!name) {
+    return { ok: false, error: `${path}.name: name is required` }
+  }
+  if (!isHttpUrl(rpcUrl)) {
+    return { ok: false, error: `${path}.rpcUrl: expected an http(s) URL` }
+  }
+  const fallbackRpcUrls = raw.fallbackRpcUrls.map(url => url.trim()).filter(Boolean)
+  const badFallback = fallbackRpcUrls.findIndex(url => !isHttpUrl(url))
+  if (badFallback !== -1) {
+    return { ok: false, error: `${path}.fallbackRpcUrls[${badFallback}]: expected an http(s) URL` }
+  }
+  if (!NETWORK_TYPES.includes(raw.type as NetworkType)) {
+    return { ok: false, error: `${path}.type: expected one of ${NETWORK_TYPES.join(', ')}` }
+  }
+  if (!Number.isInteger(raw.prpcPort) || raw.prpcPort < 1 || raw.prpcPort > 65535) {
+    return { ok: false, error: `${path}.prpcPort: expected a port between 1 and 65535` }
+  }
+
+  const network: NetworkConfig = { id, name, rpcUrl, type: raw.type as NetworkType, prpcPort: raw.prpcPort }
+  if (fallbackRpcUrls.length > 0) network.fallbackRpcUrls = fallbackRpcUrls
+  return { ok: true, network }
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+interface StoredNetwork extends NetworkConfig {
+  addedAt: number
+}
+
+/**
+ * Get all user-defined networks, in the order they were added
+ */
+export async function getCustomNetworks(): Promise<NetworkConfig[]> {
+  try {
+    const all = await getAllFromDB<StoredNetwork>(STORES.NETWORKS)
+    return Array.from(all.values())
+      .sort((a, b) => a.addedAt - b.addedAt)
+      .map(({ id, name, rpcUrl, fallbackRpcUrls, type, prpcPort }) => (
+        fallbackRpcUrls ? { id, name, rpcUrl, fallbackRpcUrls, type, prpcPort } : { id, name, rpcUrl, type, prpcPort }
+      ))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Add or replace a user-defined network. Pass `previousId` when an edit renames it,
+ * so the network keeps its position in the list.
+ */
+export async function saveCustomNetwork(network: NetworkConfig, previousId: string = network.id): Promise<void> {
+  const existing = await getFromDB<StoredNetwork>(STORES.NETWORKS, cacheKeys.network(previousId))
+  if (previousId !== network.id) {
+    await removeCustomNetwork(previousId)
+  }
+  const stored: StoredNetwork = { ...network, addedAt: existing?.addedAt ?? Date.now() }
+  await setToDB(STORES.NETWORKS, cacheKeys.network(network.id), stored, NETWORKS_TTL)
+}
+
+export async function removeCustomNetwork(id: string): Promise<void> {
+  await deleteFromDB(STORES.NETWORKS, cacheKeys.network(id))
+}
+
+/**
+ * Serialize networks as a shareable config file
+ */
+export function exportNetworksConfig(networks: NetworkConfig[]): string {
+  const file: NetworksConfigFile = {
+    version: NETWORKS_CONFIG_VERSION,
+    networks: networks.filter(n => !isBuiltInNetwork(n.id)),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Parse a shared config file (or a bare array of networks).
+ * Valid entries are returned even if others fail validation.
+ */
+export function parseNetworksConfig(text: string): { networks: NetworkConfig[]; errors: string[] } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { networks: [], errors: ['File is not valid JSON'] }
+  }
+
+  const entries: unknown[] | null = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.networks) ? data.networks : null
+  if (!entries) {
+    return { networks: [], errors: ['Expected { "networks": [...] } or an array of networks'] }
+  }
+  if (isRecord(data) && typeof data.version === 'number' && data.version > NETWORKS_CONFIG_VERSION) {
+    return { networks: [], errors: [`Config version ${data.version} is newer than this app supports`] }
+  }
+
+  const networks: NetworkConfig[] = []
+  const errors: string[] = []
+  entries.forEach((entry, i) => {
+    const result = validateNetwork(entry, `networks[${i}]`)
+    if (!result.ok) {
+      errors.push(result.error)
+    } else if (networks.some(n => n.id === result.network.id)) {
+      errors.push(`networks[${i}].id: duplicate id "${result.network.id}"`)
+    } else {
+      networks.push(result.network)
+    }
+  })
+  return { networks, errors }
+}
+
+/**
+ * Built-in networks followed by user-defined ones
+ */
+export function mergeNetworks(custom: NetworkConfig[]): NetworkConfig[] {
+  return [...NETWORK_RPC_ENDPOINTS, ...custom.filter(n => !isBuiltInNetwork(n.id))]
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { serializeRows, downloadBlob, type ExportColumn, type ExportValue } from './export'
+
+const columns: ExportColumn<ExportValue>[] = [{ name: 'value', value: v => v }]
+
+// Cells of a one-column CSV export, without the header
+const csvCells = (values: ExportValue[]) => serializeRows(values, columns, 'csv').split('\r\n').slice(1, -1)
+
+describe('serializeRows', () => {
+  it('keeps CSV text cells from being evaluated as formulas', () => {
+    expect(csvCells(['=HYPERLINK("http://x")', '+1+1', '-2+3', '@SUM(A1)'])).toEqual([
+      `"'=HYPERLINK(""http://x"")"`,
+      `'+1+1`,
+      `'-2+3`,
+      `'@SUM(A1)`,
+    ])
+  })
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(csvCells([-5, 'node-1', 'a,b', null])).toEqual(['-5', 'node-1', '"a,b"', ''])
+  })
+
+  it('writes JSON and NDJSON records with the same columns', () => {
+    expect(JSON.parse(serializeRows(['=1'], columns, 'json'))).toEqual([{ value: '=1' }])
+    expect(serializeRows([1, null], columns, 'ndjson')).toBe('{"value":1}\n{"value":null}\n')
+  })
+})
+
+describe('downloadBlob', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the object URL alive after the click', () => {
+    vi.useFakeTimers()
+    const link = { click: vi.fn(), remove: vi.fn() } as unknown as HTMLAnchorElement
+    vi.stubGlobal('document', { createElement: () => link, body: { appendChild: vi.fn() } })
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:export')
+    const revoke = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {})
+
+    downloadBlob(new Blob(['a']), 'nodes.csv')
+
+    expect(link.click).toHaveBeenCalled()
+    expect(link.download).toBe('nodes.csv')
+    vi.advanceTimersByTime(1000)
+    expect(revoke).not.toHaveBeenCalled()
+    vi.runAllTimers()
+    expect(revoke).toHaveBeenCalledWith('blob:export')
+  })
+})
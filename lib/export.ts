@@ -0,0 +1,203 @@
+// Export of node tables, leaderboards and history as CSV, JSON or NDJSON
+// All formats share the same columns. Column names are snake_case with the unit as a
+// suffix (`storage_bytes`, `cpu_percent`, `uptime_seconds`, `latency_ms`), timestamps are
+// ISO 8601 in UTC, and missing values are null (an empty cell in CSV).
+
+import { nodeHealth } from './nodeHealth'
+import type { NodeData } from './prpc'
+import type { CreditTrend } from './podCredits'
+import type { NodeAvailability } from './availability'
+import type { NodeAnnotation } from './annotations'
+import type { NetworkSnapshot, NodeHistoryEntry } from './useHistoricalData'
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson'
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; mime: string }[] = [
+  { value: 'csv', label: 'CSV', mime: 'text/csv' },
+  { value: 'json', label: 'JSON', mime: 'application/json' },
+  { value: 'ndjson', label: 'NDJSON', mime: 'application/x-ndjson' },
+]
+
+export type ExportValue = string | number | boolean | null
+
+export interface ExportColumn<T> {
+  name: string
+  value: (row: T) => ExportValue | undefined
+}
+
+function toRecord<T>(row: T, columns: ExportColumn<T>[]): Record<string, ExportValue> {
+  const record: Record<string, ExportValue> = {}
+  columns.forEach(column => {
+    record[column.name] = column.value(row) ?? null
+  })
+  return record
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return ''
+  let text = String(value)
+  // Keep spreadsheets from evaluating text cells as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function serializeRows<T>(rows: T[], columns: ExportColumn<T>[], format: ExportFormat): string {
+  const records = rows.map(row => toRecord(row, columns))
+  switch (format) {
+    case 'json':
+      return JSON.stringify(records, null, 2)
+    case 'ndjson':
+      return records.map(record => JSON.stringify(record)).join('\n') + '\n'
+    case 'csv':
+      return [
+        columns.map(column => column.name).join(','),
+        ...records.map(record => columns.map(column => csvCell(record[column.name])).join(',')),
+      ].join('\r\n') + '\r\n'
+  }
+}
+
+/**
+ * Serialize `rows` and save them as `<name>-<timestamp>.<format>`
+ */
+export function downloadRows<T>(name: string, rows: T[], columns: ExportColumn<T>[], format: ExportFormat) {
+  const { mime } = EXPORT_FORMATS.find(f => f.value === format)!
+  const blob = new Blob([serializeRows(rows, columns, format)], { type: `${mime};charset=utf-8` })
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, '-')
+  downloadBlob(blob, `${name.replace(/[^\w.-]+/g, '_')}-${stamp}.${format}`)
+}
+
+// Revoking right after the click cancels the download in Firefox and Safari, and a
+// large blob can still be read from for a while after that
+const REVOKE_DELAY_MS = 30 * 1000
+
+/**
+ * Save `blob` as `filename` through a temporary link
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS)
+}
+
+function isoTime(value: string | number | undefined | null): string | null {
+  if (value === undefined || value === null) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+// History from the proxy may omit fields, so this also passes null through
+const round2 = (value: number | null | undefined) => (typeof value === 'number' ? Math.round(value * 100) / 100 : null)
+
+// ============================================
+// Column sets
+// ============================================
+
+const nodeColumns: ExportColumn<NodeData>[] = [
+  { name: 'address', value: n => n.address },
+  { name: 'label', value: n => n.label },
+  { name: 'pubkey', value: n => n.pubkey },
+  { name: 'status', value: n => n.status },
+  { name: 'health', value: n => nodeHealth(n) },
+  { name: 'version', value: n => n.version?.version ?? n.registryVersion },
+  { name: 'city', value: n => n.location?.city },
+  { name: 'country', value: n => n.location?.country },
+  { name: 'latency_ms', value: n => (n.latency ? Math.round(n.latency.medianMs) : null) },
+  { name: 'cpu_percent', value: n => (n.stats ? round2(n.stats.cpu_percent) : null) },
+  { name: 'ram_used_bytes', value: n => n.stats?.ram_used },
+  { name: 'ram_total_bytes', value: n => n.stats?.ram_total },
+  { name: 'storage_bytes', value: n => n.stats?.file_size },
+  { name: 'uptime_seconds', value: n => n.stats?.uptime },
+  { name: 'active_streams', value: n => n.stats?.active_streams },
+  { name: 'packets_received', value: n => n.stats?.packets_received },
+  { name: 'packets_sent', value: n => n.stats?.packets_sent },
+  { name: 'stats_updated_at', value: n => (n.stats ? isoTime(n.stats.last_updated * 1000) : null) },
+  { name: 'fetched_at', value: n => isoTime(n.lastFetched) },
+]
+
+type AnnotationLookup = (node: NodeData) => NodeAnnotation | undefined
+
+// Private nickname and tags; notes stay in the address book export
+function annotationColumns(annotationOf: AnnotationLookup): ExportColumn<NodeData>[] {
+  return [
+    { name: 'nickname', value: n => annotationOf(n)?.nickname || null },
+    { name: 'tags', value: n => annotationOf(n)?.tags.join(',') || null },
+  ]
+}
+
+/**
+ * Dashboard node table; `credits` maps pubkeys to pod credits
+ */
+export function nodeExportColumns(credits: Map<string, number>, annotationOf: AnnotationLookup = () => undefined): ExportColumn<NodeData>[] {
+  return [
+    ...nodeColumns,
+    ...annotationColumns(annotationOf),
+    { name: 'credits', value: n => (n.pubkey ? credits.get(n.pubkey) ?? null : null) },
+  ]
+}
+
+export interface LeaderboardExportRow {
+  rank: number
+  node: NodeData
+  credits: number
+  rankChange?: number | null
+  trend?: CreditTrend
+  availability?: NodeAvailability
+}
+
+/**
+ * Leaderboard rows; `credits` are those earned in `timeRange` ('all' for total credits)
+ */
+export function leaderboardExportColumns(
+  favorites: Set<string>,
+  timeRange: string,
+  annotationOf: AnnotationLookup = () => undefined
+): ExportColumn<LeaderboardExportRow>[] {
+  return [
+    { name: 'rank', value: e => e.rank },
+    { name: 'rank_change', value: e => e.rankChange },
+    { name: 'credits', value: e => e.credits },
+    { name: 'credits_range', value: () => timeRange },
+    { name: 'credits_per_hour', value: e => round2(e.trend?.rate) },
+    { name: 'projected_rank_7d', value: e => e.trend?.projectedRank },
+    { name: 'credits_stalled', value: e => (e.trend ? e.node.status === 'online' && e.trend.stalled : null) },
+    { name: 'availability_24h_percent', value: e => round2(e.availability?.percent['24h']) },
+    { name: 'availability_7d_percent', value: e => round2(e.availability?.percent['7d']) },
+    { name: 'availability_30d_percent', value: e => round2(e.availability?.percent['30d']) },
+    { name: 'favorite', value: e => !!e.node.pubkey && favorites.has(e.node.pubkey) },
+    ...[...nodeColumns, ...annotationColumns(annotationOf)]
+      .map(column => ({ name: column.name, value: (e: LeaderboardExportRow) => column.value(e.node) })),
+  ]
+}
+
+export const networkSnapshotColumns: ExportColumn<NetworkSnapshot>[] = [
+  { name: 'timestamp', value: s => isoTime(s.timestamp) },
+  { name: 'total_pods', value: s => s.totalPods },
+  { name: 'online_nodes', value: s => s.onlineNodes },
+  { name: 'offline_nodes', value: s => s.offlineNodes },
+  { name: 'total_storage_bytes', value: s => s.totalStorage },
+  { name: 'avg_cpu_percent', value: s => round2(s.avgCpu) },
+  { name: 'avg_ram_percent', value: s => round2(s.avgRam) },
+  { name: 'total_streams', value: s => s.totalStreams },
+  // Collected as packets received + sent, despite the field name
+  { name: 'total_packets', value: s => s.totalBytesTransferred },
+  { name: 'version_distribution', value: s => JSON.stringify(s.versionDistribution ?? {}) },
+]
+
+export const nodeHistoryColumns: ExportColumn<NodeHistoryEntry>[] = [
+  { name: 'timestamp', value: e => isoTime(e.timestamp) },
+  { name: 'status', value: e => e.status },
+  { name: 'version', value: e => e.version },
+  { name: 'cpu_percent', value: e => round2(e.cpu) },
+  { name: 'ram_percent', value: e => round2(e.ram) },
+  { name: 'storage_bytes', value: e => e.storage },
+  { name: 'uptime_seconds', value: e => e.uptime },
+  { name: 'active_streams', value: e => e.activeStreams },
+  { name: 'packets_received', value: e => e.packetsReceived },
+  { name: 'packets_sent', value: e => e.packetsSent },
+  { name: 'peers_count', value: e => e.peersCount },
+]
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { forecastSeries, timeUntil, FORECAST_MIN_SAMPLES, type Forecast, type ForecastSample } from './forecast'
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const START = Date.parse('2026-01-01T00:00:00Z')
+
+// One sample an hour for `hours` hours
+const hourly = (hours: number, value: (hour: number) => number): ForecastSample[] =>
+  Array.from({ length: hours + 1 }, (_, hour) => ({ time: START + hour * HOUR, value: value(hour) }))
+
+const forecast = (level: number, slopePerDay: number): Forecast => ({
+  model: 'linear',
+  stepMs: HOUR,
+  level,
+  slopePerDay,
+  lastTime: START,
+  points: [],
+  fit: { r2: 1, rmse: 0, mape: 0 },
+})
+
+describe('forecastSeries', () => {
+  it('fits a line to less than two days of history', () => {
+    const result = forecastSeries(hourly(24, hour => 10 + hour), 6 * HOUR)!
+
+    expect(result.model).toBe('linear')
+    expect(result.stepMs).toBe(HOUR)
+    expect(result.slopePerDay).toBeCloseTo(24)
+    expect(result.level).toBeCloseTo(34)
+    expect(result.fit.r2).toBeCloseTo(1)
+    expect(result.points.map(p => p.time)).toEqual([1, 2, 3, 4, 5, 6].map(h => START + (24 + h) * HOUR))
+    expect(result.points[5].value).toBeCloseTo(40)
+  })
+
+  it('switches to Holt-Winters once the history covers two days', () => {
+    const daily = (hour: number) => 100 + hour / 24 + 10 * Math.sin((2 * Math.PI * hour) / 24)
+    const result = forecastSeries(hourly(3 * 24, daily), DAY)!
+
+    expect(result.model).toBe('holt-winters')
+    expect(result.slopePerDay).toBeCloseTo(1, 0)
+    expect(result.points).toHaveLength(24)
+    // The projection follows the daily season instead of a straight line
+    result.points.forEach((point, i) => expect(point.value).toBeCloseTo(daily(3 * 24 + i + 1), 0))
+  })
+
+  it('needs FORECAST_MIN_SAMPLES samples', () => {
+    expect(forecastSeries(hourly(FORECAST_MIN_SAMPLES - 2, hour => hour), DAY)).toBeNull()
+    expect(forecastSeries(hourly(FORECAST_MIN_SAMPLES - 1, hour => hour), DAY)).not.toBeNull()
+  })
+})
+
+describe('timeUntil', () => {
+  it('projects a rising trend to the target', () => {
+    expect(timeUntil(forecast(50, 10), 80)).toBe(3 * DAY)
+  })
+
+  it('is 0 once the target is reached', () => {
+    expect(timeUntil(forecast(80, -5), 80)).toBe(0)
+  })
+
+  it('is null when the trend is flat or heading away', () => {
+    expect(timeUntil(forecast(50, 0), 80)).toBeNull()
+    expect(timeUntil(forecast(50, -2), 80)).toBeNull()
+  })
+})
@@ -0,0 +1,263 @@
+// Forecasts for capacity planning
+// A series is resampled to a fixed step and fitted with a least-squares line or, once
+// it covers two days, with additive Holt-Winters (level, trend and a daily season).
+// Projections carry a 95% prediction band, and the fit is scored on the history it was
+// fitted to: R² and RMSE of the fitted values (one step ahead for Holt-Winters).
+
+export type ForecastModel = 'linear' | 'holt-winters'
+
+export interface ForecastSample {
+  time: number
+  value: number
+}
+
+export interface ForecastPoint {
+  time: number
+  value: number
+  lower: number
+  upper: number
+}
+
+export interface ForecastFit {
+  r2: number
+  rmse: number
+  // Mean absolute percentage error; null when the series touches zero
+  mape: number | null
+}
+
+export interface Forecast {
+  model: ForecastModel
+  stepMs: number
+  // Trend at the end of the history, with the season removed
+  level: number
+  slopePerDay: number
+  // Last step of the resampled history (within one step of the latest sample);
+  // projections start one step after it
+  lastTime: number
+  points: ForecastPoint[]
+  fit: ForecastFit
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const FORECAST_MIN_SAMPLES = 6
+
+// Candidate resampling steps; each divides a day, so the season has a whole number of steps
+const STEPS_MS = [5, 10, 15, 30, 60, 120, 180, 360].map(minutes => minutes * 60 * 1000)
+const MAX_STEPS = 2000
+
+// z-score of a 95% prediction interval
+const Z_95 = 1.96
+
+function pickStep(samples: ForecastSample[]): number {
+  const gaps = samples.slice(1).map((s, i) => s.time - samples[i].time).sort((a, b) => a - b)
+  const medianGap = gaps[Math.floor(gaps.length / 2)]
+  const span = samples[samples.length - 1].time - samples[0].time
+  return STEPS_MS.find(step => step >= medianGap && span / step <= MAX_STEPS) ?? STEPS_MS[STEPS_MS.length - 1]
+}
+
+// Values at every step from the first sample on, interpolated between samples
+function resample(samples: ForecastSample[], stepMs: number): number[] {
+  const values: number[] = []
+  const end = samples[samples.length - 1].time
+  let j = 0
+  for (let t = samples[0].time; t <= end; t += stepMs) {
+    while (samples[j + 1].time < t) j++
+    const a = samples[j]
+    const b = samples[j + 1]
+    values.push(a.value + ((b.value - a.value) * (t - a.time)) / (b.time - a.time))
+  }
+  return values
+}
+
+function scoreFit(actual: number[], fitted: number[]): ForecastFit {
+  const mean = actual.reduce((sum, v) => sum + v, 0) / actual.length
+  let ssRes = 0
+  let ssTot = 0
+  let ape = 0
+  actual.forEach((v, i) => {
+    ssRes += (v - fitted[i]) ** 2
+    ssTot += (v - mean) ** 2
+    ape += v !== 0 ? Math.abs((v - fitted[i]) / v) : NaN
+  })
+  return {
+    r2: ssTot > 0 ? 1 - ssRes / ssTot : ssRes === 0 ? 1 : 0,
+    rmse: Math.sqrt(ssRes / actual.length),
+    mape: Number.isNaN(ape) ? null : (ape / actual.length) * 100,
+  }
+}
+
+// A model fitted to the resampled values, in steps
+interface FittedModel {
+  model: ForecastModel
+  level: number
+  slope: number
+  fit: ForecastFit
+  // Value and half-width of the prediction band for each of the next `steps` steps
+  project: (steps: number) => Array<{ value: number; spread: number }>
+}
+
+// ============================================
+// Linear regression
+// ============================================
+
+function linearForecast(values: number[]): FittedModel {
+  const n = values.length
+  const meanX = (n - 1) / 2
+  const meanY = values.reduce((sum, v) => sum + v, 0) / n
+  let sxx = 0
+  let sxy = 0
+  values.forEach((v, x) => {
+    sxx += (x - meanX) ** 2
+    sxy += (x - meanX) * (v - meanY)
+  })
+  const slope = sxx > 0 ? sxy / sxx : 0
+  const intercept = meanY - slope * meanX
+  const fitted = values.map((_, x) => intercept + slope * x)
+  const fit = scoreFit(values, fitted)
+
+  const se = n > 2 ? Math.sqrt((fit.rmse ** 2 * n) / (n - 2)) : fit.rmse
+  const last = n - 1
+  return {
+    model: 'linear',
+    level: intercept + slope * last,
+    slope,
+    fit,
+    project: steps => Array.from({ length: steps }, (_, i) => ({
+      value: intercept + slope * (last + i + 1),
+      spread: Z_95 * se * Math.sqrt(1 + 1 / n + (last + i + 1 - meanX) ** 2 / (sxx || 1)),
+    })),
+  }
+}
+
+// ============================================
+// Holt-Winters (additive)
+// ============================================
+
+interface HoltWintersState {
+  level: number
+  trend: number
+  season: number[]
+  fitted: number[]
+  sse: number
+}
+
+const ALPHAS = [0.1, 0.3, 0.5, 0.7, 0.9]
+const BETAS = [0.01, 0.05, 0.1, 0.3]
+const GAMMAS = [0.05, 0.2, 0.5]
+
+function runHoltWinters(values: number[], m: number, alpha: number, beta: number, gamma: number): HoltWintersState {
+  const mean = (from: number) => values.slice(from, from + m).reduce((sum, v) => sum + v, 0) / m
+  let trend = (mean(m) - mean(0)) / m
+  // Level at the end of the first season
+  let level = mean(0) + (trend * (m - 1)) / 2
+  const season = values.slice(0, m).map((v, i) => v - (level - trend * (m - 1 - i)))
+
+  const fitted: number[] = []
+  let sse = 0
+  for (let t = m; t < values.length; t++) {
+    const s = season[t - m]
+    const predicted = level + trend + s
+    fitted.push(predicted)
+    sse += (values[t] - predicted) ** 2
+
+    const previousLevel = level
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + trend)
+    trend = beta * (level - previousLevel) + (1 - beta) * trend
+    season.push(gamma * (values[t] - level) + (1 - gamma) * s)
+  }
+  return { level, trend, season, fitted, sse }
+}
+
+function holtWintersForecast(values: number[], m: number): FittedModel {
+  let best: (HoltWintersState & { alpha: number; beta: number; gamma: number }) | null = null
+  ALPHAS.forEach(alpha => BETAS.forEach(beta => GAMMAS.forEach(gamma => {
+    const state = runHoltWinters(values, m, alpha, beta, gamma)
+    if (!best || state.sse < best.sse) best = { ...state, alpha, beta, gamma }
+  })))
+  const { level, trend, season, fitted, alpha, beta, gamma } = best!
+  const fit = scoreFit(values.slice(m), fitted)
+
+  // Variance of the h-step error grows with the smoothing weights (Hyndman et al., ETS(A,A,A))
+  const sigma = fit.rmse
+  const seasonOffset = season.length - m
+  return {
+    model: 'holt-winters',
+    level,
+    slope: trend,
+    fit,
+    project: steps => {
+      const projected: Array<{ value: number; spread: number }> = []
+      let variance = 1
+      for (let h = 1; h <= steps; h++) {
+        if (h > 1) variance += (alpha * (1 + (h - 1) * beta) + ((h - 1) % m === 0 ? gamma * (1 - alpha) : 0)) ** 2
+        projected.push({
+          value: level + h * trend + season[seasonOffset + ((h - 1) % m)],
+          spread: Z_95 * sigma * Math.sqrt(variance),
+        })
+      }
+      return projected
+    },
+  }
+}
+
+// ============================================
+// Forecasting
+// ============================================
+
+/**
+ * Project `samples` `horizonMs` past the latest one. Holt-Winters is used when the
+ * history covers two days, a line otherwise. Null while there are fewer than
+ * FORECAST_MIN_SAMPLES samples, or steps between them.
+ */
+export function forecastSeries(samples: ForecastSample[], horizonMs: number): Forecast | null {
+  const sorted = [...samples]
+    .filter(s => Number.isFinite(s.value))
+    .sort((a, b) => a.time - b.time)
+    .filter((s, i, all) => i === 0 || s.time > all[i - 1].time)
+  if (sorted.length < FORECAST_MIN_SAMPLES) return null
+
+  const stepMs = pickStep(sorted)
+  const values = resample(sorted, stepMs)
+  if (values.length < FORECAST_MIN_SAMPLES) return null
+
+  const season = DAY_MS / stepMs
+  const result = values.length >= 2 * season ? holtWintersForecast(values, season) : linearForecast(values)
+  const lastTime = sorted[0].time + (values.length - 1) * stepMs
+
+  const points: ForecastPoint[] = result.project(Math.floor(horizonMs / stepMs)).map(({ value, spread }, i) => ({
+    time: lastTime + (i + 1) * stepMs,
+    value,
+    lower: value - spread,
+    upper: value + spread,
+  }))
+
+  return {
+    model: result.model,
+    stepMs,
+    level: result.level,
+    slopePerDay: result.slope * (DAY_MS / stepMs),
+    lastTime,
+    points,
+    fit: result.fit,
+  }
+}
+
+/**
+ * Time from the latest sample until the trend reaches `target`: 0 when it already
+ * has, null when the trend is flat or heading away from it
+ */
+export function timeUntil(forecast: Forecast, target: number): number | null {
+  const remaining = target - forecast.level
+  if (remaining <= 0) return 0
+  if (forecast.slopePerDay <= 0) return null
+  return (remaining / forecast.slopePerDay) * DAY_MS
+}
+
+export type FitQuality = 'good' | 'fair' | 'poor'
+
+export function fitQuality(fit: ForecastFit): FitQuality {
+  if (fit.r2 >= 0.9) return 'good'
+  if (fit.r2 >= 0.6) return 'fair'
+  return 'poor'
+}
@@ -0,0 +1,90 @@
+// Gossip union discovery
+// Merges every online node's get-pods peer list with the registry's get-pods list,
+// so pods the registry RPC is hiding (or has dropped) show up next to the ones it reports
+
+import type { NetworkPod, NodeData } from './prpc'
+
+export type PodSource = 'registry' | 'gossip'
+
+export interface DiscoveredPod extends NetworkPod {
+  source: PodSource
+  // Number of distinct nodes whose peer list includes this pod
+  seenBy: number
+}
+
+export interface GossipDiscovery {
+  // Registry pods followed by pods only seen in gossip
+  pods: DiscoveredPod[]
+  gossipOnly: DiscoveredPod[]
+  // Registry pods that no peer list mentions (empty until a peer list has been read)
+  unseen: DiscoveredPod[]
+  seenBy: Map<string, number>
+  // Number of nodes whose peer list was read
+  peerLists: number
+}
+
+/**
+ * Build the registry + gossip union from the peer lists fetched so far
+ */
+export function discoverFromGossip(
+  registryPods: NetworkPod[],
+  nodes: Array<Pick<NodeData, 'address' | 'pods'>>
+): GossipDiscovery {
+  const reporters = new Map<string, Set<string>>()
+  const reported = new Map<string, NetworkPod>()
+  let peerLists = 0
+
+  nodes.forEach(node => {
+    if (!node.pods) return
+    peerLists++
+
+    node.pods.pods.forEach(peer => {
+      if (peer.address === node.address) return
+
+      const seen = reporters.get(peer.address) ?? new Set<string>()
+      seen.add(node.address)
+      reporters.set(peer.address, seen)
+
+      // Keep the freshest report of each peer
+      const known = reported.get(peer.address)
+      if (!known || peer.last_seen_timestamp > known.last_seen_timestamp) {
+        reported.set(peer.address, {
+          address: peer.address,
+          last_seen_timestamp: peer.last_seen_timestamp,
+          pubkey: peer.pubkey ?? known?.pubkey ?? null,
+          version: peer.version,
+        })
+      }
+    })
+  })
+
+  const seenBy = new Map(Array.from(reporters, ([address, set]) => [address, set.size]))
+  const registryAddresses = new Set(registryPods.map(pod => pod.address))
+
+  const fromRegistry: DiscoveredPod[] = registryPods.map(pod => ({
+    ...pod,
+    source: 'registry',
+    seenBy: seenBy.get(pod.address) ?? 0,
+  }))
+
+  const gossipOnly: DiscoveredPod[] = Array.from(reported.values())
+    .filter(pod => !registryAddresses.has(pod.address))
+    .map(pod => ({ ...pod, source: 'gossip' as const, seenBy: seenBy.get(pod.address) ?? 0 }))
+    .sort((a, b) => b.seenBy - a.seenBy || b.last_seen_timestamp - a.last_seen_timestamp)
+
+  return {
+    pods: [...fromRegistry, ...gossipOnly],
+    gossipOnly,
+    unseen: peerLists > 0 ? fromRegistry.filter(pod => pod.seenBy === 0) : [],
+    seenBy,
+    peerLists,
+  }
+}
+
+/**
+ * "Seen by N peers" for a node, or undefined while no peer list has been read
+ */
+export function peerSightings(discovery: GossipDiscovery, address: string): number | undefined {
+  if (discovery.peerLists === 0) return undefined
+  return discovery.seenBy.get(address) ?? 0
+}
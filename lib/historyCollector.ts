@@ -0,0 +1,107 @@
+// In-app history collector
+// Keeps a subscription on every built-in network so the server-side crawler
+// (lib/networkCrawler.ts) refreshes it on CACHE_TTL.BACKGROUND_REFRESH even when
+// nobody has the dashboard open, and appends each finished crawl to the history store.
+// Pod credits are snapshotted every CREDIT_SNAPSHOT_MS.
+
+import { NETWORK_RPC_ENDPOINTS } from './networks'
+import { getNetworkSnapshot, subscribeToNetwork } from './networkCrawler'
+import { networkSample, nodeSample } from './historySamples'
+import { nextReplayFrame } from './replay'
+import { nextAvailabilityLog, type AvailabilityLog } from './availability'
+import { nextRestartLog, type RestartLog } from './restarts'
+import { nextVersionLog, type VersionLog } from './rollout'
+import { CREDIT_SNAPSHOT_MS, POD_CREDITS_API, creditSnapshot, podCreditsMap } from './podCredits'
+import {
+  appendCreditSnapshot,
+  appendNetworkSnapshot,
+  appendNodeEntries,
+  appendReplayFrame,
+  compactHistory,
+  readAvailabilityLog,
+  readRestartLog,
+  readVersionLog,
+  writeAvailabilityLog,
+  writeLatestNodes,
+  writeRestartLog,
+  writeVersionLog,
+} from './historyStore'
+
+const COMPACT_INTERVAL_MS = 24 * 60 * 60 * 1000
+
+let started = false
+
+// Latest availability, restart and version logs per network; read back from disk once
+// after a restart
+const availabilityLogs = new Map<string, AvailabilityLog | null>()
+const restartLogs = new Map<string, RestartLog | null>()
+const versionLogs = new Map<string, VersionLog | null>()
+
+/**
+ * Fold a crawl into a network's log, reading the log back from disk the first time.
+ * The log is only written when the crawl changed it.
+ */
+async function updateLog<T>(
+  logs: Map<string, T | null>,
+  networkId: string,
+  read: (networkId: string) => Promise<T | null>,
+  next: (log: T | null) => T | null,
+  write: (networkId: string, log: T) => Promise<void>
+) {
+  const previous = logs.has(networkId) ? logs.get(networkId) ?? null : await read(networkId)
+  const log = next(previous)
+  logs.set(networkId, log)
+  if (log && log !== previous) await write(networkId, log)
+}
+
+async function recordCrawl(networkId: string) {
+  const snapshot = getNetworkSnapshot(networkId)
+  if (!snapshot || snapshot.crawledAt === null) return
+
+  const timestamp = new Date(snapshot.crawledAt).toISOString()
+  const crawled = snapshot.nodes.filter(node => node.status !== 'loading')
+  if (crawled.length === 0) return
+
+  await appendNetworkSnapshot(networkId, { timestamp, ...networkSample(crawled) })
+  await appendNodeEntries(crawled.map(node => ({ address: node.address, entry: { timestamp, ...nodeSample(node) } })))
+  // For node pages rendered before the crawler has data again after a restart
+  await writeLatestNodes(networkId, { crawledAt: snapshot.crawledAt, nodes: crawled.map(node => ({ ...node, pods: undefined })) })
+
+  const frame = nextReplayFrame(networkId, crawled, snapshot.crawledAt)
+  if (frame) await appendReplayFrame(networkId, frame)
+
+  const at = snapshot.crawledAt
+  await updateLog(availabilityLogs, networkId, readAvailabilityLog, log => nextAvailabilityLog(log, crawled, at), writeAvailabilityLog)
+  await updateLog(restartLogs, networkId, readRestartLog, log => nextRestartLog(log, crawled, at), writeRestartLog)
+  await updateLog(versionLogs, networkId, readVersionLog, log => nextVersionLog(log, crawled, at), writeVersionLog)
+}
+
+async function recordCredits() {
+  const response = await fetch(POD_CREDITS_API, { headers: { Accept: 'application/json' } })
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+  const credits = podCreditsMap(await response.json())
+  if (credits && credits.size > 0) await appendCreditSnapshot(creditSnapshot(credits))
+}
+
+/**
+ * Start collecting every built-in network and pod credits. Safe to call more than once.
+ */
+export function startHistoryCollector() {
+  if (started) return
+  started = true
+
+  NETWORK_RPC_ENDPOINTS.forEach(network => {
+    subscribeToNetwork(network.id, event => {
+      if (event.type === 'crawl-end') {
+        recordCrawl(network.id).catch(e => console.error(`Recording history of ${network.id} failed:`, e))
+      }
+    })
+  })
+
+  const snapshotCredits = () => recordCredits().catch(e => console.error('Recording pod credits failed:', e))
+  snapshotCredits()
+  setInterval(snapshotCredits, CREDIT_SNAPSHOT_MS)
+
+  compactHistory()
+  setInterval(compactHistory, COMPACT_INTERVAL_MS)
+}
@@ -0,0 +1,191 @@
+// History shapes shared by the browser-local recorder (lib/localHistory.ts) and the
+// server-side collector (lib/historyCollector.ts): what one crawl contributes to the
+// network and node series, and how a series is turned into chart data.
+
+import type { HistoryInterval, HistoryPeriod } from './proxyConfig'
+import type { NodeData, StatsResponse } from './prpc'
+import type {
+  ComparisonData,
+  LatestNetworkData,
+  NetworkChartData,
+  NetworkSnapshot,
+  NodeHistoryEntry,
+} from './useHistoricalData'
+
+export const HISTORY_PERIOD_MS: Record<HistoryPeriod, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+}
+
+export const HISTORY_INTERVAL_MS: Record<HistoryInterval, number> = {
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+}
+
+// Bucket size the chart endpoints use for each period (same as the proxy server)
+export const CHART_INTERVALS: Record<HistoryPeriod, HistoryInterval> = {
+  '1h': '1m',
+  '6h': '5m',
+  '24h': '15m',
+  '7d': '1h',
+  '30d': '6h',
+}
+
+export const COMPARISON_INTERVALS: Record<HistoryPeriod, HistoryInterval> = {
+  '1h': '5m',
+  '6h': '15m',
+  '24h': '1h',
+  '7d': '6h',
+  '30d': '6h',
+}
+
+export function isHistoryPeriod(value: unknown): value is HistoryPeriod {
+  return typeof value === 'string' && value in HISTORY_PERIOD_MS
+}
+
+export function isHistoryInterval(value: unknown): value is HistoryInterval {
+  return typeof value === 'string' && value in HISTORY_INTERVAL_MS
+}
+
+export type NetworkSample = Omit<NetworkSnapshot, 'timestamp'>
+export type NodeSample = Omit<NodeHistoryEntry, 'timestamp'>
+
+function ramPercent(stats: StatsResponse): number {
+  return stats.ram_total > 0 ? (stats.ram_used / stats.ram_total) * 100 : 0
+}
+
+/**
+ * Network aggregates for one crawl, computed like the proxy collector:
+ * resources over online nodes, versions over all pods. Loading nodes are ignored.
+ */
+export function networkSample(nodes: NodeData[]): NetworkSample {
+  const crawled = nodes.filter(n => n.status !== 'loading')
+  const online = crawled.filter(n => n.status === 'online')
+  const stats = online.flatMap(n => (n.stats ? [n.stats] : []))
+  const sum = (pick: (s: StatsResponse) => number) => stats.reduce((acc, s) => acc + pick(s), 0)
+
+  return {
+    totalPods: crawled.length,
+    onlineNodes: online.length,
+    offlineNodes: crawled.length - online.length,
+    totalStorage: sum(s => s.file_size),
+    avgCpu: stats.length > 0 ? sum(s => s.cpu_percent) / stats.length : 0,
+    avgRam: stats.length > 0 ? sum(ramPercent) / stats.length : 0,
+    totalStreams: sum(s => s.active_streams),
+    totalBytesTransferred: sum(s => s.packets_received + s.packets_sent),
+    versionDistribution: crawled.reduce<Record<string, number>>((acc, n) => {
+      if (n.registryVersion) acc[n.registryVersion] = (acc[n.registryVersion] || 0) + 1
+      return acc
+    }, {}),
+  }
+}
+
+/**
+ * One node's entry for a crawl; metrics of an offline node are 0
+ */
+export function nodeSample(node: NodeData): NodeSample {
+  const stats = node.status === 'online' ? node.stats : undefined
+  return {
+    status: node.status === 'online' ? 'online' : 'offline',
+    version: node.version?.version ?? node.registryVersion,
+    cpu: stats?.cpu_percent ?? 0,
+    ram: stats ? ramPercent(stats) : 0,
+    storage: stats?.file_size ?? 0,
+    uptime: stats?.uptime ?? 0,
+    activeStreams: stats?.active_streams ?? 0,
+    packetsReceived: stats?.packets_received ?? 0,
+    packetsSent: stats?.packets_sent ?? 0,
+    peersCount: node.status === 'online' ? node.pods?.total_count ?? 0 : 0,
+  }
+}
+
+/**
+ * Average snapshots into fixed buckets, oldest first. Counts are rounded to whole
+ * nodes and percentages to 2 decimals; versions come from the bucket's last snapshot.
+ */
+export function bucketNetworkHistory(snapshots: NetworkSnapshot[], bucketMs: number): NetworkSnapshot[] {
+  const buckets = new Map<number, NetworkSnapshot[]>()
+  snapshots.forEach(snapshot => {
+    const time = Date.parse(snapshot.timestamp)
+    const start = time - (time % bucketMs)
+    const bucket = buckets.get(start) ?? []
+    bucket.push(snapshot)
+    buckets.set(start, bucket)
+  })
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, bucket]) => {
+      const avg = (pick: (s: NetworkSnapshot) => number) => bucket.reduce((acc, s) => acc + pick(s), 0) / bucket.length
+      return {
+        timestamp: new Date(start).toISOString(),
+        totalPods: Math.round(avg(s => s.totalPods)),
+        onlineNodes: Math.round(avg(s => s.onlineNodes)),
+        offlineNodes: Math.round(avg(s => s.offlineNodes)),
+        totalStorage: Math.round(avg(s => s.totalStorage)),
+        avgCpu: Math.round(avg(s => s.avgCpu) * 100) / 100,
+        avgRam: Math.round(avg(s => s.avgRam) * 100) / 100,
+        totalStreams: Math.round(avg(s => s.totalStreams)),
+        totalBytesTransferred: Math.round(avg(s => s.totalBytesTransferred)),
+        versionDistribution: bucket[bucket.length - 1].versionDistribution,
+      }
+    })
+}
+
+/**
+ * Chart series in the shape of the /api/charts/network endpoint
+ */
+export function toNetworkChartData(snapshots: NetworkSnapshot[]): NetworkChartData {
+  return {
+    nodes: snapshots.map(d => ({
+      time: new Date(d.timestamp).getTime(),
+      online: d.onlineNodes,
+      offline: d.offlineNodes,
+      total: d.totalPods,
+    })),
+    resources: snapshots.map(d => ({
+      time: new Date(d.timestamp).getTime(),
+      cpu: d.avgCpu,
+      ram: d.avgRam,
+    })),
+    storage: snapshots.map(d => ({
+      time: new Date(d.timestamp).getTime(),
+      storage: d.totalStorage,
+      streams: d.totalStreams,
+    })),
+  }
+}
+
+/**
+ * One network's series in the shape of the /api/charts/comparison endpoint
+ */
+export function toComparisonData(snapshots: NetworkSnapshot[]): ComparisonData[] {
+  return snapshots.map(d => ({
+    time: new Date(d.timestamp).getTime(),
+    online: d.onlineNodes,
+    total: d.totalPods,
+    avgCpu: d.avgCpu,
+  }))
+}
+
+/**
+ * A network's latest snapshot in the shape of the /api/history/latest and /api/history/stats endpoints
+ */
+export function toLatestNetworkData(network: string, snapshot: NetworkSnapshot): LatestNetworkData {
+  return {
+    network,
+    timestamp: snapshot.timestamp,
+    totalPods: snapshot.totalPods,
+    onlineNodes: snapshot.onlineNodes,
+    offlineNodes: snapshot.offlineNodes,
+    avgCpu: snapshot.avgCpu,
+    avgRam: snapshot.avgRam,
+    totalStorage: snapshot.totalStorage,
+  }
+}
@@ -0,0 +1,219 @@
+// Append-only history store for the in-app collector
+// One NDJSON file per network and per node under HISTORY_DATA_DIR, plus one file of
+// replay frames per network and one of pod credit snapshots. Each crawl appends a
+// line; compaction rewrites a file without lines older than its retention period.
+// Availability, restart and version logs and the nodes of the latest crawl are single
+// JSON documents per network, rewritten after each crawl.
+// Writes and compaction go through one queue so a rewrite never drops an append.
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { REPLAY_RETENTION_MS, type ReplayFrame } from './replay'
+import { CREDIT_HISTORY_RETENTION_MS, type CreditSnapshot } from './podCredits'
+import type { AvailabilityLog } from './availability'
+import type { RestartLog } from './restarts'
+import type { VersionLog } from './rollout'
+import type { NodeData } from './prpc'
+import type { NetworkSnapshot, NodeHistoryEntry } from './useHistoricalData'
+
+export const HISTORY_DATA_DIR = process.env.HISTORY_DATA_DIR || path.join(process.cwd(), '.data', 'history')
+
+// Same as the proxy collector's retention
+export const HISTORY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+const networkFile = (networkId: string) =>
+  path.join(HISTORY_DATA_DIR, 'networks', `${encodeURIComponent(networkId)}.ndjson`)
+const nodeFile = (address: string) =>
+  path.join(HISTORY_DATA_DIR, 'nodes', `${encodeURIComponent(address)}.ndjson`)
+const replayFile = (networkId: string) =>
+  path.join(HISTORY_DATA_DIR, 'replay', `${encodeURIComponent(networkId)}.ndjson`)
+const creditsFile = () => path.join(HISTORY_DATA_DIR, 'credits', 'pods.ndjson')
+const availabilityFile = (networkId: string) =>
+  path.join(HISTORY_DATA_DIR, 'availability', `${encodeURIComponent(networkId)}.json`)
+const restartsFile = (networkId: string) =>
+  path.join(HISTORY_DATA_DIR, 'restarts', `${encodeURIComponent(networkId)}.json`)
+const versionsFile = (networkId: string) =>
+  path.join(HISTORY_DATA_DIR, 'versions', `${encodeURIComponent(networkId)}.json`)
+const latestNodesFile = (networkId: string) =>
+  path.join(HISTORY_DATA_DIR, 'latest', `${encodeURIComponent(networkId)}.json`)
+
+// Nodes of a network's latest crawl, without their peer lists
+export interface LatestNodes {
+  crawledAt: number
+  nodes: NodeData[]
+}
+
+// Retention per directory; replay frames are much larger than history entries
+const RETENTION_MS: Record<string, number> = {
+  networks: HISTORY_RETENTION_MS,
+  nodes: HISTORY_RETENTION_MS,
+  replay: REPLAY_RETENTION_MS,
+  credits: CREDIT_HISTORY_RETENTION_MS,
+}
+
+let queue: Promise<void> = Promise.resolve()
+
+function enqueue(task: () => Promise<void>): Promise<void> {
+  queue = queue.then(task).catch(e => console.error('History store write failed:', e))
+  return queue
+}
+
+async function append(file: string, entries: unknown[]) {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.appendFile(file, entries.map(entry => JSON.stringify(entry) + '\n').join(''))
+}
+
+// Written to a temporary file first so a crash never leaves a torn document
+async function writeDocument(file: string, document: unknown) {
+  const temp = `${file}.tmp`
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(temp, JSON.stringify(document))
+  await fs.rename(temp, file)
+}
+
+async function readDocument<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Entries of `file` at or after `since`, oldest first. A missing file is an empty
+ * series; a torn last line (e.g. after a crash) is skipped.
+ */
+async function readSince<T extends { timestamp: string }>(file: string, since: number): Promise<T[]> {
+  let content: string
+  try {
+    content = await fs.readFile(file, 'utf8')
+  } catch {
+    return []
+  }
+
+  const entries: T[] = []
+  content.split('\n').forEach(line => {
+    if (!line) return
+    try {
+      const entry = JSON.parse(line) as T
+      if (Date.parse(entry.timestamp) >= since) entries.push(entry)
+    } catch {
+      // Skip partial lines
+    }
+  })
+  return entries
+}
+
+export function appendNetworkSnapshot(networkId: string, snapshot: NetworkSnapshot): Promise<void> {
+  return enqueue(() => append(networkFile(networkId), [snapshot]))
+}
+
+export function appendNodeEntries(entries: Array<{ address: string; entry: NodeHistoryEntry }>): Promise<void> {
+  return enqueue(async () => {
+    await Promise.all(entries.map(({ address, entry }) => append(nodeFile(address), [entry])))
+  })
+}
+
+export function appendReplayFrame(networkId: string, frame: ReplayFrame): Promise<void> {
+  return enqueue(() => append(replayFile(networkId), [frame]))
+}
+
+export function appendCreditSnapshot(snapshot: CreditSnapshot): Promise<void> {
+  return enqueue(() => append(creditsFile(), [snapshot]))
+}
+
+export function writeAvailabilityLog(networkId: string, log: AvailabilityLog): Promise<void> {
+  return enqueue(() => writeDocument(availabilityFile(networkId), log))
+}
+
+export function writeRestartLog(networkId: string, log: RestartLog): Promise<void> {
+  return enqueue(() => writeDocument(restartsFile(networkId), log))
+}
+
+export function writeVersionLog(networkId: string, log: VersionLog): Promise<void> {
+  return enqueue(() => writeDocument(versionsFile(networkId), log))
+}
+
+export function writeLatestNodes(networkId: string, latest: LatestNodes): Promise<void> {
+  return enqueue(() => writeDocument(latestNodesFile(networkId), latest))
+}
+
+export function readNetworkHistory(networkId: string, since: number): Promise<NetworkSnapshot[]> {
+  return readSince<NetworkSnapshot>(networkFile(networkId), since)
+}
+
+export function readNodeHistory(address: string, since: number): Promise<NodeHistoryEntry[]> {
+  return readSince<NodeHistoryEntry>(nodeFile(address), since)
+}
+
+export function readReplayFrames(networkId: string, since: number): Promise<ReplayFrame[]> {
+  return readSince<ReplayFrame>(replayFile(networkId), since)
+}
+
+export function readCreditSnapshots(since: number): Promise<CreditSnapshot[]> {
+  return readSince<CreditSnapshot>(creditsFile(), since)
+}
+
+/**
+ * Availability log of a network, or null if none was recorded
+ */
+export function readAvailabilityLog(networkId: string): Promise<AvailabilityLog | null> {
+  return readDocument<AvailabilityLog>(availabilityFile(networkId))
+}
+
+/**
+ * Restart log of a network, or null if none was recorded
+ */
+export function readRestartLog(networkId: string): Promise<RestartLog | null> {
+  return readDocument<RestartLog>(restartsFile(networkId))
+}
+
+/**
+ * Version log of a network, or null if none was recorded
+ */
+export function readVersionLog(networkId: string): Promise<VersionLog | null> {
+  return readDocument<VersionLog>(versionsFile(networkId))
+}
+
+/**
+ * Nodes of a network's latest recorded crawl, or null if none was recorded
+ */
+export function readLatestNodes(networkId: string): Promise<LatestNodes | null> {
+  return readDocument<LatestNodes>(latestNodesFile(networkId))
+}
+
+/**
+ * Latest snapshot of a network, or null if none was recorded
+ */
+export async function readLatestSnapshot(networkId: string): Promise<NetworkSnapshot | null> {
+  const snapshots = await readNetworkHistory(networkId, Date.now() - HISTORY_RETENTION_MS)
+  return snapshots[snapshots.length - 1] ?? null
+}
+
+/**
+ * Drop entries older than their retention period; files left empty are removed
+ */
+export function compactHistory(): Promise<void> {
+  return enqueue(async () => {
+    for (const [dir, retentionMs] of Object.entries(RETENTION_MS)) {
+      const since = Date.now() - retentionMs
+      let files: string[]
+      try {
+        files = await fs.readdir(path.join(HISTORY_DATA_DIR, dir))
+      } catch {
+        continue
+      }
+      for (const name of files.filter(f => f.endsWith('.ndjson'))) {
+        const file = path.join(HISTORY_DATA_DIR, dir, name)
+        const kept = await readSince(file, since)
+        if (kept.length === 0) {
+          await fs.rm(file, { force: true })
+        } else {
+          const temp = `${file}.tmp`
+          await fs.writeFile(temp, kept.map(entry => JSON.stringify(entry) + '\n').join(''))
+          await fs.rename(temp, file)
+        }
+      }
+    }
+  })
+}
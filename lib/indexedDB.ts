@@ -1,7 +1,7 @@
 // IndexedDB-based caching for node data with TTL support
 
 const DB_NAME = 'xnode_cache'
-const DB_VERSION = 2
+const DB_VERSION = 5
 
 // Store names
 export const STORES = {
@@ -10,6 +10,9 @@ export const STORES = {
   GEOLOCATION: 'geolocation',
   META: 'meta',
   FAVORITES: 'favorites',
+  NETWORKS: 'networks',
+  HISTORY: 'history',
+  ANNOTATIONS: 'annotations',
 } as const
 
 // TTL constants (in milliseconds)
@@ -19,6 +22,8 @@ export const CACHE_TTL = {
   GEOLOCATION: 24 * 60 * 60 * 1000, // 24 hours
   BACKGROUND_REFRESH: 5 * 60 * 1000, // 5 minutes - interval for background updates
   ACTIVITY_DATA: 2 * 60 * 1000,    // 2 minutes - activity/solscan data
+  LATENCY_SNAPSHOT: 24 * 60 * 60 * 1000, // 24 hours - last crawl's latency per network
+  HISTORY_INDEX: 30 * 24 * 60 * 60 * 1000, // 30 days - networks with browser-local history
 } as const
 
 interface CacheEntry<T> {
@@ -75,6 +80,15 @@ function initDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(STORES.FAVORITES)) {
         db.createObjectStore(STORES.FAVORITES, { keyPath: 'key' })
       }
+      if (!db.objectStoreNames.contains(STORES.NETWORKS)) {
+        db.createObjectStore(STORES.NETWORKS, { keyPath: 'key' })
+      }
+      if (!db.objectStoreNames.contains(STORES.HISTORY)) {
+        db.createObjectStore(STORES.HISTORY, { keyPath: 'key' })
+      }
+      if (!db.objectStoreNames.contains(STORES.ANNOTATIONS)) {
+        db.createObjectStore(STORES.ANNOTATIONS, { keyPath: 'key' })
+      }
     }
   })
 
@@ -211,6 +225,34 @@ export async function getAllFromDB<T>(store: string): Promise<Map<string, T>> {
   }
 }
 
+/**
+ * Get unexpired entries whose keys fall between `lower` and `upper` (inclusive), in key order
+ */
+export async function getRangeFromDB<T>(store: string, lower: string, upper: string): Promise<T[]> {
+  try {
+    const db = await initDB()
+
+    return new Promise((resolve) => {
+      const transaction = db.transaction(store, 'readonly')
+      const objectStore = transaction.objectStore(store)
+      const request = objectStore.getAll(IDBKeyRange.bound(lower, upper))
+
+      request.onsuccess = () => {
+        const entries = request.result as CacheEntry<T>[]
+        const now = Date.now()
+        resolve(entries.filter(entry => now - entry.timestamp <= entry.ttl).map(entry => entry.data))
+      }
+
+      request.onerror = () => {
+        console.error('IndexedDB getRange error:', request.error)
+        resolve([])
+      }
+    })
+  } catch {
+    return []
+  }
+}
+
 /**
  * Batch set multiple entries
  */
@@ -303,7 +345,24 @@ export const cacheKeys = {
   nodeData: (address: string) => `node_${address}`,
   geolocation: (ip: string) => `geo_${ip}`,
   lastUpdate: (network: string) => `lastUpdate_${network}`,
+  latencySnapshot: (network: string) => `latency_${network}`,
   favorite: (pubkey: string) => `fav_${pubkey}`,
+  network: (id: string) => `network_${id}`,
+  annotation: (nodeKey: string) => `note_${nodeKey}`,
+  // History buckets sort by time within a series, so a series can be read as a key range
+  networkHistory: (network: string, interval: string, time: number) =>
+    `nethist_${network}_${interval}_${String(time).padStart(15, '0')}`,
+  nodeHistory: (address: string, interval: string, time: number) =>
+    `nodehist_${address}_${interval}_${String(time).padStart(15, '0')}`,
+  historyNetworks: () => 'history_networks',
+  creditSnapshot: (interval: string, time: number) => `credits_${interval}_${String(time).padStart(15, '0')}`,
+  replayFrame: (network: string, time: number) => `replay_${network}_${String(time).padStart(15, '0')}`,
+  availabilityLog: (network: string) => `availability_${network}`,
+  restartLog: (network: string) => `restarts_${network}`,
+  versionLog: (network: string) => `versions_${network}`,
+  watchState: (network: string) => `watch_${network}`,
+  watchSettings: () => 'watch_settings',
+  notificationLog: () => 'notification_log',
   activityMeta: () => 'activity_meta',
   activityTransfers: () => 'activity_transfers',
   activityHolders: () => 'activity_holders',
@@ -0,0 +1,136 @@
+// Per-node round-trip latency tracking and percentile helpers
+// Samples come from the pRPC proxy (proxy -> node) and, on the single-call
+// path, from the browser (browser -> proxy -> node)
+
+import { getFromDB, setToDB, STORES, CACHE_TTL, cacheKeys } from './indexedDB'
+
+// Number of samples kept per node
+export const LATENCY_WINDOW = 20
+
+export interface LatencySample {
+  at: number
+  proxyMs: number
+  browserMs?: number
+}
+
+export interface NodeLatency {
+  samples: LatencySample[]
+  lastMs: number
+  medianMs: number
+}
+
+export interface LatencyPercentiles {
+  count: number
+  p50: number
+  p90: number
+  p99: number
+}
+
+// Timing fields carried by a single pRPC call result
+interface TimedResult {
+  error?: unknown
+  latencyMs?: number
+  browserMs?: number
+}
+
+/**
+ * Percentile of a list of values (linear interpolation between closest ranks)
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+export function latencyPercentiles(values: number[]): LatencyPercentiles {
+  return {
+    count: values.length,
+    p50: percentile(values, 50),
+    p90: percentile(values, 90),
+    p99: percentile(values, 99),
+  }
+}
+
+/**
+ * Build one sample from the calls made to a node during a crawl.
+ * Uses the fastest successful call; failed calls (timeouts etc.) are not latencies.
+ */
+export function latencySampleFrom(...results: TimedResult[]): LatencySample | null {
+  const ok = results.filter(r => !r.error && typeof r.latencyMs === 'number')
+  if (ok.length === 0) return null
+
+  const browser = ok.map(r => r.browserMs).filter((ms): ms is number => typeof ms === 'number')
+  return {
+    at: Date.now(),
+    proxyMs: Math.min(...ok.map(r => r.latencyMs as number)),
+    browserMs: browser.length > 0 ? Math.min(...browser) : undefined,
+  }
+}
+
+// Rolling windows shared by every crawler on the page, keyed by node address
+const windows = new Map<string, LatencySample[]>()
+
+function summarize(samples: LatencySample[]): NodeLatency {
+  return {
+    samples,
+    lastMs: samples[samples.length - 1].proxyMs,
+    medianMs: percentile(samples.map(s => s.proxyMs), 50),
+  }
+}
+
+/**
+ * Attach the node's rolling latency window, adding a new sample when one was taken.
+ * `seed` restores the window from cached node data after a reload.
+ */
+export function withLatency<T extends { address: string; latency?: NodeLatency }>(
+  node: T,
+  sample: LatencySample | null,
+  seed?: NodeLatency
+): T {
+  let samples = windows.get(node.address) ?? seed?.samples ?? []
+  if (sample) {
+    samples = [...samples, sample].slice(-LATENCY_WINDOW)
+    windows.set(node.address, samples)
+  }
+  return samples.length > 0 ? { ...node, latency: summarize(samples) } : node
+}
+
+// ============================================
+// Per-network snapshots (read by the analytics page)
+// ============================================
+
+export interface LatencySnapshot {
+  networkId: string
+  takenAt: number
+  nodes: Array<{ ip: string; ms: number }>
+}
+
+/**
+ * Store the median latency of every node that answered in the latest crawl
+ */
+export async function saveLatencySnapshot(
+  networkId: string,
+  nodes: Array<{ ip: string; latency?: NodeLatency; status: string }>
+): Promise<void> {
+  const snapshot: LatencySnapshot = {
+    networkId,
+    takenAt: Date.now(),
+    nodes: nodes
+      .filter(n => n.status === 'online' && n.latency)
+      .map(n => ({ ip: n.ip, ms: n.latency!.medianMs })),
+  }
+  if (snapshot.nodes.length === 0) return
+  await setToDB(STORES.META, cacheKeys.latencySnapshot(networkId), snapshot, CACHE_TTL.LATENCY_SNAPSHOT)
+}
+
+export async function loadLatencySnapshot(networkId: string): Promise<LatencySnapshot | null> {
+  return getFromDB<LatencySnapshot>(STORES.META, cacheKeys.latencySnapshot(networkId))
+}
+
+export function formatLatency(ms: number | undefined): string {
+  if (ms === undefined) return '-'
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`
+}
@@ -0,0 +1,324 @@
+// Browser-local time series for deployments without the proxy/MongoDB collector
+// Every completed crawl is folded into time buckets at three resolutions, per network
+// and per node. A bucket averages the crawls that fell into it and is stored in
+// IndexedDB with its tier's retention as TTL, so old buckets expire on their own.
+// Replay frames for the topology page (lib/replay.ts), pod credit snapshots
+// (lib/podCredits.ts), availability logs (lib/availability.ts), restart logs
+// (lib/restarts.ts) and version logs (lib/rollout.ts) are stored the same way.
+
+import { HISTORY_COLLECTOR, USE_HISTORY_API, type HistoryInterval, type HistoryPeriod } from './proxyConfig'
+import {
+  STORES,
+  CACHE_TTL,
+  cacheKeys,
+  getFromDB,
+  setToDB,
+  batchSetToDB,
+  getRangeFromDB,
+  clearExpiredFromDB,
+} from './indexedDB'
+import {
+  HISTORY_PERIOD_MS,
+  networkSample,
+  nodeSample,
+  toComparisonData,
+  type NetworkSample,
+  type NodeSample,
+} from './historySamples'
+import { REPLAY_RETENTION_MS, nextReplayFrame, type ReplayFrame, type ReplayPeriod } from './replay'
+import { CREDIT_HISTORY_RETENTION_MS, CREDIT_INTERVAL_MS, creditSnapshot, type CreditInterval, type CreditSnapshot } from './podCredits'
+import { AVAILABILITY_RETENTION_MS, nextAvailabilityLog, type AvailabilityLog } from './availability'
+import { RESTART_RETENTION_MS, nextRestartLog, type RestartLog } from './restarts'
+import { VERSION_LOG_RETENTION_MS, nextVersionLog, type VersionLog } from './rollout'
+import type { NodeData } from './prpc'
+import type { ComparisonData, NetworkSnapshot, NodeHistoryEntry } from './useHistoricalData'
+
+interface HistoryTier {
+  interval: HistoryInterval
+  bucketMs: number
+  retentionMs: number
+}
+
+// Finest first: 1-minute buckets for 6 hours, 15-minute buckets for 7 days, hourly for 30 days
+export const LOCAL_HISTORY_TIERS: HistoryTier[] = [
+  { interval: '1m', bucketMs: 60 * 1000, retentionMs: 6 * 60 * 60 * 1000 },
+  { interval: '15m', bucketMs: 15 * 60 * 1000, retentionMs: 7 * 24 * 60 * 60 * 1000 },
+  { interval: '1h', bucketMs: 60 * 60 * 1000, retentionMs: 30 * 24 * 60 * 60 * 1000 },
+]
+
+// Expired buckets are swept at most this often
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000
+
+interface HistoryBucket<T> {
+  // Bucket start (ms)
+  time: number
+  // Number of crawls averaged into this bucket
+  samples: number
+  value: T
+}
+
+type BucketKey = (interval: string, time: number) => string
+
+// Bucket currently being filled per series and tier, keyed by the series' key at time 0.
+// Saves an IndexedDB read per node and tier on every crawl; only the first crawl after
+// a reload reads the open bucket back.
+const openBuckets = new Map<string, HistoryBucket<object>>()
+let lastPrunedAt = 0
+
+/**
+ * Running mean of numeric fields; other fields (status, version, distributions) keep the latest value
+ */
+function mergeSample<T extends object>(bucket: HistoryBucket<T>, sample: T): HistoryBucket<T> {
+  const samples = bucket.samples + 1
+  const value = { ...sample }
+  for (const key of Object.keys(sample) as Array<keyof T>) {
+    const previous = bucket.value[key]
+    const next = sample[key]
+    if (typeof previous === 'number' && typeof next === 'number') {
+      value[key] = (previous + (next - previous) / samples) as T[keyof T]
+    }
+  }
+  return { time: bucket.time, samples, value }
+}
+
+async function foldIntoTier<T extends object>(
+  tier: HistoryTier,
+  keyFor: BucketKey,
+  sample: T,
+  at: number
+): Promise<{ key: string; data: HistoryBucket<T> }> {
+  const time = Math.floor(at / tier.bucketMs) * tier.bucketMs
+  const key = keyFor(tier.interval, time)
+  const series = keyFor(tier.interval, 0)
+
+  const open = openBuckets.get(series) as HistoryBucket<T> | undefined
+  const current = open
+    ? (open.time === time ? open : null)
+    : await getFromDB<HistoryBucket<T>>(STORES.HISTORY, key)
+  const bucket = current ? mergeSample(current, sample) : { time, samples: 1, value: sample }
+
+  openBuckets.set(series, bucket)
+  return { key, data: bucket }
+}
+
+function pruneExpired(at: number) {
+  if (at - lastPrunedAt > PRUNE_INTERVAL_MS) {
+    lastPrunedAt = at
+    clearExpiredFromDB(STORES.HISTORY)
+  }
+}
+
+/**
+ * Fold the latest crawl of `networkId` into the local history.
+ * Does nothing when a history API (proxy or in-app collector) records history instead.
+ */
+export async function recordCrawlHistory(networkId: string, nodes: NodeData[]): Promise<void> {
+  if (USE_HISTORY_API) return
+  const crawled = nodes.filter(n => n.status !== 'loading')
+  if (crawled.length === 0) return
+
+  const at = Date.now()
+  const network = networkSample(crawled)
+
+  await Promise.all(LOCAL_HISTORY_TIERS.map(async tier => {
+    const entries = await Promise.all([
+      foldIntoTier<object>(tier, (interval, time) => cacheKeys.networkHistory(networkId, interval, time), network, at),
+      ...crawled.map(node =>
+        foldIntoTier<object>(tier, (interval, time) => cacheKeys.nodeHistory(node.address, interval, time), nodeSample(node), at)
+      ),
+    ])
+    await batchSetToDB(STORES.HISTORY, entries, tier.retentionMs)
+  }))
+
+  const known = (await getFromDB<string[]>(STORES.META, cacheKeys.historyNetworks())) ?? []
+  await setToDB(
+    STORES.META,
+    cacheKeys.historyNetworks(),
+    known.includes(networkId) ? known : [...known, networkId],
+    CACHE_TTL.HISTORY_INDEX
+  )
+
+  pruneExpired(at)
+}
+
+/**
+ * Finest tier that still covers the whole period
+ */
+export function historyTier(period: HistoryPeriod): HistoryTier {
+  return LOCAL_HISTORY_TIERS.find(tier => tier.retentionMs >= HISTORY_PERIOD_MS[period])
+    ?? LOCAL_HISTORY_TIERS[LOCAL_HISTORY_TIERS.length - 1]
+}
+
+async function readSeries<T>(keyFor: BucketKey, period: HistoryPeriod): Promise<HistoryBucket<T>[]> {
+  const { interval } = historyTier(period)
+  const now = Date.now()
+  return getRangeFromDB<HistoryBucket<T>>(STORES.HISTORY, keyFor(interval, now - HISTORY_PERIOD_MS[period]), keyFor(interval, now))
+}
+
+export async function loadNetworkHistory(networkId: string, period: HistoryPeriod): Promise<NetworkSnapshot[]> {
+  const buckets = await readSeries<NetworkSample>(
+    (interval, time) => cacheKeys.networkHistory(networkId, interval, time),
+    period
+  )
+  // Counts are averaged per bucket; round them like the collector does
+  return buckets.map(({ time, value }) => ({
+    ...value,
+    timestamp: new Date(time).toISOString(),
+    totalPods: Math.round(value.totalPods),
+    onlineNodes: Math.round(value.onlineNodes),
+    offlineNodes: Math.round(value.offlineNodes),
+    totalStreams: Math.round(value.totalStreams),
+  }))
+}
+
+export async function loadNodeHistory(address: string, period: HistoryPeriod): Promise<NodeHistoryEntry[]> {
+  const buckets = await readSeries<NodeSample>(
+    (interval, time) => cacheKeys.nodeHistory(address, interval, time),
+    period
+  )
+  return buckets.map(({ time, value }) => ({ ...value, timestamp: new Date(time).toISOString() }))
+}
+
+/**
+ * Every network recorded locally, in the shape of the proxy's /api/charts/comparison endpoint
+ */
+export async function loadNetworkComparison(
+  period: HistoryPeriod
+): Promise<{ networks: string[]; data: Record<string, ComparisonData[]> }> {
+  const networks = (await getFromDB<string[]>(STORES.META, cacheKeys.historyNetworks())) ?? []
+  const histories = await Promise.all(networks.map(network => loadNetworkHistory(network, period)))
+
+  const data: Record<string, ComparisonData[]> = {}
+  networks.forEach((network, i) => {
+    data[network] = toComparisonData(histories[i])
+  })
+  return { networks, data }
+}
+
+/**
+ * Store a replay frame for the latest crawl of `networkId` (see lib/replay.ts).
+ * Does nothing when the in-app collector records replay frames instead.
+ */
+export async function recordReplayFrame(networkId: string, nodes: NodeData[]): Promise<void> {
+  if (HISTORY_COLLECTOR) return
+  const frame = nextReplayFrame(networkId, nodes)
+  if (!frame) return
+  const at = Date.parse(frame.timestamp)
+  await setToDB(STORES.HISTORY, cacheKeys.replayFrame(networkId, at), frame, REPLAY_RETENTION_MS)
+  pruneExpired(at)
+}
+
+export async function loadReplayFrames(networkId: string, period: ReplayPeriod): Promise<ReplayFrame[]> {
+  const now = Date.now()
+  return getRangeFromDB<ReplayFrame>(
+    STORES.HISTORY,
+    cacheKeys.replayFrame(networkId, now - HISTORY_PERIOD_MS[period]),
+    cacheKeys.replayFrame(networkId, now)
+  )
+}
+
+// Hourly snapshots for 8 days, daily ones for the full retention
+const CREDIT_TIERS: Array<{ interval: CreditInterval; retentionMs: number }> = [
+  { interval: '1h', retentionMs: 8 * 24 * 60 * 60 * 1000 },
+  { interval: '1d', retentionMs: CREDIT_HISTORY_RETENTION_MS },
+]
+
+/**
+ * Store the latest pod credits; each tier's bucket keeps the last snapshot taken in it.
+ * Does nothing when the in-app collector records credits instead.
+ */
+export async function recordCreditSnapshot(credits: Map<string, number>): Promise<void> {
+  if (HISTORY_COLLECTOR || credits.size === 0) return
+  const at = Date.now()
+  const snapshot = creditSnapshot(credits, at)
+
+  await Promise.all(CREDIT_TIERS.map(tier => {
+    const time = Math.floor(at / CREDIT_INTERVAL_MS[tier.interval]) * CREDIT_INTERVAL_MS[tier.interval]
+    return setToDB(STORES.HISTORY, cacheKeys.creditSnapshot(tier.interval, time), snapshot, tier.retentionMs)
+  }))
+  pruneExpired(at)
+}
+
+/**
+ * Credit snapshots taken at or after `since`, oldest first
+ */
+export async function loadCreditSnapshots(since: number): Promise<CreditSnapshot[]> {
+  const now = Date.now()
+  const tiers = await Promise.all(CREDIT_TIERS.map(tier =>
+    getRangeFromDB<CreditSnapshot>(
+      STORES.HISTORY,
+      cacheKeys.creditSnapshot(tier.interval, since - CREDIT_INTERVAL_MS[tier.interval]),
+      cacheKeys.creditSnapshot(tier.interval, now)
+    )
+  ))
+
+  // The same snapshot is usually stored in both tiers
+  const byTime = new Map<string, CreditSnapshot>()
+  tiers.flat().forEach(snapshot => {
+    if (Date.parse(snapshot.timestamp) >= since) byTime.set(snapshot.timestamp, snapshot)
+  })
+  return Array.from(byTime.values()).sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+}
+
+// Latest availability, restart and version logs per network, so crawls after the first
+// don't read them back
+const availabilityLogs = new Map<string, AvailabilityLog | null>()
+const restartLogs = new Map<string, RestartLog | null>()
+const versionLogs = new Map<string, VersionLog | null>()
+
+/**
+ * Fold a crawl into the log stored under `key`; it is only written when the crawl changed it
+ */
+async function updateLog<T>(
+  logs: Map<string, T | null>,
+  key: string,
+  next: (log: T | null) => T | null,
+  retentionMs: number
+): Promise<void> {
+  const previous = logs.has(key) ? logs.get(key) ?? null : await getFromDB<T>(STORES.HISTORY, key)
+  const log = next(previous)
+  logs.set(key, log)
+  if (log && log !== previous) await setToDB(STORES.HISTORY, key, log, retentionMs)
+}
+
+export async function loadAvailabilityLog(networkId: string): Promise<AvailabilityLog | null> {
+  const key = cacheKeys.availabilityLog(networkId)
+  return availabilityLogs.get(key) ?? getFromDB<AvailabilityLog>(STORES.HISTORY, key)
+}
+
+/**
+ * Fold the latest crawl of `networkId` into its availability log.
+ * Does nothing when the in-app collector records availability instead.
+ */
+export async function recordAvailability(networkId: string, nodes: NodeData[]): Promise<void> {
+  if (HISTORY_COLLECTOR) return
+  await updateLog(availabilityLogs, cacheKeys.availabilityLog(networkId), log => nextAvailabilityLog(log, nodes), AVAILABILITY_RETENTION_MS)
+}
+
+export async function loadRestartLog(networkId: string): Promise<RestartLog | null> {
+  const key = cacheKeys.restartLog(networkId)
+  return restartLogs.get(key) ?? getFromDB<RestartLog>(STORES.HISTORY, key)
+}
+
+/**
+ * Fold the latest crawl of `networkId` into its restart log.
+ * Does nothing when the in-app collector records restarts instead.
+ */
+export async function recordRestarts(networkId: string, nodes: NodeData[]): Promise<void> {
+  if (HISTORY_COLLECTOR) return
+  await updateLog(restartLogs, cacheKeys.restartLog(networkId), log => nextRestartLog(log, nodes), RESTART_RETENTION_MS)
+}
+
+export async function loadVersionLog(networkId: string): Promise<VersionLog | null> {
+  const key = cacheKeys.versionLog(networkId)
+  return versionLogs.get(key) ?? getFromDB<VersionLog>(STORES.HISTORY, key)
+}
+
+/**
+ * Fold the latest crawl of `networkId` into its version log.
+ * Does nothing when the in-app collector records versions instead.
+ */
+export async function recordVersions(networkId: string, nodes: NodeData[]): Promise<void> {
+  if (HISTORY_COLLECTOR) return
+  await updateLog(versionLogs, cacheKeys.versionLog(networkId), log => nextVersionLog(log, nodes), VERSION_LOG_RETENTION_MS)
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const PUBLIC_IP = '173.212.203.145'
+const PRIVATE_IPS = ['10.0.0.5', '127.0.0.1', '169.254.169.254', '192.168.1.10']
+
+vi.mock('./prpcTransport', () => ({
+  callJsonRpc: vi.fn(async (url: string, method: string) => {
+    if (url.startsWith('https://')) {
+      const pods = [PUBLIC_IP, ...PRIVATE_IPS].map((ip, i) => ({
+        address: `${ip}:9001`,
+        last_seen_timestamp: 1700000000 - i,
+        pubkey: `key-${ip}`,
+        version: '0.8.0',
+      }))
+      return { result: { pods, total_count: pods.length } }
+    }
+    if (method === 'get-version') return { result: { version: '0.8.0' }, latencyMs: 10 }
+    if (method === 'get-pods') return { result: { pods: [], total_count: 0 }, latencyMs: 10 }
+    return { error: { kind: 'network', message: 'down' } }
+  }),
+}))
+
+import { callJsonRpc } from './prpcTransport'
+import { subscribeToNetwork, crawlNodeByKey, type NetworkStreamEvent } from './networkCrawler'
+
+// Subscribe until the first crawl ends
+function crawl(networkId: string): Promise<NetworkStreamEvent[]> {
+  return new Promise(resolve => {
+    const events: NetworkStreamEvent[] = []
+    const unsubscribe = subscribeToNetwork(networkId, event => {
+      events.push(event)
+      if (event.type === 'crawl-end') {
+        unsubscribe?.()
+        resolve(events)
+      }
+    })
+  })
+}
+
+const calledNodeIps = () =>
+  vi.mocked(callJsonRpc).mock.calls
+    .map(([url]) => url)
+    .filter(url => url.startsWith('http://'))
+    .map(url => new URL(url).hostname)
+
+describe('network crawler', () => {
+  beforeEach(() => {
+    vi.mocked(callJsonRpc).mockClear()
+  })
+
+  it('never calls private addresses a registry lists', async () => {
+    const events = await crawl('devnet1')
+
+    expect(new Set(calledNodeIps())).toEqual(new Set([PUBLIC_IP]))
+    const nodes = events.flatMap(event => (event.type === 'node' ? [event.data] : []))
+    expect(nodes.find(n => n.ip === PUBLIC_IP)?.status).toBe('online')
+    PRIVATE_IPS.forEach(ip => {
+      const node = nodes.find(n => n.ip === ip)
+      expect(node?.status).toBe('offline')
+      expect(node?.error).toMatchObject({ kind: 'denied', code: 'PRIVATE_ADDRESS' })
+    })
+  })
+
+  it('does not query a private node looked up by key', async () => {
+    const found = await crawlNodeByKey('10.0.0.5')
+
+    expect(found?.node).toMatchObject({ status: 'offline', error: { kind: 'denied' } })
+    expect(calledNodeIps()).not.toContain('10.0.0.5')
+  })
+})
@@ -0,0 +1,297 @@
+// Server-side network crawler
+// Keeps the latest NodeData set for each network in memory, refreshes it on an
+// interval and publishes per-node updates to subscribers (the SSE stream route)
+
+import { NETWORK_RPC_ENDPOINTS, registryEndpoints } from './networks'
+import { CACHE_TTL } from './indexedDB'
+import { BATCH_LIMITS } from './prpcBatch'
+import { callJsonRpc } from './prpcTransport'
+import { describePrpcError } from './prpcErrors'
+import { latencySampleFrom, withLatency } from './latency'
+import { withFailover } from './registryHealth'
+import { withHealth } from './nodeHealth'
+import { matchesNodeKey } from './nodeLinks'
+import { allowlistContext, evaluateEndpoint } from './prpcAllowlist'
+import {
+  validate,
+  networkPodsSchema,
+  nodeEndpoint,
+  buildNodeData,
+  placeholderNode,
+  type NodeData,
+  type NetworkPod,
+} from './prpc'
+
+// Don't recrawl on a manual refresh if the last crawl finished this recently
+const MIN_REFRESH_INTERVAL = 30 * 1000
+
+export interface NetworkSnapshot {
+  networkId: string
+  pods: NetworkPod[]
+  nodes: NodeData[]
+  crawling: boolean
+  crawledAt: number | null
+  registryError: string | null
+  // Registry endpoint that served the current pod list
+  registryUrl: string | null
+}
+
+// Events published to subscribers (and written to the SSE stream as `event: <type>`)
+export type NetworkStreamEvent =
+  | { type: 'snapshot'; data: NetworkSnapshot }
+  | { type: 'registry'; data: { pods: NetworkPod[]; registryUrl: string } }
+  | { type: 'registry-error'; data: { message: string } }
+  | { type: 'node'; data: NodeData }
+  | { type: 'crawl-start'; data: { startedAt: number; total: number } }
+  | { type: 'crawl-end'; data: { crawledAt: number } }
+
+type Listener = (event: NetworkStreamEvent) => void
+
+interface CrawlerState {
+  networkId: string
+  // Ordered registry endpoints, see registryEndpoints()
+  rpcUrls: string[]
+  registryUrl: string | null
+  pods: NetworkPod[]
+  nodes: Map<string, NodeData>
+  listeners: Set<Listener>
+  timer: ReturnType<typeof setInterval> | null
+  crawl: Promise<void> | null
+  crawledAt: number | null
+  registryError: string | null
+}
+
+const crawlers = new Map<string, CrawlerState>()
+
+function publish(state: CrawlerState, event: NetworkStreamEvent) {
+  state.listeners.forEach(listener => {
+    try {
+      listener(event)
+    } catch {
+      // A broken subscriber must not stop the crawl
+    }
+  })
+}
+
+function getSnapshot(state: CrawlerState): NetworkSnapshot {
+  return {
+    networkId: state.networkId,
+    pods: state.pods,
+    nodes: state.pods.map((pod, idx) => state.nodes.get(pod.address) ?? placeholderNode(pod, idx)),
+    crawling: state.crawl !== null,
+    crawledAt: state.crawledAt,
+    registryError: state.registryError,
+    registryUrl: state.registryUrl,
+  }
+}
+
+async function crawlNode(state: CrawlerState, pod: NetworkPod, index: number) {
+  const ip = pod.address.split(':')[0]
+  const endpoint = nodeEndpoint(ip)
+
+  // Same rules as /api/prpc: a registry listing a private or malformed address must not
+  // make the server call it. The pod comes from the registry, so its IP counts as known.
+  const decision = evaluateEndpoint(endpoint, allowlistContext(new Set([ip])))
+  if (!decision.allowed) {
+    const denied = { error: { kind: 'denied' as const, code: decision.code, message: decision.reason } }
+    const node = withHealth(buildNodeData(pod, index, denied, denied))
+    state.nodes.set(pod.address, node)
+    publish(state, { type: 'node', data: node })
+    return
+  }
+
+  const [versionRes, statsRes] = await Promise.all([
+    callJsonRpc(endpoint, 'get-version', { timeoutMs: BATCH_LIMITS.DEFAULT_TIMEOUT_MS }),
+    callJsonRpc(endpoint, 'get-stats', { timeoutMs: BATCH_LIMITS.DEFAULT_TIMEOUT_MS }),
+  ])
+
+  // Peer lists only come from nodes that answered
+  const online = !versionRes.error || !statsRes.error
+  const podsRes = online
+    ? await callJsonRpc(endpoint, 'get-pods', { timeoutMs: BATCH_LIMITS.DEFAULT_TIMEOUT_MS })
+    : undefined
+
+  const node = withHealth(
+    withLatency(buildNodeData(pod, index, versionRes, statsRes, podsRes), latencySampleFrom(versionRes, statsRes))
+  )
+  state.nodes.set(pod.address, node)
+  publish(state, { type: 'node', data: node })
+}
+
+/**
+ * Read the network's pods from its registry, trying each endpoint in health order.
+ * Returns false when no endpoint returned any.
+ */
+async function loadRegistry(state: CrawlerState): Promise<boolean> {
+  const registry = await withFailover(
+    state.rpcUrls,
+    async url => {
+      const res = await callJsonRpc(url, 'get-pods')
+      if (res.error) return { error: res.error }
+      const parsed = validate(networkPodsSchema, res.result)
+      return parsed.ok ? { result: parsed.value } : { error: parsed.error }
+    },
+    result => result.pods.length > 0
+  )
+
+  if (!registry.result || !registry.endpoint) {
+    state.registryError = registry.error ? describePrpcError(registry.error) : 'No pods found in registry'
+    publish(state, { type: 'registry-error', data: { message: state.registryError } })
+    return false
+  }
+
+  const pods = registry.result.pods.sort((a, b) => b.last_seen_timestamp - a.last_seen_timestamp)
+  state.pods = pods
+  state.registryError = null
+  state.registryUrl = registry.endpoint
+
+  // Forget nodes that dropped out of the registry
+  const addresses = new Set(pods.map(pod => pod.address))
+  state.nodes.forEach((_, address) => {
+    if (!addresses.has(address)) state.nodes.delete(address)
+  })
+  publish(state, { type: 'registry', data: { pods, registryUrl: registry.endpoint } })
+  return true
+}
+
+async function runCrawl(state: CrawlerState) {
+  if (!(await loadRegistry(state))) return
+
+  const pods = state.pods
+  publish(state, { type: 'crawl-start', data: { startedAt: Date.now(), total: pods.length } })
+
+  // Worker pool: each worker pulls the next pod until the queue is drained
+  let next = 0
+  const worker = async () => {
+    while (next < pods.length) {
+      const index = next++
+      await crawlNode(state, pods[index], index)
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(BATCH_LIMITS.DEFAULT_CONCURRENCY, pods.length) }, worker)
+  )
+
+  state.crawledAt = Date.now()
+  publish(state, { type: 'crawl-end', data: { crawledAt: state.crawledAt } })
+}
+
+/**
+ * Start a crawl unless one is already running
+ */
+function startCrawl(state: CrawlerState): Promise<void> {
+  if (!state.crawl) {
+    state.crawl = runCrawl(state)
+      .catch(e => console.error(`Crawl of ${state.networkId} failed:`, e))
+      .finally(() => {
+        state.crawl = null
+      })
+  }
+  return state.crawl
+}
+
+function getCrawler(networkId: string): CrawlerState | null {
+  const existing = crawlers.get(networkId)
+  if (existing) return existing
+
+  const network = NETWORK_RPC_ENDPOINTS.find(n => n.id === networkId)
+  if (!network) return null
+
+  const state: CrawlerState = {
+    networkId,
+    rpcUrls: registryEndpoints(network),
+    registryUrl: null,
+    pods: [],
+    nodes: new Map(),
+    listeners: new Set(),
+    timer: null,
+    crawl: null,
+    crawledAt: null,
+    registryError: null,
+  }
+  crawlers.set(networkId, state)
+  return state
+}
+
+export function isKnownNetwork(networkId: string): boolean {
+  return NETWORK_RPC_ENDPOINTS.some(n => n.id === networkId)
+}
+
+/**
+ * Current data for a network without subscribing, or null if it has never been crawled
+ */
+export function getNetworkSnapshot(networkId: string): NetworkSnapshot | null {
+  const state = crawlers.get(networkId)
+  return state ? getSnapshot(state) : null
+}
+
+/**
+ * A node of any crawled network by pubkey, address or IP, without subscribing. Nodes
+ * that have been crawled win over placeholders for pods not reached yet.
+ */
+export function findCrawledNode(key: string): { snapshot: NetworkSnapshot; node: NodeData } | null {
+  let found: { snapshot: NetworkSnapshot; node: NodeData } | null = null
+  crawlers.forEach(state => {
+    const snapshot = getSnapshot(state)
+    const node = snapshot.nodes.find(n => matchesNodeKey(n, key))
+    if (node && (!found || (found.node.status === 'loading' && node.status !== 'loading'))) {
+      found = { snapshot, node }
+    }
+  })
+  return found
+}
+
+/**
+ * Like findCrawledNode, but for networks that have not been crawled yet: reads the
+ * registries of the built-in networks that have no pods and queries only the matching
+ * node, which then stays in that network's data.
+ */
+export async function crawlNodeByKey(key: string): Promise<{ snapshot: NetworkSnapshot; node: NodeData } | null> {
+  const states = NETWORK_RPC_ENDPOINTS.map(network => getCrawler(network.id)!)
+  await Promise.all(states.map(state => (state.pods.length > 0 ? true : loadRegistry(state))))
+
+  for (const state of states) {
+    const index = state.pods.findIndex((pod, idx) => matchesNodeKey(placeholderNode(pod, idx), key))
+    if (index === -1) continue
+
+    const pod = state.pods[index]
+    if (!state.nodes.has(pod.address)) await crawlNode(state, pod, index)
+    return { snapshot: getSnapshot(state), node: state.nodes.get(pod.address)! }
+  }
+  return null
+}
+
+/**
+ * Subscribe to a network's updates. The listener first receives a snapshot of the
+ * current data; the crawler runs on CACHE_TTL.BACKGROUND_REFRESH while anyone is subscribed.
+ * Returns an unsubscribe function, or null for an unknown network.
+ */
+export function subscribeToNetwork(
+  networkId: string,
+  listener: Listener,
+  { refresh = false }: { refresh?: boolean } = {}
+): (() => void) | null {
+  const state = getCrawler(networkId)
+  if (!state) return null
+
+  state.listeners.add(listener)
+  listener({ type: 'snapshot', data: getSnapshot(state) })
+
+  const age = state.crawledAt === null ? Infinity : Date.now() - state.crawledAt
+  if (age >= CACHE_TTL.BACKGROUND_REFRESH || (refresh && age >= MIN_REFRESH_INTERVAL)) {
+    startCrawl(state)
+  }
+
+  if (!state.timer) {
+    state.timer = setInterval(() => startCrawl(state), CACHE_TTL.BACKGROUND_REFRESH)
+  }
+
+  return () => {
+    state.listeners.delete(listener)
+    // Nobody is watching - stop refreshing but keep the data for the next visitor
+    if (state.listeners.size === 0 && state.timer) {
+      clearInterval(state.timer)
+      state.timer = null
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { describe, it, expect } from 'vitest'
+import { NETWORK_RPC_ENDPOINTS } from './networks'
+import { RPC_ENDPOINTS } from '../proxy-server/lib/networks.js'
+
+describe('built-in networks', () => {
+  it('match the networks the proxy server serves and collects', () => {
+    expect(RPC_ENDPOINTS).toEqual(Object.fromEntries(NETWORK_RPC_ENDPOINTS.map(n => [n.id, n.rpcUrl])))
+  })
+})
@@ -0,0 +1,46 @@
+// Registry RPC endpoints for each pNode network
+// Shared by the client context and the server-side pRPC proxy
+
+export type NetworkType = 'devnet' | 'mainnet' | 'custom'
+
+export interface NetworkConfig {
+  id: string
+  name: string
+  rpcUrl: string
+  // Extra registries tried, in order, when rpcUrl is unhealthy
+  fallbackRpcUrls?: string[]
+  type: NetworkType
+  // Port every pNode in this network exposes pRPC on
+  prpcPort: number
+}
+
+// pRPC port exposed by every pNode
+export const PRPC_PORT = 6000
+
+// Built-in networks. User-defined networks live in IndexedDB (see lib/customNetworks.ts)
+export const NETWORK_RPC_ENDPOINTS: NetworkConfig[] = [
+  { id: 'devnet1', name: 'Devnet 1', rpcUrl: 'https://rpc1.pchednode.com/rpc', type: 'devnet', prpcPort: PRPC_PORT },
+  { id: 'devnet2', name: 'Devnet 2', rpcUrl: 'https://rpc2.pchednode.com/rpc', type: 'devnet', prpcPort: PRPC_PORT },
+  { id: 'mainnet1', name: 'Mainnet 1', rpcUrl: 'https://rpc3.pchednode.com/rpc', type: 'mainnet', prpcPort: PRPC_PORT },
+  { id: 'mainnet2', name: 'Mainnet 2', rpcUrl: 'https://rpc4.pchednode.com/rpc', type: 'mainnet', prpcPort: PRPC_PORT },
+]
+
+export const DEFAULT_NETWORK_ID = NETWORK_RPC_ENDPOINTS[0].id
+
+export function isBuiltInNetwork(id: string): boolean {
+  return NETWORK_RPC_ENDPOINTS.some(n => n.id === id)
+}
+
+/**
+ * Ordered registry endpoints for a network: its own registry, its explicit fallbacks,
+ * then the registries of other networks of the same type (devnet or mainnet)
+ */
+export function registryEndpoints(network: NetworkConfig, networks: NetworkConfig[] = NETWORK_RPC_ENDPOINTS): string[] {
+  const sameType = network.type === 'custom'
+    ? []
+    : networks.filter(n => n.id !== network.id && n.type === network.type).map(n => n.rpcUrl)
+  return Array.from(new Set([network.rpcUrl, ...(network.fallbackRpcUrls ?? []), ...sameType]))
+}
+
+// Response header set by /api/prpc with the proxy-to-node round-trip time
+export const PRPC_LATENCY_HEADER = 'X-Prpc-Latency-Ms'
@@ -0,0 +1,161 @@
+// Per-node health classification beyond online/offline
+// Each crawl adds one observation to a short per-node history; the health state is
+// derived from that history plus the latest result (partial RPC success, latency,
+// stale stats). Like latency windows, the history rides along on NodeData so it
+// survives reloads through the node cache.
+
+import type { NodeLatency } from './latency'
+
+export type NodeHealth = 'healthy' | 'degraded' | 'flapping' | 'offline' | 'unreachable'
+
+export const HEALTH_THRESHOLDS = {
+  // Observations kept per node, and how far back they count
+  WINDOW: 12,
+  WINDOW_MS: 60 * 60 * 1000,
+  // Reachable <-> failed transitions within the window that make a node flapping
+  FLAP_CHANGES: 3,
+  // Consecutive failed observations before an offline node is unreachable
+  UNREACHABLE_AFTER: 3,
+  // Median latency above this marks a node degraded
+  HIGH_LATENCY_MS: 2000,
+  // get-stats last_updated older than this marks a node degraded
+  STALE_STATS_MS: 60 * 60 * 1000,
+} as const
+
+// 'partial' means the node answered some of the crawl's calls but not all
+export type ObservationOutcome = 'ok' | 'partial' | 'failed'
+
+export interface HealthObservation {
+  at: number
+  outcome: ObservationOutcome
+}
+
+export interface NodeHealthState {
+  state: NodeHealth
+  // Human-readable causes, e.g. "get-stats failed"
+  reasons: string[]
+  observations: HealthObservation[]
+}
+
+// Minimal node shape the classifier needs
+interface ObservedNode {
+  address: string
+  status: 'online' | 'offline' | 'loading'
+  version?: unknown
+  stats?: { last_updated: number }
+  latency?: NodeLatency
+  lastFetched?: number
+  health?: NodeHealthState
+}
+
+// Observation history per node address
+const histories = new Map<string, HealthObservation[]>()
+
+function observe(node: ObservedNode): ObservationOutcome {
+  if (node.status === 'offline') return 'failed'
+  return node.version && node.stats ? 'ok' : 'partial'
+}
+
+function countChanges(observations: HealthObservation[]): number {
+  let changes = 0
+  for (let i = 1; i < observations.length; i++) {
+    const wasUp = observations[i - 1].outcome !== 'failed'
+    const isUp = observations[i].outcome !== 'failed'
+    if (wasUp !== isUp) changes++
+  }
+  return changes
+}
+
+/**
+ * Classify a node from its observation history and latest result
+ */
+export function classifyHealth(node: ObservedNode, observations: HealthObservation[], now: number = Date.now()): NodeHealthState {
+  const changes = countChanges(observations)
+  if (changes >= HEALTH_THRESHOLDS.FLAP_CHANGES) {
+    return { state: 'flapping', reasons: [`${changes} status changes in the last hour`], observations }
+  }
+
+  if (node.status === 'offline') {
+    const tail = observations.slice(-HEALTH_THRESHOLDS.UNREACHABLE_AFTER)
+    const unreachable = tail.length >= HEALTH_THRESHOLDS.UNREACHABLE_AFTER && tail.every(o => o.outcome === 'failed')
+    return unreachable
+      ? { state: 'unreachable', reasons: [`No response in the last ${tail.length} crawls`], observations }
+      : { state: 'offline', reasons: ['No response in the latest crawl'], observations }
+  }
+
+  const reasons: string[] = []
+  if (!node.version) reasons.push('get-version failed')
+  if (!node.stats) reasons.push('get-stats failed')
+  if (node.latency && node.latency.medianMs > HEALTH_THRESHOLDS.HIGH_LATENCY_MS) {
+    reasons.push(`High latency (${Math.round(node.latency.medianMs)}ms median)`)
+  }
+  if (node.stats && now - node.stats.last_updated * 1000 > HEALTH_THRESHOLDS.STALE_STATS_MS) {
+    reasons.push('Stats not updated in over an hour')
+  }
+
+  return { state: reasons.length > 0 ? 'degraded' : 'healthy', reasons, observations }
+}
+
+/**
+ * Record the node's latest result and attach its health.
+ * `seed` restores the history from cached node data after a reload.
+ */
+export function withHealth<T extends ObservedNode>(node: T, seed?: NodeHealthState): T {
+  if (node.status === 'loading') return node
+
+  const now = Date.now()
+  const previous = histories.get(node.address) ?? seed?.observations ?? []
+  const observations = [...previous, { at: node.lastFetched ?? now, outcome: observe(node) }]
+    .filter(o => now - o.at <= HEALTH_THRESHOLDS.WINDOW_MS)
+    .slice(-HEALTH_THRESHOLDS.WINDOW)
+  histories.set(node.address, observations)
+
+  return { ...node, health: classifyHealth(node, observations, now) }
+}
+
+/**
+ * Health of a node, falling back to plain reachability for data cached before
+ * health tracking existed
+ */
+export function nodeHealth(node: { status: string; health?: NodeHealthState }): NodeHealth | null {
+  if (node.status === 'loading') return null
+  return node.health?.state ?? (node.status === 'online' ? 'healthy' : 'offline')
+}
+
+export const HEALTH_LABELS: Record<NodeHealth, string> = {
+  healthy: 'Healthy',
+  degraded: 'Degraded',
+  flapping: 'Flapping',
+  offline: 'Offline',
+  unreachable: 'Unreachable',
+}
+
+// Marker colors (globe, legends)
+export const HEALTH_COLORS: Record<NodeHealth, string> = {
+  healthy: '#22c55e',
+  degraded: '#f97316',
+  flapping: '#a855f7',
+  offline: '#ef4444',
+  unreachable: '#7f1d1d',
+}
+
+// 'online' / 'offline' match reachability in the latest crawl, the rest match health
+export type StatusFilter = 'all' | 'online' | 'offline' | Exclude<NodeHealth, 'offline'>
+
+export function matchesStatusFilter(status: string, health: NodeHealth | null, filter: StatusFilter): boolean {
+  if (filter === 'all') return true
+  if (filter === 'online' || filter === 'offline') return status === filter
+  return health === filter
+}
+
+/**
+ * Number of nodes in each health state (loading nodes are not counted)
+ */
+export function countHealth(nodes: Array<{ status: string; health?: NodeHealthState }>): Record<NodeHealth, number> {
+  const counts: Record<NodeHealth, number> = { healthy: 0, degraded: 0, flapping: 0, offline: 0, unreachable: 0 }
+  nodes.forEach(node => {
+    const health = nodeHealth(node)
+    if (health) counts[health]++
+  })
+  return counts
+}
@@ -0,0 +1,25 @@
+// Links to a node's page (/nodes/[key]?network=[id])
+// Nodes are keyed by pubkey, or by address (ip:port) for nodes that don't report one.
+// The network is carried along so the page opens the node on the network it was seen in.
+
+import type { NodeData } from './prpc'
+
+export function nodeKey(node: { pubkey: string | null; address: string }): string {
+  return node.pubkey ?? node.address
+}
+
+export function nodePath(node: { pubkey: string | null; address: string }, networkId?: string): string {
+  return nodeKeyPath(nodeKey(node), networkId)
+}
+
+export function nodeKeyPath(key: string, networkId?: string): string {
+  const path = `/nodes/${encodeURIComponent(key)}`
+  return networkId ? `${path}?network=${encodeURIComponent(networkId)}` : path
+}
+
+/**
+ * Whether `key` (from a node page URL) names the node: its pubkey, address or IP
+ */
+export function matchesNodeKey(node: NodeData, key: string): boolean {
+  return node.pubkey === key || node.address === key || node.ip === key
+}
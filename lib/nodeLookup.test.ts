@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { NodeData } from './prpc'
+
+vi.mock('./networkCrawler', () => ({ findCrawledNode: vi.fn(), crawlNodeByKey: vi.fn() }))
+vi.mock('./historyStore', () => ({ readLatestNodes: vi.fn() }))
+
+import { findCrawledNode, crawlNodeByKey, type NetworkSnapshot } from './networkCrawler'
+import { readLatestNodes } from './historyStore'
+import { lookupNode } from './nodeLookup'
+
+const node = (status: NodeData['status']): NodeData => ({
+  ip: '173.212.203.145',
+  address: '173.212.203.145:9001',
+  label: 'Abc123',
+  pubkey: 'Abc123',
+  registryVersion: '0.8.0',
+  status,
+})
+
+const found = (networkId: string, status: NodeData['status']) => ({
+  snapshot: { networkId } as NetworkSnapshot,
+  node: node(status),
+})
+
+describe('lookupNode', () => {
+  beforeEach(() => {
+    vi.mocked(findCrawledNode).mockReset().mockReturnValue(null)
+    vi.mocked(crawlNodeByKey).mockReset().mockResolvedValue(null)
+    vi.mocked(readLatestNodes).mockReset().mockResolvedValue(null)
+  })
+
+  it('uses crawled data without querying the node', async () => {
+    vi.mocked(findCrawledNode).mockReturnValue(found('mainnet1', 'online'))
+    expect(await lookupNode('Abc123')).toMatchObject({ networkId: 'mainnet1', node: { status: 'online' } })
+    expect(crawlNodeByKey).not.toHaveBeenCalled()
+  })
+
+  it('queries a node the crawler has not reached yet', async () => {
+    vi.mocked(findCrawledNode).mockReturnValue(found('devnet1', 'loading'))
+    vi.mocked(crawlNodeByKey).mockResolvedValue(found('devnet1', 'offline'))
+    expect(await lookupNode('Abc123')).toMatchObject({ networkId: 'devnet1', node: { status: 'offline' } })
+  })
+
+  it('falls back to the latest recorded crawl', async () => {
+    vi.mocked(readLatestNodes).mockImplementation(async networkId =>
+      networkId === 'devnet2' ? { crawledAt: 0, nodes: [node('online')] } : null
+    )
+    expect(await lookupNode('173.212.203.145')).toMatchObject({ networkId: 'devnet2', node: { pubkey: 'Abc123' } })
+  })
+
+  it('stops waiting for a slow registry', async () => {
+    vi.useFakeTimers()
+    try {
+      vi.mocked(crawlNodeByKey).mockReturnValue(new Promise(() => {}))
+      const lookup = lookupNode('Abc123')
+      await vi.advanceTimersByTimeAsync(5000)
+      expect(await lookup).toBeNull()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
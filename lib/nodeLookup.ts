@@ -0,0 +1,57 @@
+// Node lookup for pages rendered on the server (node page metadata and preview image)
+// Uses the server-side crawler's data when it has the node, else finds the node in the
+// registries and queries it directly, else falls back to the latest crawl the history
+// collector recorded.
+
+import { NETWORK_RPC_ENDPOINTS } from './networks'
+import { findCrawledNode, crawlNodeByKey } from './networkCrawler'
+import { readLatestNodes } from './historyStore'
+import { matchesNodeKey } from './nodeLinks'
+import type { NodeData } from './prpc'
+
+// Longest a page waits for the registries and the node before using recorded data.
+// A lookup that runs over keeps going and fills the crawler for the next request.
+const LOOKUP_TIMEOUT_MS = 5000
+
+export interface FoundNode {
+  networkId: string
+  node: NodeData
+}
+
+async function recordedNode(key: string): Promise<FoundNode | null> {
+  for (const network of NETWORK_RPC_ENDPOINTS) {
+    const node = (await readLatestNodes(network.id))?.nodes.find(n => matchesNodeKey(n, key))
+    if (node) return { networkId: network.id, node }
+  }
+  return null
+}
+
+async function liveNode(key: string): Promise<FoundNode | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), LOOKUP_TIMEOUT_MS)
+  })
+  const found = await Promise.race([crawlNodeByKey(key).catch(() => null), timeout])
+  clearTimeout(timer)
+  return found ? { networkId: found.snapshot.networkId, node: found.node } : null
+}
+
+/**
+ * A node of a built-in network by pubkey, address or IP, or null if no registry lists
+ * it and it was never recorded
+ */
+export async function lookupNode(key: string): Promise<FoundNode | null> {
+  const crawled = findCrawledNode(key)
+  if (crawled && crawled.node.status !== 'loading') {
+    return { networkId: crawled.snapshot.networkId, node: crawled.node }
+  }
+
+  const live = await liveNode(key)
+  if (live && live.node.status !== 'loading') return live
+
+  const recorded = await recordedNode(key)
+  if (recorded) return recorded
+
+  // A registry lists the node, but it has not answered yet
+  return live ?? (crawled && { networkId: crawled.snapshot.networkId, node: crawled.node })
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { NodeData } from './prpc'
+
+const WATCHED = 'watched-key'
+
+vi.mock('./indexedDB', async importOriginal => {
+  const db = new Map<string, unknown>()
+  return {
+    ...(await importOriginal<typeof import('./indexedDB')>()),
+    getFromDB: vi.fn(async (store: string, key: string) => db.get(`${store}/${key}`) ?? null),
+    setToDB: vi.fn(async (store: string, key: string, data: unknown) => {
+      db.set(`${store}/${key}`, data)
+    }),
+  }
+})
+
+vi.mock('./favorites', () => ({
+  getFavorites: vi.fn(async () => new Set([WATCHED])),
+}))
+
+vi.mock('./annotations', () => ({
+  getAnnotations: vi.fn(async () => new Map()),
+  findAnnotation: vi.fn(() => undefined),
+  nodeDisplayName: vi.fn((node: { label: string }) => node.label),
+}))
+
+import { checkWatchedNodes, loadNotifications, DEFAULT_WATCH_SETTINGS } from './notifications'
+
+const MINUTE = 60 * 1000
+const START = Date.parse('2026-01-01T00:00:00Z')
+
+const node = (address: string, pubkey: string, status: NodeData['status'], peers?: string[]): NodeData => ({
+  ip: address.split(':')[0],
+  address,
+  label: pubkey,
+  pubkey,
+  registryVersion: '0.8.0',
+  status,
+  pods: peers && {
+    pods: peers.map(peer => ({ address: peer, version: '0.8.0', last_seen_timestamp: START / 1000 })),
+    total_count: peers.length,
+  },
+})
+
+const watched = (status: NodeData['status'], peers?: string[]) => node('1.1.1.1:9001', WATCHED, status, peers)
+
+// Runs the check for one crawl `minutes` after START
+async function check(networkId: string, minutes: number, nodes: NodeData[]) {
+  vi.setSystemTime(START + minutes * MINUTE)
+  await checkWatchedNodes(networkId, nodes)
+}
+
+async function events(networkId: string): Promise<string[]> {
+  const log = await loadNotifications()
+  return log.filter(n => n.network === networkId).reverse().map(n => n.event)
+}
+
+describe('checkWatchedNodes', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('notifies a flapping node once per debounce window', async () => {
+    const debounce = DEFAULT_WATCH_SETTINGS.debounceMinutes
+    await check('flapping', 0, [watched('online')])
+    await check('flapping', 5, [watched('offline')])
+    await check('flapping', 10, [watched('online')])
+    await check('flapping', 15, [watched('offline')])
+    await check('flapping', 20, [watched('online')])
+
+    expect(await events('flapping')).toEqual(['offline', 'online'])
+
+    await check('flapping', 5 + debounce, [watched('offline')])
+    expect(await events('flapping')).toEqual(['offline', 'online', 'offline'])
+  })
+
+  it('treats the first observation of a node as a baseline', async () => {
+    await check('baseline', 0, [watched('offline')])
+    expect(await events('baseline')).toEqual([])
+  })
+
+  it('only reports a gossip drop when most online nodes returned a peer list', async () => {
+    const peer = (n: number, peers?: string[]) => node(`2.2.2.${n}:9001`, `peer-${n}`, 'online', peers)
+
+    await check('gossip', 0, [watched('online', []), peer(1, ['1.1.1.1:9001']), peer(2, ['1.1.1.1:9001']), peer(3)])
+    // One peer list out of four online nodes: the others may just have failed get-pods
+    await check('gossip', 10, [watched('online'), peer(1, []), peer(2), peer(3)])
+    expect(await events('gossip')).toEqual([])
+
+    await check('gossip', 20, [watched('online', []), peer(1, []), peer(2, []), peer(3)])
+    expect(await events('gossip')).toEqual(['gossip'])
+  })
+})
@@ -0,0 +1,338 @@
+// Watch mode for favorited nodes
+// After every crawl, each favorited node is compared with how the previous crawl of the
+// same network saw it. Transitions (going offline, coming back, falling behind the
+// latest version, restarting, CPU/RAM crossing a threshold, dropping out of every
+// peer's gossip) are logged to the notification center and, once the user has allowed
+// it, shown as Web Notifications. The same event for the same node is not repeated
+// within the debounce window, so a flapping node notifies once.
+
+import { STORES, cacheKeys, getFromDB, setToDB } from './indexedDB'
+import { getFavorites } from './favorites'
+import { getAnnotations, findAnnotation, nodeDisplayName } from './annotations'
+import { findLatestVersion, getVersionStatus, type VersionStatus } from './version'
+import { discoverFromGossip, peerSightings } from './gossip'
+import { restartedSince } from './restarts'
+import { nodePath } from './nodeLinks'
+import type { NodeData } from './prpc'
+
+export type WatchEvent = 'offline' | 'online' | 'outdated' | 'restart' | 'cpu' | 'ram' | 'gossip'
+
+export const WATCH_EVENTS: Array<{ event: WatchEvent; label: string; description: string }> = [
+  { event: 'offline', label: 'Offline', description: 'Node stops responding' },
+  { event: 'online', label: 'Back online', description: 'Node responds again after being offline' },
+  { event: 'outdated', label: 'Outdated', description: 'Node falls behind the latest version' },
+  { event: 'restart', label: 'Restart', description: 'Node uptime resets' },
+  { event: 'cpu', label: 'High CPU', description: 'CPU usage rises above the threshold' },
+  { event: 'ram', label: 'High RAM', description: 'RAM usage rises above the threshold' },
+  { event: 'gossip', label: 'Gossip drop', description: 'No peer lists the node anymore' },
+]
+
+export const NOTIFICATION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+export const MAX_NOTIFICATIONS = 200
+
+// Dispatched on window whenever the notification log or the watch settings change
+export const NOTIFICATIONS_CHANGED_EVENT = 'notificationschange'
+
+// Settings and watch state are kept until overwritten
+const WATCH_TTL = 10 * 365 * 24 * 60 * 60 * 1000
+
+// Gossip drops are only judged when at least this share of the online nodes returned
+// a peer list; with fewer (cached nodes, failed get-pods calls) every node looks unlisted
+const GOSSIP_MIN_PEER_LISTS = 0.5
+
+export interface WatchSettings {
+  // Log events for favorited nodes
+  enabled: boolean
+  // Also show them as browser notifications (needs permission)
+  browser: boolean
+  events: Record<WatchEvent, boolean>
+  // Percent
+  cpuThreshold: number
+  ramThreshold: number
+  // The same event for the same node is not repeated within this window
+  debounceMinutes: number
+}
+
+export const DEFAULT_WATCH_SETTINGS: WatchSettings = {
+  enabled: true,
+  browser: false,
+  events: { offline: true, online: true, outdated: true, restart: true, cpu: true, ram: true, gossip: true },
+  cpuThreshold: 90,
+  ramThreshold: 90,
+  debounceMinutes: 30,
+}
+
+export interface WatchNotification {
+  id: string
+  at: number
+  network: string
+  // Node key (pubkey) and address at the time of the event
+  nodeKey: string
+  address: string
+  // Nickname or label at the time of the event
+  label: string
+  event: WatchEvent
+  message: string
+  read: boolean
+}
+
+// How a crawl saw a watched node
+interface WatchObservation {
+  online: boolean
+  version: VersionStatus
+  // Latest stats sample (ms) and its uptime (seconds)
+  sampledAt?: number
+  uptime?: number
+  cpu?: number
+  ram?: number
+  // Peers listing the node, when any peer list was read
+  peers?: number
+}
+
+interface WatchState {
+  // Per node key
+  nodes: Record<string, WatchObservation>
+  // Last notification time per `${nodeKey}:${event}`
+  notified: Record<string, number>
+}
+
+const watchStates = new Map<string, WatchState | null>()
+let settingsCache: WatchSettings | null = null
+// Checks run one at a time, so crawls finishing together don't both see the same transition
+let checkQueue: Promise<void> = Promise.resolve()
+
+function notifyChanged() {
+  if (typeof window !== 'undefined') window.dispatchEvent(new Event(NOTIFICATIONS_CHANGED_EVENT))
+}
+
+// ============================================
+// Settings
+// ============================================
+
+export async function loadWatchSettings(): Promise<WatchSettings> {
+  if (settingsCache) return settingsCache
+  const stored = await getFromDB<Partial<WatchSettings>>(STORES.META, cacheKeys.watchSettings())
+  settingsCache = {
+    ...DEFAULT_WATCH_SETTINGS,
+    ...stored,
+    events: { ...DEFAULT_WATCH_SETTINGS.events, ...stored?.events },
+  }
+  return settingsCache
+}
+
+export async function saveWatchSettings(settings: WatchSettings): Promise<void> {
+  settingsCache = settings
+  await setToDB(STORES.META, cacheKeys.watchSettings(), settings, WATCH_TTL)
+  notifyChanged()
+}
+
+export function browserNotificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window
+}
+
+/**
+ * Ask for permission to show browser notifications. Resolves to whether they are allowed.
+ */
+export async function requestBrowserNotifications(): Promise<boolean> {
+  if (!browserNotificationsSupported()) return false
+  if (Notification.permission === 'granted') return true
+  if (Notification.permission === 'denied') return false
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+// ============================================
+// Notification log
+// ============================================
+
+export async function loadNotifications(): Promise<WatchNotification[]> {
+  const log = await getFromDB<WatchNotification[]>(STORES.HISTORY, cacheKeys.notificationLog())
+  const cutoff = Date.now() - NOTIFICATION_RETENTION_MS
+  return (log ?? []).filter(notification => notification.at >= cutoff)
+}
+
+async function updateNotifications(next: (log: WatchNotification[]) => WatchNotification[]): Promise<void> {
+  const log = next(await loadNotifications())
+  await setToDB(STORES.HISTORY, cacheKeys.notificationLog(), log.slice(0, MAX_NOTIFICATIONS), NOTIFICATION_RETENTION_MS)
+  notifyChanged()
+}
+
+/**
+ * Mark the given notifications as read, or all of them when `ids` is omitted
+ */
+export async function markNotificationsRead(ids?: string[]): Promise<void> {
+  const marked = ids ? new Set(ids) : null
+  await updateNotifications(log =>
+    log.map(notification => (!marked || marked.has(notification.id) ? { ...notification, read: true } : notification))
+  )
+}
+
+export async function clearNotifications(): Promise<void> {
+  await updateNotifications(() => [])
+}
+
+// ============================================
+// Detection
+// ============================================
+
+function observe(
+  node: NodeData,
+  previous: WatchObservation | undefined,
+  latestVersion: string | null,
+  peers: number | undefined,
+  at: number
+): WatchObservation {
+  if (node.status !== 'online') return { ...previous, online: false, version: previous?.version ?? 'unknown' }
+
+  const stats = node.stats
+  return {
+    online: true,
+    version: getVersionStatus(node.version?.version, latestVersion),
+    sampledAt: stats ? Math.min(node.lastFetched ?? at, at) : previous?.sampledAt,
+    uptime: stats ? stats.uptime : previous?.uptime,
+    cpu: stats ? stats.cpu_percent : previous?.cpu,
+    ram: stats && stats.ram_total > 0 ? (stats.ram_used / stats.ram_total) * 100 : previous?.ram,
+    peers: peers ?? previous?.peers,
+  }
+}
+
+/**
+ * Events between two observations of a node, with their messages
+ */
+function transitions(
+  previous: WatchObservation,
+  current: WatchObservation,
+  settings: WatchSettings,
+  latestVersion: string | null
+): Array<{ event: WatchEvent; message: string }> {
+  const events: Array<{ event: WatchEvent; message: string }> = []
+
+  if (previous.online && !current.online) events.push({ event: 'offline', message: 'went offline' })
+  if (!previous.online && current.online) events.push({ event: 'online', message: 'is back online' })
+  if (!current.online) return events
+
+  if (previous.version === 'latest' && current.version === 'outdated') {
+    events.push({ event: 'outdated', message: `is behind the latest version ${latestVersion}` })
+  }
+
+  if (
+    previous.sampledAt !== undefined &&
+    previous.uptime !== undefined &&
+    current.sampledAt !== undefined &&
+    current.uptime !== undefined &&
+    current.sampledAt > previous.sampledAt &&
+    restartedSince({ sampledAt: previous.sampledAt, uptime: previous.uptime }, current.uptime, current.sampledAt)
+  ) {
+    events.push({ event: 'restart', message: 'restarted' })
+  }
+
+  const crossed = (before: number | undefined, after: number | undefined, threshold: number) =>
+    before !== undefined && after !== undefined && before <= threshold && after > threshold
+  if (crossed(previous.cpu, current.cpu, settings.cpuThreshold)) {
+    events.push({ event: 'cpu', message: `CPU at ${current.cpu!.toFixed(1)}% (threshold ${settings.cpuThreshold}%)` })
+  }
+  if (crossed(previous.ram, current.ram, settings.ramThreshold)) {
+    events.push({ event: 'ram', message: `RAM at ${current.ram!.toFixed(1)}% (threshold ${settings.ramThreshold}%)` })
+  }
+
+  if (previous.peers !== undefined && previous.peers > 0 && current.peers === 0) {
+    events.push({ event: 'gossip', message: 'is no longer listed by any peer' })
+  }
+
+  return events
+}
+
+function showBrowserNotification(notification: WatchNotification, node: NodeData) {
+  if (!browserNotificationsSupported() || Notification.permission !== 'granted') return
+  try {
+    const shown = new Notification(`${notification.label} · ${notification.network}`, {
+      body: `${notification.label} ${notification.message}`,
+      tag: `${notification.nodeKey}:${notification.event}`,
+    })
+    shown.onclick = () => {
+      window.focus()
+      window.location.href = nodePath(node, notification.network)
+    }
+  } catch {
+    // Some browsers only allow notifications from a service worker
+  }
+}
+
+async function checkNetwork(networkId: string, nodes: NodeData[]): Promise<void> {
+  const favorites = await getFavorites()
+  const watched = nodes.filter(node => node.pubkey && favorites.has(node.pubkey) && node.status !== 'loading')
+
+  const key = cacheKeys.watchState(networkId)
+  const previous = watchStates.has(key) ? watchStates.get(key) ?? null : await getFromDB<WatchState>(STORES.META, key)
+  if (watched.length === 0 && !previous) return
+
+  const at = Date.now()
+  const settings = await loadWatchSettings()
+  const latestVersion = findLatestVersion(nodes.map(node => node.version?.version).filter((v): v is string => !!v))
+  const discovery = discoverFromGossip([], nodes)
+  const onlineCount = nodes.filter(node => node.status === 'online').length
+  const peersFetched = onlineCount > 0 && discovery.peerLists >= onlineCount * GOSSIP_MIN_PEER_LISTS
+  const debounceMs = settings.debounceMinutes * 60 * 1000
+
+  const next: WatchState = { nodes: {}, notified: {} }
+  const fired: Array<{ notification: WatchNotification; node: NodeData }> = []
+  let annotations: Awaited<ReturnType<typeof getAnnotations>> | null = null
+
+  for (const node of watched) {
+    const nodeKey = node.pubkey!
+    const before = previous?.nodes[nodeKey]
+    const current = observe(
+      node,
+      before,
+      latestVersion,
+      peersFetched ? peerSightings(discovery, node.address) : undefined,
+      at
+    )
+    next.nodes[nodeKey] = current
+    // A node's first observation is only a baseline
+    if (!before || !settings.enabled) continue
+
+    for (const { event, message } of transitions(before, current, settings, latestVersion)) {
+      if (!settings.events[event]) continue
+      const lastNotified = previous?.notified[`${nodeKey}:${event}`]
+      if (lastNotified !== undefined && at - lastNotified < debounceMs) continue
+
+      annotations ??= await getAnnotations()
+      fired.push({
+        node,
+        notification: {
+          id: `${at}_${nodeKey}_${event}`,
+          at,
+          network: networkId,
+          nodeKey,
+          address: node.address,
+          label: nodeDisplayName(node, findAnnotation(annotations, node)),
+          event,
+          message,
+          read: false,
+        },
+      })
+      next.notified[`${nodeKey}:${event}`] = at
+    }
+  }
+
+  // Keep debounce timestamps that are still within the window
+  Object.entries(previous?.notified ?? {}).forEach(([notifiedKey, time]) => {
+    if (!(notifiedKey in next.notified) && at - time < debounceMs) next.notified[notifiedKey] = time
+  })
+
+  watchStates.set(key, next)
+  await setToDB(STORES.META, key, next, WATCH_TTL)
+
+  if (fired.length === 0) return
+  await updateNotifications(log => [...fired.map(({ notification }) => notification).reverse(), ...log])
+  if (settings.browser) fired.forEach(({ notification, node }) => showBrowserNotification(notification, node))
+}
+
+/**
+ * Compare the favorited nodes of the latest crawl of `networkId` with the previous one
+ * and notify about what changed
+ */
+export function checkWatchedNodes(networkId: string, nodes: NodeData[]): Promise<void> {
+  checkQueue = checkQueue.then(() => checkNetwork(networkId, nodes)).catch(() => {})
+  return checkQueue
+}
@@ -0,0 +1,263 @@
+// Pod credits: the podcredits.xandeum.network API and credit snapshots over time
+// The API only reports cumulative credits per pod, so credits earned in a time window
+// are the difference between the current credits and a snapshot from the window start.
+
+export const POD_CREDITS_API = 'https://podcredits.xandeum.network/api/pods-credits'
+
+export interface PodCredit {
+  pod_id: string
+  credits: number
+}
+
+export interface PodCreditsResponse {
+  pods_credits: PodCredit[]
+  status: string
+}
+
+/**
+ * Credits per pubkey, or null when the response is not a successful one
+ */
+export function podCreditsMap(data: PodCreditsResponse): Map<string, number> | null {
+  if (data.status !== 'success' || !data.pods_credits) return null
+  const credits = new Map<string, number>()
+  data.pods_credits.forEach(pc => credits.set(pc.pod_id, pc.credits))
+  return credits
+}
+
+// ============================================
+// Snapshots
+// ============================================
+
+export interface CreditSnapshot {
+  timestamp: string
+  // Cumulative credits per pubkey
+  credits: Record<string, number>
+}
+
+// Long enough to compare the last 30 days with the 30 days before
+export const CREDIT_HISTORY_RETENTION_MS = 61 * 24 * 60 * 60 * 1000
+
+// Snapshots are recorded at most this often
+export const CREDIT_SNAPSHOT_MS = 60 * 60 * 1000
+
+export type CreditInterval = '1h' | '6h' | '1d'
+
+export const CREDIT_INTERVAL_MS: Record<CreditInterval, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+}
+
+export function isCreditInterval(value: unknown): value is CreditInterval {
+  return typeof value === 'string' && value in CREDIT_INTERVAL_MS
+}
+
+export function creditSnapshot(credits: Map<string, number>, at: number = Date.now()): CreditSnapshot {
+  return { timestamp: new Date(at).toISOString(), credits: Object.fromEntries(credits) }
+}
+
+/**
+ * Keep the last snapshot of every `interval` bucket, oldest first
+ */
+export function thinCreditSnapshots(snapshots: CreditSnapshot[], interval: CreditInterval): CreditSnapshot[] {
+  const bucketMs = CREDIT_INTERVAL_MS[interval]
+  const buckets = new Map<number, CreditSnapshot>()
+  snapshots.forEach(snapshot => {
+    const time = Date.parse(snapshot.timestamp)
+    const start = time - (time % bucketMs)
+    const current = buckets.get(start)
+    if (!current || Date.parse(current.timestamp) <= time) buckets.set(start, snapshot)
+  })
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, snapshot]) => snapshot)
+}
+
+/**
+ * Snapshots restricted to one pod's credits (pods without credits are dropped)
+ */
+export function podCreditSnapshots(snapshots: CreditSnapshot[], pubkey: string): CreditSnapshot[] {
+  return snapshots.flatMap(snapshot =>
+    pubkey in snapshot.credits ? [{ timestamp: snapshot.timestamp, credits: { [pubkey]: snapshot.credits[pubkey] } }] : []
+  )
+}
+
+// ============================================
+// Window rankings
+// ============================================
+
+export type CreditWindow = '24h' | '7d' | '30d'
+
+export const CREDIT_WINDOW_MS: Record<CreditWindow, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+}
+
+// Snapshot resolution to load for a window (covering the previous window too)
+export const CREDIT_WINDOW_INTERVALS: Record<CreditWindow, CreditInterval> = {
+  '24h': '1h',
+  '7d': '6h',
+  '30d': '1d',
+}
+
+export interface CreditWindowRanking {
+  // Credits earned in the window per pubkey
+  earned: Map<string, number>
+  // Rank by credits earned in the previous window; pods without data there are missing
+  previousRanks: Map<string, number>
+  // Start of the window actually covered; later than the window start while history is short
+  since: string | null
+  // Whether the history reaches back to the window start
+  complete: boolean
+}
+
+/**
+ * Latest snapshot at or before `time`
+ */
+function snapshotAt(snapshots: CreditSnapshot[], time: number): CreditSnapshot | null {
+  let found: CreditSnapshot | null = null
+  for (const snapshot of snapshots) {
+    if (Date.parse(snapshot.timestamp) > time) break
+    found = snapshot
+  }
+  return found
+}
+
+/**
+ * Credits earned by `pubkeys` in the `window` before `now`, and their ranks among each
+ * other in the window before that. `snapshots` must be oldest first. Without a snapshot
+ * from the window start, the oldest snapshot is used instead and `since` says how much
+ * of the window is covered. Pods missing from the start snapshot joined later and earned all
+ * their credits in the window.
+ */
+export function rankCreditWindow(
+  snapshots: CreditSnapshot[],
+  current: Map<string, number>,
+  pubkeys: string[],
+  window: CreditWindow,
+  now: number = Date.now()
+): CreditWindowRanking {
+  const windowMs = CREDIT_WINDOW_MS[window]
+  const start = snapshotAt(snapshots, now - windowMs) ?? snapshots[0] ?? null
+  const previousStart = snapshotAt(snapshots, now - 2 * windowMs)
+
+  const earned = new Map<string, number>()
+  pubkeys.forEach(pubkey => {
+    earned.set(pubkey, (current.get(pubkey) ?? 0) - (start?.credits[pubkey] ?? 0))
+  })
+
+  const previousRanks = new Map<string, number>()
+  if (start && previousStart && previousStart !== start) {
+    pubkeys
+      .filter(pubkey => pubkey in start.credits)
+      .map(pubkey => ({ pubkey, earned: start.credits[pubkey] - (previousStart.credits[pubkey] ?? 0) }))
+      .sort((a, b) => b.earned - a.earned)
+      .forEach(({ pubkey }, index) => previousRanks.set(pubkey, index + 1))
+  }
+
+  return {
+    earned,
+    previousRanks,
+    since: start?.timestamp ?? null,
+    complete: !!start && Date.parse(start.timestamp) <= now - windowMs,
+  }
+}
+
+// ============================================
+// Earning rate and projections
+// ============================================
+
+export interface CreditPoint {
+  time: number
+  credits: number
+}
+
+// Credits that have not changed for this long are considered stalled
+export const CREDIT_STALL_MS = 6 * 60 * 60 * 1000
+
+// How far ahead the leaderboard projects ranks, and how much history the trend is fit to
+export const CREDIT_PROJECTION_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * One pod's credits over time, oldest first. `current` (the latest API value) is
+ * appended at `now` so the series ends at the present.
+ */
+export function creditSeries(
+  snapshots: CreditSnapshot[],
+  pubkey: string,
+  current?: number,
+  now: number = Date.now()
+): CreditPoint[] {
+  const points = snapshots.flatMap(snapshot =>
+    pubkey in snapshot.credits ? [{ time: Date.parse(snapshot.timestamp), credits: snapshot.credits[pubkey] }] : []
+  )
+  if (current !== undefined) points.push({ time: now, credits: current })
+  return points
+}
+
+/**
+ * Least-squares slope of the series in credits per hour; null without two points
+ * at different times
+ */
+export function creditRate(points: CreditPoint[]): number | null {
+  if (points.length < 2) return null
+  const hours = points.map(p => p.time / (60 * 60 * 1000))
+  const meanX = hours.reduce((sum, x) => sum + x, 0) / points.length
+  const meanY = points.reduce((sum, p) => sum + p.credits, 0) / points.length
+
+  let covariance = 0
+  let variance = 0
+  points.forEach((p, i) => {
+    covariance += (hours[i] - meanX) * (p.credits - meanY)
+    variance += (hours[i] - meanX) ** 2
+  })
+  return variance > 0 ? covariance / variance : null
+}
+
+/**
+ * Whether the latest credits have been unchanged for at least CREDIT_STALL_MS.
+ * Callers should only flag pods whose node is online.
+ */
+export function creditsStalled(points: CreditPoint[]): boolean {
+  if (points.length < 2) return false
+  const last = points[points.length - 1]
+  let runStart = last.time
+  for (let i = points.length - 2; i >= 0 && points[i].credits === last.credits; i--) {
+    runStart = points[i].time
+  }
+  return last.time - runStart >= CREDIT_STALL_MS
+}
+
+export interface CreditTrend {
+  // Credits per hour over the fitted history
+  rate: number | null
+  stalled: boolean
+  // Rank by total credits if every pod keeps its rate for CREDIT_PROJECTION_MS
+  projectedRank: number
+}
+
+/**
+ * Trend of every pod in `pubkeys`, fit to `snapshots` (oldest first). Pods without a
+ * rate are projected to keep their current credits.
+ */
+export function creditTrends(
+  snapshots: CreditSnapshot[],
+  current: Map<string, number>,
+  pubkeys: string[],
+  now: number = Date.now()
+): Map<string, CreditTrend> {
+  const hours = CREDIT_PROJECTION_MS / (60 * 60 * 1000)
+  const fits = pubkeys.map(pubkey => {
+    const credits = current.get(pubkey) ?? 0
+    const points = creditSeries(snapshots, pubkey, current.get(pubkey), now)
+    const rate = creditRate(points)
+    return { pubkey, rate, stalled: creditsStalled(points), projected: credits + (rate ?? 0) * hours }
+  })
+
+  const trends = new Map<string, CreditTrend>()
+  fits
+    .sort((a, b) => b.projected - a.projected)
+    .forEach(({ pubkey, rate, stalled }, index) => trends.set(pubkey, { rate, stalled, projectedRank: index + 1 }))
+  return trends
+}
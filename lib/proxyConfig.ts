@@ -10,6 +10,13 @@ export const PROXY_URL = process.env.NEXT_PUBLIC_PROXY_URL || '';
 // Whether to use the proxy server
 export const USE_PROXY = !!PROXY_URL;
 
+// Whether this Next.js server runs its own history collector (lib/historyCollector.ts).
+// Without the proxy, the history endpoints below then resolve to this app's /api routes.
+export const HISTORY_COLLECTOR = process.env.NEXT_PUBLIC_HISTORY_COLLECTOR === 'true';
+
+// Whether history comes from an API (proxy or in-app collector) rather than browser-local storage
+export const USE_HISTORY_API = USE_PROXY || HISTORY_COLLECTOR;
+
 // Valid periods and intervals for historical data
 export type HistoryPeriod = '1h' | '6h' | '24h' | '7d' | '30d';
 export type HistoryInterval = '1m' | '5m' | '15m' | '1h' | '6h';
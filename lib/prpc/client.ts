@@ -0,0 +1,165 @@
+// Browser-side pRPC client
+// Calls go through /api/prpc (or the external proxy for registries) and results are
+// validated against the response schemas before they reach the UI
+
+import { PRPC_PORT, PRPC_LATENCY_HEADER } from '../networks'
+import { PROXY_URL, USE_PROXY, proxyEndpoints } from '../proxyConfig'
+import { normalizePrpcError, type PrpcError } from '../prpcErrors'
+import { withFailover, type FailoverAttempt } from '../registryHealth'
+import { validate, type Schema } from './schema'
+import { versionSchema, statsSchema, podsSchema, networkPodsSchema } from './responses'
+import type { VersionResponse, StatsResponse, PodsResponse, NetworkPodsResponse } from './types'
+
+export interface PrpcResult<T = unknown> {
+  result?: T
+  error?: PrpcError
+  // Proxy-to-node round-trip time reported by /api/prpc
+  latencyMs?: number
+  // Full browser round trip (browser -> proxy -> node)
+  browserMs?: number
+}
+
+export function nodeEndpoint(ip: string, port: number = PRPC_PORT): string {
+  return `http://${ip}:${port}/rpc`
+}
+
+/**
+ * Validate a raw result against a schema. Transport errors pass through unchanged.
+ */
+export function parseResult<T>(res: PrpcResult, schema: Schema<T>): PrpcResult<T> {
+  if (res.error) return { ...res, result: undefined }
+  const parsed = validate(schema, res.result)
+  return parsed.ok
+    ? { ...res, result: parsed.value }
+    : { ...res, result: undefined, error: parsed.error }
+}
+
+// Schemas for the methods the app calls, used to validate batch results too
+export const METHOD_SCHEMAS = {
+  'get-version': versionSchema,
+  'get-stats': statsSchema,
+  'get-pods': podsSchema,
+} as const
+
+/**
+ * Raw JSON-RPC call through the local /api/prpc proxy
+ */
+export async function callPrpc(endpoint: string, method: string, params?: unknown): Promise<PrpcResult> {
+  try {
+    const startedAt = performance.now()
+    const response = await fetch('/api/prpc', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ endpoint, method, params }),
+    })
+    const timing = {
+      latencyMs: Number(response.headers.get(PRPC_LATENCY_HEADER)) || undefined,
+      browserMs: Math.round(performance.now() - startedAt),
+    }
+
+    // Denied and upstream errors come back with a structured error body
+    const data = await response.json().catch(() => null)
+    if (data?.error) return { error: normalizePrpcError(data.error), ...timing }
+    if (!response.ok) {
+      return { error: { kind: 'http_status', status: response.status, message: `HTTP ${response.status}` } }
+    }
+    return { result: data?.result, ...timing }
+  } catch (e) {
+    return { error: { kind: 'network', message: e instanceof Error ? e.message : 'Unknown error' } }
+  }
+}
+
+interface RegistryCallOptions {
+  // Also try fetching the registry directly from the browser (can pass a Cloudflare JS challenge)
+  direct?: boolean
+}
+
+/**
+ * Call a registry RPC endpoint: external proxy first when configured,
+ * optionally a direct browser fetch, then the local proxy
+ */
+export async function callRegistry(
+  rpcUrl: string,
+  method: string,
+  { direct = false }: RegistryCallOptions = {}
+): Promise<PrpcResult> {
+  if (USE_PROXY && PROXY_URL) {
+    try {
+      const response = await fetch(proxyEndpoints.rpc(), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint: rpcUrl, method }),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        if (data.result) return { result: data.result }
+        if (data.error) return { error: normalizePrpcError(data.error) }
+      }
+    } catch {
+      // External proxy failed, continue to fallback
+    }
+  }
+
+  if (direct) {
+    try {
+      const response = await fetch(rpcUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', method, id: 1 }),
+      })
+      if (response.ok) {
+        const data = await response.json()
+        if (data.result) return { result: data.result }
+        if (data.error) return { error: normalizePrpcError(data.error) }
+      }
+    } catch {
+      // Direct fetch failed (CORS or network error), try local proxy
+    }
+  }
+
+  return callPrpc(rpcUrl, method)
+}
+
+// ============================================
+// Typed methods
+// ============================================
+
+export async function getVersion(ip: string): Promise<PrpcResult<VersionResponse>> {
+  return parseResult(await callPrpc(nodeEndpoint(ip), 'get-version'), versionSchema)
+}
+
+export async function getStats(ip: string): Promise<PrpcResult<StatsResponse>> {
+  return parseResult(await callPrpc(nodeEndpoint(ip), 'get-stats'), statsSchema)
+}
+
+export async function getPods(ip: string): Promise<PrpcResult<PodsResponse>> {
+  return parseResult(await callPrpc(nodeEndpoint(ip), 'get-pods'), podsSchema)
+}
+
+export async function getRegistryPods(
+  rpcUrl: string,
+  options?: RegistryCallOptions
+): Promise<PrpcResult<NetworkPodsResponse>> {
+  return parseResult(await callRegistry(rpcUrl, 'get-pods', options), networkPodsSchema)
+}
+
+export interface RegistryPodsResult extends PrpcResult<NetworkPodsResponse> {
+  // Registry endpoint that served the pods
+  endpoint?: string
+  attempts: FailoverAttempt[]
+}
+
+/**
+ * get-pods with failover: registries are tried in health order (see lib/registryHealth.ts)
+ * until one returns a non-empty pod list
+ */
+export async function getRegistryPodsWithFailover(
+  rpcUrls: string[],
+  options?: RegistryCallOptions
+): Promise<RegistryPodsResult> {
+  return withFailover(
+    rpcUrls,
+    url => getRegistryPods(url, options),
+    result => result.pods.length > 0
+  )
+}
@@ -0,0 +1,28 @@
+export type {
+  VersionResponse,
+  StatsResponse,
+  Pod,
+  PodsResponse,
+  NetworkPod,
+  NetworkPodsResponse,
+  NodeStatus,
+  NodeLocation,
+  NodeData,
+} from './types'
+export {
+  nodeEndpoint,
+  parseResult,
+  callPrpc,
+  callRegistry,
+  getVersion,
+  getStats,
+  getPods,
+  getRegistryPods,
+  getRegistryPodsWithFailover,
+  METHOD_SCHEMAS,
+  type PrpcResult,
+  type RegistryPodsResult,
+} from './client'
+export { versionSchema, statsSchema, podsSchema, networkPodsSchema } from './responses'
+export { validate, SchemaError, type Schema, type ValidationResult } from './schema'
+export { buildNodeData, placeholderNode } from './node'
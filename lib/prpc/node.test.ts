@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { buildNodeData } from './node'
+import type { NetworkPod } from './types'
+
+const pod: NetworkPod = { address: '173.212.203.145:9001', last_seen_timestamp: 1700000000, pubkey: 'Abc123', version: '0.8.0' }
+
+const stats = {
+  active_streams: 1, cpu_percent: 5, current_index: 0, file_size: 0, last_updated: 0, packets_received: 0,
+  packets_sent: 0, ram_total: 100, ram_used: 50, total_bytes: 0, total_pages: 0, uptime: 3600,
+}
+const peers = { pods: [{ address: '1.2.3.4:9001', version: '0.8.0', last_seen_timestamp: 1700000000 }], total_count: 1 }
+
+describe('buildNodeData', () => {
+  it('attaches the peer list of an online node', () => {
+    const node = buildNodeData(pod, 0, { result: { version: '0.8.0' } }, { result: stats }, { result: peers })
+    expect(node.status).toBe('online')
+    expect(node.pods?.pods.map(p => p.address)).toEqual(['1.2.3.4:9001'])
+  })
+
+  it('leaves pods unset when get-pods was not called or failed', () => {
+    expect(buildNodeData(pod, 0, { result: { version: '0.8.0' } }, { result: stats }).pods).toBeUndefined()
+    const failed = buildNodeData(pod, 0, { result: { version: '0.8.0' } }, { result: stats }, { error: { kind: 'network', message: 'down' } })
+    expect(failed.pods).toBeUndefined()
+  })
+
+  it('drops peers of an offline node', () => {
+    const timeout = { error: { kind: 'timeout' as const, message: 'Timed out' } }
+    const node = buildNodeData(pod, 0, timeout, timeout, { result: peers })
+    expect(node.status).toBe('offline')
+    expect(node.pods).toBeUndefined()
+  })
+})
@@ -0,0 +1,53 @@
+// Build NodeData from pRPC results
+
+import { parseResult, type PrpcResult } from './client'
+import { versionSchema, statsSchema, podsSchema } from './responses'
+import type { NetworkPod, NodeData } from './types'
+
+/**
+ * Placeholder shown while a pod's node data has not been fetched yet
+ */
+export function placeholderNode(pod: NetworkPod, index: number): NodeData {
+  return {
+    ip: pod.address.split(':')[0],
+    address: pod.address,
+    label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${index + 1}`,
+    pubkey: pod.pubkey,
+    registryVersion: pod.version,
+    status: 'loading',
+  }
+}
+
+/**
+ * Build node data from raw get-version / get-stats (and optionally get-pods) results.
+ * A node is offline when neither get-version nor get-stats produced a valid payload.
+ */
+export function buildNodeData(
+  pod: NetworkPod,
+  index: number,
+  versionRes: PrpcResult,
+  statsRes: PrpcResult,
+  podsRes?: PrpcResult
+): NodeData {
+  const baseData = placeholderNode(pod, index)
+  const version = parseResult(versionRes, versionSchema)
+  const stats = parseResult(statsRes, statsSchema)
+
+  if (version.error && stats.error) {
+    return {
+      ...baseData,
+      status: 'offline',
+      error: version.error,
+      lastFetched: Date.now(),
+    }
+  }
+
+  return {
+    ...baseData,
+    status: 'online',
+    version: version.result,
+    stats: stats.result,
+    pods: podsRes ? parseResult(podsRes, podsSchema).result : undefined,
+    lastFetched: Date.now(),
+  }
+}
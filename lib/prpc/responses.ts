@@ -0,0 +1,115 @@
+// Schemas for get-version, get-stats and get-pods results
+
+import {
+  number,
+  string,
+  optional,
+  nullable,
+  withDefault,
+  object,
+  array,
+  transform,
+  isRecord,
+  type Schema,
+} from './schema'
+import type {
+  VersionResponse,
+  StatsResponse,
+  Pod,
+  PodsResponse,
+  NetworkPod,
+  NetworkPodsResponse,
+} from './types'
+
+export const versionSchema: Schema<VersionResponse> = object({
+  version: string,
+})
+
+// Shape returned by current pNodes: every field at the top level
+const flatStatsSchema: Schema<StatsResponse> = object({
+  active_streams: number,
+  cpu_percent: number,
+  current_index: withDefault(number, 0),
+  file_size: number,
+  last_updated: number,
+  packets_received: number,
+  packets_sent: number,
+  ram_total: number,
+  ram_used: number,
+  total_bytes: number,
+  total_pages: number,
+  uptime: number,
+})
+
+// Shape documented in docs/pNodeRpc.md: { metadata: {...}, stats: {...}, file_size }
+const nestedStatsSchema: Schema<StatsResponse> = transform(
+  object({
+    metadata: object({
+      total_bytes: number,
+      total_pages: number,
+      last_updated: number,
+      current_index: optional(number),
+    }),
+    stats: object({
+      cpu_percent: number,
+      ram_used: number,
+      ram_total: number,
+      uptime: number,
+      packets_received: number,
+      packets_sent: number,
+      active_streams: number,
+      current_index: optional(number),
+    }),
+    file_size: number,
+  }),
+  ({ metadata, stats, file_size }) => ({
+    active_streams: stats.active_streams,
+    cpu_percent: stats.cpu_percent,
+    current_index: metadata.current_index ?? stats.current_index ?? 0,
+    file_size,
+    last_updated: metadata.last_updated,
+    packets_received: stats.packets_received,
+    packets_sent: stats.packets_sent,
+    ram_total: stats.ram_total,
+    ram_used: stats.ram_used,
+    total_bytes: metadata.total_bytes,
+    total_pages: metadata.total_pages,
+    uptime: stats.uptime,
+  })
+)
+
+export const statsSchema: Schema<StatsResponse> = (value, path) =>
+  isRecord(value) && isRecord(value.stats)
+    ? nestedStatsSchema(value, path)
+    : flatStatsSchema(value, path)
+
+const podSchema: Schema<Pod> = object({
+  address: string,
+  version: withDefault(string, 'unknown'),
+  last_seen: optional(string),
+  last_seen_timestamp: number,
+  pubkey: optional(nullable(string)),
+})
+
+export const podsSchema: Schema<PodsResponse> = transform(
+  object({
+    pods: array(podSchema),
+    total_count: optional(number),
+  }),
+  ({ pods, total_count }) => ({ pods, total_count: total_count ?? pods.length })
+)
+
+const networkPodSchema: Schema<NetworkPod> = object({
+  address: string,
+  last_seen_timestamp: number,
+  pubkey: withDefault(nullable(string), null),
+  version: withDefault(string, 'unknown'),
+})
+
+export const networkPodsSchema: Schema<NetworkPodsResponse> = transform(
+  object({
+    pods: array(networkPodSchema),
+    total_count: optional(number),
+  }),
+  ({ pods, total_count }) => ({ pods, total_count: total_count ?? pods.length })
+)
@@ -0,0 +1,100 @@
+// Minimal runtime schemas for pRPC responses
+// Each schema either returns a typed value or throws a SchemaError with the offending path
+
+import type { PrpcError } from '../prpcErrors'
+
+export class SchemaError extends Error {
+  constructor(readonly path: string, message: string) {
+    super(message)
+    this.name = 'SchemaError'
+  }
+}
+
+export type Schema<T> = (value: unknown, path: string) => T
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SchemaError(path, `expected number, got ${describe(value)}`)
+  }
+  return value
+}
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') {
+    throw new SchemaError(path, `expected string, got ${describe(value)}`)
+  }
+  return value
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : schema(value, path))
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === null ? null : schema(value, path))
+}
+
+// Missing (undefined) values fall back to a default
+export function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+  return (value, path) => (value === undefined ? fallback : schema(value, path))
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path) => {
+    if (!isRecord(value)) {
+      throw new SchemaError(path, `expected object, got ${describe(value)}`)
+    }
+    const out: Record<string, unknown> = {}
+    for (const key of Object.keys(shape)) {
+      out[key] = shape[key](value[key], `${path}.${key}`)
+    }
+    return out as { [K in keyof S]: Infer<S[K]> }
+  }
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError(path, `expected array, got ${describe(value)}`)
+    }
+    return value.map((v, i) => item(v, `${path}[${i}]`))
+  }
+}
+
+export function transform<T, U>(schema: Schema<T>, fn: (value: T) => U): Schema<U> {
+  return (value, path) => fn(schema(value, path))
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: PrpcError }
+
+/**
+ * Run a schema against an untrusted value, turning failures into a typed PrpcError
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, root: string = 'result'): ValidationResult<T> {
+  try {
+    return { ok: true, value: schema(value, root) }
+  } catch (e) {
+    if (e instanceof SchemaError) {
+      return {
+        ok: false,
+        error: { kind: 'invalid_response', path: e.path, message: `${e.path}: ${e.message}` },
+      }
+    }
+    throw e
+  }
+}
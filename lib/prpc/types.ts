@@ -0,0 +1,80 @@
+// Normalized pRPC response models and the node model shared across the app
+
+import type { PrpcError } from '../prpcErrors'
+import type { NodeLatency } from '../latency'
+import type { NodeHealthState } from '../nodeHealth'
+
+// get-version
+export interface VersionResponse {
+  version: string
+}
+
+// get-stats (flat shape - nested metadata/stats responses are normalized into this)
+export interface StatsResponse {
+  active_streams: number
+  cpu_percent: number
+  current_index: number
+  file_size: number
+  last_updated: number
+  packets_received: number
+  packets_sent: number
+  ram_total: number
+  ram_used: number
+  total_bytes: number
+  total_pages: number
+  uptime: number
+}
+
+// A peer from a pNode's get-pods list
+export interface Pod {
+  address: string
+  version: string
+  last_seen?: string
+  last_seen_timestamp: number
+  pubkey?: string | null
+}
+
+// get-pods
+export interface PodsResponse {
+  pods: Pod[]
+  total_count: number
+}
+
+// A pod from a registry's get-pods list
+export interface NetworkPod {
+  address: string
+  last_seen_timestamp: number
+  pubkey: string | null
+  version: string
+}
+
+export interface NetworkPodsResponse {
+  pods: NetworkPod[]
+  total_count: number
+}
+
+export type NodeStatus = 'online' | 'offline' | 'loading'
+
+export interface NodeLocation {
+  city: string
+  country: string
+  countryCode?: string
+}
+
+export interface NodeData {
+  ip: string
+  address: string
+  label: string
+  pubkey: string | null
+  registryVersion: string
+  status: NodeStatus
+  version?: VersionResponse
+  stats?: StatsResponse
+  pods?: PodsResponse
+  error?: PrpcError
+  latency?: NodeLatency
+  // Derived from recent crawls (degraded, flapping, unreachable...)
+  health?: NodeHealthState
+  lastFetched?: number
+  location?: NodeLocation
+}
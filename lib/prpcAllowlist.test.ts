@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateEndpoint, isPrivateAddress, type AllowlistContext } from './prpcAllowlist'
+import { NETWORK_RPC_ENDPOINTS, PRPC_PORT } from './networks'
+
+const GOSSIP_IP = '173.212.203.145'
+
+const ctx: AllowlistContext = {
+  registryUrls: NETWORK_RPC_ENDPOINTS.map(n => n.rpcUrl),
+  knownNodeIps: new Set([GOSSIP_IP]),
+  allowPrivate: false,
+  nodePorts: [PRPC_PORT],
+}
+
+describe('evaluateEndpoint', () => {
+  it('allows every registry URL', () => {
+    NETWORK_RPC_ENDPOINTS.forEach(network => {
+      expect(evaluateEndpoint(network.rpcUrl, ctx)).toEqual({ allowed: true, kind: 'registry' })
+    })
+  })
+
+  it('allows a gossip IP on the pRPC port and path', () => {
+    expect(evaluateEndpoint(`http://${GOSSIP_IP}:6000/rpc`, ctx)).toEqual({ allowed: true, kind: 'node' })
+  })
+
+  it('denies an IP that is not in gossip', () => {
+    expect(evaluateEndpoint('http://8.8.8.8:6000/rpc', ctx)).toMatchObject({ allowed: false, code: 'UNKNOWN_NODE' })
+  })
+
+  it('denies a gossip IP on another port or path', () => {
+    expect(evaluateEndpoint(`http://${GOSSIP_IP}:22/rpc`, ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+    expect(evaluateEndpoint(`http://${GOSSIP_IP}:6000/admin`, ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+    expect(evaluateEndpoint(`http://${GOSSIP_IP}:6000/rpc?x=1`, ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+    expect(evaluateEndpoint(`https://${GOSSIP_IP}:6000/rpc`, ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+  })
+
+  it('denies other hostnames on a registry host', () => {
+    expect(evaluateEndpoint('https://rpc1.pchednode.com/admin', ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+    expect(evaluateEndpoint('https://example.com/rpc', ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+  })
+
+  it('denies non-http schemes and malformed endpoints', () => {
+    expect(evaluateEndpoint(`ftp://${GOSSIP_IP}:6000/rpc`, ctx)).toMatchObject({ allowed: false, code: 'INVALID_ENDPOINT' })
+    expect(evaluateEndpoint('file:///etc/passwd', ctx)).toMatchObject({ allowed: false, code: 'INVALID_ENDPOINT' })
+    expect(evaluateEndpoint('not a url', ctx)).toMatchObject({ allowed: false, code: 'INVALID_ENDPOINT' })
+    expect(evaluateEndpoint('', ctx)).toMatchObject({ allowed: false, code: 'INVALID_ENDPOINT' })
+    expect(evaluateEndpoint(42, ctx)).toMatchObject({ allowed: false, code: 'INVALID_ENDPOINT' })
+  })
+
+  it('denies private, loopback and link-local addresses', () => {
+    const addresses = ['127.0.0.1', '10.0.0.5', '172.16.3.4', '192.168.1.10', '169.254.169.254', '[::1]', '[fe80::1]', 'localhost']
+    addresses.forEach(host => {
+      expect(evaluateEndpoint(`http://${host}:6000/rpc`, ctx)).toMatchObject({ allowed: false, code: 'PRIVATE_ADDRESS' })
+    })
+  })
+
+  it('allows private pNodes only when explicitly enabled', () => {
+    expect(evaluateEndpoint('http://192.168.1.10:6000/rpc', { ...ctx, allowPrivate: true }))
+      .toEqual({ allowed: true, kind: 'node' })
+  })
+
+  it('denies URLs with credentials, even for known hosts', () => {
+    expect(evaluateEndpoint(`http://user:pass@${GOSSIP_IP}:6000/rpc`, ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+    expect(evaluateEndpoint('https://user@rpc1.pchednode.com/rpc', ctx)).toMatchObject({ allowed: false, code: 'ENDPOINT_NOT_ALLOWED' })
+  })
+})
+
+describe('isPrivateAddress', () => {
+  it('flags non-routable IPv4 and IPv6 addresses', () => {
+    ['0.0.0.0', '100.64.0.1', '224.0.0.1', '::', '::ffff:10.0.0.1', 'fd00::1', 'node.localhost'].forEach(host => {
+      expect(isPrivateAddress(host)).toBe(true)
+    })
+  })
+
+  it('accepts public addresses', () => {
+    ['8.8.8.8', '172.32.0.1', '100.128.0.1', '2001:4860:4860::8888', 'rpc1.pchednode.com'].forEach(host => {
+      expect(isPrivateAddress(host)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,260 @@
+// Endpoint allowlist for the server-side pRPC proxy
+// Only registry RPC URLs and pNodes currently present in gossip may be reached,
+// so the proxy cannot be used as an open relay into internal networks.
+
+import { NETWORK_RPC_ENDPOINTS, PRPC_PORT } from './networks'
+
+export type PrpcDenyCode =
+  | 'INVALID_ENDPOINT'      // Not a parseable http(s) URL
+  | 'PRIVATE_ADDRESS'       // Loopback, private or link-local target
+  | 'ENDPOINT_NOT_ALLOWED'  // Wrong scheme/port/path, or a hostname that isn't a registry
+  | 'UNKNOWN_NODE'          // Well-formed pNode URL whose IP is not in the gossip set
+
+export type EndpointDecision =
+  | { allowed: true; kind: 'registry' | 'node' }
+  | { allowed: false; code: PrpcDenyCode; reason: string }
+
+export interface AllowlistContext {
+  registryUrls: string[]
+  knownNodeIps: Set<string>
+  allowPrivate: boolean
+  // pRPC ports pNode endpoints may use
+  nodePorts: number[]
+}
+
+// Set PRPC_ALLOW_PRIVATE_ENDPOINTS=true to reach pNodes on a local network during development
+export const ALLOW_PRIVATE_ENDPOINTS = process.env.PRPC_ALLOW_PRIVATE_ENDPOINTS === 'true'
+
+// Registries of user-defined networks the proxy may reach, comma-separated
+// (e.g. PRPC_EXTRA_REGISTRIES=https://rpc.my-cluster.example/rpc)
+export const EXTRA_REGISTRY_URLS = (process.env.PRPC_EXTRA_REGISTRIES || '')
+  .split(',')
+  .map(url => url.trim())
+  .filter(Boolean)
+
+// Extra pRPC ports for pNodes of user-defined networks, comma-separated
+export const EXTRA_PRPC_PORTS = (process.env.PRPC_EXTRA_PORTS || '')
+  .split(',')
+  .map(port => parseInt(port, 10))
+  .filter(port => Number.isInteger(port) && port > 0 && port <= 65535)
+
+function allowedRegistryUrls(): string[] {
+  return [...NETWORK_RPC_ENDPOINTS.map(n => n.rpcUrl), ...EXTRA_REGISTRY_URLS]
+}
+
+// HTTP status returned to the caller for each deny code
+export const DENY_STATUS: Record<PrpcDenyCode, number> = {
+  INVALID_ENDPOINT: 400,
+  PRIVATE_ADDRESS: 403,
+  ENDPOINT_NOT_ALLOWED: 403,
+  UNKNOWN_NODE: 403,
+}
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/
+
+function parseIPv4(host: string): number[] | null {
+  const match = host.match(IPV4_PATTERN)
+  if (!match) return null
+  const octets = match.slice(1).map(n => parseInt(n, 10))
+  return octets.every(o => o <= 255) ? octets : null
+}
+
+/**
+ * Check whether a host is a loopback, private, link-local or otherwise
+ * non-routable address (IPv4 or IPv6 literal, or localhost)
+ */
+export function isPrivateAddress(host: string): boolean {
+  const h = host.toLowerCase().replace(/^\[|\]$/g, '')
+
+  if (h === 'localhost' || h.endsWith('.localhost')) return true
+
+  const v4 = parseIPv4(h)
+  if (v4) {
+    const [a, b] = v4
+    return (
+      a === 0 ||                              // 0.0.0.0/8 "this network"
+      a === 10 ||                             // 10.0.0.0/8
+      a === 127 ||                            // 127.0.0.0/8 loopback
+      (a === 100 && b >= 64 && b <= 127) ||   // 100.64.0.0/10 carrier-grade NAT
+      (a === 169 && b === 254) ||             // 169.254.0.0/16 link-local
+      (a === 172 && b >= 16 && b <= 31) ||    // 172.16.0.0/12
+      (a === 192 && b === 168) ||             // 192.168.0.0/16
+      a >= 224                                // multicast and reserved
+    )
+  }
+
+  if (h.includes(':')) {
+    // IPv4-mapped IPv6 (::ffff:10.0.0.1)
+    const mapped = h.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+    if (mapped) return isPrivateAddress(mapped[1])
+    return (
+      h === '::' ||
+      h === '::1' ||
+      /^fe[89ab]/.test(h) ||  // fe80::/10 link-local
+      /^f[cd]/.test(h)        // fc00::/7 unique local
+    )
+  }
+
+  return false
+}
+
+function normalizeUrl(url: string): string {
+  try {
+    return new URL(url).href
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Decide whether the proxy may forward a request to an endpoint.
+ * Pure function of its inputs so allow/deny rules can be checked in isolation.
+ */
+export function evaluateEndpoint(endpoint: unknown, ctx: AllowlistContext): EndpointDecision {
+  if (typeof endpoint !== 'string' || !endpoint) {
+    return { allowed: false, code: 'INVALID_ENDPOINT', reason: 'Endpoint must be a non-empty string' }
+  }
+
+  let url: URL
+  try {
+    url = new URL(endpoint)
+  } catch {
+    return { allowed: false, code: 'INVALID_ENDPOINT', reason: 'Endpoint is not a valid URL' }
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { allowed: false, code: 'INVALID_ENDPOINT', reason: `Unsupported protocol ${url.protocol}` }
+  }
+
+  if (url.username || url.password) {
+    return { allowed: false, code: 'ENDPOINT_NOT_ALLOWED', reason: 'Credentials in endpoint URL are not allowed' }
+  }
+
+  // Registry endpoints are matched exactly
+  const href = normalizeUrl(endpoint)
+  if (ctx.registryUrls.some(r => normalizeUrl(r) === href)) {
+    return { allowed: true, kind: 'registry' }
+  }
+
+  const host = url.hostname
+  const isPrivate = isPrivateAddress(host)
+  if (isPrivate && !ctx.allowPrivate) {
+    return { allowed: false, code: 'PRIVATE_ADDRESS', reason: `Private or loopback address ${host} is not allowed` }
+  }
+
+  // Anything else must be http://<ip>:<pRPC port>/rpc
+  const isNodeShape =
+    url.protocol === 'http:' &&
+    ctx.nodePorts.some(port => url.port === String(port)) &&
+    url.pathname === '/rpc' &&
+    !url.search &&
+    parseIPv4(host) !== null
+
+  if (!isNodeShape) {
+    return {
+      allowed: false,
+      code: 'ENDPOINT_NOT_ALLOWED',
+      reason: `Only registry endpoints and http://<ip>:${ctx.nodePorts.join('|')}/rpc pNode endpoints are allowed`,
+    }
+  }
+
+  // Local development nodes are never in public gossip
+  if (!isPrivate && !ctx.knownNodeIps.has(host)) {
+    return { allowed: false, code: 'UNKNOWN_NODE', reason: `${host} is not a known pNode in gossip` }
+  }
+
+  return { allowed: true, kind: 'node' }
+}
+
+// ============================================
+// Gossip IP set (cached across requests)
+// ============================================
+
+export type PodsLoader = (registryUrl: string) => Promise<Array<{ address: string }> | null>
+
+const GOSSIP_TTL = 5 * 60 * 1000        // Full refresh interval
+const GOSSIP_MIN_REFRESH = 30 * 1000    // Earliest re-fetch when an unknown IP shows up
+
+let knownIps: Set<string> = new Set()
+let knownIpsFetchedAt = 0
+let inflight: Promise<Set<string>> | null = null
+
+async function refreshKnownNodeIps(loadPods: PodsLoader): Promise<Set<string>> {
+  if (inflight) return inflight
+
+  inflight = (async () => {
+    const results = await Promise.all(
+      allowedRegistryUrls().map(url => loadPods(url).catch(() => null))
+    )
+
+    // Keep the previous set if every registry failed
+    if (results.every(r => r === null)) {
+      knownIpsFetchedAt = Date.now()
+      return knownIps
+    }
+
+    const next = new Set<string>()
+    results.forEach(pods => {
+      pods?.forEach(pod => {
+        const ip = pod.address?.split(':')[0]
+        if (ip) next.add(ip)
+      })
+    })
+
+    knownIps = next
+    knownIpsFetchedAt = Date.now()
+    return knownIps
+  })()
+
+  try {
+    return await inflight
+  } finally {
+    inflight = null
+  }
+}
+
+/**
+ * Get the union of pNode IPs from every registry's get-pods list
+ */
+export async function getKnownNodeIps(loadPods: PodsLoader): Promise<Set<string>> {
+  if (Date.now() - knownIpsFetchedAt > GOSSIP_TTL) {
+    return refreshKnownNodeIps(loadPods)
+  }
+  return knownIps
+}
+
+/**
+ * Context with the configured registries, private-address setting and pRPC ports.
+ * The server-side crawler passes the pods of the registry it is crawling as the known nodes.
+ */
+export function allowlistContext(knownNodeIps: Set<string>): AllowlistContext {
+  return {
+    registryUrls: allowedRegistryUrls(),
+    knownNodeIps,
+    allowPrivate: ALLOW_PRIVATE_ENDPOINTS,
+    nodePorts: [PRPC_PORT, ...EXTRA_PRPC_PORTS],
+  }
+}
+
+/**
+ * Evaluate an endpoint against the registry list and current gossip set.
+ * An unknown node triggers one early refresh of the gossip set before being rejected.
+ */
+export async function checkEndpoint(endpoint: unknown, loadPods: PodsLoader): Promise<EndpointDecision> {
+  const ctx = allowlistContext(knownIps)
+
+  // Cheap structural checks first, without touching the network
+  const structural = evaluateEndpoint(endpoint, ctx)
+  if (structural.allowed || structural.code !== 'UNKNOWN_NODE') return structural
+
+  ctx.knownNodeIps = await getKnownNodeIps(loadPods)
+  const decision = evaluateEndpoint(endpoint, ctx)
+  if (decision.allowed || decision.code !== 'UNKNOWN_NODE') return decision
+
+  if (Date.now() - knownIpsFetchedAt > GOSSIP_MIN_REFRESH) {
+    ctx.knownNodeIps = await refreshKnownNodeIps(loadPods)
+    return evaluateEndpoint(endpoint, ctx)
+  }
+
+  return decision
+}
@@ -0,0 +1,145 @@
+// Client for the /api/prpc/batch fan-out route
+// Sends many pRPC calls in one request and receives results as an NDJSON stream
+
+import { PRPC_PORT } from './networks'
+import type { PrpcError } from './prpcErrors'
+
+// Limits shared with the server route
+export const BATCH_LIMITS = {
+  MAX_CALLS: 2000,
+  DEFAULT_CONCURRENCY: 24,
+  MAX_CONCURRENCY: 64,
+  DEFAULT_TIMEOUT_MS: 5000,
+  MAX_TIMEOUT_MS: 15000,
+} as const
+
+export interface PrpcCall {
+  endpoint: string
+  method: string
+  params?: unknown
+  id?: string | number
+}
+
+export interface PrpcBatchRequest {
+  calls: PrpcCall[]
+  concurrency?: number
+  timeoutMs?: number
+}
+
+// One line of the NDJSON response stream
+export interface PrpcBatchResult {
+  index: number
+  id: string | number | null
+  endpoint: string
+  method: string
+  result?: unknown
+  error?: PrpcError
+  // Proxy-to-node round-trip time
+  latencyMs?: number
+}
+
+interface StreamOptions {
+  concurrency?: number
+  timeoutMs?: number
+  signal?: AbortSignal
+}
+
+/**
+ * Run a batch of pRPC calls through the server and invoke `onResult` as each one finishes.
+ * Resolves with the set of call indexes that produced a result line, so callers can
+ * detect calls that never completed (e.g. if the stream was cut off).
+ */
+export async function streamPrpcBatch(
+  calls: PrpcCall[],
+  onResult: (result: PrpcBatchResult) => void,
+  { concurrency, timeoutMs, signal }: StreamOptions = {}
+): Promise<Set<number>> {
+  const completed = new Set<number>()
+  if (calls.length === 0) return completed
+
+  const body: PrpcBatchRequest = { calls, concurrency, timeoutMs }
+  const response = await fetch('/api/prpc/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  })
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Batch request failed: HTTP ${response.status}`)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffered = ''
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return
+    try {
+      const result = JSON.parse(line) as PrpcBatchResult
+      completed.add(result.index)
+      onResult(result)
+    } catch {
+      // Ignore malformed lines
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffered += decoder.decode(value, { stream: true })
+
+    let newline = buffered.indexOf('\n')
+    while (newline !== -1) {
+      handleLine(buffered.slice(0, newline))
+      buffered = buffered.slice(newline + 1)
+      newline = buffered.indexOf('\n')
+    }
+  }
+  handleLine(buffered + decoder.decode())
+
+  return completed
+}
+
+/**
+ * Build the standard per-node crawl calls for a list of pNode IPs
+ */
+export function buildNodeCalls(ips: string[], methods: string[], port: number = PRPC_PORT): PrpcCall[] {
+  const calls: PrpcCall[] = []
+  methods.forEach(method => {
+    ips.forEach(ip => {
+      calls.push({ endpoint: `http://${ip}:${port}/rpc`, method })
+    })
+  })
+  return calls
+}
+
+export type NodeCallResults = Partial<Record<string, { result?: unknown; error?: PrpcError; latencyMs?: number }>>
+
+/**
+ * Crawl a set of pNodes with one batch request.
+ * `onUpdate` is called each time a result arrives, with everything received so far for that IP.
+ */
+export async function crawlNodes(
+  ips: string[],
+  methods: string[],
+  onUpdate: (ip: string, results: NodeCallResults) => void,
+  { port, ...options }: StreamOptions & { port?: number } = {}
+): Promise<void> {
+  const byIp = new Map<string, NodeCallResults>()
+
+  await streamPrpcBatch(buildNodeCalls(ips, methods, port), (res) => {
+    let ip: string
+    try {
+      ip = new URL(res.endpoint).hostname
+    } catch {
+      return
+    }
+    const results = byIp.get(ip) ?? {}
+    results[res.method] = res.error !== undefined
+      ? { error: res.error, latencyMs: res.latencyMs }
+      : { result: res.result, latencyMs: res.latencyMs }
+    byIp.set(ip, results)
+    onUpdate(ip, results)
+  }, options)
+}
@@ -0,0 +1,107 @@
+// Structured pRPC error types shared by the server proxy and the client
+// Lets the UI tell "method not found" apart from a timeout or a Cloudflare block
+
+import type { PrpcDenyCode } from './prpcAllowlist'
+
+export type PrpcError =
+  | { kind: 'timeout'; message: string; timeoutMs?: number }
+  | { kind: 'connection_refused'; message: string }
+  | { kind: 'cloudflare_challenge'; message: string }
+  | { kind: 'invalid_json'; message: string }
+  // Valid JSON that does not match the expected result schema
+  | { kind: 'invalid_response'; message: string; path: string }
+  | { kind: 'http_status'; message: string; status: number }
+  | { kind: 'network'; message: string }
+  | { kind: 'denied'; message: string; code: PrpcDenyCode }
+  // JSON-RPC error object returned by the pNode itself
+  | { kind: 'rpc'; message: string; code: number; data?: unknown }
+
+export type PrpcErrorKind = PrpcError['kind']
+
+// Well-known JSON-RPC 2.0 error codes
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const
+
+export const PRPC_ERROR_LABELS: Record<PrpcErrorKind, string> = {
+  timeout: 'Timed out',
+  connection_refused: 'Connection refused',
+  cloudflare_challenge: 'Blocked by Cloudflare',
+  invalid_json: 'Invalid JSON',
+  invalid_response: 'Unexpected response',
+  http_status: 'HTTP error',
+  network: 'Network error',
+  denied: 'Not allowed',
+  rpc: 'RPC error',
+}
+
+function isPrpcError(value: unknown): value is PrpcError {
+  return !!value && typeof value === 'object' &&
+    typeof (value as { kind?: unknown }).kind === 'string' &&
+    (value as { kind: string }).kind in PRPC_ERROR_LABELS
+}
+
+/**
+ * Coerce any error shape into a PrpcError:
+ * - an existing PrpcError is returned as-is
+ * - a JSON-RPC error object ({ code, message }) becomes kind 'rpc'
+ * - a plain string (legacy cached data) becomes kind 'network'
+ */
+export function normalizePrpcError(value: unknown): PrpcError {
+  if (isPrpcError(value)) return value
+
+  if (value && typeof value === 'object') {
+    const obj = value as { code?: unknown; message?: unknown; data?: unknown }
+    if (typeof obj.code === 'number') {
+      return {
+        kind: 'rpc',
+        code: obj.code,
+        message: typeof obj.message === 'string' ? obj.message : 'RPC error',
+        data: obj.data,
+      }
+    }
+    if (typeof obj.message === 'string') {
+      return { kind: 'network', message: obj.message }
+    }
+  }
+
+  if (typeof value === 'string' && value) {
+    return { kind: 'network', message: value }
+  }
+
+  return { kind: 'network', message: 'Unknown error' }
+}
+
+/**
+ * Human-readable one-line description of why a call failed
+ */
+export function describePrpcError(error: PrpcError | string | undefined | null): string {
+  if (!error) return 'Node offline'
+  const e = normalizePrpcError(error)
+
+  switch (e.kind) {
+    case 'timeout':
+      return e.timeoutMs ? `Timed out after ${(e.timeoutMs / 1000).toFixed(0)}s` : 'Timed out'
+    case 'connection_refused':
+      return 'Connection refused'
+    case 'cloudflare_challenge':
+      return 'Blocked by Cloudflare challenge'
+    case 'invalid_json':
+      return 'Invalid JSON response'
+    case 'invalid_response':
+      return `Unexpected response (${e.path})`
+    case 'http_status':
+      return `HTTP ${e.status}`
+    case 'denied':
+      return `Not allowed (${e.code})`
+    case 'rpc':
+      return `RPC error ${e.code}: ${e.message}`
+    case 'network':
+    default:
+      return e.message
+  }
+}
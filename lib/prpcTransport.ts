@@ -0,0 +1,211 @@
+// Server-side HTTP transport for pRPC calls
+// Shared by /api/prpc and /api/prpc/batch
+
+import http from 'http'
+import { normalizePrpcError, type PrpcError } from './prpcErrors'
+
+// Browser-like headers to avoid Cloudflare blocks
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept': 'application/json, text/plain, */*',
+  'Accept-Language': 'en-US,en;q=0.9',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Cache-Control': 'no-cache',
+  'Pragma': 'no-cache',
+}
+
+// Default timeouts (in milliseconds)
+export const PRPC_TIMEOUT = {
+  HTTP: 5000,   // Plain HTTP pNodes - short for faster offline detection
+  HTTPS: 10000, // Registry endpoints behind Cloudflare
+} as const
+
+export interface TransportResult {
+  data?: unknown
+  error?: PrpcError
+  // Round-trip time from the proxy to the endpoint
+  latencyMs?: number
+}
+
+function isConnectionRefused(e: unknown): boolean {
+  const err = e as { code?: string; cause?: { code?: string } } | null
+  return err?.code === 'ECONNREFUSED' || err?.cause?.code === 'ECONNREFUSED'
+}
+
+// Parse a response body; non-JSON error pages become an HTTP status error
+function parseBody(text: string, status: number): TransportResult {
+  try {
+    return { data: JSON.parse(text) }
+  } catch {
+    if (status >= 400) {
+      return { error: { kind: 'http_status', status, message: `HTTP ${status}` } }
+    }
+    return { error: { kind: 'invalid_json', message: 'Invalid JSON response' } }
+  }
+}
+
+// Use fetch for HTTPS endpoints (better Cloudflare compatibility)
+async function makeFetchRequest(
+  url: string,
+  data: object,
+  timeoutMs: number
+): Promise<TransportResult> {
+  try {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...BROWSER_HEADERS,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+      signal: controller.signal,
+    })
+
+    clearTimeout(timeoutId)
+
+    const text = await response.text()
+
+    // Check if response is Cloudflare challenge
+    if (text.includes('Just a moment') || text.includes('cf_chl_opt') || text.includes('challenge-platform')) {
+      return {
+        error: {
+          kind: 'cloudflare_challenge',
+          message: 'Cloudflare challenge detected - endpoint may be blocking server requests',
+        },
+      }
+    }
+
+    return parseBody(text, response.status)
+  } catch (e) {
+    if (e instanceof Error && e.name === 'AbortError') {
+      return { error: { kind: 'timeout', message: 'Request timeout', timeoutMs } }
+    }
+    if (isConnectionRefused(e)) {
+      return { error: { kind: 'connection_refused', message: 'Connection refused' } }
+    }
+    return { error: { kind: 'network', message: `Fetch error: ${e instanceof Error ? e.message : 'Unknown'}` } }
+  }
+}
+
+// Native http for plain HTTP endpoints (faster for pNodes), fetch for HTTPS
+function sendRequest(
+  url: string,
+  data: object,
+  timeoutMs?: number
+): Promise<TransportResult> {
+  const effectiveTimeout = timeoutMs ?? PRPC_TIMEOUT.HTTP
+
+  return new Promise((resolve) => {
+    try {
+      const urlObj = new URL(url)
+      const postData = JSON.stringify(data)
+      const isHttps = urlObj.protocol === 'https:'
+
+      // Use fetch for HTTPS (better Cloudflare handling)
+      if (isHttps) {
+        makeFetchRequest(url, data, timeoutMs ?? PRPC_TIMEOUT.HTTPS).then(resolve)
+        return
+      }
+
+      const options = {
+        hostname: urlObj.hostname,
+        port: urlObj.port || 80,
+        path: urlObj.pathname,
+        method: 'POST',
+        headers: {
+          ...BROWSER_HEADERS,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(postData),
+        },
+        timeout: effectiveTimeout,
+      }
+
+      const req = http.request(options, (res) => {
+        let responseData = ''
+
+        res.on('data', (chunk) => {
+          responseData += chunk
+        })
+
+        res.on('end', () => {
+          resolve(parseBody(responseData, res.statusCode || 200))
+        })
+      })
+
+      req.on('error', (e) => {
+        if (isConnectionRefused(e)) {
+          resolve({ error: { kind: 'connection_refused', message: 'Connection refused' } })
+          return
+        }
+        resolve({ error: { kind: 'network', message: `Request error: ${e.message}` } })
+      })
+
+      req.on('timeout', () => {
+        resolve({ error: { kind: 'timeout', message: 'Request timeout', timeoutMs: effectiveTimeout } })
+        req.destroy()
+      })
+
+      req.write(postData)
+      req.end()
+    } catch (e) {
+      resolve({ error: { kind: 'network', message: `Error: ${e instanceof Error ? e.message : 'Unknown'}` } })
+    }
+  })
+}
+
+/**
+ * POST a JSON-RPC payload to a pNode or registry endpoint and time the round trip.
+ * Never throws - failures are returned as `error`.
+ */
+export async function makeHttpRequest(
+  url: string,
+  data: object,
+  timeoutMs?: number
+): Promise<TransportResult> {
+  const startedAt = performance.now()
+  const result = await sendRequest(url, data, timeoutMs)
+  return { ...result, latencyMs: Math.round(performance.now() - startedAt) }
+}
+
+export interface JsonRpcCallResult {
+  result?: unknown
+  error?: PrpcError
+  latencyMs?: number
+}
+
+/**
+ * Make a single JSON-RPC call and unwrap the response.
+ * Transport failures and JSON-RPC errors from the node both end up in `error`.
+ */
+export async function callJsonRpc(
+  url: string,
+  method: string,
+  { params, id = 1, timeoutMs }: { params?: unknown; id?: string | number; timeoutMs?: number } = {}
+): Promise<JsonRpcCallResult> {
+  const response = await makeHttpRequest(
+    url,
+    { jsonrpc: '2.0', method, ...(params !== undefined && { params }), id },
+    timeoutMs
+  )
+  if (response.error) {
+    return { error: response.error, latencyMs: response.latencyMs }
+  }
+
+  const data = response.data as { result?: unknown; error?: unknown } | undefined
+  if (data?.error) {
+    return { error: normalizePrpcError(data.error), latencyMs: response.latencyMs }
+  }
+  return { result: data?.result, latencyMs: response.latencyMs }
+}
+
+/**
+ * Load a registry's get-pods list (used by the endpoint allowlist)
+ */
+export async function loadRegistryPods(registryUrl: string): Promise<Array<{ address: string }> | null> {
+  const result = await makeHttpRequest(registryUrl, { jsonrpc: '2.0', method: 'get-pods', id: 1 })
+  const pods = (result.data as { result?: { pods?: Array<{ address: string }> } } | undefined)?.result?.pods
+  return Array.isArray(pods) ? pods : null
+}
@@ -0,0 +1,194 @@
+// Registry endpoint health tracking and failover
+// Every registry get-pods call is recorded per endpoint (success rate, latency) and a
+// circuit breaker takes endpoints out of rotation after repeated failures.
+// Used by the browser and by the server-side crawler (each keeps its own state).
+
+import { percentile } from './latency'
+import type { PrpcError } from './prpcErrors'
+
+// Number of recent calls kept per endpoint
+export const HEALTH_WINDOW = 20
+
+export const CIRCUIT_BREAKER = {
+  FAILURE_THRESHOLD: 3,            // Consecutive failures before the circuit opens
+  COOLDOWN_MS: 60 * 1000,          // First wait before a trial call (half-open)
+  MAX_COOLDOWN_MS: 10 * 60 * 1000, // Cooldown doubles on each failed trial, up to this
+} as const
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+interface CallRecord {
+  at: number
+  ok: boolean
+  latencyMs: number
+}
+
+interface EndpointState {
+  calls: CallRecord[]
+  consecutiveFailures: number
+  openedAt: number | null
+  cooldownMs: number
+  lastError?: PrpcError
+}
+
+export interface EndpointHealth {
+  url: string
+  state: CircuitState
+  successRate: number | null
+  medianLatencyMs: number | null
+  calls: number
+  lastError?: PrpcError
+  // When an open circuit allows its next trial call
+  retryAt: number | null
+}
+
+const endpoints = new Map<string, EndpointState>()
+const listeners = new Set<() => void>()
+// Bumped on every change so subscribers can cheaply detect updates
+let version = 0
+
+function getState(url: string): EndpointState {
+  let state = endpoints.get(url)
+  if (!state) {
+    state = { calls: [], consecutiveFailures: 0, openedAt: null, cooldownMs: CIRCUIT_BREAKER.COOLDOWN_MS }
+    endpoints.set(url, state)
+  }
+  return state
+}
+
+function circuitState(state: EndpointState, now: number = Date.now()): CircuitState {
+  if (state.openedAt === null) return 'closed'
+  return now - state.openedAt >= state.cooldownMs ? 'half-open' : 'open'
+}
+
+function notify() {
+  version++
+  listeners.forEach(listener => listener())
+}
+
+export function recordSuccess(url: string, latencyMs: number) {
+  const state = getState(url)
+  state.calls = [...state.calls, { at: Date.now(), ok: true, latencyMs }].slice(-HEALTH_WINDOW)
+  state.consecutiveFailures = 0
+  state.openedAt = null
+  state.cooldownMs = CIRCUIT_BREAKER.COOLDOWN_MS
+  state.lastError = undefined
+  notify()
+}
+
+export function recordFailure(url: string, latencyMs: number, error?: PrpcError) {
+  const state = getState(url)
+  const wasTrial = circuitState(state) === 'half-open'
+  state.calls = [...state.calls, { at: Date.now(), ok: false, latencyMs }].slice(-HEALTH_WINDOW)
+  state.consecutiveFailures++
+  state.lastError = error
+
+  if (wasTrial) {
+    // Failed trial call - back off further
+    state.openedAt = Date.now()
+    state.cooldownMs = Math.min(state.cooldownMs * 2, CIRCUIT_BREAKER.MAX_COOLDOWN_MS)
+  } else if (state.openedAt === null && state.consecutiveFailures >= CIRCUIT_BREAKER.FAILURE_THRESHOLD) {
+    state.openedAt = Date.now()
+  }
+  notify()
+}
+
+export function getEndpointHealth(url: string): EndpointHealth {
+  const state = endpoints.get(url)
+  if (!state) {
+    return { url, state: 'closed', successRate: null, medianLatencyMs: null, calls: 0, retryAt: null }
+  }
+
+  const ok = state.calls.filter(c => c.ok)
+  const circuit = circuitState(state)
+  return {
+    url,
+    state: circuit,
+    successRate: state.calls.length > 0 ? ok.length / state.calls.length : null,
+    medianLatencyMs: ok.length > 0 ? percentile(ok.map(c => c.latencyMs), 50) : null,
+    calls: state.calls.length,
+    lastError: state.lastError,
+    retryAt: circuit === 'open' && state.openedAt !== null ? state.openedAt + state.cooldownMs : null,
+  }
+}
+
+/**
+ * Subscribe to health changes (compatible with React's useSyncExternalStore)
+ */
+export function subscribeRegistryHealth(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function getRegistryHealthVersion(): number {
+  return version
+}
+
+/**
+ * Order endpoints for a call: healthy (closed or half-open) ones in their configured
+ * order, then open circuits as a last resort, soonest-to-retry first
+ */
+export function orderEndpoints(urls: string[], now: number = Date.now()): string[] {
+  const available: string[] = []
+  const open: Array<{ url: string; retryAt: number }> = []
+
+  urls.forEach(url => {
+    const state = endpoints.get(url)
+    if (!state || circuitState(state, now) !== 'open') {
+      available.push(url)
+    } else {
+      open.push({ url, retryAt: (state.openedAt ?? 0) + state.cooldownMs })
+    }
+  })
+
+  return [...available, ...open.sort((a, b) => a.retryAt - b.retryAt).map(e => e.url)]
+}
+
+export interface FailoverAttempt {
+  url: string
+  latencyMs: number
+  error?: PrpcError
+}
+
+export interface FailoverResult<T> {
+  result?: T
+  error?: PrpcError
+  // Endpoint that served `result`
+  endpoint?: string
+  attempts: FailoverAttempt[]
+}
+
+/**
+ * Call endpoints in health order until one returns a usable result.
+ * `call` resolves to a result or an error; `isUsable` can reject a technically
+ * successful response (e.g. an empty pod list) so the next endpoint is tried.
+ */
+export async function withFailover<T>(
+  urls: string[],
+  call: (url: string) => Promise<{ result?: T; error?: PrpcError }>,
+  isUsable: (result: T) => boolean = () => true
+): Promise<FailoverResult<T>> {
+  const attempts: FailoverAttempt[] = []
+  // Deduplicate - the same URL may be configured twice through fallbacks
+  const ordered = orderEndpoints(Array.from(new Set(urls)))
+
+  for (const url of ordered) {
+    const startedAt = performance.now()
+    const { result, error } = await call(url)
+    const latencyMs = Math.round(performance.now() - startedAt)
+
+    if (!error && result !== undefined && isUsable(result)) {
+      recordSuccess(url, latencyMs)
+      attempts.push({ url, latencyMs })
+      return { result, endpoint: url, attempts }
+    }
+
+    const failure: PrpcError = error ?? { kind: 'invalid_response', path: 'result', message: 'Registry returned no pods' }
+    recordFailure(url, latencyMs, failure)
+    attempts.push({ url, latencyMs, error: failure })
+  }
+
+  return { error: attempts[attempts.length - 1]?.error, attempts }
+}
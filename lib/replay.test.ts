@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  nextReplayFrame,
+  resolveReplayFrames,
+  replayNodes,
+  REPLAY_FRAME_MS,
+  REPLAY_KEYFRAME_MS,
+  type ReplayFrame,
+} from './replay'
+import type { NodeData } from './prpc'
+
+const START = Date.parse('2026-01-01T00:00:00Z')
+
+function node(address: string, peers: string[] | null, at: number): NodeData {
+  return {
+    ip: address.split(':')[0],
+    address,
+    label: address,
+    pubkey: `key-${address}`,
+    registryVersion: '0.8.0',
+    status: peers ? 'online' : 'offline',
+    version: peers ? { version: '0.8.0' } : undefined,
+    pods: peers
+      ? {
+          pods: peers.map(peer => ({ address: peer, version: '0.8.0', last_seen_timestamp: at / 1000 - 10 })),
+          total_count: peers.length,
+        }
+      : undefined,
+  }
+}
+
+// Records one frame per crawl, `stepMs` apart
+function record(
+  networkId: string,
+  crawls: Array<Record<string, string[] | null>>,
+  stepMs: number = REPLAY_FRAME_MS
+): ReplayFrame[] {
+  return crawls.map((crawl, i) => {
+    const at = START + i * stepMs
+    const frame = nextReplayFrame(networkId, Object.entries(crawl).map(([address, peers]) => node(address, peers, at)), at)
+    expect(frame).not.toBeNull()
+    return frame!
+  })
+}
+
+const peersOf = (frame: ReplayFrame, address: string) =>
+  frame.nodes.find(n => n.address === address)?.peers?.map(([peer]) => peer)
+
+describe('replay frames', () => {
+  it('writes peer lists only when they change and resolves them back', () => {
+    const frames = record('test-roundtrip', [
+      { 'a:9001': ['b:9001', 'c:9001'], 'b:9001': ['a:9001'] },
+      { 'a:9001': ['b:9001', 'c:9001'], 'b:9001': ['a:9001'] },
+      { 'a:9001': ['b:9001'], 'b:9001': ['a:9001'] },
+    ])
+
+    expect(peersOf(frames[0], 'a:9001')).toEqual(['b:9001', 'c:9001'])
+    expect(frames[1].nodes.every(n => n.peers === undefined)).toBe(true)
+    expect(peersOf(frames[2], 'a:9001')).toEqual(['b:9001'])
+    expect(peersOf(frames[2], 'b:9001')).toBeUndefined()
+
+    const resolved = resolveReplayFrames(JSON.parse(JSON.stringify(frames)))
+    expect(peersOf(resolved[1], 'a:9001')).toEqual(['b:9001', 'c:9001'])
+    expect(peersOf(resolved[1], 'b:9001')).toEqual(['a:9001'])
+    expect(peersOf(resolved[2], 'a:9001')).toEqual(['b:9001'])
+    expect(peersOf(resolved[2], 'b:9001')).toEqual(['a:9001'])
+    expect(resolved[1].nodes.find(n => n.address === 'a:9001')?.peers?.every(([, active]) => active)).toBe(true)
+  })
+
+  it('restores connections on the replayed nodes', () => {
+    const frames = record('test-nodes', [
+      { 'a:9001': ['b:9001'], 'b:9001': null },
+      { 'a:9001': ['b:9001'], 'b:9001': null },
+    ])
+    const [a, b] = replayNodes(resolveReplayFrames(frames)[1])
+
+    expect(a.pods?.pods.map(p => p.address)).toEqual(['b:9001'])
+    expect(b.status).toBe('offline')
+    expect(b.pods?.pods).toEqual([])
+  })
+
+  it('clears the peers of a node that is offline on a keyframe', () => {
+    const frames = record('test-keyframe', [
+      { 'a:9001': ['b:9001'], 'b:9001': ['a:9001'] },
+      { 'a:9001': null, 'b:9001': [] },
+      { 'a:9001': null, 'b:9001': [] },
+    ], REPLAY_KEYFRAME_MS)
+
+    expect(peersOf(frames[1], 'a:9001')).toEqual([])
+    expect(peersOf(frames[2], 'b:9001')).toEqual([])
+
+    const resolved = resolveReplayFrames(frames)
+    resolved.slice(1).forEach(frame => {
+      expect(peersOf(frame, 'a:9001')).toEqual([])
+      expect(peersOf(frame, 'b:9001')).toEqual([])
+    })
+    expect(replayNodes(resolved[2]).every(node => node.pods?.pods.length === 0)).toBe(true)
+  })
+})
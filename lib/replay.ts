@@ -0,0 +1,199 @@
+// Time-travel replay of network state (topology page)
+// A frame records every node's reachability, version, health and peer list after a
+// crawl, at most once per REPLAY_FRAME_MS. Peer lists are the bulk of a frame, so a
+// node's peers are only written when they changed since its previous frame, plus a
+// full keyframe every REPLAY_KEYFRAME_MS; resolveReplayFrames fills the gaps back in.
+
+import type { HistoryPeriod } from './proxyConfig'
+import { nodeHealth, type NodeHealth } from './nodeHealth'
+import type { NodeData } from './prpc'
+
+export const REPLAY_FRAME_MS = 5 * 60 * 1000
+export const REPLAY_KEYFRAME_MS = 60 * 60 * 1000
+export const REPLAY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+export type ReplayPeriod = Extract<HistoryPeriod, '1h' | '6h' | '24h' | '7d'>
+export const REPLAY_PERIODS: ReplayPeriod[] = ['1h', '6h', '24h', '7d']
+
+export function isReplayPeriod(value: unknown): value is ReplayPeriod {
+  return typeof value === 'string' && (REPLAY_PERIODS as string[]).includes(value)
+}
+
+// A peer counts as an active connection when it was seen this recently
+export const PEER_ACTIVE_SECONDS = 300
+
+// Peer address and whether it was active when the frame was recorded
+export type ReplayPeer = [address: string, active: boolean]
+
+export interface ReplayNode {
+  address: string
+  pubkey: string | null
+  status: 'online' | 'offline'
+  version?: string
+  health: NodeHealth
+  // Omitted when unchanged since the node's previous frame
+  peers?: ReplayPeer[]
+}
+
+export interface ReplayFrame {
+  timestamp: string
+  nodes: ReplayNode[]
+}
+
+interface ReplayRecorder {
+  lastFrameAt: number
+  lastKeyframeAt: number
+  // Serialized peer list last written per node
+  peers: Map<string, string>
+}
+
+const recorders = new Map<string, ReplayRecorder>()
+
+/**
+ * Frame for the latest crawl of `networkId`, or null when the previous frame is less
+ * than REPLAY_FRAME_MS old. Loading nodes are left out.
+ */
+export function nextReplayFrame(networkId: string, nodes: NodeData[], at: number = Date.now()): ReplayFrame | null {
+  const crawled = nodes.filter(n => n.status !== 'loading')
+  if (crawled.length === 0) return null
+
+  const recorder = recorders.get(networkId)
+  if (recorder && at - recorder.lastFrameAt < REPLAY_FRAME_MS) return null
+
+  const keyframe = !recorder || at - recorder.lastKeyframeAt >= REPLAY_KEYFRAME_MS
+  const written = keyframe ? new Map<string, string>() : recorder.peers
+  const peers = new Map<string, string>()
+  const seconds = at / 1000
+
+  const frameNodes = crawled.map(node => {
+    const list: ReplayPeer[] = node.status === 'online'
+      ? (node.pods?.pods ?? []).map(pod => [pod.address, seconds - pod.last_seen_timestamp < PEER_ACTIVE_SECONDS])
+      : []
+    const serialized = JSON.stringify(list)
+    peers.set(node.address, serialized)
+
+    const frameNode: ReplayNode = {
+      address: node.address,
+      pubkey: node.pubkey,
+      status: node.status === 'online' ? 'online' : 'offline',
+      version: node.version?.version ?? node.registryVersion,
+      health: nodeHealth(node) ?? 'offline',
+    }
+    // Keyframes start from an empty map, so they write every node's list, even an empty one
+    if (serialized !== written.get(node.address)) frameNode.peers = list
+    return frameNode
+  })
+
+  recorders.set(networkId, {
+    lastFrameAt: at,
+    lastKeyframeAt: keyframe ? at : recorder.lastKeyframeAt,
+    peers,
+  })
+  return { timestamp: new Date(at).toISOString(), nodes: frameNodes }
+}
+
+/**
+ * Carry each node's peer list forward into the frames that omit it, oldest first.
+ * Peers before the first keyframe in range stay unknown.
+ */
+export function resolveReplayFrames(frames: ReplayFrame[]): ReplayFrame[] {
+  const latest = new Map<string, ReplayPeer[]>()
+  return frames.map(frame => ({
+    timestamp: frame.timestamp,
+    nodes: frame.nodes.map(node => {
+      if (node.peers) {
+        latest.set(node.address, node.peers)
+        return node
+      }
+      const peers = latest.get(node.address)
+      return peers ? { ...node, peers } : node
+    }),
+  }))
+}
+
+/**
+ * Node data as of a resolved frame, for the globe and 3D topology. Only what a frame
+ * records is set: no stats, and peers' last-seen times relative to the frame.
+ */
+export function replayNodes(frame: ReplayFrame): NodeData[] {
+  const at = Date.parse(frame.timestamp)
+  const seconds = at / 1000
+
+  return frame.nodes.map((node, index) => ({
+    ip: node.address.split(':')[0],
+    address: node.address,
+    label: node.pubkey ? `${node.pubkey.slice(0, 8)}...` : `Node ${index + 1}`,
+    pubkey: node.pubkey,
+    registryVersion: node.version ?? '',
+    status: node.status,
+    version: node.version ? { version: node.version } : undefined,
+    pods: node.peers
+      ? {
+          pods: node.peers.map(([address, active]) => ({
+            address,
+            version: '',
+            last_seen_timestamp: active ? seconds : seconds - 2 * PEER_ACTIVE_SECONDS,
+          })),
+          total_count: node.peers.length,
+        }
+      : undefined,
+    health: { state: node.health, reasons: [], observations: [] },
+    lastFetched: at,
+  }))
+}
+
+export type ReplayEventKind = 'offline-drop' | 'recovery' | 'new-version'
+
+export interface ReplayEvent {
+  // Index of the frame the event shows up in
+  frame: number
+  timestamp: string
+  kind: ReplayEventKind
+  label: string
+}
+
+// Online count changes of at least this many nodes, and this share of the
+// previous frame's online nodes, are reported as drops and recoveries
+const MIN_ONLINE_CHANGE = 3
+const MIN_ONLINE_CHANGE_SHARE = 0.1
+
+/**
+ * Large drops and recoveries of online nodes and first sightings of a version,
+ * oldest first
+ */
+export function detectReplayEvents(frames: ReplayFrame[]): ReplayEvent[] {
+  const events: ReplayEvent[] = []
+  const versions = new Set<string>()
+  let previousOnline: number | null = null
+
+  frames.forEach((frame, index) => {
+    const online = frame.nodes.filter(n => n.status === 'online').length
+
+    if (previousOnline !== null) {
+      const change = online - previousOnline
+      const threshold = Math.max(MIN_ONLINE_CHANGE, previousOnline * MIN_ONLINE_CHANGE_SHARE)
+      if (Math.abs(change) >= threshold) {
+        events.push({
+          frame: index,
+          timestamp: frame.timestamp,
+          kind: change < 0 ? 'offline-drop' : 'recovery',
+          label: change < 0
+            ? `${-change} nodes went offline (${previousOnline} → ${online})`
+            : `${change} nodes came back online (${previousOnline} → ${online})`,
+        })
+      }
+    }
+
+    frame.nodes.forEach(node => {
+      if (!node.version || versions.has(node.version)) return
+      if (index > 0) {
+        events.push({ frame: index, timestamp: frame.timestamp, kind: 'new-version', label: `Version ${node.version} first seen` })
+      }
+      versions.add(node.version)
+    })
+
+    previousOnline = online
+  })
+
+  return events
+}
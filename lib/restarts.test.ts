@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { nextRestartLog, nodeRestarts, restartedSince, FREQUENT_RESTART_COUNT, type RestartLog } from './restarts'
+import type { NodeData, StatsResponse } from './prpc'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const START = Date.parse('2026-01-01T00:00:00Z')
+const ADDRESS = '173.212.203.145:9001'
+
+// Node answering get-stats with `uptime` seconds, fetched at `fetchedAt`
+const node = (uptime: number, fetchedAt?: number): NodeData => ({
+  ip: '173.212.203.145',
+  address: ADDRESS,
+  label: 'node',
+  pubkey: 'key',
+  registryVersion: '0.8.0',
+  status: 'online',
+  stats: { uptime, cpu_percent: 1, ram_used: 1, ram_total: 2 } as StatsResponse,
+  lastFetched: fetchedAt,
+})
+
+// Folds one crawl per [ms after START, node] into a log
+function crawl(samples: Array<[number, NodeData]>): RestartLog {
+  return samples.reduce<RestartLog | null>((log, [offset, sample]) => nextRestartLog(log, [sample], START + offset), null)!
+}
+
+describe('nextRestartLog', () => {
+  it('records a restart seen directly when the uptime counter drops', () => {
+    const log = crawl([[0, node(7200)], [10 * MINUTE, node(120)]])
+
+    expect(log.nodes[ADDRESS].restarts).toEqual([
+      { at: START + 8 * MINUTE, previousUptime: 7200, inferred: false },
+    ])
+  })
+
+  it('infers a restart between polls from an uptime shorter than the time elapsed', () => {
+    // 2h uptime at START, then 3h uptime 6h later: the node restarted about 3h in
+    const log = crawl([[0, node(2 * 3600)], [6 * HOUR, node(3 * 3600)]])
+
+    expect(log.nodes[ADDRESS].restarts).toEqual([
+      { at: START + 3 * HOUR, previousUptime: 2 * 3600, inferred: true },
+    ])
+  })
+
+  it('does not count a node that kept running', () => {
+    const log = crawl([[0, node(3600)], [10 * MINUTE, node(3600 + 600)], [20 * MINUTE, node(3600 + 1200 + 30)]])
+    expect(log.nodes[ADDRESS].restarts).toEqual([])
+  })
+
+  it('ignores stats served from cache', () => {
+    // The second crawl still has the node's stats from the first one
+    const log = crawl([[0, node(3600, START)], [30 * MINUTE, node(3600, START)]])
+
+    expect(log.nodes[ADDRESS].restarts).toEqual([])
+    expect(log.nodes[ADDRESS].sampledAt).toBe(START)
+  })
+
+  it('flags nodes that restart often', () => {
+    const samples: Array<[number, NodeData]> = Array.from({ length: FREQUENT_RESTART_COUNT + 1 }, (_, i) => [
+      i * HOUR,
+      node(60),
+    ])
+    const log = crawl(samples)
+    const restarts = nodeRestarts(log.nodes[ADDRESS], START + FREQUENT_RESTART_COUNT * HOUR)
+
+    expect(restarts.last24h).toBe(FREQUENT_RESTART_COUNT)
+    expect(restarts.frequent).toBe(true)
+    expect(restarts.perDay).toBeNull()
+  })
+})
+
+describe('restartedSince', () => {
+  it('tolerates small differences in the dated start', () => {
+    const previous = { sampledAt: START, uptime: 3600 }
+    expect(restartedSince(previous, 3600 + 300 - 60, START + 5 * MINUTE)).toBe(false)
+    expect(restartedSince(previous, 60, START + 5 * MINUTE)).toBe(true)
+  })
+})
@@ -0,0 +1,134 @@
+// Node restarts, detected from resets of the get-stats `uptime` counter
+// Every sample dates the node's start as the fetch time minus its uptime. When a later
+// sample dates it later than the previous one did, the node restarted in between. If
+// the counter dropped, the restart was seen directly; if it had already grown past its
+// previous value, the restart happened while nobody was polling and is only inferred
+// from the uptime being shorter than the time elapsed. Several restarts between two
+// samples count as one.
+
+import type { NodeData } from './prpc'
+
+// Start times that differ by less than this are the same start (crawl latency, rounding)
+export const RESTART_TOLERANCE_MS = 2 * 60 * 1000
+export const RESTART_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+// Nodes restarting at least this often are flagged on the dashboard
+export const FREQUENT_RESTART_COUNT = 3
+export const FREQUENT_RESTART_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface RestartEvent {
+  // Estimated restart time (ms)
+  at: number
+  // Uptime (seconds) of the last sample before the restart
+  previousUptime: number
+  // The restart happened between polls and was inferred from the elapsed time
+  inferred: boolean
+}
+
+export interface NodeRestartLog {
+  // First sample within the retention period (ms)
+  since: number
+  // Latest sample
+  sampledAt: number
+  uptime: number
+  // Oldest first
+  restarts: RestartEvent[]
+}
+
+export interface RestartLog {
+  // Latest crawl folded into the log
+  timestamp: string
+  // Per node address
+  nodes: Record<string, NodeRestartLog>
+}
+
+/**
+ * Whether a node sampled with `previous.uptime` at `previous.sampledAt` has restarted
+ * by the time it reports `uptime` at `at`
+ */
+export function restartedSince(previous: { sampledAt: number; uptime: number }, uptime: number, at: number): boolean {
+  const previousStart = previous.sampledAt - previous.uptime * 1000
+  const start = at - uptime * 1000
+  return start - previousStart > RESTART_TOLERANCE_MS
+}
+
+function recordNode(previous: NodeRestartLog | undefined, uptime: number, at: number): NodeRestartLog {
+  if (!previous) return { since: at, sampledAt: at, uptime, restarts: [] }
+  // Stats served from cache were already sampled
+  if (at <= previous.sampledAt) return previous
+
+  const restarts = restartedSince(previous, uptime, at)
+    ? [...previous.restarts, { at: at - uptime * 1000, previousUptime: previous.uptime, inferred: uptime >= previous.uptime }]
+    : previous.restarts
+
+  return { since: previous.since, sampledAt: at, uptime, restarts }
+}
+
+/**
+ * Fold the latest crawl into `log` (null to start one). Only nodes that returned stats
+ * are sampled, at the time they were fetched (`at` when unknown). Nodes not sampled
+ * within the retention period are dropped, as are older restarts. A crawl not newer
+ * than the log's latest one is ignored.
+ */
+export function nextRestartLog(log: RestartLog | null, nodes: NodeData[], at: number = Date.now()): RestartLog | null {
+  const sampled = nodes.filter(n => n.status === 'online' && n.stats)
+  if (sampled.length === 0 || (log && Date.parse(log.timestamp) >= at)) return log
+
+  const next: Record<string, NodeRestartLog> = { ...log?.nodes }
+  sampled.forEach(node => {
+    next[node.address] = recordNode(next[node.address], node.stats!.uptime, Math.min(node.lastFetched ?? at, at))
+  })
+
+  const cutoff = at - RESTART_RETENTION_MS
+  const pruned: Record<string, NodeRestartLog> = {}
+  Object.entries(next).forEach(([address, entry]) => {
+    if (entry.sampledAt < cutoff) return
+    pruned[address] = {
+      ...entry,
+      since: Math.max(entry.since, cutoff),
+      restarts: entry.restarts.filter(restart => restart.at >= cutoff),
+    }
+  })
+
+  return { timestamp: new Date(at).toISOString(), nodes: pruned }
+}
+
+// ============================================
+// Restart frequency
+// ============================================
+
+export interface NodeRestarts {
+  // Restarts in the retention period, newest first
+  restarts: RestartEvent[]
+  last24h: number
+  last7d: number
+  // Restarts per day since the first sample (at most the retention period); null
+  // until the node has been sampled for a day
+  perDay: number | null
+  frequent: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function nodeRestarts(entry: NodeRestartLog, now: number = Date.now()): NodeRestarts {
+  const count = (windowMs: number) => entry.restarts.filter(restart => restart.at >= now - windowMs).length
+  const sampledMs = Math.min(now - entry.since, RESTART_RETENTION_MS)
+
+  return {
+    restarts: [...entry.restarts].reverse(),
+    last24h: count(DAY_MS),
+    last7d: count(7 * DAY_MS),
+    perDay: sampledMs >= DAY_MS ? entry.restarts.length / (sampledMs / DAY_MS) : null,
+    frequent: count(FREQUENT_RESTART_WINDOW_MS) >= FREQUENT_RESTART_COUNT,
+  }
+}
+
+/**
+ * Restarts of every node in the log, by address
+ */
+export function restartsByAddress(log: RestartLog | null, now: number = Date.now()): Map<string, NodeRestarts> {
+  const restarts = new Map<string, NodeRestarts>()
+  if (!log) return restarts
+  Object.entries(log.nodes).forEach(([address, entry]) => restarts.set(address, nodeRestarts(entry, now)))
+  return restarts
+}
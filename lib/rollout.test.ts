@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { nextVersionLog, trackRollout, rolloutLaggards, type VersionLog } from './rollout'
+import type { NodeData } from './prpc'
+
+const DAY = 24 * 60 * 60 * 1000
+const START = Date.parse('2026-01-01T00:00:00Z')
+
+const node = (address: string, version: string): NodeData => ({
+  ip: address.split(':')[0],
+  address,
+  label: address,
+  pubkey: `key-${address}`,
+  registryVersion: version,
+  status: 'online',
+})
+
+// Folds one crawl per [days after START, { address: version }] into a log
+function crawl(crawls: Array<[number, Record<string, string>]>): VersionLog {
+  return crawls.reduce<VersionLog | null>(
+    (log, [days, versions]) =>
+      nextVersionLog(log, Object.entries(versions).map(([address, version]) => node(address, version)), START + days * DAY),
+    null
+  )!
+}
+
+// Two nodes share 1.1.1.1; 0.8.0 first appears on day 1
+const LOG = crawl([
+  [0, { '1.1.1.1:9001': '0.7.0', '1.1.1.1:9002': '0.7.0', '2.2.2.2:9001': '0.7.0', '3.3.3.3:9001': '0.7.0', '4.4.4.4:9001': '0.7.0' }],
+  [1, { '1.1.1.1:9001': '0.8.0', '1.1.1.1:9002': '0.7.0', '2.2.2.2:9001': '0.7.0', '3.3.3.3:9001': '0.7.0', '4.4.4.4:9001': '0.7.0' }],
+  [3, { '1.1.1.1:9001': '0.8.0', '1.1.1.1:9002': '0.7.0', '2.2.2.2:9001': '0.8.0', '3.3.3.3:9001': '0.7.0', '4.4.4.4:9001': '0.7.0' }],
+  [5, { '1.1.1.1:9001': '0.8.0', '1.1.1.1:9002': '0.8.1', '2.2.2.2:9001': '0.8.0', '3.3.3.3:9001': '0.7.0', '4.4.4.4:9001': '0.7.0' }],
+  [6, { '1.1.1.1:9001': '0.8.0', '1.1.1.1:9002': '0.8.1', '2.2.2.2:9001': '0.8.0', '3.3.3.3:9001': '0.7.0', '4.4.4.4:9001': '0.7.0' }],
+])
+
+describe('trackRollout', () => {
+  it('measures time-to-upgrade from the first sighting, counting newer versions', () => {
+    const rollout = trackRollout(LOG, '0.8.0')!
+
+    expect(rollout).toMatchObject({ releasedAt: START + DAY, releaseObserved: true, medianTimeToUpgradeMs: 2 * DAY })
+    const byAddress = Object.fromEntries(rollout.nodes.map(n => [n.address, n]))
+    expect(byAddress['1.1.1.1:9001']).toMatchObject({ upgradedAt: START + DAY, timeToUpgradeMs: 0 })
+    expect(byAddress['2.2.2.2:9001']).toMatchObject({ upgradedAt: START + 3 * DAY, timeToUpgradeMs: 2 * DAY })
+    expect(byAddress['1.1.1.1:9002']).toMatchObject({ version: '0.8.1', upgradedAt: START + 5 * DAY, timeToUpgradeMs: 4 * DAY })
+    expect(byAddress['3.3.3.3:9001']).toMatchObject({ upgradedAt: null, timeToUpgradeMs: null })
+  })
+
+  it('groups nodes by host IP', () => {
+    const hosts = Object.fromEntries(trackRollout(LOG, '0.8.0')!.hosts.map(h => [h.ip, h]))
+
+    expect(hosts['1.1.1.1']).toEqual({ ip: '1.1.1.1', nodes: 2, upgraded: 2, medianTimeToUpgradeMs: 2 * DAY })
+    expect(hosts['3.3.3.3']).toEqual({ ip: '3.3.3.3', nodes: 1, upgraded: 0, medianTimeToUpgradeMs: null })
+  })
+
+  it('leaves out nodes missing from the latest crawl and restarts the clock after a downgrade', () => {
+    const log = crawl([
+      [0, { '1.1.1.1:9001': '0.8.0', '2.2.2.2:9001': '0.8.0' }],
+      [1, { '1.1.1.1:9001': '0.7.0', '2.2.2.2:9001': '0.8.0' }],
+      [2, { '1.1.1.1:9001': '0.8.0' }],
+    ])
+    const rollout = trackRollout(log, '0.8.0')!
+
+    expect(rollout.releaseObserved).toBe(false)
+    expect(rollout.nodes).toEqual([
+      expect.objectContaining({ address: '1.1.1.1:9001', upgradedAt: START + 2 * DAY, timeToUpgradeMs: 2 * DAY }),
+    ])
+  })
+
+  it('returns null for a version that never ran', () => {
+    expect(trackRollout(LOG, '0.9.0')).toBeNull()
+    expect(trackRollout(null, '0.8.0')).toBeNull()
+  })
+})
+
+describe('rolloutLaggards', () => {
+  it('lists nodes still behind first, then the latest upgraders', () => {
+    const rollout = trackRollout(LOG, '0.8.0')!
+
+    expect(rolloutLaggards(rollout, 1).map(n => n.address)).toEqual([
+      '3.3.3.3:9001',
+      '4.4.4.4:9001',
+      '1.1.1.1:9002',
+      '2.2.2.2:9001',
+    ])
+    expect(rolloutLaggards(rollout, 3).map(n => n.address)).toEqual(['3.3.3.3:9001', '4.4.4.4:9001', '1.1.1.1:9002'])
+    expect(rolloutLaggards(rollout, 0).map(n => n.address)).not.toContain('1.1.1.1:9001')
+  })
+})
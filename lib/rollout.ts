@@ -0,0 +1,255 @@
+// Version rollouts: how a release spreads through a network
+// Adoption over time comes from the network history's version distribution. Who moved
+// when comes from a version log per network, updated after every crawl, that records
+// each node's version changes and when each version first appeared on the network.
+// Time-to-upgrade runs from a version's first appearance to a node's first crawl on it
+// (or a newer version). Nodes are also grouped by host IP address, since a pubkey names
+// a single node and several nodes can share a machine.
+
+import { compareVersions, findLatestVersion } from './version'
+import type { NodeData } from './prpc'
+import type { NetworkSnapshot } from './useHistoricalData'
+
+export const VERSION_LOG_RETENTION_MS = 90 * 24 * 60 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface VersionChange {
+  version: string
+  at: number
+  // False when the node was already on this version the first time it was crawled
+  observed: boolean
+}
+
+export interface NodeVersionLog {
+  pubkey: string | null
+  ip: string
+  // Latest crawl that included the node
+  seenAt: number
+  // Oldest first; the last change is the current version
+  changes: VersionChange[]
+}
+
+export interface VersionSighting {
+  // First crawl with a node on this version
+  at: number
+  // False when the version was already running at the log's first crawl
+  observed: boolean
+}
+
+export interface VersionLog {
+  // Latest crawl folded into the log
+  timestamp: string
+  versions: Record<string, VersionSighting>
+  // Per node address
+  nodes: Record<string, NodeVersionLog>
+}
+
+/**
+ * Version a node reports, falling back to the registry's for nodes that didn't answer
+ */
+export function nodeVersion(node: NodeData): string | undefined {
+  return node.version?.version || node.registryVersion || undefined
+}
+
+/**
+ * Fold the latest crawl into `log` (null to start one). Nodes not crawled within the
+ * retention period are dropped, along with changes superseded before it. A crawl not
+ * newer than the log's latest one is ignored.
+ */
+export function nextVersionLog(log: VersionLog | null, nodes: NodeData[], at: number = Date.now()): VersionLog | null {
+  const crawled = nodes.filter(n => n.status !== 'loading' && nodeVersion(n))
+  if (crawled.length === 0 || (log && Date.parse(log.timestamp) >= at)) return log
+
+  const versions: Record<string, VersionSighting> = { ...log?.versions }
+  const next: Record<string, NodeVersionLog> = { ...log?.nodes }
+  crawled.forEach(node => {
+    const version = nodeVersion(node)!
+    if (!versions[version]) versions[version] = { at, observed: !!log }
+
+    const previous = next[node.address]
+    const current = previous?.changes[previous.changes.length - 1]
+    const changes = !previous
+      ? [{ version, at, observed: false }]
+      : current?.version !== version
+        ? [...previous.changes, { version, at, observed: true }]
+        : previous.changes
+    next[node.address] = { pubkey: node.pubkey, ip: node.ip, seenAt: at, changes }
+  })
+
+  const cutoff = at - VERSION_LOG_RETENTION_MS
+  const pruned: Record<string, NodeVersionLog> = {}
+  Object.entries(next).forEach(([address, entry]) => {
+    if (entry.seenAt < cutoff) return
+    pruned[address] = {
+      ...entry,
+      changes: entry.changes.filter((change, i) => i === entry.changes.length - 1 || entry.changes[i + 1].at >= cutoff),
+    }
+  })
+
+  return { timestamp: new Date(at).toISOString(), versions, nodes: pruned }
+}
+
+// ============================================
+// Adoption curves
+// ============================================
+
+export interface VersionAdoption {
+  // Newest first, then 'other' when versions were folded together
+  versions: string[]
+  // Share of pods on each version (0-100) per snapshot, oldest first
+  points: Array<{ time: number } & Record<string, number>>
+}
+
+export const OTHER_VERSIONS = 'other'
+
+/**
+ * Adoption of each version over time. The `maxVersions` newest versions running
+ * in any snapshot are kept; the rest are summed up as OTHER_VERSIONS.
+ */
+export function versionAdoption(snapshots: NetworkSnapshot[], maxVersions: number = 5): VersionAdoption {
+  const seen = new Set<string>()
+  snapshots.forEach(snapshot => Object.keys(snapshot.versionDistribution ?? {}).forEach(v => seen.add(v)))
+  const sorted = Array.from(seen).sort((a, b) => compareVersions(b, a))
+  const kept = sorted.slice(0, maxVersions)
+  const versions = sorted.length > maxVersions ? [...kept, OTHER_VERSIONS] : kept
+
+  const points = snapshots.map(snapshot => {
+    const distribution = snapshot.versionDistribution ?? {}
+    const total = Object.values(distribution).reduce((sum, count) => sum + count, 0)
+    const point: { time: number } & Record<string, number> = { time: Date.parse(snapshot.timestamp) }
+    versions.forEach(version => {
+      point[version] = 0
+    })
+    Object.entries(distribution).forEach(([version, count]) => {
+      const key = kept.includes(version) ? version : OTHER_VERSIONS
+      point[key] += total > 0 ? (count / total) * 100 : 0
+    })
+    return point
+  })
+
+  return { versions, points }
+}
+
+// ============================================
+// Time-to-upgrade
+// ============================================
+
+export interface RolloutNode {
+  address: string
+  pubkey: string | null
+  ip: string
+  version: string
+  // When the node reached the rollout version or newer; null while it hasn't
+  upgradedAt: number | null
+  // From the version's first appearance; null while not upgraded, or when the node
+  // was already upgraded the first time it was crawled
+  timeToUpgradeMs: number | null
+}
+
+export interface RolloutHost {
+  ip: string
+  nodes: number
+  upgraded: number
+  // Median over the host's nodes with a known time-to-upgrade
+  medianTimeToUpgradeMs: number | null
+}
+
+export interface Rollout {
+  version: string
+  releasedAt: number
+  // False when the version was already running when the log started, so
+  // times-to-upgrade are measured from the log start instead
+  releaseObserved: boolean
+  // Nodes in the latest crawl
+  nodes: RolloutNode[]
+  hosts: RolloutHost[]
+  medianTimeToUpgradeMs: number | null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Versions in the log, newest first
+ */
+export function loggedVersions(log: VersionLog | null): string[] {
+  return log ? Object.keys(log.versions).sort((a, b) => compareVersions(b, a)) : []
+}
+
+/**
+ * Latest stable version running in the latest crawl, to track by default
+ */
+export function latestRolloutVersion(log: VersionLog | null): string | null {
+  if (!log) return null
+  const latestCrawl = Date.parse(log.timestamp)
+  const current = Object.values(log.nodes)
+    .filter(entry => entry.seenAt === latestCrawl)
+    .map(entry => entry.changes[entry.changes.length - 1].version)
+  return findLatestVersion(current) ?? loggedVersions(log)[0] ?? null
+}
+
+/**
+ * Progress of the rollout of `version`, or null when it never ran on the network
+ */
+export function trackRollout(log: VersionLog | null, version: string): Rollout | null {
+  const sighting = log?.versions[version]
+  if (!log || !sighting) return null
+  const latestCrawl = Date.parse(log.timestamp)
+
+  const nodes: RolloutNode[] = Object.entries(log.nodes)
+    .filter(([, entry]) => entry.seenAt === latestCrawl)
+    .map(([address, entry]) => {
+      // Start of the current run of versions at or above the rollout version
+      let first: VersionChange | null = null
+      for (let i = entry.changes.length - 1; i >= 0 && compareVersions(entry.changes[i].version, version) >= 0; i--) {
+        first = entry.changes[i]
+      }
+      return {
+        address,
+        pubkey: entry.pubkey,
+        ip: entry.ip,
+        version: entry.changes[entry.changes.length - 1].version,
+        upgradedAt: first?.at ?? null,
+        timeToUpgradeMs: first?.observed ? Math.max(0, first.at - sighting.at) : null,
+      }
+    })
+
+  const medianOf = (rolloutNodes: RolloutNode[]) =>
+    median(rolloutNodes.flatMap(n => (n.timeToUpgradeMs !== null ? [n.timeToUpgradeMs] : [])))
+
+  const byHost = new Map<string, RolloutNode[]>()
+  nodes.forEach(node => byHost.set(node.ip, [...(byHost.get(node.ip) ?? []), node]))
+  const hosts = Array.from(byHost.entries()).map(([ip, hostNodes]) => ({
+    ip,
+    nodes: hostNodes.length,
+    upgraded: hostNodes.filter(n => n.upgradedAt !== null).length,
+    medianTimeToUpgradeMs: medianOf(hostNodes),
+  }))
+
+  return {
+    version,
+    releasedAt: sighting.at,
+    releaseObserved: sighting.observed,
+    nodes,
+    hosts,
+    medianTimeToUpgradeMs: medianOf(nodes),
+  }
+}
+
+/**
+ * Nodes that were not on the rollout version `days` after its release, whether
+ * they upgraded later or are still behind; those still behind first
+ */
+export function rolloutLaggards(rollout: Rollout, days: number): RolloutNode[] {
+  const deadline = rollout.releasedAt + days * DAY_MS
+  return rollout.nodes
+    .filter(node => node.upgradedAt === null || node.upgradedAt > deadline)
+    .sort((a, b) => (a.upgradedAt ?? Infinity) === (b.upgradedAt ?? Infinity)
+      ? a.address.localeCompare(b.address)
+      : (b.upgradedAt ?? Infinity) - (a.upgradedAt ?? Infinity))
+}
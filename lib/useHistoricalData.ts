@@ -1,7 +1,23 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { proxyEndpoints, HistoryPeriod, HistoryInterval, USE_PROXY } from './proxyConfig'
+import { proxyEndpoints, HistoryPeriod, HistoryInterval, USE_HISTORY_API, HISTORY_COLLECTOR } from './proxyConfig'
+import {
+  loadNetworkHistory,
+  loadNodeHistory,
+  loadNetworkComparison,
+  loadReplayFrames,
+  loadCreditSnapshots,
+  loadAvailabilityLog,
+  loadRestartLog,
+  loadVersionLog,
+} from './localHistory'
+import type { ReplayFrame, ReplayPeriod } from './replay'
+import { podCreditSnapshots, thinCreditSnapshots, type CreditInterval, type CreditSnapshot } from './podCredits'
+import { toNetworkChartData } from './historySamples'
+import type { AvailabilityLog } from './availability'
+import type { RestartLog } from './restarts'
+import type { VersionLog } from './rollout'
 
 // Re-export types from proxyConfig for convenience
 export type { HistoryPeriod, HistoryInterval } from './proxyConfig'
@@ -181,15 +197,12 @@ export function useNetworkHistory({
   const fetchHistory = useCallback(async () => {
     // Debug: Log proxy status
     if (process.env.NODE_ENV === 'development') {
-      console.log('[useNetworkHistory] USE_PROXY:', USE_PROXY, 'PROXY_URL:', proxyEndpoints.networkCharts(network, currentPeriod))
+      console.log('[useNetworkHistory] USE_HISTORY_API:', USE_HISTORY_API, 'PROXY_URL:', proxyEndpoints.networkCharts(network, currentPeriod))
     }
 
-    if (!USE_PROXY || fetchingRef.current || !network) {
-      if (process.env.NODE_ENV === 'development' && !USE_PROXY) {
-        console.warn('[useNetworkHistory] Proxy not configured. Set NEXT_PUBLIC_PROXY_URL in .env.local and restart the dev server.')
-      }
-      // Set isLoading to false if proxy is not configured or network is empty
-      if (!USE_PROXY || !network) {
+    if (fetchingRef.current || !network) {
+      // Set isLoading to false if network is empty
+      if (!network) {
         setIsLoading(false)
       }
       return
@@ -199,6 +212,19 @@ export function useNetworkHistory({
     setIsLoading(true)
     setError(null)
 
+    // Without a history API, read what this browser recorded from its own crawls
+    if (!USE_HISTORY_API) {
+      try {
+        const local = await loadNetworkHistory(network, currentPeriod)
+        setData(local)
+        setChartData(toNetworkChartData(local))
+      } finally {
+        setIsLoading(false)
+        fetchingRef.current = false
+      }
+      return
+    }
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
@@ -330,13 +356,18 @@ export function useNodeHistory({
   const fetchingRef = useRef(false)
 
   const fetchHistory = useCallback(async () => {
-    if (!USE_PROXY || fetchingRef.current || !address || !enabled) return
+    if (fetchingRef.current || !address || !enabled) return
 
     fetchingRef.current = true
     setIsLoading(true)
     setError(null)
 
     try {
+      if (!USE_HISTORY_API) {
+        setData(await loadNodeHistory(address, period))
+        return
+      }
+
       const response = await fetch(proxyEndpoints.nodeHistory(address, period))
 
       if (!response.ok) {
@@ -409,9 +440,9 @@ export function useHistoryStats({
   const fetchingRef = useRef(false)
 
   const fetchStats = useCallback(async () => {
-    if (!USE_PROXY || fetchingRef.current) {
-      // Set isLoading to false if proxy is not configured
-      if (!USE_PROXY) {
+    if (!USE_HISTORY_API || fetchingRef.current) {
+      // Set isLoading to false if no history API is configured
+      if (!USE_HISTORY_API) {
         setIsLoading(false)
       }
       return
@@ -520,19 +551,20 @@ export function useNetworkComparison({
   const fetchingRef = useRef(false)
 
   const fetchComparison = useCallback(async () => {
-    if (!USE_PROXY || fetchingRef.current) {
-      // Set isLoading to false if proxy is not configured
-      if (!USE_PROXY) {
-        setIsLoading(false)
-      }
-      return
-    }
+    if (fetchingRef.current) return
 
     fetchingRef.current = true
     setIsLoading(true)
     setError(null)
 
     try {
+      if (!USE_HISTORY_API) {
+        const local = await loadNetworkComparison(currentPeriod)
+        setNetworks(local.networks)
+        setData(local.data)
+        return
+      }
+
       const response = await fetch(proxyEndpoints.chartsComparison(currentPeriod))
 
       if (!response.ok) {
@@ -592,12 +624,213 @@ export function useNetworkComparison({
   }
 }
 
+// ============================================
+// Custom Hook for Replay Frames
+// ============================================
+
+export interface ReplayFramesResponse {
+  success: boolean
+  network: string
+  period: string
+  count: number
+  data: ReplayFrame[]
+}
+
+interface UseReplayFramesOptions {
+  network: string
+  period?: ReplayPeriod
+  enabled?: boolean
+}
+
+interface UseReplayFramesReturn {
+  frames: ReplayFrame[]
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Replay frames of a network, oldest first. The proxy has no replay endpoint, so
+ * frames come from the in-app collector when it runs and from this browser otherwise.
+ */
+export function useReplayFrames({
+  network,
+  period = '24h',
+  enabled = true,
+}: UseReplayFramesOptions): UseReplayFramesReturn {
+  const [frames, setFrames] = useState<ReplayFrame[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestRef = useRef(0)
+
+  const fetchFrames = useCallback(async () => {
+    if (!network || !enabled) return
+
+    // Only the latest request may set state, so a slow response for an older
+    // period can't overwrite a newer one
+    const request = ++requestRef.current
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      let data: ReplayFrame[]
+      if (!HISTORY_COLLECTOR) {
+        data = await loadReplayFrames(network, period)
+      } else {
+        const response = await fetch(`/api/history/replay/${network}?period=${period}`)
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch replay frames: ${response.status}`)
+        }
+
+        const result: ReplayFramesResponse = await response.json()
+
+        if (!result.success) {
+          throw new Error('Failed to fetch replay frames')
+        }
+        data = result.data
+      }
+
+      if (request === requestRef.current) setFrames(data)
+    } catch (err) {
+      if (err instanceof Error && request === requestRef.current) {
+        setError(err.message)
+      }
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [network, period, enabled])
+
+  const refresh = useCallback(async () => {
+    await fetchFrames()
+  }, [fetchFrames])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchFrames()
+    }
+  }, [fetchFrames, enabled])
+
+  return {
+    frames,
+    isLoading,
+    error,
+    refresh,
+  }
+}
+
+// ============================================
+// Custom Hook for Pod Credit Snapshots
+// ============================================
+
+export interface CreditHistoryResponse {
+  success: boolean
+  since: number
+  interval: string
+  count: number
+  data: CreditSnapshot[]
+}
+
+interface UseCreditHistoryOptions {
+  // How far back to load (ms)
+  lookbackMs: number
+  interval?: CreditInterval
+  // Only this pod's credits
+  pubkey?: string
+  enabled?: boolean
+}
+
+interface UseCreditHistoryReturn {
+  snapshots: CreditSnapshot[]
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Pod credit snapshots, oldest first. Like replay frames, they come from the in-app
+ * collector when it runs and from this browser otherwise.
+ */
+export function useCreditHistory({
+  lookbackMs,
+  interval = '1h',
+  pubkey,
+  enabled = true,
+}: UseCreditHistoryOptions): UseCreditHistoryReturn {
+  const [snapshots, setSnapshots] = useState<CreditSnapshot[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestRef = useRef(0)
+
+  const fetchSnapshots = useCallback(async () => {
+    if (!enabled) return
+
+    // Only the latest request may set state, so a slow response for an older
+    // window can't overwrite a newer one
+    const request = ++requestRef.current
+    setIsLoading(true)
+    setError(null)
+
+    const since = Date.now() - lookbackMs
+
+    try {
+      let data: CreditSnapshot[]
+      if (!HISTORY_COLLECTOR) {
+        const local = thinCreditSnapshots(await loadCreditSnapshots(since), interval)
+        data = pubkey ? podCreditSnapshots(local, pubkey) : local
+      } else {
+        const params = new URLSearchParams({ since: String(since), interval })
+        if (pubkey) params.set('pubkey', pubkey)
+        const response = await fetch(`/api/history/credits?${params}`)
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch credit history: ${response.status}`)
+        }
+
+        const result: CreditHistoryResponse = await response.json()
+
+        if (!result.success) {
+          throw new Error('Failed to fetch credit history')
+        }
+        data = result.data
+      }
+
+      if (request === requestRef.current) setSnapshots(data)
+    } catch (err) {
+      if (err instanceof Error && request === requestRef.current) {
+        setError(err.message)
+      }
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [lookbackMs, interval, pubkey, enabled])
+
+  const refresh = useCallback(async () => {
+    await fetchSnapshots()
+  }, [fetchSnapshots])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchSnapshots()
+    }
+  }, [fetchSnapshots, enabled])
+
+  return {
+    snapshots,
+    isLoading,
+    error,
+    refresh,
+  }
+}
+
 // ============================================
 // Utility: Fetch latest data (real-time)
 // ============================================
 
 export async function fetchLatestData(network?: string): Promise<LatestNetworkData | Record<string, LatestNetworkData> | null> {
-  if (!USE_PROXY) return null
+  if (!USE_HISTORY_API) return null
 
   try {
     const response = await fetch(proxyEndpoints.historyLatest(network))
@@ -617,3 +850,277 @@ export async function fetchLatestData(network?: string): Promise<LatestNetworkDa
     return null
   }
 }
+
+// ============================================
+// Custom Hook for Availability Logs
+// ============================================
+
+export interface AvailabilityLogResponse {
+  success: boolean
+  network: string
+  data: AvailabilityLog | null
+}
+
+interface UseAvailabilityLogOptions {
+  network: string
+  enabled?: boolean
+}
+
+interface UseAvailabilityLogReturn {
+  log: AvailabilityLog | null
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Availability log of a network (see lib/availability.ts). Like replay frames, it comes
+ * from the in-app collector when it runs and from this browser otherwise.
+ */
+export function useAvailabilityLog({
+  network,
+  enabled = true,
+}: UseAvailabilityLogOptions): UseAvailabilityLogReturn {
+  const [log, setLog] = useState<AvailabilityLog | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestRef = useRef(0)
+
+  const fetchLog = useCallback(async () => {
+    if (!network || !enabled) return
+
+    // Only the latest request may set state, so a slow response for another
+    // network can't overwrite the current one
+    const request = ++requestRef.current
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      let data: AvailabilityLog | null
+      if (!HISTORY_COLLECTOR) {
+        data = await loadAvailabilityLog(network)
+      } else {
+        const response = await fetch(`/api/history/availability/${network}`)
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch availability: ${response.status}`)
+        }
+
+        const result: AvailabilityLogResponse = await response.json()
+
+        if (!result.success) {
+          throw new Error('Failed to fetch availability')
+        }
+        data = result.data
+      }
+
+      if (request === requestRef.current) setLog(data)
+    } catch (err) {
+      if (err instanceof Error && request === requestRef.current) {
+        setError(err.message)
+      }
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [network, enabled])
+
+  const refresh = useCallback(async () => {
+    await fetchLog()
+  }, [fetchLog])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchLog()
+    }
+  }, [fetchLog, enabled])
+
+  return {
+    log,
+    isLoading,
+    error,
+    refresh,
+  }
+}
+
+// ============================================
+// Custom Hook for Restart Logs
+// ============================================
+
+export interface RestartLogResponse {
+  success: boolean
+  network: string
+  data: RestartLog | null
+}
+
+interface UseRestartLogOptions {
+  network: string
+  enabled?: boolean
+}
+
+interface UseRestartLogReturn {
+  log: RestartLog | null
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Restart log of a network (see lib/restarts.ts), from the same source as availability
+ */
+export function useRestartLog({
+  network,
+  enabled = true,
+}: UseRestartLogOptions): UseRestartLogReturn {
+  const [log, setLog] = useState<RestartLog | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestRef = useRef(0)
+
+  const fetchLog = useCallback(async () => {
+    if (!network || !enabled) return
+
+    // Only the latest request may set state, so a slow response for another
+    // network can't overwrite the current one
+    const request = ++requestRef.current
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      let data: RestartLog | null
+      if (!HISTORY_COLLECTOR) {
+        data = await loadRestartLog(network)
+      } else {
+        const response = await fetch(`/api/history/restarts/${network}`)
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch restarts: ${response.status}`)
+        }
+
+        const result: RestartLogResponse = await response.json()
+
+        if (!result.success) {
+          throw new Error('Failed to fetch restarts')
+        }
+        data = result.data
+      }
+
+      if (request === requestRef.current) setLog(data)
+    } catch (err) {
+      if (err instanceof Error && request === requestRef.current) {
+        setError(err.message)
+      }
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [network, enabled])
+
+  const refresh = useCallback(async () => {
+    await fetchLog()
+  }, [fetchLog])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchLog()
+    }
+  }, [fetchLog, enabled])
+
+  return {
+    log,
+    isLoading,
+    error,
+    refresh,
+  }
+}
+
+// ============================================
+// Custom Hook for Version Logs
+// ============================================
+
+export interface VersionLogResponse {
+  success: boolean
+  network: string
+  data: VersionLog | null
+}
+
+interface UseVersionLogOptions {
+  network: string
+  enabled?: boolean
+}
+
+interface UseVersionLogReturn {
+  log: VersionLog | null
+  isLoading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+}
+
+/**
+ * Version log of a network (see lib/rollout.ts), from the same source as availability
+ */
+export function useVersionLog({
+  network,
+  enabled = true,
+}: UseVersionLogOptions): UseVersionLogReturn {
+  const [log, setLog] = useState<VersionLog | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const requestRef = useRef(0)
+
+  const fetchLog = useCallback(async () => {
+    if (!network || !enabled) return
+
+    // Only the latest request may set state, so a slow response for another
+    // network can't overwrite the current one
+    const request = ++requestRef.current
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      let data: VersionLog | null
+      if (!HISTORY_COLLECTOR) {
+        data = await loadVersionLog(network)
+      } else {
+        const response = await fetch(`/api/history/versions/${network}`)
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch versions: ${response.status}`)
+        }
+
+        const result: VersionLogResponse = await response.json()
+
+        if (!result.success) {
+          throw new Error('Failed to fetch versions')
+        }
+        data = result.data
+      }
+
+      if (request === requestRef.current) setLog(data)
+    } catch (err) {
+      if (err instanceof Error && request === requestRef.current) {
+        setError(err.message)
+      }
+    } finally {
+      if (request === requestRef.current) setIsLoading(false)
+    }
+  }, [network, enabled])
+
+  const refresh = useCallback(async () => {
+    await fetchLog()
+  }, [fetchLog])
+
+  useEffect(() => {
+    if (enabled) {
+      fetchLog()
+    }
+  }, [fetchLog, enabled])
+
+  return {
+    log,
+    isLoading,
+    error,
+    refresh,
+  }
+}
@@ -0,0 +1,92 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import type { NetworkConfig } from './networks'
+import { batchGeolocate } from './geolocation'
+import { loadLatencySnapshot, latencyPercentiles, type LatencyPercentiles } from './latency'
+
+// ============================================
+// Types
+// ============================================
+
+export interface NetworkLatencyRow extends LatencyPercentiles {
+  network: string
+  takenAt: number
+}
+
+export interface CountryLatencyRow extends LatencyPercentiles {
+  country: string
+  countryCode?: string
+}
+
+interface UseLatencyDistributionReturn {
+  byNetwork: NetworkLatencyRow[]
+  byCountry: CountryLatencyRow[]
+  isLoading: boolean
+  refresh: () => Promise<void>
+}
+
+/**
+ * Latency percentiles per network and per country, computed from the
+ * latency snapshot each dashboard crawl stores in IndexedDB.
+ * `countryNetwork` limits the country breakdown to one network.
+ */
+export function useLatencyDistribution(
+  networks: NetworkConfig[],
+  countryNetwork?: string
+): UseLatencyDistributionReturn {
+  const [byNetwork, setByNetwork] = useState<NetworkLatencyRow[]>([])
+  const [byCountry, setByCountry] = useState<CountryLatencyRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const snapshots = await Promise.all(networks.map(n => loadLatencySnapshot(n.id)))
+
+      const networkRows: NetworkLatencyRow[] = []
+      snapshots.forEach(snapshot => {
+        if (!snapshot || snapshot.nodes.length === 0) return
+        networkRows.push({
+          network: snapshot.networkId,
+          takenAt: snapshot.takenAt,
+          ...latencyPercentiles(snapshot.nodes.map(n => n.ms)),
+        })
+      })
+
+      // Country breakdown uses the (cached) geolocation of each sampled IP
+      const samples = snapshots
+        .filter(s => s && (!countryNetwork || s.networkId === countryNetwork))
+        .flatMap(s => s!.nodes)
+      const geo = await batchGeolocate(Array.from(new Set(samples.map(n => n.ip))))
+
+      const countries = new Map<string, { countryCode?: string; values: number[] }>()
+      samples.forEach(({ ip, ms }) => {
+        const location = geo.get(ip)
+        const country = location?.country || 'Unknown'
+        const entry = countries.get(country) ?? { countryCode: location?.countryCode, values: [] }
+        entry.values.push(ms)
+        countries.set(country, entry)
+      })
+
+      const countryRows: CountryLatencyRow[] = Array.from(countries.entries())
+        .map(([country, { countryCode, values }]) => ({
+          country,
+          countryCode,
+          ...latencyPercentiles(values),
+        }))
+        .sort((a, b) => b.count - a.count)
+
+      setByNetwork(networkRows)
+      setByCountry(countryRows)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [networks, countryNetwork])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  return { byNetwork, byCountry, isLoading, refresh: load }
+}
@@ -10,96 +10,23 @@ import {
   CACHE_TTL,
   cacheKeys,
 } from './indexedDB'
-
-// Types
-export interface NetworkPod {
-  address: string
-  last_seen_timestamp: number
-  pubkey: string | null
-  version: string
-}
-
-export interface VersionResponse {
-  version: string
-}
-
-export interface StatsResponse {
-  active_streams: number
-  cpu_percent: number
-  current_index: number
-  file_size: number
-  last_updated: number
-  packets_received: number
-  packets_sent: number
-  ram_total: number
-  ram_used: number
-  total_bytes: number
-  total_pages: number
-  uptime: number
-}
-
-export interface PodsResponse {
-  pods: NetworkPod[]
-  total_count: number
-}
-
-export interface NodeData {
-  ip: string
-  address: string
-  label: string
-  pubkey: string | null
-  registryVersion: string
-  status: 'online' | 'offline' | 'loading'
-  version?: VersionResponse
-  stats?: StatsResponse
-  pods?: PodsResponse
-  error?: string
-  lastFetched?: number
-}
-
-export interface NetworkConfig {
-  id: string
-  name: string
-  rpcUrl: string
-  type: 'devnet' | 'mainnet'
-}
-
-export const NETWORK_RPC_ENDPOINTS: NetworkConfig[] = [
-  { id: 'devnet1', name: 'Devnet 1', rpcUrl: 'https://rpc1.pchednode.com/rpc', type: 'devnet' },
-  { id: 'devnet2', name: 'Devnet 2', rpcUrl: 'https://rpc2.pchednode.com/rpc', type: 'devnet' },
-  { id: 'mainnet1', name: 'Mainnet 1', rpcUrl: 'https://rpc3.pchednode.com/rpc', type: 'mainnet' },
-  { id: 'mainnet2', name: 'Mainnet 2', rpcUrl: 'https://rpc4.pchednode.com/rpc', type: 'mainnet' },
-]
-
-// API helpers
-async function callRpcEndpoint(endpoint: string, method: string) {
-  try {
-    const response = await fetch('/api/prpc', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ endpoint, method }),
-    })
-    return response.json()
-  } catch (error) {
-    return { error: String(error) }
-  }
-}
-
-async function callApi(ip: string, method: string) {
-  try {
-    const response = await fetch('/api/prpc', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        endpoint: `http://${ip}:6000/rpc`,
-        method,
-      }),
-    })
-    return response.json()
-  } catch (error) {
-    return { error: String(error) }
-  }
-}
+import { describePrpcError } from './prpcErrors'
+import { NETWORK_RPC_ENDPOINTS, registryEndpoints } from './networks'
+import {
+  callPrpc,
+  nodeEndpoint,
+  getRegistryPodsWithFailover,
+  parseResult,
+  podsSchema,
+  buildNodeData,
+  placeholderNode,
+  type NodeData,
+  type NetworkPod,
+} from './prpc'
+
+// Types (shared with the rest of the app, re-exported for existing imports)
+export type { VersionResponse, StatsResponse, Pod, PodsResponse, NodeData, NetworkPod } from './prpc'
+export { NETWORK_RPC_ENDPOINTS, type NetworkConfig } from './networks'
 
 interface UseNodeCacheOptions {
   networkId: string
@@ -166,58 +93,35 @@ export function useNodeCache({
         return cached
       }
 
-      return {
-        ip: pod.address.split(':')[0],
-        address: pod.address,
-        label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${idx + 1}`,
-        pubkey: pod.pubkey,
-        registryVersion: pod.version,
-        status: 'loading' as const,
-      }
+      return placeholderNode(pod, idx)
     })
   }, [])
 
   // Fetch single node data
   const fetchNodeData = useCallback(async (pod: NetworkPod, index: number): Promise<NodeData> => {
-    const ip = pod.address.split(':')[0]
-    const baseData: NodeData = {
-      ip,
-      address: pod.address,
-      label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${index + 1}`,
-      pubkey: pod.pubkey,
-      registryVersion: pod.version,
-      status: 'loading',
-    }
+    const endpoint = nodeEndpoint(pod.address.split(':')[0])
 
+    // Phase 1: Fetch version and stats in parallel
     const [versionRes, statsRes] = await Promise.all([
-      callApi(ip, 'get-version'),
-      callApi(ip, 'get-stats'),
+      callPrpc(endpoint, 'get-version'),
+      callPrpc(endpoint, 'get-stats'),
     ])
 
-    if (versionRes.error && statsRes.error) {
-      const offlineResult: NodeData = {
-        ...baseData,
-        status: 'offline',
-        error: versionRes.error || statsRes.error,
-        lastFetched: Date.now(),
-      }
-      // Save to IndexedDB
-      await setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), offlineResult, CACHE_TTL.NODE_DATA)
-      return offlineResult
+    const partialResult = buildNodeData(pod, index, versionRes, statsRes)
+    if (partialResult.status === 'offline') {
+      await setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), partialResult, CACHE_TTL.NODE_DATA)
+      return partialResult
     }
 
-    const podsRes = await callApi(ip, 'get-pods')
+    // Phase 2: Fetch pods data
+    const podsRes = parseResult(await callPrpc(endpoint, 'get-pods'), podsSchema)
 
     const result: NodeData = {
-      ...baseData,
-      status: 'online',
-      version: versionRes.result as VersionResponse | undefined,
-      stats: statsRes.result as StatsResponse | undefined,
-      pods: podsRes.result as PodsResponse | undefined,
-      lastFetched: Date.now(),
+      ...partialResult,
+      pods: podsRes.result,
     }
 
-    // Save to IndexedDB
+    // Cache the result
     await setToDB(STORES.NODES, cacheKeys.nodeData(pod.address), result, CACHE_TTL.NODE_DATA)
     return result
   }, [])
@@ -253,18 +157,18 @@ export function useNodeCache({
     }
 
     // Fetch fresh registry data in background
-    const res = await callRpcEndpoint(network.rpcUrl, 'get-pods')
+    const res = await getRegistryPodsWithFailover(registryEndpoints(network))
 
     if (res.error) {
       if (forceRefresh || registryPods.length === 0) {
         setRegistryStatus('error')
-        setRegistryError(res.error)
+        setRegistryError(describePrpcError(res.error))
       }
       return
     }
 
-    const data = res.result as { pods: NetworkPod[]; total_count: number }
-    if (!data.pods || data.pods.length === 0) {
+    const data = res.result
+    if (!data || data.pods.length === 0) {
       if (forceRefresh || registryPods.length === 0) {
         setRegistryStatus('error')
         setRegistryError('No pods found in registry')
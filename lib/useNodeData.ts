@@ -1,110 +1,24 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { getFromCache, setToCache, CACHE_TTL, cacheKeys } from './cache'
-
-// Types
-export interface VersionResponse {
-  version: string
-}
-
-export interface StatsResponse {
-  active_streams: number
-  cpu_percent: number
-  current_index: number
-  file_size: number
-  last_updated: number
-  packets_received: number
-  packets_sent: number
-  ram_total: number
-  ram_used: number
-  total_bytes: number
-  total_pages: number
-  uptime: number
-}
-
-export interface Pod {
-  address: string
-  version: string
-  last_seen?: string
-  last_seen_timestamp: number
-  pubkey?: string | null
-}
-
-export interface PodsResponse {
-  pods: Pod[]
-  total_count: number
-}
-
-export interface NodeData {
-  ip: string
-  address: string
-  label: string
-  pubkey: string | null
-  registryVersion: string
-  status: 'online' | 'offline' | 'loading'
-  version?: VersionResponse
-  stats?: StatsResponse
-  pods?: PodsResponse
-  error?: string
-  lastFetched?: number
-  location?: {
-    city: string
-    country: string
-    countryCode?: string
-  }
-}
-
-export interface NetworkPod {
-  address: string
-  last_seen_timestamp: number
-  pubkey: string | null
-  version: string
-}
-
-export interface NetworkConfig {
-  id: string
-  name: string
-  rpcUrl: string
-  type: 'devnet' | 'mainnet'
-}
-
-export const NETWORK_RPC_ENDPOINTS: NetworkConfig[] = [
-  { id: 'devnet1', name: 'Devnet 1', rpcUrl: 'https://rpc1.pchednode.com/rpc', type: 'devnet' },
-  { id: 'devnet2', name: 'Devnet 2', rpcUrl: 'https://rpc2.pchednode.com/rpc', type: 'devnet' },
-  { id: 'mainnet1', name: 'Mainnet 1', rpcUrl: 'https://rpc3.pchednode.com/rpc', type: 'mainnet' },
-  { id: 'mainnet2', name: 'Mainnet 2', rpcUrl: 'https://rpc4.pchednode.com/rpc', type: 'mainnet' },
-]
-
-// API helpers
-async function callRpcEndpoint(endpoint: string, method: string) {
-  try {
-    const response = await fetch('/api/prpc', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ endpoint, method }),
-    })
-    return response.json()
-  } catch (error) {
-    return { error: String(error) }
-  }
-}
-
-async function callApi(ip: string, method: string) {
-  try {
-    const response = await fetch('/api/prpc', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        endpoint: `http://${ip}:6000/rpc`,
-        method,
-      }),
-    })
-    return response.json()
-  } catch (error) {
-    return { error: String(error) }
-  }
-}
+import { describePrpcError } from './prpcErrors'
+import { NETWORK_RPC_ENDPOINTS, registryEndpoints } from './networks'
+import { discoverFromGossip, type GossipDiscovery } from './gossip'
+import { scheduleCrawl, viewerPriority, type CrawlProgress } from './crawlScheduler'
+import { getFavorites } from './favorites'
+import type { NodeCallResults } from './prpcBatch'
+import {
+  getRegistryPodsWithFailover,
+  buildNodeData,
+  placeholderNode,
+  type NodeData,
+  type NetworkPod,
+} from './prpc'
+
+// Types (shared with the rest of the app, re-exported for existing imports)
+export type { VersionResponse, StatsResponse, Pod, PodsResponse, NodeData, NetworkPod } from './prpc'
+export { NETWORK_RPC_ENDPOINTS, type NetworkConfig } from './networks'
 
 interface UseNodeDataOptions {
   networkId: string
@@ -115,11 +29,13 @@ interface UseNodeDataOptions {
 interface UseNodeDataReturn {
   nodes: NodeData[]
   registryPods: NetworkPod[]
+  discovery: GossipDiscovery
   registryStatus: 'loading' | 'success' | 'error'
   registryError: string | null
   isLoading: boolean
   isCached: boolean
   lastUpdate: Date | null
+  crawlProgress: CrawlProgress | null
   refresh: () => Promise<void>
   changeNetwork: (networkId: string) => void
   selectedNetwork: string
@@ -137,6 +53,7 @@ export function useNodeData({
   const [isLoading, setIsLoading] = useState(false)
   const [isCached, setIsCached] = useState(false)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
+  const [crawlProgress, setCrawlProgress] = useState<CrawlProgress | null>(null)
   const [selectedNetwork, setSelectedNetwork] = useState(networkId)
 
   // Request deduplication
@@ -156,14 +73,7 @@ export function useNodeData({
       if (cached && cached.status !== 'loading') {
         return cached
       }
-      return {
-        ip: pod.address.split(':')[0],
-        address: pod.address,
-        label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${idx + 1}`,
-        pubkey: pod.pubkey,
-        registryVersion: pod.version,
-        status: 'loading' as const,
-      }
+      return placeholderNode(pod, idx)
     })
   }, [])
 
@@ -185,19 +95,19 @@ export function useNodeData({
     }
 
     // Fetch fresh data
-    const res = await callRpcEndpoint(network.rpcUrl, 'get-pods')
+    const res = await getRegistryPodsWithFailover(registryEndpoints(network))
 
     if (res.error) {
       // Only set error if we don't have cached data
       if (!useCacheFirst || registryPods.length === 0) {
         setRegistryStatus('error')
-        setRegistryError(res.error)
+        setRegistryError(describePrpcError(res.error))
       }
       return
     }
 
-    const data = res.result as { pods: NetworkPod[]; total_count: number }
-    if (!data.pods || data.pods.length === 0) {
+    const data = res.result
+    if (!data || data.pods.length === 0) {
       if (!useCacheFirst || registryPods.length === 0) {
         setRegistryStatus('error')
         setRegistryError('No pods found in registry')
@@ -220,53 +130,14 @@ export function useNodeData({
     setNodes(initialNodes)
   }, [loadCachedRegistry, loadCachedNodes, registryPods.length])
 
-  // Fetch single node data
-  const fetchNodeData = useCallback(async (pod: NetworkPod, index: number): Promise<NodeData> => {
-    const ip = pod.address.split(':')[0]
-    const baseData: NodeData = {
-      ip,
-      address: pod.address,
-      label: pod.pubkey ? `${pod.pubkey.slice(0, 8)}...` : `Node ${index + 1}`,
-      pubkey: pod.pubkey,
-      registryVersion: pod.version,
-      status: 'loading',
-    }
-
-    // Phase 1: Fetch version and stats in parallel
-    const [versionRes, statsRes] = await Promise.all([
-      callApi(ip, 'get-version'),
-      callApi(ip, 'get-stats'),
-    ])
-
-    if (versionRes.error && statsRes.error) {
-      const offlineResult: NodeData = {
-        ...baseData,
-        status: 'offline',
-        error: versionRes.error || statsRes.error,
-        lastFetched: Date.now(),
-      }
-      setToCache(cacheKeys.nodeData(pod.address), offlineResult, CACHE_TTL.NODE_DATA)
-      return offlineResult
-    }
-
-    // Phase 2: Fetch pods data
-    const podsRes = await callApi(ip, 'get-pods')
-
-    const result: NodeData = {
-      ...baseData,
-      status: 'online',
-      version: versionRes.result as VersionResponse | undefined,
-      stats: statsRes.result as StatsResponse | undefined,
-      pods: podsRes.result as PodsResponse | undefined,
-      lastFetched: Date.now(),
-    }
-
-    // Cache the result
+  // Build one node from its batch results and cache it
+  const nodeFromResults = useCallback((pod: NetworkPod, index: number, calls: NodeCallResults): NodeData => {
+    const result = buildNodeData(pod, index, calls['get-version'] ?? {}, calls['get-stats'] ?? {}, calls['get-pods'])
     setToCache(cacheKeys.nodeData(pod.address), result, CACHE_TTL.NODE_DATA)
     return result
   }, [])
 
-  // Fetch all nodes with optimized batching
+  // Fetch all nodes through the adaptive scheduler
   const fetchAllNodes = useCallback(async () => {
     if (fetchingRef.current || registryPods.length === 0) return
     fetchingRef.current = true
@@ -278,42 +149,44 @@ export function useNodeData({
     }
     abortControllerRef.current = new AbortController()
 
-    // Larger batch size for faster loading
-    const BATCH_SIZE = 10 // Increased from 5
-    const batches: NetworkPod[][] = []
+    const signal = abortControllerRef.current.signal
+    const favorites = await getFavorites()
+    const pending = new Map<string, NodeData>()
 
-    for (let i = 0; i < registryPods.length; i += BATCH_SIZE) {
-      batches.push(registryPods.slice(i, i + BATCH_SIZE))
+    // Update nodes progressively, coalesced into periodic state updates
+    const flush = () => {
+      if (pending.size === 0) return
+      const updates = new Map(pending)
+      pending.clear()
+      setNodes(prev => prev.map(n => updates.get(n.address) ?? n))
     }
+    const flushTimer = setInterval(flush, 250)
+
+    const { results, deferred } = await scheduleCrawl(
+      registryPods,
+      (pod, calls) => nodeFromResults(pod, registryPods.indexOf(pod), calls),
+      {
+        priority: viewerPriority(favorites),
+        onNode: node => pending.set(node.address, node),
+        onProgress: setCrawlProgress,
+        signal,
+      }
+    )
 
-    for (const batch of batches) {
-      if (abortControllerRef.current?.signal.aborted) break
-
-      const results = await Promise.all(
-        batch.map((pod) => {
-          const globalIdx = registryPods.indexOf(pod)
-          return fetchNodeData(pod, globalIdx)
-        })
-      )
-
-      // Update nodes progressively
-      setNodes(prev => {
-        const updated = [...prev]
-        results.forEach(result => {
-          const idx = updated.findIndex(n => n.address === result.address)
-          if (idx !== -1) {
-            updated[idx] = result
-          }
-        })
-        return updated
-      })
-    }
+    // Nodes backing off keep their last result
+    deferred.forEach(pod => {
+      const last = results.get(pod.address)
+      if (last) pending.set(pod.address, last)
+    })
+    clearInterval(flushTimer)
+    flush()
+    setCrawlProgress(null)
 
     setLastUpdate(new Date())
     setIsLoading(false)
     setIsCached(false)
     fetchingRef.current = false
-  }, [registryPods, fetchNodeData])
+  }, [registryPods, nodeFromResults])
 
   // Manual refresh
   const refresh = useCallback(async () => {
@@ -373,14 +246,19 @@ export function useNodeData({
     }
   }, [])
 
+  // Registry list merged with the peer lists of every node fetched so far
+  const discovery = useMemo(() => discoverFromGossip(registryPods, nodes), [registryPods, nodes])
+
   return {
     nodes,
     registryPods,
+    discovery,
     registryStatus,
     registryError,
     isLoading,
     isCached,
     lastUpdate,
+    crawlProgress,
     refresh,
     changeNetwork,
     selectedNetwork,
@@ -0,0 +1,61 @@
+// Notification log and watch settings for the notification center, kept in sync
+// with checks that run after crawls (lib/notifications.ts)
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  DEFAULT_WATCH_SETTINGS,
+  NOTIFICATIONS_CHANGED_EVENT,
+  loadNotifications,
+  loadWatchSettings,
+  saveWatchSettings,
+  markNotificationsRead,
+  clearNotifications,
+  type WatchNotification,
+  type WatchSettings,
+} from './notifications'
+
+interface UseNotificationsReturn {
+  // Newest first
+  notifications: WatchNotification[]
+  unread: number
+  settings: WatchSettings
+  updateSettings: (settings: WatchSettings) => Promise<void>
+  markRead: (ids?: string[]) => Promise<void>
+  clear: () => Promise<void>
+}
+
+export function useNotifications(): UseNotificationsReturn {
+  const [notifications, setNotifications] = useState<WatchNotification[]>([])
+  const [settings, setSettings] = useState<WatchSettings>(DEFAULT_WATCH_SETTINGS)
+
+  useEffect(() => {
+    let cancelled = false
+    const reload = () => {
+      Promise.all([loadNotifications(), loadWatchSettings()]).then(([log, stored]) => {
+        if (cancelled) return
+        setNotifications(log)
+        setSettings(stored)
+      })
+    }
+
+    reload()
+    window.addEventListener(NOTIFICATIONS_CHANGED_EVENT, reload)
+    return () => {
+      cancelled = true
+      window.removeEventListener(NOTIFICATIONS_CHANGED_EVENT, reload)
+    }
+  }, [])
+
+  const updateSettings = useCallback((next: WatchSettings) => saveWatchSettings(next), [])
+  const markRead = useCallback((ids?: string[]) => markNotificationsRead(ids), [])
+  const clear = useCallback(() => clearNotifications(), [])
+
+  return {
+    notifications,
+    unread: notifications.filter(notification => !notification.read).length,
+    settings,
+    updateSettings,
+    markRead,
+    clear,
+  }
+}
@@ -0,0 +1,100 @@
+// Page state kept in the URL query string, so a view survives reloads, can be
+// shared as a link and follows back/forward navigation. Values equal to their
+// default are left out of the URL to keep links short.
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+
+// popstate only fires on back/forward, so our own history writes announce themselves
+const URL_STATE_EVENT = 'urlstatechange'
+
+export interface UrlParamCodec<T> {
+  // null for values that are not valid; they fall back to the default
+  parse: (raw: string) => T | null
+  serialize: (value: T) => string
+}
+
+export const stringParam: UrlParamCodec<string> = {
+  parse: raw => raw,
+  serialize: value => value,
+}
+
+export const booleanParam: UrlParamCodec<boolean> = {
+  parse: raw => (raw === '1' || raw === 'true' ? true : raw === '0' || raw === 'false' ? false : null),
+  serialize: value => (value ? '1' : '0'),
+}
+
+// Comma-separated, e.g. a set of selected pubkeys
+export const listParam: UrlParamCodec<string[]> = {
+  parse: raw => raw.split(',').filter(Boolean),
+  serialize: value => value.join(','),
+}
+
+export function enumParam<T extends string>(values: readonly T[]): UrlParamCodec<T> {
+  return {
+    parse: raw => (values as readonly string[]).includes(raw) ? raw as T : null,
+    serialize: value => value,
+  }
+}
+
+function subscribe(callback: () => void): () => void {
+  window.addEventListener('popstate', callback)
+  window.addEventListener(URL_STATE_EVENT, callback)
+  return () => {
+    window.removeEventListener('popstate', callback)
+    window.removeEventListener(URL_STATE_EVENT, callback)
+  }
+}
+
+/**
+ * Current raw value of a query param. Effects that act on the initial URL should
+ * read it here: during hydration useUrlState still returns the default.
+ */
+export function readUrlParam(key: string): string | null {
+  if (typeof window === 'undefined') return null
+  return new URLSearchParams(window.location.search).get(key)
+}
+
+/**
+ * Set query params, or remove them with null. Pushes a history entry unless
+ * `replace` is set (e.g. for text typed into a search box).
+ */
+export function setUrlParams(updates: Record<string, string | null>, { replace = false } = {}): void {
+  const params = new URLSearchParams(window.location.search)
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value === null) params.delete(key)
+    else params.set(key, value)
+  })
+
+  const search = params.toString()
+  const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`
+  if (url === `${window.location.pathname}${window.location.search}${window.location.hash}`) return
+
+  if (replace) window.history.replaceState(null, '', url)
+  else window.history.pushState(null, '', url)
+  window.dispatchEvent(new Event(URL_STATE_EVENT))
+}
+
+/**
+ * useState backed by a query param. `defaultValue` and `codec` should be stable
+ * (module constants), since the parsed value is memoized on them.
+ */
+export function useUrlState<T>(
+  key: string,
+  defaultValue: T,
+  codec: UrlParamCodec<T>,
+  { replace = false } = {}
+): [T, (value: T) => void] {
+  const raw = useSyncExternalStore(subscribe, () => readUrlParam(key), () => null)
+
+  const value = useMemo(
+    () => (raw === null ? defaultValue : codec.parse(raw) ?? defaultValue),
+    [raw, defaultValue, codec]
+  )
+
+  const setValue = useCallback((next: T) => {
+    const serialized = codec.serialize(next)
+    setUrlParams({ [key]: serialized === codec.serialize(defaultValue) ? null : serialized }, { replace })
+  }, [key, defaultValue, codec, replace])
+
+  return [value, setValue]
+}
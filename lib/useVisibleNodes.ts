@@ -0,0 +1,43 @@
+// Tracks which node rows/cards are currently on screen so the crawl scheduler
+// can fetch them first. Elements opt in with a `data-node-address` attribute.
+
+import { useCallback, useEffect, useRef } from 'react'
+
+// Addresses of nodes currently intersecting the viewport (across all observers)
+const visibleNodes = new Set<string>()
+
+export function isNodeVisible(address: string): boolean {
+  return visibleNodes.has(address)
+}
+
+/**
+ * Returns a ref callback for node elements. Pass it as `ref` together with
+ * `data-node-address={node.address}`.
+ */
+export function useVisibleNodes() {
+  const observerRef = useRef<IntersectionObserver | null>(null)
+
+  useEffect(() => {
+    return () => observerRef.current?.disconnect()
+  }, [])
+
+  return useCallback((element: HTMLElement | null) => {
+    if (!element || typeof IntersectionObserver === 'undefined') return
+    if (!observerRef.current) {
+      observerRef.current = new IntersectionObserver(entries => {
+        entries.forEach(entry => {
+          const address = (entry.target as HTMLElement).dataset.nodeAddress
+          if (!address) return
+          if (entry.isIntersecting) visibleNodes.add(address)
+          else visibleNodes.delete(address)
+        })
+      })
+    }
+    const observer = observerRef.current
+    observer.observe(element)
+    return () => {
+      observer.unobserve(element)
+      if (element.dataset.nodeAddress) visibleNodes.delete(element.dataset.nodeAddress)
+    }
+  }, [])
+}
@@ -2,6 +2,7 @@ const cron = require('node-cron');
 const fetch = require('node-fetch');
 const AbortController = require('abort-controller');
 const { saveNetworkSnapshot, saveNodeHistory } = require('./mongodb');
+const { RPC_ENDPOINTS, NETWORK_IDS } = require('./networks');
 
 // Telegram bot for alerts (lazy loaded to avoid circular dependency)
 let telegramBot = null;
@@ -19,21 +20,8 @@ function getTelegramBot() {
 // Configuration from environment variables
 const COLLECTOR_BATCH_SIZE = parseInt(process.env.COLLECTOR_BATCH_SIZE, 10) || 10; // Nodes to process in parallel per batch
 
-// RPC endpoints configuration
-const RPC_ENDPOINTS = {
-  devnet1: 'https://rpc1.pchednode.com/rpc',
-  devnet2: 'https://rpc2.pchednode.com/rpc',
-  mainnet1: 'https://rpc3.pchednode.com/rpc',
-  mainnet2: 'https://rpc4.pchednode.com/rpc',
-};
-
 // In-memory cache for quick access
-let latestData = {
-  devnet1: null,
-  devnet2: null,
-  mainnet1: null,
-  mainnet2: null,
-};
+let latestData = Object.fromEntries(NETWORK_IDS.map(network => [network, null]));
 
 /**
  * Fetch with timeout using AbortController
@@ -279,7 +267,7 @@ async function collectAllNetworks() {
   const startTime = Date.now();
 
   const results = {};
-  for (const network of Object.keys(RPC_ENDPOINTS)) {
+  for (const network of NETWORK_IDS) {
     try {
       results[network] = await collectNetworkData(network);
     } catch (error) {
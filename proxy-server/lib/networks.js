@@ -0,0 +1,18 @@
+// Registry RPC endpoints of the networks the proxy serves and collects history for.
+// The proxy is deployed on its own, so this is a copy of the built-in networks in the
+// app's lib/networks.ts (lib/networks.test.ts fails when they drift apart).
+// User-defined networks are not collected; their registries can still be reached
+// through /api/rpc.
+const RPC_ENDPOINTS = {
+  devnet1: 'https://rpc1.pchednode.com/rpc',
+  devnet2: 'https://rpc2.pchednode.com/rpc',
+  mainnet1: 'https://rpc3.pchednode.com/rpc',
+  mainnet2: 'https://rpc4.pchednode.com/rpc',
+};
+
+const NETWORK_IDS = Object.keys(RPC_ENDPOINTS);
+
+module.exports = {
+  RPC_ENDPOINTS,
+  NETWORK_IDS,
+};
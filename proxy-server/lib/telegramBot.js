@@ -3,6 +3,7 @@ const { GoogleGenerativeAI } = require('@google/generative-ai');
 const fetch = require('node-fetch');
 const { getLatestSnapshots, getNodeHistory, getHistoricalData } = require('./mongodb');
 const { getLatestData, fetchPods } = require('./dataCollector');
+const { NETWORK_IDS } = require('./networks');
 
 // Bot instance
 let bot = null;
@@ -234,7 +235,7 @@ function formatUptimeForAI(seconds) {
  * Get all nodes data from all networks
  */
 function getAllNodesData() {
-  const networks = ['devnet1', 'devnet2', 'mainnet1', 'mainnet2'];
+  const networks = NETWORK_IDS;
   const allNodes = [];
 
   for (const network of networks) {
@@ -551,7 +552,7 @@ Welcome! I can help you monitor Xandeum network nodes.
 /ask <question> - Ask AI about network
 Or just send a message to chat with AI!
 
-*Networks:* devnet1, devnet2, mainnet1, mainnet2
+*Networks:* ${NETWORK_IDS.join(', ')}
     `;
     await bot.sendMessage(chatId, welcomeMessage, { parse_mode: 'Markdown' });
   });
@@ -615,7 +616,7 @@ Or just send a message to chat with AI!
         // Specific network
         const data = snapshots.find(s => s.network === network);
         if (!data) {
-          await bot.sendMessage(chatId, `❌ Network "${network}" not found.\nAvailable: devnet1, devnet2, mainnet1, mainnet2`);
+          await bot.sendMessage(chatId, `❌ Network "${network}" not found.\nAvailable: ${NETWORK_IDS.join(', ')}`);
           return;
         }
 
@@ -665,7 +666,7 @@ Or just send a message to chat with AI!
       await bot.sendMessage(chatId, '🔍 Searching for node...');
 
       // Search in all networks
-      const networks = ['devnet1', 'devnet2', 'mainnet1', 'mainnet2'];
+      const networks = NETWORK_IDS;
       let foundNode = null;
       let foundNetwork = null;
 
@@ -8,6 +8,7 @@ const fetch = require('node-fetch');
 const mongodb = require('./lib/mongodb');
 const { startCollector, getLatestData } = require('./lib/dataCollector');
 const telegramBot = require('./lib/telegramBot');
+const { RPC_ENDPOINTS } = require('./lib/networks');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -21,14 +22,6 @@ app.use(cors({
 
 app.use(express.json());
 
-// RPC endpoints configuration
-const RPC_ENDPOINTS = {
-  devnet1: 'https://rpc1.pchednode.com/rpc',
-  devnet2: 'https://rpc2.pchednode.com/rpc',
-  mainnet1: 'https://rpc3.pchednode.com/rpc',
-  mainnet2: 'https://rpc4.pchednode.com/rpc',
-};
-
 // Cache for RPC responses (simple in-memory cache)
 const cache = new Map();
 const CACHE_TTL = 60 * 1000; // 1 minute